@@ -0,0 +1,62 @@
+// 资源缓存Service Worker - 缓存检测模型、3D模型和第三方运行时文件，断网后仍可使用物体检测和手部追踪
+const CACHE_PREFIX = 'fingersuit-assets-';
+const CACHE_NAME = `${CACHE_PREFIX}v1`;
+
+// 安装时预先缓存默认检测模型，其余资源在首次使用时缓存
+const PRECACHE_URLS = ['/models/yolo11n.onnx'];
+
+// 按网络优先、缓存兜底策略处理的路径
+const CACHED_PATHS = [/^\/models\//, /^\/vendor\//];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .catch((error) => console.warn('预缓存模型失败:', error))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// 清理旧版本缓存
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isCachedAsset = (url) =>
+  url.origin === self.location.origin && CACHED_PATHS.some((pattern) => pattern.test(url.pathname));
+
+// 网络优先：在线时总是取最新文件（同一地址替换的模型或升级后的运行时）并更新缓存，
+// 断网或服务器出错时回退到缓存
+const fetchAndCache = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+      return response;
+    }
+    return (await cache.match(request)) || response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (!cached) {
+      throw error;
+    }
+    return cached;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method === 'GET' && isCachedAsset(url)) {
+    event.respondWith(fetchAndCache(request));
+  }
+});
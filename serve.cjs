@@ -1,31 +1,97 @@
 const express = require('express');
 const path = require('path');
+const { WebSocketServer, WebSocket } = require('ws');
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// 需要显式指定的MIME类型（模型和运行时文件，包括 /vendor/ 下的ONNX Runtime和MediaPipe资源）
+const MIME_TYPES = {
+  '.wasm': 'application/wasm',
+  '.mjs': 'text/javascript',
+  '.onnx': 'application/octet-stream',
+  '.glb': 'model/gltf-binary',
+  '.tflite': 'application/octet-stream',
+  '.binarypb': 'application/octet-stream',
+  '.data': 'application/octet-stream'
+};
+
 // 设置静态文件目录
-app.use(express.static(path.join(__dirname, 'dist')));
-
-// 设置正确的MIME类型
-app.use((req, res, next) => {
-  if (req.path.endsWith('.wasm')) {
-    res.type('application/wasm');
-  } else if (req.path.endsWith('.onnx')) {
-    res.type('application/octet-stream');
-  } else if (req.path.endsWith('.glb')) {
-    res.type('model/gltf-binary');
+app.use(express.static(path.join(__dirname, 'dist'), {
+  setHeaders: (res, filePath) => {
+    const type = MIME_TYPES[path.extname(filePath)];
+    if (type) {
+      res.setHeader('Content-Type', type);
+    }
+    // Service Worker脚本不缓存，保证更新能及时生效
+    if (path.basename(filePath) === 'sw.js') {
+      res.setHeader('Cache-Control', 'no-cache');
+    }
   }
-  next();
-});
+}));
 
 // 处理所有路由，返回index.html（用于SPA路由）
 app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, 'dist', 'index.html'));
 });
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 指套触感反馈系统已启动`);
   console.log(`📱 本地访问地址: http://localhost:${PORT}`);
   console.log(`🌐 网络访问地址: http://0.0.0.0:${PORT}`);
   console.log(`📁 静态文件目录: ${path.join(__dirname, 'dist')}`);
-});
\ No newline at end of file
+  console.log(`🔌 触觉设备桥接: ws://localhost:${PORT}/haptic-bridge（网关连接 /haptic-bridge/gateway）`);
+});
+
+// 触觉设备WebSocket中继：一个浏览器连接 /haptic-bridge，一个设备网关（如USB/BLE网关进程）连接
+// /haptic-bridge/gateway，两者配对后互相转发帧；已有同角色连接时拒绝新连接，避免多个页面互相收到对方的帧。
+// 设置 HAPTIC_BRIDGE_TOKEN 后两端都需在地址中带上 ?token=...，防止局域网内其他人控制指套
+const BRIDGE_PATHS = { '/haptic-bridge': 'browser', '/haptic-bridge/gateway': 'gateway' };
+const BRIDGE_ROLE_LABELS = { browser: '浏览器', gateway: '设备网关' };
+const BRIDGE_TOKEN = process.env.HAPTIC_BRIDGE_TOKEN || '';
+const bridge = new WebSocketServer({ noServer: true });
+const bridgePeers = { browser: null, gateway: null };
+
+// 拒绝升级请求
+const rejectUpgrade = (socket, status, reason) => {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url, 'http://localhost');
+  const role = BRIDGE_PATHS[url.pathname];
+  if (!role) {
+    rejectUpgrade(socket, 404, 'Not Found');
+    return;
+  }
+  if (BRIDGE_TOKEN && url.searchParams.get('token') !== BRIDGE_TOKEN) {
+    console.warn(`⛔ 桥接令牌无效，拒绝${BRIDGE_ROLE_LABELS[role]}连接: ${req.socket.remoteAddress}`);
+    rejectUpgrade(socket, 401, 'Unauthorized');
+    return;
+  }
+  if (bridgePeers[role]) {
+    console.warn(`⛔ 已有${BRIDGE_ROLE_LABELS[role]}连接，拒绝: ${req.socket.remoteAddress}`);
+    rejectUpgrade(socket, 409, 'Conflict');
+    return;
+  }
+
+  bridge.handleUpgrade(req, socket, head, (ws) => {
+    bridgePeers[role] = ws;
+    console.log(`🔗 桥接${BRIDGE_ROLE_LABELS[role]}已连接: ${req.socket.remoteAddress}`);
+    const peerRole = role === 'browser' ? 'gateway' : 'browser';
+
+    ws.on('message', (data, isBinary) => {
+      const peer = bridgePeers[peerRole];
+      if (peer && peer.readyState === WebSocket.OPEN) {
+        peer.send(data, { binary: isBinary });
+      }
+    });
+
+    ws.on('close', () => {
+      if (bridgePeers[role] === ws) {
+        bridgePeers[role] = null;
+      }
+      console.log(`🔌 桥接${BRIDGE_ROLE_LABELS[role]}已断开: ${req.socket.remoteAddress}`);
+    });
+  });
+});
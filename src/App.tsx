@@ -1,12 +1,37 @@
 // 指套触感反馈系统 - 主应用组件
-import React, { useState, useEffect, useCallback } from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { useAppStore } from './stores/useAppStore';
-import { createHapticController, HapticProfiles } from './utils/hapticController';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { BrowserRouter as Router, Routes, Route, Navigate, Link } from 'react-router-dom';
+import { RefreshCw, SlidersHorizontal, HardDriveDownload, AudioWaveform, ListMusic, Fingerprint } from 'lucide-react';
+import { useAppStore, useActiveUserProfile, useDeviceCalibrations, useHapticSequences, useInteractionMode } from './stores/useAppStore';
+import { adaptHapticProfileToContactSide, createHapticController, HapticProfiles, scaleHapticProfileByForce, withMeasuredForce } from './utils/hapticController';
+import { createSimulatedFingerSuit, getSimulatedFingerSuit } from './utils/simulatedFingerSuit';
+import { getDefaultBridgeUrl } from './utils/hapticTransport';
+import type { TransportOptions } from './utils/hapticTransport';
+import { createHapticDeviceManager } from './utils/hapticDeviceManager';
+import { getThermalLimitsFromConfig } from './utils/thermalSafetyGovernor';
+import { createHapticSequencer, findHapticSequence } from './utils/hapticSequencer';
+import { createAudioHapticRenderer, getAudioConfig } from './utils/audioHapticRenderer';
+import { createVibrationApiRenderer } from './utils/vibrationApiRenderer';
 import CameraView from './components/camera/CameraView';
 import Scene3D from './components/ar/Scene3D';
 import TouchStatsPanel from './components/ui/TouchStatsPanel';
-import type { Point2D, Point3D, DetectionResult, CollisionEvent, Virtual3DObject } from './types';
+import VirtualActuatorPanel from './components/device/VirtualActuatorPanel';
+import FingerDevicePanel from './components/device/FingerDevicePanel';
+import SensorStreamPanel from './components/device/SensorStreamPanel';
+import LinkQualityPanel from './components/device/LinkQualityPanel';
+import AudioFeedbackPanel from './components/device/AudioFeedbackPanel';
+import CalibrationPage from './pages/Calibration';
+import FirmwarePage from './pages/Firmware';
+import ProfileEditorPage from './pages/ProfileEditor';
+import SequenceEditorPage from './pages/SequenceEditor';
+import PerceptionTestPage from './pages/PerceptionTest';
+import type { Point2D, Point3D, DetectionResult, CollisionEvent, Virtual3DObject, TransportKind, FingerDevice } from './types';
+import type { PressureSensorData, FlexSensorData, Quaternion } from './types';
+import type { SimulatedFingerSuit } from './utils/simulatedFingerSuit';
+import type { LinkQualityStats } from './utils/linkQualityMonitor';
+
+// 传感器数据写入全局状态的间隔（毫秒）
+const SENSOR_FLUSH_INTERVAL = 100;
 
 // AR叠加视图组件
 const AROverlayView: React.FC<{
@@ -128,7 +153,9 @@ const HomePage: React.FC = () => {
   const [fingerPosition3D, setFingerPosition3D] = useState<Point3D | null>(null);
   const [detections, setDetections] = useState<DetectionResult[]>([]);
   const [hapticController] = useState(() => createHapticController());
-  const [isDeviceConnected, setIsDeviceConnected] = useState(false);
+  // 从校准页返回时沿用已建立的连接
+  const [isDeviceConnected, setIsDeviceConnected] = useState(() => hapticController.connected);
+  const [simulatedSuit, setSimulatedSuit] = useState<SimulatedFingerSuit | null>(() => getSimulatedFingerSuit());
   const [viewMode, setViewMode] = useState<'ar' | 'split'>('ar');
   
   const { 
@@ -136,8 +163,55 @@ const HomePage: React.FC = () => {
     device, 
     interactionMode, 
     virtual3DObjects,
+    config,
     actions 
   } = useAppStore();
+  const transportKind: TransportKind = config.haptic.transport || 'bluetooth';
+  const isReconnecting = device?.connectionState === 'reconnecting';
+  const [deviceManager] = useState(() => createHapticDeviceManager());
+  const [sequencer] = useState(() => createHapticSequencer());
+  const [audioRenderer] = useState(() => createAudioHapticRenderer());
+  const [vibrationRenderer] = useState(() => createVibrationApiRenderer());
+  const hapticSequences = useHapticSequences();
+
+  // 根据配置的传输方式生成连接参数
+  const transportOptions = useMemo<TransportOptions>(() => {
+    const { bridgeUrl, serialBaudRate } = config.haptic;
+    return transportKind === 'websocket'
+      ? { kind: 'websocket', url: bridgeUrl || getDefaultBridgeUrl() }
+      : transportKind === 'serial'
+        ? { kind: 'serial', baudRate: serialBaudRate }
+        : { kind: 'bluetooth' };
+  }, [config.haptic, transportKind]);
+
+  // 从其他页面返回时同步设备信息（如固件升级后的版本）
+  useEffect(() => {
+    const deviceInfo = hapticController.getDeviceInfo();
+    if (hapticController.connected && deviceInfo) {
+      actions.updateDeviceStatus(deviceInfo);
+    }
+  }, [hapticController, actions]);
+
+  // 手机振动跟随用户整体触觉强度
+  useEffect(() => {
+    vibrationRenderer.setIntensityScale(interactionMode.settings.hapticIntensity);
+  }, [vibrationRenderer, interactionMode.settings.hapticIntensity]);
+
+  // 同步音频反馈开关、音量和输出设备
+  useEffect(() => {
+    audioRenderer.setEnabled(interactionMode.settings.audioFeedback);
+  }, [audioRenderer, interactionMode.settings.audioFeedback]);
+
+  useEffect(() => {
+    audioRenderer.configure(getAudioConfig(config.audio));
+  }, [audioRenderer, config.audio]);
+
+  // 同步温度安全限制到所有控制器
+  useEffect(() => {
+    const limits = getThermalLimitsFromConfig(config.haptic);
+    hapticController.setThermalLimits(limits);
+    deviceManager.setThermalLimits(limits);
+  }, [config.haptic, hapticController, deviceManager]);
 
   // 初始化系统
   useEffect(() => {
@@ -202,16 +276,109 @@ const HomePage: React.FC = () => {
     initializeSystem();
   }, [actions]);
 
+  // 同步设备断开和电量变化
+  useEffect(() => {
+    const handleDisconnected = () => {
+      setIsDeviceConnected(false);
+      actions.disconnectDevice();
+      actions.setFingerOrientation(null);
+      actions.updatePerformanceMetrics({ hapticLatency: 0, hapticJitter: 0, hapticPacketLoss: 0, hapticLatencyHistogram: [] });
+    };
+    const handleBatteryUpdate = (batteryLevel: number) => {
+      actions.updateDeviceStatus({ batteryLevel });
+    };
+    const handleReconnecting = ({ attempt }: { attempt: number }) => {
+      setIsDeviceConnected(false);
+      actions.updateDeviceStatus({ connected: false, connectionState: 'reconnecting', reconnectAttempt: attempt });
+    };
+    const handleReconnected = (deviceInfo: FingerDevice) => {
+      setIsDeviceConnected(true);
+      actions.updateDeviceStatus({ ...deviceInfo, reconnectAttempt: undefined });
+    };
+    const handleQueueDepth = (depth: number) => {
+      actions.updatePerformanceMetrics({ hapticQueueDepth: depth });
+    };
+    // 延迟探测统计
+    const handleLinkQuality = (stats: LinkQualityStats) => {
+      actions.updatePerformanceMetrics({
+        hapticLatency: stats.latency,
+        hapticJitter: stats.jitter,
+        hapticPacketLoss: stats.packetLoss,
+        hapticLatencyHistogram: stats.histogram,
+        connectionQuality: stats.quality
+      });
+    };
+
+    hapticController.addEventListener('disconnected', handleDisconnected);
+    hapticController.addEventListener('batteryUpdate', handleBatteryUpdate);
+    hapticController.addEventListener('reconnecting', handleReconnecting);
+    hapticController.addEventListener('reconnected', handleReconnected);
+    hapticController.addEventListener('queueDepth', handleQueueDepth);
+    hapticController.addEventListener('linkQuality', handleLinkQuality);
+    hapticController.addEventListener('safetyViolation', actions.addError);
+    return () => {
+      hapticController.removeEventListener('disconnected', handleDisconnected);
+      hapticController.removeEventListener('batteryUpdate', handleBatteryUpdate);
+      hapticController.removeEventListener('reconnecting', handleReconnecting);
+      hapticController.removeEventListener('reconnected', handleReconnected);
+      hapticController.removeEventListener('queueDepth', handleQueueDepth);
+      hapticController.removeEventListener('linkQuality', handleLinkQuality);
+      hapticController.removeEventListener('safetyViolation', actions.addError);
+    };
+  }, [hapticController, actions]);
+
+  // 同步手套传感器数据流，按固定间隔批量写入全局状态以免每个采样都触发渲染
+  const sensorBuffer = useRef<{ pressure: PressureSensorData[]; flex: FlexSensorData[] }>({ pressure: [], flex: [] });
+  const pendingOrientation = useRef<Quaternion | null>(null);
+  useEffect(() => {
+    const handlePressureData = (sample: PressureSensorData) => {
+      sensorBuffer.current.pressure.push(sample);
+    };
+    const handleFlexData = (sample: FlexSensorData) => {
+      sensorBuffer.current.flex.push(sample);
+    };
+    const handleOrientation = (orientation: Quaternion) => {
+      pendingOrientation.current = orientation;
+    };
+    const flushTimer = setInterval(() => {
+      if (pendingOrientation.current) {
+        actions.setFingerOrientation(pendingOrientation.current);
+        pendingOrientation.current = null;
+      }
+
+      const { pressure, flex } = sensorBuffer.current;
+      if (pressure.length === 0 && flex.length === 0) return;
+      sensorBuffer.current = { pressure: [], flex: [] };
+      actions.appendSensorSamples({ pressure, flex });
+    }, SENSOR_FLUSH_INTERVAL);
+
+    hapticController.addEventListener('pressureData', handlePressureData);
+    hapticController.addEventListener('flexData', handleFlexData);
+    hapticController.addEventListener('orientation', handleOrientation);
+    return () => {
+      clearInterval(flushTimer);
+      hapticController.removeEventListener('pressureData', handlePressureData);
+      hapticController.removeEventListener('flexData', handleFlexData);
+      hapticController.removeEventListener('orientation', handleOrientation);
+    };
+  }, [hapticController, actions]);
+
+  // 设备连接成功后更新状态
+  const handleDeviceConnected = useCallback(async () => {
+    setIsDeviceConnected(true);
+    const deviceInfo = hapticController.getDeviceInfo();
+    if (deviceInfo) {
+      await actions.connectDevice(deviceInfo.id);
+      actions.updateDeviceStatus(deviceInfo);
+    }
+  }, [hapticController, actions]);
+
   // 设备连接处理
   const handleConnectDevice = useCallback(async () => {
     try {
-      const success = await hapticController.connect();
+      const success = await hapticController.connect(transportOptions);
       if (success) {
-        setIsDeviceConnected(true);
-        const deviceInfo = hapticController.getDeviceInfo();
-        if (deviceInfo) {
-          await actions.connectDevice(deviceInfo.id);
-        }
+        await handleDeviceConnected();
       }
     } catch (error) {
       console.error('设备连接失败:', error);
@@ -222,7 +389,29 @@ const HomePage: React.FC = () => {
         context: error instanceof Error ? error.message : '未知错误'
       });
     }
-  }, [hapticController, actions]);
+  }, [hapticController, actions, handleDeviceConnected, transportOptions]);
+
+  // 切换传输方式
+  const handleTransportChange = useCallback((transport: TransportKind) => {
+    actions.updateConfig({ haptic: { ...config.haptic, transport } });
+  }, [actions, config.haptic]);
+
+  // 连接模拟设备（无硬件时使用）
+  const handleConnectSimulatedDevice = useCallback(async () => {
+    const suit = createSimulatedFingerSuit();
+    setSimulatedSuit(suit);
+
+    const success = await hapticController.connect({ kind: 'bluetooth', device: suit.device });
+    if (success) {
+      await handleDeviceConnected();
+    } else {
+      actions.addError({
+        code: 'DEVICE_CONNECTION_FAILED',
+        message: '模拟设备连接失败',
+        timestamp: Date.now()
+      });
+    }
+  }, [hapticController, actions, handleDeviceConnected]);
 
   // 处理2D指尖位置更新
   const handleFingerPosition2D = useCallback((position: Point2D | null) => {
@@ -253,11 +442,22 @@ const HomePage: React.FC = () => {
   }, [actions]);
 
   // 处理碰撞事件
-  const handleCollision = useCallback(async (event: CollisionEvent) => {
+  const handleCollision = useCallback((collision: CollisionEvent) => {
+    // 触觉反馈：优先发往接触手指上配对的指套，否则使用单指套设备
+    const fingerController = deviceManager.getControllerForEvent(collision);
+    const targetController = fingerController || (isDeviceConnected ? hapticController : null);
+    // 指套带压力传感器时用实测指尖压力作为接触力
+    const event = targetController ? withMeasuredForce(collision, targetController) : collision;
+    // 按压越重振动越强；指甲接触时减弱振动并去掉温度
+    const profile = event.material.hapticProfile
+      ? adaptHapticProfileToContactSide(scaleHapticProfileByForce(event.material.hapticProfile, event.force), event.contactSide)
+      : null;
+
     console.log('🎯 碰撞事件触发:', {
       objectId: event.objectId,
       objectName: event.objectName,
       type: event.type,
+      force: event.force,
       material: event.material,
       timestamp: new Date(event.timestamp).toLocaleTimeString()
     });
@@ -265,60 +465,43 @@ const HomePage: React.FC = () => {
     // 增加触碰计数
     actions.incrementTouchCount(event.objectId, event.material.type);
     
-    // 触发触觉反馈
-    console.log('🔌 设备连接状态:', isDeviceConnected);
+    console.log('🔌 设备连接状态:', isDeviceConnected, '手指:', event.hand, event.finger, '接触面:', event.contactSide);
     console.log('🎮 触觉配置文件:', event.material.hapticProfile);
     
-    if (isDeviceConnected && event.material.hapticProfile) {
+    // 材质引用效果序列时播放序列（指甲接触除外），同一指套上正在播放的序列会被取代
+    const sequence = event.material.sequenceId && event.contactSide !== 'nail'
+      ? findHapticSequence(event.material.sequenceId, hapticSequences)
+      : null;
+    if (targetController && sequence && sequencer.play(sequence, targetController, 'collision')) {
+      console.log('🎼 播放效果序列:', sequence.name);
+    } else if (targetController && profile) {
       console.log('📡 开始发送触觉反馈...');
-      try {
-        const success = await hapticController.sendHapticFeedback(
-          event.material.hapticProfile
-        );
-        console.log('✅ 触觉反馈发送结果:', success);
-      } catch (error) {
-        console.error('❌ 触觉反馈播放失败:', error);
-      }
+      // 不等待发送完成，由控制器调度器合并和丢弃过期指令
+      targetController.sendHapticFeedback(profile)
+        .then(success => console.log('✅ 触觉反馈发送结果:', success))
+        .catch(error => console.error('❌ 触觉反馈播放失败:', error));
     } else {
-      if (!isDeviceConnected) {
+      if (!targetController) {
         console.warn('⚠️ 设备未连接，无法发送触觉反馈');
       }
-      if (!event.material.hapticProfile) {
+      if (!profile) {
         console.warn('⚠️ 材质缺少触觉配置文件');
       }
       
-      // 模拟触觉反馈（视觉和音频提示）
-      console.log('🔊 播放模拟触觉反馈');
-      
-      // 播放音频提示
-      try {
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-        const oscillator = audioContext.createOscillator();
-        const gainNode = audioContext.createGain();
-        
-        oscillator.connect(gainNode);
-        gainNode.connect(audioContext.destination);
-        
-        // 根据材质硬度调整音频频率
-        const frequency = 200 + (event.material.hardness * 300);
-        oscillator.frequency.setValueAtTime(frequency, audioContext.currentTime);
-        oscillator.type = 'sine';
-        
-        gainNode.gain.setValueAtTime(0.1, audioContext.currentTime);
-        gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.1);
-        
-        oscillator.start(audioContext.currentTime);
-        oscillator.stop(audioContext.currentTime + 0.1);
-        
-        console.log('🎵 音频反馈播放成功');
-      } catch (audioError) {
-        console.warn('🔇 音频反馈播放失败:', audioError);
+      // 没有指套时用手机马达和音频渲染触觉配置（音频需在交互设置中开启）
+      if (profile) {
+        if (vibrationRenderer.render(profile)) {
+          console.log('📳 播放手机振动反馈');
+        }
+        if (audioRenderer.render(profile)) {
+          console.log('🎵 播放音频触觉反馈');
+        }
       }
     }
     
     // 更新碰撞状态
     actions.addCollisionEvent(event);
-  }, [isDeviceConnected, hapticController, actions]);
+  }, [isDeviceConnected, hapticController, deviceManager, sequencer, audioRenderer, vibrationRenderer, hapticSequences, actions]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -362,6 +545,41 @@ const HomePage: React.FC = () => {
                   分屏视图
                 </button>
               </div>
+              <Link
+                to="/calibration"
+                className="flex items-center px-3 py-2 text-sm text-gray-600 rounded-lg hover:bg-gray-100 hover:text-gray-900"
+              >
+                <SlidersHorizontal className="w-4 h-4 mr-1" />
+                设备校准
+              </Link>
+              <Link
+                to="/firmware"
+                className="flex items-center px-3 py-2 text-sm text-gray-600 rounded-lg hover:bg-gray-100 hover:text-gray-900"
+              >
+                <HardDriveDownload className="w-4 h-4 mr-1" />
+                固件升级
+              </Link>
+              <Link
+                to="/profiles"
+                className="flex items-center px-3 py-2 text-sm text-gray-600 rounded-lg hover:bg-gray-100 hover:text-gray-900"
+              >
+                <AudioWaveform className="w-4 h-4 mr-1" />
+                触觉配置
+              </Link>
+              <Link
+                to="/sequences"
+                className="flex items-center px-3 py-2 text-sm text-gray-600 rounded-lg hover:bg-gray-100 hover:text-gray-900"
+              >
+                <ListMusic className="w-4 h-4 mr-1" />
+                效果序列
+              </Link>
+              <Link
+                to="/perception"
+                className="flex items-center px-3 py-2 text-sm text-gray-600 rounded-lg hover:bg-gray-100 hover:text-gray-900"
+              >
+                <Fingerprint className="w-4 h-4 mr-1" />
+                感知校准
+              </Link>
             </div>
 
             {/* 设备状态和控制 */}
@@ -369,15 +587,28 @@ const HomePage: React.FC = () => {
               {/* 设备状态 */}
               <div className="flex items-center space-x-2">
                 <div className={`w-2 h-2 rounded-full ${
-                  isDeviceConnected ? 'bg-green-400 animate-pulse' : 'bg-red-400'
+                  isDeviceConnected ? 'bg-green-400 animate-pulse' : isReconnecting ? 'bg-yellow-400 animate-pulse' : 'bg-red-400'
                 }`}></div>
                 <span className="text-sm text-gray-600">
-                  {isDeviceConnected ? '设备已连接' : '设备未连接'}
+                  {isDeviceConnected ? '设备已连接' : isReconnecting ? `正在重连 (第${device?.reconnectAttempt ?? 1}次)` : '设备未连接'}
                 </span>
               </div>
               
+              {/* 传输方式 */}
+              {!isDeviceConnected && !isReconnecting && (
+                <select
+                  value={transportKind}
+                  onChange={(e) => handleTransportChange(e.target.value as TransportKind)}
+                  className="px-2 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg border-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="bluetooth">蓝牙</option>
+                  <option value="websocket">WebSocket桥接</option>
+                  <option value="serial">USB串口</option>
+                </select>
+              )}
+
               {/* 连接按钮 */}
-              {!isDeviceConnected && (
+              {!isDeviceConnected && !isReconnecting && (
                 <button
                   onClick={handleConnectDevice}
                   className="px-4 py-2 bg-gradient-to-r from-blue-500 to-cyan-500 text-white text-sm font-medium rounded-lg hover:from-blue-600 hover:to-cyan-600 transition-all duration-200 shadow-md hover:shadow-lg"
@@ -385,10 +616,21 @@ const HomePage: React.FC = () => {
                   连接设备
                 </button>
               )}
+              {!isDeviceConnected && !isReconnecting && (
+                <button
+                  onClick={handleConnectSimulatedDevice}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 transition-all duration-200"
+                >
+                  模拟设备
+                </button>
+              )}
               
               {/* 电池电量显示 */}
               {device && device.batteryLevel !== undefined && (
-                <div className="flex items-center space-x-2">
+                <div className={`flex items-center space-x-2 ${isReconnecting ? 'opacity-50' : ''}`}>
+                  {isReconnecting && (
+                    <RefreshCw className="w-3 h-3 text-yellow-500 animate-spin" />
+                  )}
                   <div className="flex items-center space-x-1">
                     <div className={`w-6 h-3 border border-gray-400 rounded-sm relative ${
                       device.batteryLevel > 20 ? 'bg-green-100' : 'bg-red-100'
@@ -502,6 +744,32 @@ const HomePage: React.FC = () => {
           {/* 触觉反馈统计面板 */}
           <TouchStatsPanel />
 
+          {/* 虚拟执行器面板 */}
+          {simulatedSuit && (
+            <div className="mt-6">
+              <VirtualActuatorPanel suit={simulatedSuit} />
+            </div>
+          )}
+
+          {/* 多指套设备面板 */}
+          <div className="mt-6">
+            <FingerDevicePanel transportOptions={transportOptions} />
+          </div>
+
+          {/* 链路质量面板 */}
+          {isDeviceConnected && (
+            <div className="mt-6">
+              <LinkQualityPanel />
+            </div>
+          )}
+
+          {/* 手套传感器面板 */}
+          {(device?.capabilities.pressure || device?.capabilities.flex) && (
+            <div className="mt-6">
+              <SensorStreamPanel />
+            </div>
+          )}
+
         {/* 状态信息面板 - 增强版 */}
         <div className="mt-8 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
           {/* 检测统计卡片 */}
@@ -525,6 +793,10 @@ const HomePage: React.FC = () => {
                 <span className="text-gray-600 font-medium">帧率</span>
                 <span className="text-2xl font-bold text-purple-600">{system.performanceMetrics.frameRate} FPS</span>
               </div>
+              <div className="flex justify-between items-center p-3 bg-white/70 rounded-lg">
+                <span className="text-gray-600 font-medium">触觉队列</span>
+                <span className="text-2xl font-bold text-pink-600">{system.performanceMetrics.hapticQueueDepth}</span>
+              </div>
             </div>
           </div>
 
@@ -614,7 +886,7 @@ const HomePage: React.FC = () => {
                     sensitivity: 0.8,
                     hapticIntensity: 0.7,
                     visualFeedback: true,
-                    audioFeedback: false,
+                    audioFeedback: interactionMode.settings.audioFeedback,
                     debugMode: false
                   }
                 })}
@@ -634,7 +906,7 @@ const HomePage: React.FC = () => {
                     sensitivity: 0.8,
                     hapticIntensity: 0.7,
                     visualFeedback: true,
-                    audioFeedback: false,
+                    audioFeedback: interactionMode.settings.audioFeedback,
                     debugMode: false
                   }
                 })}
@@ -647,6 +919,9 @@ const HomePage: React.FC = () => {
                 🎮 3D模式
               </button>
               
+              {/* 音频反馈设置 */}
+              <AudioFeedbackPanel />
+
               {/* 设备连接状态 */}
               <div className="mt-4 p-3 bg-white/70 rounded-lg">
                 <div className="flex items-center justify-between mb-2">
@@ -683,11 +958,32 @@ const HomePage: React.FC = () => {
 
 // 主应用组件
 const App: React.FC = () => {
+  const deviceCalibrations = useDeviceCalibrations();
+  const hapticIntensity = useInteractionMode().settings.hapticIntensity;
+  const perception = useActiveUserProfile()?.perception ?? null;
+
+  // 同步设备校准，指套连接或重连时按设备ID自动应用
+  useEffect(() => {
+    createHapticController().setCalibrations(deviceCalibrations);
+    createHapticDeviceManager().setCalibrations(deviceCalibrations);
+  }, [deviceCalibrations]);
+
+  // 同步交互设置的触觉强度和当前用户的感知校准
+  useEffect(() => {
+    createHapticController().setUserIntensity(hapticIntensity, perception);
+    createHapticDeviceManager().setUserIntensity(hapticIntensity, perception);
+  }, [hapticIntensity, perception]);
+
   return (
     <Router>
       <div className="App">
         <Routes>
           <Route path="/" element={<HomePage />} />
+          <Route path="/calibration" element={<CalibrationPage />} />
+          <Route path="/firmware" element={<FirmwarePage />} />
+          <Route path="/profiles" element={<ProfileEditorPage />} />
+          <Route path="/sequences" element={<SequenceEditorPage />} />
+          <Route path="/perception" element={<PerceptionTestPage />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </div>
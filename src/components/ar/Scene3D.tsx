@@ -13,7 +13,8 @@ import {
 import * as THREE from 'three';
 import { useAppStore } from '../../stores/useAppStore';
 import CoordinateDisplay from './CoordinateDisplay';
-import type { Virtual3DObject, Point3D, Point2D, CollisionEvent } from '../../types';
+import { classifyContactSide } from '../../utils/sensorFusion';
+import type { Virtual3DObject, Point3D, Point2D, CollisionEvent, Hand, Quaternion } from '../../types';
 
 // 3D物体组件
 interface Interactive3DObjectProps {
@@ -48,6 +49,11 @@ const Interactive3DObject: React.FC<Interactive3DObjectProps> = ({
     screen2D: Point2D;
   } | null>(null);
   const { actions } = useAppStore();
+  const handedness = useAppStore((state) => state.handLandmarks?.handedness);
+  const fingerOrientation = useAppStore((state) => state.fingerOrientation);
+
+  // 左右手取自手部追踪结果；当前只跟踪一个指尖，不指定接触手指，由设备管理器路由到默认手指
+  const contactHand: Hand = handedness === 'Left' ? 'left' : 'right';
   
   // 将useThree移到组件顶层
   const { camera, gl } = useThree();
@@ -206,10 +212,14 @@ const Interactive3DObject: React.FC<Interactive3DObjectProps> = ({
           
           // 触发碰撞回调
           if (onCollision) {
+            // 2D模式下手指沿相机视线方向按向物体
+            const viewDirection = camera.getWorldDirection(new THREE.Vector3());
             const collisionEvent: CollisionEvent = {
               id: `collision-2d-${object.id}-${Date.now()}`,
               objectId: object.id,
               objectName: object.name,
+              hand: contactHand,
+              contactSide: fingerOrientation ? classifyContactSide(fingerOrientation, viewDirection) : undefined,
               type: 'touch_start',
               timestamp: Date.now(),
               position: estimated3DPosition,
@@ -239,6 +249,7 @@ const Interactive3DObject: React.FC<Interactive3DObjectProps> = ({
               id: `collision-2d-end-${object.id}-${Date.now()}`,
               objectId: object.id,
               objectName: object.name,
+              hand: contactHand,
               type: 'touch_end',
               timestamp: Date.now(),
               position: {
@@ -263,7 +274,7 @@ const Interactive3DObject: React.FC<Interactive3DObjectProps> = ({
         }
       }
     }
-  }, [fingerPosition2D, object, isColliding, touchStartTime, actions, onCollision, createParticleEffect, particleSystem, camera, gl]);
+  }, [fingerPosition2D, object, isColliding, touchStartTime, actions, onCollision, createParticleEffect, particleSystem, camera, gl, contactHand, fingerOrientation]);
 
   // 原有的3D碰撞检测（作为备用）
   useEffect(() => {
@@ -275,6 +286,9 @@ const Interactive3DObject: React.FC<Interactive3DObjectProps> = ({
 
     const wasColliding = isColliding;
     const nowColliding = box.containsPoint(fingerPoint);
+    // 指尖朝物体中心的方向用于区分指腹和指甲接触
+    const approach = box.getCenter(new THREE.Vector3()).sub(fingerPoint);
+    const contactSide = fingerOrientation ? classifyContactSide(fingerOrientation, approach) : undefined;
 
     if (nowColliding !== wasColliding) {
       setIsColliding(nowColliding);
@@ -303,6 +317,8 @@ const Interactive3DObject: React.FC<Interactive3DObjectProps> = ({
             id: `collision-${object.id}-${Date.now()}`,
             objectId: object.id,
             objectName: object.name,
+            hand: contactHand,
+            contactSide,
             type: 'touch_start',
             timestamp: Date.now(),
             position: fingerPosition,
@@ -332,6 +348,7 @@ const Interactive3DObject: React.FC<Interactive3DObjectProps> = ({
             id: `collision-3d-end-${object.id}-${Date.now()}`,
             objectId: object.id,
             objectName: object.name,
+            hand: contactHand,
             type: 'touch_end',
             timestamp: Date.now(),
             position: fingerPosition,
@@ -355,6 +372,8 @@ const Interactive3DObject: React.FC<Interactive3DObjectProps> = ({
       const collision: CollisionEvent = {
         objectId: object.id,
         objectName: object.name,
+        hand: contactHand,
+        contactSide: nowColliding ? contactSide : undefined,
         contactPoint: fingerPosition,
         force: 1.0, // 简化的力值
         material: object.material,
@@ -365,7 +384,7 @@ const Interactive3DObject: React.FC<Interactive3DObjectProps> = ({
       onCollision?.(collision);
       actions.addCollisionEvent(collision);
     }
-  }, [fingerPosition, object, isColliding, onCollision, actions, touchStartTime, particleSystem, createParticleEffect]);
+  }, [fingerPosition, object, isColliding, onCollision, actions, touchStartTime, particleSystem, createParticleEffect, contactHand, fingerOrientation]);
 
   // 动画效果
   useFrame((state) => {
@@ -513,10 +532,13 @@ const Interactive3DObject: React.FC<Interactive3DObjectProps> = ({
 // 指尖指示器组件
 interface FingerIndicatorProps {
   position: Point3D | null;
+  orientation?: Quaternion | null; // 指尖姿态，指腹朝向局部 -z
 }
 
-const FingerIndicator: React.FC<FingerIndicatorProps> = ({ position }) => {
+const FingerIndicator: React.FC<FingerIndicatorProps> = ({ position, orientation }) => {
   const meshRef = useRef<THREE.Mesh>(null);
+  const padRef = useRef<THREE.Group>(null);
+  const targetOrientation = useMemo(() => new THREE.Quaternion(), []);
 
   useFrame((state) => {
     if (meshRef.current) {
@@ -524,18 +546,31 @@ const FingerIndicator: React.FC<FingerIndicatorProps> = ({ position }) => {
       const scale = 1 + Math.sin(state.clock.elapsedTime * 5) * 0.2;
       meshRef.current.scale.setScalar(scale);
     }
+    if (padRef.current && orientation) {
+      // 姿态按较低频率更新，逐帧插值使转动平滑
+      targetOrientation.fromArray(orientation);
+      padRef.current.quaternion.slerp(targetOrientation, 0.3);
+    }
   });
 
   if (!position) return null;
 
   return (
-    <mesh
-      ref={meshRef}
-      position={[position.x, position.y, position.z]}
-    >
-      <sphereGeometry args={[0.02, 16, 16]} />
-      <meshBasicMaterial color="#ff0000" transparent opacity={0.8} />
-    </mesh>
+    <group position={[position.x, position.y, position.z]}>
+      <mesh ref={meshRef}>
+        <sphereGeometry args={[0.02, 16, 16]} />
+        <meshBasicMaterial color="#ff0000" transparent opacity={0.8} />
+      </mesh>
+      {/* 指腹朝向：圆锥尖端指向指腹一侧 */}
+      {orientation && (
+        <group ref={padRef}>
+          <mesh position={[0, 0, -0.04]} rotation={[-Math.PI / 2, 0, 0]}>
+            <coneGeometry args={[0.012, 0.03, 12]} />
+            <meshBasicMaterial color="#facc15" />
+          </mesh>
+        </group>
+      )}
+    </group>
   );
 };
 
@@ -598,6 +633,7 @@ const Scene3D: React.FC<Scene3DProps> = ({
   enableAR = false
 }) => {
   const { virtual3DObjects, arSession, interactionMode } = useAppStore();
+  const fingerOrientation = useAppStore((state) => state.fingerOrientation);
   const [cameraPosition, setCameraPosition] = useState<[number, number, number]>([2, 2, 2]);
   
   // 全局坐标显示状态
@@ -716,7 +752,7 @@ const Scene3D: React.FC<Scene3DProps> = ({
         ))}
         
         {/* 指尖指示器 */}
-        <FingerIndicator position={fingerPosition} />
+        <FingerIndicator position={fingerPosition} orientation={fingerOrientation} />
         
         {/* 场景信息显示 */}
         <Html fullscreen>
@@ -5,7 +5,9 @@ import { Hands, Results } from '@mediapipe/hands';
 import { drawConnectors, drawLandmarks } from '@mediapipe/drawing_utils';
 import { HAND_CONNECTIONS } from '@mediapipe/hands';
 import { useAppStore } from '../../stores/useAppStore';
-import { YOLO11Detector } from '../../utils/yolo11Detector';
+import { YOLOWorkerDetector } from '../../utils/yoloWorkerDetector';
+import type { WorkerDetectionEvent } from '../../utils/yoloWorkerDetector';
+import { getAssetBaseUrl, getMediaPipeHandsFile } from '../../utils/assetPaths';
 import type { HandLandmarks, DetectionResult, Point2D } from '../../types';
 
 interface CameraViewProps {
@@ -38,18 +40,20 @@ const CameraView: React.FC<CameraViewProps> = ({
   
   const handsRef = useRef<Hands | null>(null);
   const cameraRef = useRef<Camera | null>(null);
-  const detectorRef = useRef<YOLO11Detector | null>(null);
+  // 物体检测在Worker中运行，手部追踪和碰撞反馈从不等待检测结果
+  const [detector] = useState(() => new YOLOWorkerDetector());
   const lastFrameTimeRef = useRef<number>(0);
   const frameCountRef = useRef<number>(0);
   
   const { config, actions } = useAppStore();
+  const assetBaseUrl = getAssetBaseUrl(config.assets);
 
   // 初始化MediaPipe Hands
   const initializeHands = useCallback(async () => {
     try {
       const hands = new Hands({
         locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
+          return getMediaPipeHandsFile(assetBaseUrl, file);
         }
       });
 
@@ -68,30 +72,48 @@ const CameraView: React.FC<CameraViewProps> = ({
       console.error('MediaPipe Hands 初始化失败:', error);
       setError('手部追踪初始化失败');
     }
-  }, []);
+  }, [assetBaseUrl]);
 
   // 初始化YOLO11检测器
   const initializeDetector = useCallback(async () => {
     try {
-      const detector = new YOLO11Detector(config.yolo);
-      const success = await detector.initialize();
+      const success = await detector.initialize(config.yolo, assetBaseUrl);
       
       if (success) {
-        detectorRef.current = detector;
         console.log('YOLO11检测器初始化成功');
         setError(null); // 清除之前的错误
+        
+        // 配置的目标类别不在模型类别中时永远检测不到，提示用户检查配置或标签文件
+        const missingClasses = detector.getModelInfo()?.missingTargetClasses ?? [];
+        if (missingClasses.length > 0) {
+          actions.addError({
+            code: 'MODEL_CLASSES_MISMATCH',
+            message: `检测模型不包含目标类别: ${missingClasses.join(', ')}`,
+            timestamp: Date.now(),
+            context: { modelUrl: config.yolo.modelUrl, labelsUrl: config.yolo.labelsUrl }
+          });
+        }
       } else {
         console.warn('YOLO11检测器初始化失败，物体检测功能将被禁用');
         // 不设置错误状态，允许系统继续运行
-        detectorRef.current = null;
       }
     } catch (error) {
       console.error('YOLO11检测器初始化失败:', error);
       console.log('系统将在没有物体检测功能的情况下继续运行');
-      detectorRef.current = null;
       // 不设置错误状态，允许系统继续运行
     }
-  }, [config.yolo]);
+  }, [detector, config.yolo, assetBaseUrl, actions]);
+
+  // 接收Worker的检测结果
+  useEffect(() => {
+    const handleDetectionResult = (event: WorkerDetectionEvent) => {
+      setDetections(event.detections);
+      actions.updateDetections(event.detections);
+      onDetections?.(event.detections);
+    };
+    detector.addEventListener('detections', handleDetectionResult);
+    return () => detector.removeEventListener('detections', handleDetectionResult);
+  }, [detector, actions, onDetections]);
 
   // 初始化相机
   const initializeCamera = useCallback(async () => {
@@ -494,9 +516,9 @@ const CameraView: React.FC<CameraViewProps> = ({
     setFingerPosition(currentFingerPosition);
     onFingerPosition?.(currentFingerPosition);
 
-    // 运行物体检测（每隔几帧运行一次以提高性能）
-    if (frameCountRef.current % 3 === 0 && detectorRef.current && detectorRef.current.initialized) {
-      await runObjectDetection(ctx);
+    // 每隔几帧把当前帧提交给检测Worker，不等待结果；Worker忙碌时丢弃该帧
+    if (frameCountRef.current % 3 === 0 && detector.initialized) {
+      detector.submit(canvas);
     }
 
     // 绘制检测结果
@@ -506,23 +528,7 @@ const CameraView: React.FC<CameraViewProps> = ({
     updateFPS();
 
     frameCountRef.current++;
-  }, [actions, onFingerPosition]);
-
-  // 运行物体检测
-  const runObjectDetection = useCallback(async (ctx: CanvasRenderingContext2D) => {
-    if (!detectorRef.current) return;
-
-    try {
-      const imageData = ctx.getImageData(0, 0, width, height);
-      const newDetections = await detectorRef.current.detect(imageData);
-      
-      setDetections(newDetections);
-      actions.updateDetections(newDetections);
-      onDetections?.(newDetections);
-    } catch (error) {
-      console.error('物体检测失败:', error);
-    }
-  }, [width, height, actions, onDetections]);
+  }, [detector, actions, onFingerPosition]);
 
   // 绘制检测结果
   const drawDetections = useCallback((ctx: CanvasRenderingContext2D) => {
@@ -659,13 +665,11 @@ const CameraView: React.FC<CameraViewProps> = ({
       }
       
       // 释放检测器
-      if (detectorRef.current) {
-        detectorRef.current.dispose();
-      }
+      detector.dispose();
       
       console.log('相机资源已释放');
     };
-  }, [initializeHands, initializeDetector, initializeCamera, forceReleaseCamera]);
+  }, [detector, initializeHands, initializeDetector, initializeCamera, forceReleaseCamera]);
 
   // 重试相机初始化
   const handleRetryCamera = useCallback(async () => {
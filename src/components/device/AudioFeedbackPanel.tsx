@@ -0,0 +1,109 @@
+// 音频反馈设置 - 无指套时是否用声音渲染触觉效果，以及音量和输出设备
+import React, { useCallback, useEffect, useState } from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { useAppStore } from '../../stores/useAppStore';
+import { HapticProfiles } from '../../utils/hapticController';
+import {
+  createAudioHapticRenderer,
+  getAudioConfig,
+  listAudioOutputs,
+  supportsAudioOutputSelection
+} from '../../utils/audioHapticRenderer';
+
+const AudioFeedbackPanel: React.FC = () => {
+  const { interactionMode, config, actions } = useAppStore();
+  const [audioRenderer] = useState(() => createAudioHapticRenderer());
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+  const audio = getAudioConfig(config.audio);
+  const enabled = interactionMode.settings.audioFeedback;
+  const canSelectOutput = supportsAudioOutputSelection();
+
+  const refreshOutputs = useCallback(() => {
+    listAudioOutputs()
+      .then(setOutputs)
+      .catch(error => console.warn('获取音频输出设备失败:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!canSelectOutput) {
+      return;
+    }
+    refreshOutputs();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshOutputs);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshOutputs);
+  }, [canSelectOutput, refreshOutputs]);
+
+  const handleToggle = () => {
+    actions.setInteractionMode({
+      ...interactionMode,
+      settings: { ...interactionMode.settings, audioFeedback: !enabled }
+    });
+  };
+
+  // 用石头材质的触觉配置试听当前音量和输出设备
+  const handlePreview = () => {
+    audioRenderer.render(HapticProfiles.stone);
+  };
+
+  return (
+    <div className="p-3 bg-white/70 rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-600 font-medium">音频反馈</span>
+        <button
+          onClick={handleToggle}
+          className={`flex items-center px-2 py-1 text-xs font-medium rounded-lg transition-colors ${
+            enabled ? 'bg-orange-500 text-white hover:bg-orange-600' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+          }`}
+        >
+          {enabled ? <Volume2 className="w-3 h-3 mr-1" /> : <VolumeX className="w-3 h-3 mr-1" />}
+          {enabled ? '已开启' : '已关闭'}
+        </button>
+      </div>
+
+      {enabled && (
+        <>
+          <label className="block text-xs text-gray-500">
+            音量 {Math.round(audio.volume * 100)}%
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={audio.volume}
+              onChange={(e) => actions.updateConfig({ audio: { ...audio, volume: Number(e.target.value) } })}
+              className="w-full"
+            />
+          </label>
+
+          {canSelectOutput ? (
+            <select
+              value={audio.outputDeviceId}
+              onChange={(e) => actions.updateConfig({ audio: { ...audio, outputDeviceId: e.target.value } })}
+              className="w-full px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-lg border-none focus:ring-2 focus:ring-orange-400"
+            >
+              <option value="">系统默认输出</option>
+              {outputs
+                .filter(output => output.deviceId && output.deviceId !== 'default')
+                .map((output, index) => (
+                  <option key={output.deviceId} value={output.deviceId}>
+                    {output.label || `音频输出 ${index + 1}`}
+                  </option>
+                ))}
+            </select>
+          ) : (
+            <div className="text-xs text-gray-400">当前浏览器不支持选择输出设备，使用系统默认输出</div>
+          )}
+
+          <button
+            onClick={handlePreview}
+            className="w-full px-3 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            试听
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AudioFeedbackPanel;
@@ -0,0 +1,179 @@
+// 多指套设备面板 - 按手指配对设备并显示各手指的连接和电量
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Hand as HandIcon, Link, Unlink, Cpu, RefreshCw } from 'lucide-react';
+import { useAppStore, useFingerDevices } from '../../stores/useAppStore';
+import {
+  createHapticDeviceManager,
+  FINGER_IDS,
+  FINGER_NAMES,
+  HANDS,
+  HAND_NAMES,
+  getFingerLabel,
+  getFingerSlotKey
+} from '../../utils/hapticDeviceManager';
+import type { FingerDeviceUpdate } from '../../utils/hapticDeviceManager';
+import { SimulatedFingerSuit } from '../../utils/simulatedFingerSuit';
+import type { TransportOptions } from '../../utils/hapticTransport';
+import type { FingerAssignment, FingerDevice } from '../../types';
+
+interface FingerDevicePanelProps {
+  transportOptions: TransportOptions;
+}
+
+const FingerDevicePanel: React.FC<FingerDevicePanelProps> = ({ transportOptions }) => {
+  const fingerDevices = useFingerDevices();
+  const { actions } = useAppStore();
+  const [deviceManager] = useState(() => createHapticDeviceManager());
+  const [pairingSlot, setPairingSlot] = useState<string | null>(null);
+  const simulatedSuits = useRef<Map<string, SimulatedFingerSuit>>(new Map());
+
+  // 同步各手指设备状态到全局状态
+  useEffect(() => {
+    const handleDeviceUpdate = ({ slotKey, device }: FingerDeviceUpdate) => {
+      if (device) {
+        actions.setFingerDevice(slotKey, device);
+      } else {
+        actions.removeFingerDevice(slotKey);
+      }
+    };
+    const handleError = (error: { type: string; message: string }) => {
+      actions.addError({
+        code: error.type,
+        message: error.message,
+        timestamp: Date.now()
+      });
+    };
+
+    deviceManager.addEventListener('deviceUpdate', handleDeviceUpdate);
+    deviceManager.addEventListener('error', handleError);
+    deviceManager.addEventListener('safetyViolation', actions.addError);
+    return () => {
+      deviceManager.removeEventListener('deviceUpdate', handleDeviceUpdate);
+      deviceManager.removeEventListener('error', handleError);
+      deviceManager.removeEventListener('safetyViolation', actions.addError);
+    };
+  }, [deviceManager, actions]);
+
+  // 释放模拟设备
+  const disposeSimulatedSuit = useCallback((slotKey: string) => {
+    simulatedSuits.current.get(slotKey)?.dispose();
+    simulatedSuits.current.delete(slotKey);
+  }, []);
+
+  // 配对设备（simulated为true时配对一个模拟指套）
+  const handlePair = useCallback(async (assignment: FingerAssignment, simulated: boolean) => {
+    const slotKey = getFingerSlotKey(assignment);
+    setPairingSlot(slotKey);
+    disposeSimulatedSuit(slotKey);
+
+    let options = transportOptions;
+    if (simulated) {
+      const suit = new SimulatedFingerSuit({ name: `FingerSuit-${slotKey}` });
+      simulatedSuits.current.set(slotKey, suit);
+      options = { kind: 'bluetooth', device: suit.device };
+    }
+
+    const success = await deviceManager.pairDevice(assignment, options);
+    if (!success) {
+      disposeSimulatedSuit(slotKey);
+      actions.addError({
+        code: 'DEVICE_CONNECTION_FAILED',
+        message: `${getFingerLabel(assignment)}设备配对失败`,
+        timestamp: Date.now()
+      });
+    }
+    setPairingSlot(null);
+  }, [deviceManager, transportOptions, actions, disposeSimulatedSuit]);
+
+  // 解除配对
+  const handleUnpair = useCallback(async (assignment: FingerAssignment) => {
+    await deviceManager.unpairDevice(assignment);
+    disposeSimulatedSuit(getFingerSlotKey(assignment));
+  }, [deviceManager, disposeSimulatedSuit]);
+
+  const renderStatus = (device: FingerDevice) => {
+    if (device.connectionState === 'reconnecting') {
+      return (
+        <span className="flex items-center text-yellow-600">
+          <RefreshCw className="w-3 h-3 mr-1 animate-spin" />
+          重连中
+        </span>
+      );
+    }
+    return (
+      <span className={device.connected ? 'text-green-600' : 'text-gray-500'}>
+        {device.connected ? `${device.batteryLevel}%` : '已断开'}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <HandIcon className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-800">多指套设备</h3>
+        </div>
+        <span className="text-xs text-gray-600">已配对 {Object.keys(fingerDevices).length} / {HANDS.length * FINGER_IDS.length}</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {HANDS.map(hand => (
+          <div key={hand} className="bg-gray-50 p-3 rounded-lg">
+            <div className="text-sm font-medium text-gray-700 mb-2">{HAND_NAMES[hand]}</div>
+            <div className="space-y-2">
+              {FINGER_IDS.map(finger => {
+                const assignment: FingerAssignment = { hand, finger };
+                const slotKey = getFingerSlotKey(assignment);
+                const device = fingerDevices[slotKey];
+                const isPairing = pairingSlot === slotKey;
+
+                return (
+                  <div key={slotKey} className="flex items-center justify-between text-xs">
+                    <div className="flex items-center space-x-2">
+                      <div className={`w-2 h-2 rounded-full ${
+                        device?.connected ? 'bg-green-400' : device ? 'bg-yellow-400' : 'bg-gray-300'
+                      }`}></div>
+                      <span className="text-gray-700 w-12">{FINGER_NAMES[finger]}</span>
+                      {device ? renderStatus(device) : <span className="text-gray-400">未配对</span>}
+                    </div>
+                    {device ? (
+                      <button
+                        onClick={() => handleUnpair(assignment)}
+                        className="flex items-center px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                      >
+                        <Unlink className="w-3 h-3 mr-1" />
+                        解除
+                      </button>
+                    ) : (
+                      <div className="flex space-x-1">
+                        <button
+                          onClick={() => handlePair(assignment, false)}
+                          disabled={isPairing}
+                          className="flex items-center px-2 py-1 bg-blue-50 text-blue-700 rounded hover:bg-blue-100 transition-colors disabled:opacity-50"
+                        >
+                          <Link className="w-3 h-3 mr-1" />
+                          配对
+                        </button>
+                        <button
+                          onClick={() => handlePair(assignment, true)}
+                          disabled={isPairing}
+                          className="flex items-center px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors disabled:opacity-50"
+                        >
+                          <Cpu className="w-3 h-3 mr-1" />
+                          模拟
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FingerDevicePanel;
@@ -0,0 +1,77 @@
+// 链路质量面板 - 显示触觉指令往返延迟、抖动、丢包率和延迟分布
+import React from 'react';
+import { Wifi } from 'lucide-react';
+import { usePerformanceMetrics } from '../../stores/useAppStore';
+import { LATENCY_HISTOGRAM_BOUNDS } from '../../utils/linkQualityMonitor';
+import type { PerformanceMetrics } from '../../types';
+
+const QUALITY_LABELS: Record<PerformanceMetrics['connectionQuality'], { label: string; className: string }> = {
+  excellent: { label: '优秀', className: 'bg-green-100 text-green-700' },
+  good: { label: '良好', className: 'bg-blue-100 text-blue-700' },
+  fair: { label: '一般', className: 'bg-yellow-100 text-yellow-700' },
+  poor: { label: '较差', className: 'bg-red-100 text-red-700' }
+};
+
+// 直方图区间标签，如"≤10"、">300"
+const BIN_LABELS = LATENCY_HISTOGRAM_BOUNDS.map((bound, index) =>
+  Number.isFinite(bound) ? `≤${bound}` : `>${LATENCY_HISTOGRAM_BOUNDS[index - 1]}`
+);
+
+const LinkQualityPanel: React.FC = () => {
+  const metrics = usePerformanceMetrics();
+  const histogram = metrics.hapticLatencyHistogram || [];
+  const peak = Math.max(1, ...histogram);
+  const quality = QUALITY_LABELS[metrics.connectionQuality];
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Wifi className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-800">链路质量</h3>
+        </div>
+        <span className={`px-2 py-1 text-xs font-medium rounded ${quality.className}`}>{quality.label}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="p-2 bg-gray-50 rounded">
+          <div className="text-xs text-gray-500">往返延迟</div>
+          <div className="text-lg font-bold text-gray-900">{metrics.hapticLatency.toFixed(0)} ms</div>
+        </div>
+        <div className="p-2 bg-gray-50 rounded">
+          <div className="text-xs text-gray-500">抖动</div>
+          <div className="text-lg font-bold text-gray-900">{(metrics.hapticJitter ?? 0).toFixed(1)} ms</div>
+        </div>
+        <div className="p-2 bg-gray-50 rounded">
+          <div className="text-xs text-gray-500">丢包率</div>
+          <div className="text-lg font-bold text-gray-900">{((metrics.hapticPacketLoss ?? 0) * 100).toFixed(1)}%</div>
+        </div>
+      </div>
+
+      {/* 往返延迟分布（毫秒） */}
+      {histogram.length > 0 ? (
+        <div>
+          <div className="flex items-end h-20 space-x-1">
+            {histogram.map((count, index) => (
+              <div key={index} className="flex-1 flex flex-col justify-end h-full" title={`${BIN_LABELS[index]} ms: ${count}`}>
+                <div
+                  className="bg-blue-500 rounded-t"
+                  style={{ height: `${count / peak * 100}%`, minHeight: count > 0 ? 2 : 0 }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex space-x-1 mt-1">
+            {BIN_LABELS.map(label => (
+              <span key={label} className="flex-1 text-center text-[10px] text-gray-500">{label}</span>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">等待延迟探测结果...</p>
+      )}
+    </div>
+  );
+};
+
+export default LinkQualityPanel;
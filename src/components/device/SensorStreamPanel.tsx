@@ -0,0 +1,101 @@
+// 手套传感器面板 - 实时绘制指尖压力和手指弯曲曲线
+import React from 'react';
+import { Activity, Gauge } from 'lucide-react';
+import { useSensorStreams } from '../../stores/useAppStore';
+
+// 曲线图尺寸
+const PLOT_WIDTH = 240;
+const PLOT_HEIGHT = 60;
+
+// 各关节曲线颜色和名称
+const JOINT_COLORS = ['#2563eb', '#16a34a', '#ea580c'];
+const JOINT_NAMES = ['掌指', '近端', '远端'];
+
+interface SparklineProps {
+  series: number[][];
+  colors: string[];
+  min: number;
+  max: number;
+}
+
+// 多条折线，各序列共享纵轴范围
+const Sparkline: React.FC<SparklineProps> = ({ series, colors, min, max }) => {
+  const range = max - min || 1;
+  const toPoints = (values: number[]) => values.map((value, index) => {
+    const x = values.length > 1 ? index / (values.length - 1) * PLOT_WIDTH : 0;
+    const y = PLOT_HEIGHT - (Math.max(min, Math.min(max, value)) - min) / range * PLOT_HEIGHT;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-16 bg-gray-50 rounded" preserveAspectRatio="none">
+      {series.map((values, index) => (
+        <polyline
+          key={index}
+          points={toPoints(values)}
+          fill="none"
+          stroke={colors[index % colors.length]}
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+};
+
+const SensorStreamPanel: React.FC = () => {
+  const { pressure, flex } = useSensorStreams();
+
+  const latestPressure = pressure[pressure.length - 1];
+  const latestFlex = flex[flex.length - 1];
+  const pressureMax = Math.max(1, ...pressure.map(sample => sample.total));
+  const jointCount = latestFlex?.joints.length || 0;
+  const jointSeries = Array.from({ length: jointCount }, (_, joint) =>
+    flex.map(sample => sample.joints[joint] ?? 0)
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Activity className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-semibold text-gray-800">手套传感器</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* 指尖压力 */}
+        <div>
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="flex items-center font-medium text-gray-700">
+              <Gauge className="w-4 h-4 mr-1" />
+              指尖压力
+            </span>
+            <span className="text-gray-600">
+              {latestPressure ? `${latestPressure.total.toFixed(2)} 牛` : '无数据'}
+            </span>
+          </div>
+          <Sparkline series={[pressure.map(sample => sample.total)]} colors={['#dc2626']} min={0} max={pressureMax} />
+        </div>
+
+        {/* 手指弯曲 */}
+        <div>
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="font-medium text-gray-700">手指弯曲</span>
+            {!latestFlex && <span className="text-gray-600">无数据</span>}
+          </div>
+          <Sparkline series={jointSeries} colors={JOINT_COLORS} min={0} max={90} />
+          {latestFlex && (
+            <div className="flex space-x-3 mt-1 text-xs text-gray-600">
+              {latestFlex.joints.map((angle, index) => (
+                <span key={index} style={{ color: JOINT_COLORS[index % JOINT_COLORS.length] }}>
+                  {JOINT_NAMES[index] || `关节${index + 1}`} {angle.toFixed(0)}°
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SensorStreamPanel;
@@ -0,0 +1,150 @@
+// 虚拟执行器面板 - 显示模拟指套当前播放的触觉内容
+import React, { useEffect, useState } from 'react';
+import { Cpu, Thermometer, Vibrate, Battery, Unplug, Pointer, RotateCw } from 'lucide-react';
+import type { SimulatedFingerSuit, VirtualActuatorState } from '../../utils/simulatedFingerSuit';
+
+interface VirtualActuatorPanelProps {
+  suit: SimulatedFingerSuit;
+}
+
+const VirtualActuatorPanel: React.FC<VirtualActuatorPanelProps> = ({ suit }) => {
+  const [state, setState] = useState<VirtualActuatorState>(() => suit.getState());
+  const [temperature, setTemperature] = useState(() => suit.getCurrentTemperature());
+  const [now, setNow] = useState(() => Date.now());
+
+  // 订阅模拟设备状态
+  useEffect(() => {
+    const handleStateChange = (newState: VirtualActuatorState) => setState(newState);
+    suit.addEventListener('stateChange', handleStateChange);
+    setState(suit.getState());
+    return () => suit.removeEventListener('stateChange', handleStateChange);
+  }, [suit]);
+
+  // 播放期间刷新进度和温度
+  useEffect(() => {
+    if (!state.vibration && !state.temperature) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      setTemperature(suit.getCurrentTemperature());
+    }, 50);
+    return () => clearInterval(timer);
+  }, [suit, state.vibration, state.temperature]);
+
+  const vibrationProgress = state.vibration
+    ? Math.min(1, (now - state.vibration.startedAt) / Math.max(state.vibration.duration, 1))
+    : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Cpu className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold text-gray-800">虚拟执行器</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className={`w-2 h-2 rounded-full ${state.connected ? 'bg-green-500 animate-pulse' : 'bg-gray-400'}`}></div>
+          <span className="text-xs text-gray-600">{state.connected ? '模拟设备在线' : '模拟设备离线'}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* 振动 */}
+        <div className="bg-indigo-50 p-3 rounded-lg">
+          <div className="flex items-center text-sm font-medium text-indigo-700 mb-2">
+            <Vibrate className={`w-4 h-4 mr-1 ${state.vibration ? 'animate-bounce' : ''}`} />
+            振动
+          </div>
+          {state.vibration ? (
+            <div className="space-y-1 text-xs text-gray-700">
+              <div>强度: {(state.vibration.intensity * 100).toFixed(0)}%</div>
+              <div>频率: {state.vibration.frequency} Hz</div>
+              <div>
+                波形: {state.vibration.pattern}
+                {state.vibration.waveformId !== undefined && ` #${state.vibration.waveformId}`}
+              </div>
+              <div className="h-2 bg-indigo-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-indigo-500 transition-all duration-75"
+                  style={{ width: `${vibrationProgress * 100}%` }}
+                ></div>
+              </div>
+            </div>
+          ) : (
+            <div className="text-xs text-gray-500">空闲</div>
+          )}
+        </div>
+
+        {/* 温度 */}
+        <div className="bg-orange-50 p-3 rounded-lg">
+          <div className="flex items-center text-sm font-medium text-orange-700 mb-2">
+            <Thermometer className="w-4 h-4 mr-1" />
+            温度
+          </div>
+          <div className="text-2xl font-bold text-orange-600">{temperature.toFixed(1)}°C</div>
+          <div className="text-xs text-gray-600">
+            {state.temperature ? `目标 ${state.temperature.target}°C` : '环境温度'}
+          </div>
+        </div>
+
+        {/* 电量与数据包 */}
+        <div className="bg-green-50 p-3 rounded-lg">
+          <div className="flex items-center text-sm font-medium text-green-700 mb-2">
+            <Battery className="w-4 h-4 mr-1" />
+            电量 {state.batteryLevel}%
+          </div>
+          <div className="space-y-1 text-xs text-gray-700">
+            <div>已接收数据包: {state.receivedPackets}</div>
+            <div className={state.rejectedPackets > 0 ? 'text-red-600' : ''}>
+              已拒绝数据包: {state.rejectedPackets}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex space-x-2">
+        <button
+          onClick={() => suit.setBatteryLevel(state.batteryLevel - 10)}
+          disabled={!state.connected}
+          className="px-3 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          电量 -10%
+        </button>
+        <button
+          onClick={() => suit.simulateDisconnect()}
+          disabled={!state.connected}
+          className="flex items-center px-3 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          <Unplug className="w-3 h-3 mr-1" />
+          模拟断开
+        </button>
+        <button
+          onClick={() => suit.simulateDisconnect(3000)}
+          disabled={!state.connected}
+          className="flex items-center px-3 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          <Unplug className="w-3 h-3 mr-1" />
+          离开范围 3秒
+        </button>
+        <button
+          onClick={() => suit.simulatePress(2, 1500)}
+          disabled={!state.connected}
+          className="flex items-center px-3 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          <Pointer className="w-3 h-3 mr-1" />
+          按压 2牛
+        </button>
+        <button
+          onClick={() => suit.simulateFlip()}
+          disabled={!state.connected}
+          className="flex items-center px-3 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          <RotateCw className="w-3 h-3 mr-1" />
+          翻转手指
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VirtualActuatorPanel;
@@ -8,3 +8,12 @@ createRoot(document.getElementById('root')!).render(
     <App />
   </StrictMode>,
 )
+
+// 注册资源缓存Service Worker，缓存检测模型和运行时文件供离线使用（开发时不注册，避免缓存干扰热更新）
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn('Service Worker注册失败:', error)
+    })
+  })
+}
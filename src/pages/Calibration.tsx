@@ -0,0 +1,454 @@
+// 设备校准向导 - 传感器归零、谐振频率扫频和温度传感器检查，结果按设备ID保存
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Check, Gauge, Play, Square, Thermometer, Trash2, Waves } from 'lucide-react';
+import { useAppStore, useDeviceCalibrations } from '../stores/useAppStore';
+import { createHapticController } from '../utils/hapticController';
+import {
+  DEFAULT_SWEEP_STEP,
+  MAX_TEMPERATURE_OFFSET,
+  SWEEP_TONE_DURATION,
+  getFrequencySweep
+} from '../utils/deviceCalibration';
+import type { SensorBaseline } from '../utils/deviceCalibration';
+import type { DeviceCalibration, FingerDevice } from '../types';
+
+// 向导步骤
+type CalibrationStepId = 'sensors' | 'resonance' | 'temperature' | 'review';
+
+const STEPS: Array<{ id: CalibrationStepId; title: string }> = [
+  { id: 'sensors', title: '传感器归零' },
+  { id: 'resonance', title: '谐振频率' },
+  { id: 'temperature', title: '温度传感器' },
+  { id: 'review', title: '保存' }
+];
+
+// 扫频和试播的振动强度
+const SWEEP_INTENSITY = 0.8;
+
+// 微调谐振频率的步长（赫兹）
+const RESONANCE_FINE_STEP = 5;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const formatOffsets = (offsets: number[], digits: number, unit: string) =>
+  offsets.length > 0 ? offsets.map(value => `${value.toFixed(digits)}${unit}`).join(' / ') : '无';
+
+const CalibrationPage: React.FC = () => {
+  const [controller] = useState(() => createHapticController());
+  const [deviceInfo, setDeviceInfo] = useState<FingerDevice | null>(() =>
+    controller.connected ? controller.getDeviceInfo() : null
+  );
+  const [stepIndex, setStepIndex] = useState(0);
+  const [baseline, setBaseline] = useState<SensorBaseline | null>(null);
+  const [capturing, setCapturing] = useState(false);
+  const [sweeping, setSweeping] = useState(false);
+  const [sweepFrequency, setSweepFrequency] = useState<number | null>(null);
+  const [resonance, setResonance] = useState<number | null>(null);
+  const [ambient, setAmbient] = useState('25');
+  const [measuredTemperature, setMeasuredTemperature] = useState<number | null>(null);
+  const [saved, setSaved] = useState(false);
+  const sweepCancelled = useRef(false);
+
+  const { config, actions } = useAppStore();
+  const calibrations = useDeviceCalibrations();
+  const existing = deviceInfo ? calibrations[deviceInfo.id] : undefined;
+  const capabilities = deviceInfo?.capabilities;
+  const hasSensors = !!(capabilities?.pressure || capabilities?.flex);
+  const vibrationRange = config.haptic.vibrationRange;
+  const currentStep = STEPS[stepIndex].id;
+
+  // 跟踪设备连接状态
+  useEffect(() => {
+    const handleConnected = () => setDeviceInfo(controller.getDeviceInfo());
+    const handleDisconnected = () => setDeviceInfo(null);
+
+    controller.addEventListener('connected', handleConnected);
+    controller.addEventListener('reconnected', handleConnected);
+    controller.addEventListener('reconnecting', handleDisconnected);
+    controller.addEventListener('disconnected', handleDisconnected);
+    return () => {
+      controller.removeEventListener('connected', handleConnected);
+      controller.removeEventListener('reconnected', handleConnected);
+      controller.removeEventListener('reconnecting', handleDisconnected);
+      controller.removeEventListener('disconnected', handleDisconnected);
+    };
+  }, [controller]);
+
+  // 离开页面时停止扫频
+  useEffect(() => {
+    return () => {
+      sweepCancelled.current = true;
+    };
+  }, []);
+
+  // 以已保存的校准作为初始值
+  useEffect(() => {
+    setResonance(existing?.resonanceFrequency ?? null);
+  }, [existing]);
+
+  // 采集传感器零点
+  const handleCaptureBaseline = useCallback(async () => {
+    setCapturing(true);
+    try {
+      setBaseline(await controller.captureSensorBaseline());
+    } catch (error) {
+      console.error('采集传感器零点失败:', error);
+    } finally {
+      setCapturing(false);
+    }
+  }, [controller]);
+
+  // 按频点依次播放，直到用户标记或扫完
+  const handleStartSweep = useCallback(async () => {
+    sweepCancelled.current = false;
+    setSweeping(true);
+    for (const frequency of getFrequencySweep(vibrationRange, DEFAULT_SWEEP_STEP)) {
+      if (sweepCancelled.current) break;
+      setSweepFrequency(frequency);
+      await controller.sendRawVibration({
+        intensity: SWEEP_INTENSITY,
+        frequency,
+        pattern: 'medium',
+        duration: SWEEP_TONE_DURATION
+      });
+      await sleep(SWEEP_TONE_DURATION);
+    }
+    setSweeping(false);
+  }, [controller, vibrationRange]);
+
+  const handleStopSweep = useCallback(() => {
+    sweepCancelled.current = true;
+    setSweeping(false);
+    controller.stopAllFeedback();
+  }, [controller]);
+
+  // 把正在播放的频率标记为谐振峰
+  const handleMarkResonance = useCallback(() => {
+    if (sweepFrequency !== null) {
+      setResonance(sweepFrequency);
+    }
+    handleStopSweep();
+  }, [sweepFrequency, handleStopSweep]);
+
+  // 试播当前选定的频率
+  const handlePlayResonance = useCallback(() => {
+    if (resonance === null) return;
+    controller.sendRawVibration({
+      intensity: SWEEP_INTENSITY,
+      frequency: resonance,
+      pattern: 'medium',
+      duration: SWEEP_TONE_DURATION * 2
+    });
+  }, [controller, resonance]);
+
+  // 读取温度传感器
+  const handleReadTemperature = useCallback(async () => {
+    setMeasuredTemperature(await controller.readTemperatureSensor());
+  }, [controller]);
+
+  const ambientTemperature = parseFloat(ambient);
+  const temperatureOffset = measuredTemperature !== null && Number.isFinite(ambientTemperature)
+    ? Math.round((ambientTemperature - measuredTemperature) * 10) / 10
+    : null;
+
+  // 未重新校准的项目沿用已保存的结果
+  const buildCalibration = (deviceId: string): DeviceCalibration => ({
+    deviceId,
+    pressureOffsets: baseline?.pressureOffsets ?? existing?.pressureOffsets ?? [],
+    flexOffsets: baseline?.flexOffsets ?? existing?.flexOffsets ?? [],
+    resonanceFrequency: resonance,
+    temperatureOffset: temperatureOffset ?? existing?.temperatureOffset ?? 0,
+    calibratedAt: Date.now()
+  });
+
+  const handleSave = () => {
+    if (!deviceInfo) return;
+    actions.setDeviceCalibration(buildCalibration(deviceInfo.id));
+    setSaved(true);
+  };
+
+  const handleRemove = () => {
+    if (!deviceInfo) return;
+    actions.removeDeviceCalibration(deviceInfo.id);
+    setBaseline(null);
+    setMeasuredTemperature(null);
+    setSaved(false);
+  };
+
+  const goToStep = (index: number) => {
+    if (sweeping) handleStopSweep();
+    setSaved(false);
+    setStepIndex(Math.max(0, Math.min(STEPS.length - 1, index)));
+  };
+
+  const renderStep = () => {
+    switch (currentStep) {
+      case 'sensors':
+        return (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Gauge className="w-5 h-5 text-blue-600" />
+              <h2 className="text-lg font-semibold text-gray-800">压力和弯曲传感器归零</h2>
+            </div>
+            {hasSensors ? (
+              <>
+                <p className="text-sm text-gray-600">
+                  请将手指自然伸直，指尖悬空不接触任何物体，然后开始采集。采集期间保持不动。
+                </p>
+                <button
+                  onClick={handleCaptureBaseline}
+                  disabled={capturing}
+                  className="px-4 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600 disabled:opacity-50"
+                >
+                  {capturing ? '采集中...' : '开始采集'}
+                </button>
+                {(baseline || existing) && (
+                  <div className="text-sm text-gray-700 space-y-1">
+                    <div>压力零点: {formatOffsets((baseline || existing)!.pressureOffsets, 3, '牛')}</div>
+                    <div>弯曲零点: {formatOffsets((baseline || existing)!.flexOffsets, 1, '°')}</div>
+                    {!baseline && <div className="text-xs text-gray-500">（已保存的结果）</div>}
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">该设备没有压力或弯曲传感器，可跳过此步。</p>
+            )}
+          </div>
+        );
+
+      case 'resonance':
+        return (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Waves className="w-5 h-5 text-purple-600" />
+              <h2 className="text-lg font-semibold text-gray-800">振动谐振频率</h2>
+            </div>
+            {capabilities?.vibration ? (
+              <>
+                <p className="text-sm text-gray-600">
+                  从 {vibrationRange[0]} 赫兹到 {vibrationRange[1]} 赫兹依次播放振动，感觉最强时点击“标记”。
+                </p>
+                <div className="flex items-center space-x-3">
+                  {sweeping ? (
+                    <>
+                      <button
+                        onClick={handleMarkResonance}
+                        className="flex items-center px-4 py-2 bg-purple-500 text-white text-sm font-medium rounded-lg hover:bg-purple-600"
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        标记
+                      </button>
+                      <button
+                        onClick={handleStopSweep}
+                        className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200"
+                      >
+                        <Square className="w-4 h-4 mr-1" />
+                        停止
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={handleStartSweep}
+                      className="flex items-center px-4 py-2 bg-purple-500 text-white text-sm font-medium rounded-lg hover:bg-purple-600"
+                    >
+                      <Play className="w-4 h-4 mr-1" />
+                      开始扫频
+                    </button>
+                  )}
+                  {sweeping && sweepFrequency !== null && (
+                    <span className="text-sm font-medium text-gray-700">当前 {sweepFrequency} 赫兹</span>
+                  )}
+                </div>
+                {resonance !== null && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700">谐振频率</span>
+                      <span className="font-medium text-gray-900">{resonance} 赫兹</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={vibrationRange[0]}
+                      max={vibrationRange[1]}
+                      step={RESONANCE_FINE_STEP}
+                      value={resonance}
+                      onChange={(e) => setResonance(Number(e.target.value))}
+                      className="w-full"
+                    />
+                    <button
+                      onClick={handlePlayResonance}
+                      disabled={sweeping}
+                      className="flex items-center px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      <Play className="w-4 h-4 mr-1" />
+                      试播
+                    </button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">该设备不支持振动，可跳过此步。</p>
+            )}
+          </div>
+        );
+
+      case 'temperature':
+        return (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Thermometer className="w-5 h-5 text-orange-600" />
+              <h2 className="text-lg font-semibold text-gray-800">温度传感器检查</h2>
+            </div>
+            {capabilities?.temperature ? (
+              <>
+                <p className="text-sm text-gray-600">
+                  请取下指套静置一分钟，使其与室温一致，输入室温后读取传感器。
+                </p>
+                <div className="flex items-center space-x-3">
+                  <label className="text-sm text-gray-700">室温</label>
+                  <input
+                    type="number"
+                    step={0.1}
+                    value={ambient}
+                    onChange={(e) => setAmbient(e.target.value)}
+                    className="w-24 px-2 py-1 text-sm border border-gray-300 rounded"
+                  />
+                  <span className="text-sm text-gray-600">°C</span>
+                  <button
+                    onClick={handleReadTemperature}
+                    className="px-4 py-2 bg-orange-500 text-white text-sm font-medium rounded-lg hover:bg-orange-600"
+                  >
+                    读取传感器
+                  </button>
+                </div>
+                {measuredTemperature !== null && (
+                  <div className="text-sm text-gray-700 space-y-1">
+                    <div>传感器读数: {measuredTemperature.toFixed(1)}°C</div>
+                    {temperatureOffset !== null && <div>偏移: {temperatureOffset > 0 ? '+' : ''}{temperatureOffset.toFixed(1)}°C</div>}
+                    {temperatureOffset !== null && Math.abs(temperatureOffset) > MAX_TEMPERATURE_OFFSET && (
+                      <div className="text-red-600">偏移超过 {MAX_TEMPERATURE_OFFSET}°C，传感器可能异常，请确认指套已静置后重试</div>
+                    )}
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">该设备不支持温度反馈，可跳过此步。</p>
+            )}
+          </div>
+        );
+
+      case 'review': {
+        const calibration = buildCalibration(deviceInfo!.id);
+        return (
+          <div className="space-y-4">
+            <h2 className="text-lg font-semibold text-gray-800">校准结果</h2>
+            <div className="text-sm text-gray-700 space-y-1">
+              <div>压力零点: {formatOffsets(calibration.pressureOffsets, 3, '牛')}</div>
+              <div>弯曲零点: {formatOffsets(calibration.flexOffsets, 1, '°')}</div>
+              <div>谐振频率: {calibration.resonanceFrequency !== null ? `${calibration.resonanceFrequency} 赫兹` : '未标定'}</div>
+              <div>温度偏移: {calibration.temperatureOffset.toFixed(1)}°C</div>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={handleSave}
+                className="flex items-center px-4 py-2 bg-green-500 text-white text-sm font-medium rounded-lg hover:bg-green-600"
+              >
+                <Check className="w-4 h-4 mr-1" />
+                保存并应用
+              </button>
+              {existing && (
+                <button
+                  onClick={handleRemove}
+                  className="flex items-center px-4 py-2 bg-gray-100 text-red-600 text-sm rounded-lg hover:bg-gray-200"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  清除校准
+                </button>
+              )}
+            </div>
+            {saved && <p className="text-sm text-green-600">已保存，该指套每次连接时会自动应用此校准。</p>}
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-lg border-b border-gray-200">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Link to="/" className="p-2 text-gray-600 hover:text-gray-900 rounded-lg hover:bg-gray-100">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="text-xl font-bold text-gray-900">设备校准</h1>
+          </div>
+          {deviceInfo && (
+            <span className="text-sm text-gray-600">
+              {deviceInfo.name}
+              {existing && ` · 上次校准 ${new Date(existing.calibratedAt).toLocaleString()}`}
+            </span>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-8">
+        {!deviceInfo ? (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center space-y-4">
+            <p className="text-gray-600">请先连接指套设备再进行校准。</p>
+            <Link to="/" className="inline-block px-4 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600">
+              返回连接设备
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* 步骤指示 */}
+            <ol className="flex items-center justify-between">
+              {STEPS.map((step, index) => (
+                <li key={step.id}>
+                  <button
+                    onClick={() => goToStep(index)}
+                    className={`flex items-center space-x-2 text-sm ${
+                      index === stepIndex ? 'text-blue-600 font-semibold' : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    <span className={`w-6 h-6 rounded-full flex items-center justify-center text-xs ${
+                      index === stepIndex ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-600'
+                    }`}>
+                      {index + 1}
+                    </span>
+                    <span>{step.title}</span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              {renderStep()}
+            </div>
+
+            <div className="flex justify-between">
+              <button
+                onClick={() => goToStep(stepIndex - 1)}
+                disabled={stepIndex === 0}
+                className="px-4 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 disabled:opacity-50"
+              >
+                上一步
+              </button>
+              {stepIndex < STEPS.length - 1 && (
+                <button
+                  onClick={() => goToStep(stepIndex + 1)}
+                  className="px-4 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600"
+                >
+                  下一步
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CalibrationPage;
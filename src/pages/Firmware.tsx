@@ -0,0 +1,239 @@
+// 固件升级页面 - 拖入固件镜像，检查兼容性后通过无线升级写入指套
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useDropzone } from 'react-dropzone';
+import { ArrowLeft, Cpu, FlaskConical, Upload, X } from 'lucide-react';
+import { createHapticController } from '../utils/hapticController';
+import type { FirmwareUpdatePhase, FirmwareUpdateProgress } from '../utils/hapticController';
+import { checkFirmwareCompatibility, encodeFirmwareImage, parseFirmwareImage } from '../utils/firmwareImage';
+import type { FirmwareImage } from '../utils/firmwareImage';
+import { getSimulatedFingerSuit } from '../utils/simulatedFingerSuit';
+import type { FingerDevice } from '../types';
+
+const PHASE_LABELS: Record<FirmwareUpdatePhase, string> = {
+  preparing: '准备中',
+  transferring: '传输固件',
+  verifying: '校验固件',
+  rebooting: '设备重启中',
+  complete: '升级完成',
+  failed: '升级失败'
+};
+
+// 模拟设备测试镜像的大小（字节）
+const TEST_IMAGE_SIZE = 16 * 1024;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+
+const FirmwarePage: React.FC = () => {
+  const [controller] = useState(() => createHapticController());
+  const [deviceInfo, setDeviceInfo] = useState<FingerDevice | null>(() =>
+    controller.connected ? controller.getDeviceInfo() : null
+  );
+  const [image, setImage] = useState<FirmwareImage | null>(null);
+  const [imageName, setImageName] = useState('');
+  const [imageError, setImageError] = useState<string | null>(null);
+  const [allowDowngrade, setAllowDowngrade] = useState(false);
+  const [progress, setProgress] = useState<FirmwareUpdateProgress | null>(null);
+  const [updating, setUpdating] = useState(() => controller.updatingFirmware);
+
+  // 跟踪连接状态和升级进度（升级中的断线重连不清除设备信息，以便显示续传进度）
+  useEffect(() => {
+    const handleConnected = () => setDeviceInfo({ ...controller.getDeviceInfo()! });
+    const handleDisconnected = () => setDeviceInfo(null);
+    const handleProgress = (next: FirmwareUpdateProgress) => setProgress(next);
+
+    controller.addEventListener('connected', handleConnected);
+    controller.addEventListener('reconnected', handleConnected);
+    controller.addEventListener('disconnected', handleDisconnected);
+    controller.addEventListener('firmwareProgress', handleProgress);
+    return () => {
+      controller.removeEventListener('connected', handleConnected);
+      controller.removeEventListener('reconnected', handleConnected);
+      controller.removeEventListener('disconnected', handleDisconnected);
+      controller.removeEventListener('firmwareProgress', handleProgress);
+    };
+  }, [controller]);
+
+  const loadImage = useCallback((buffer: ArrayBuffer, name: string) => {
+    setProgress(null);
+    setImageName(name);
+    try {
+      setImage(parseFirmwareImage(buffer));
+      setImageError(null);
+    } catch (error) {
+      setImage(null);
+      setImageError(error instanceof Error ? error.message : '无法解析固件文件');
+    }
+  }, []);
+
+  const onDrop = useCallback(async (files: File[]) => {
+    const file = files[0];
+    if (file) {
+      loadImage(await file.arrayBuffer(), file.name);
+    }
+  }, [loadImage]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    multiple: false,
+    disabled: updating
+  });
+
+  // 为模拟设备生成比当前版本高一个修订号的测试镜像
+  const handleGenerateTestImage = () => {
+    if (!deviceInfo) return;
+    const [major = 0, minor = 0, patch = 0] = deviceInfo.firmwareVersion.split('.').map(Number);
+    const version = `${major}.${minor}.${patch + 1}`;
+    const payload = new Uint8Array(TEST_IMAGE_SIZE);
+    crypto.getRandomValues(payload);
+    loadImage(encodeFirmwareImage(version, deviceInfo.firmwareVersion, payload), `simulated-${version}.fsfw`);
+  };
+
+  const handleStart = async () => {
+    if (!image) return;
+    setUpdating(true);
+    await controller.updateFirmware(image, allowDowngrade);
+    setUpdating(false);
+  };
+
+  const compatibility = image && deviceInfo ? checkFirmwareCompatibility(image, deviceInfo, allowDowngrade) : null;
+  const simulatedSuit = getSimulatedFingerSuit();
+  const isSimulated = !!simulatedSuit && !!deviceInfo && simulatedSuit.device.id === deviceInfo.id;
+  const percent = progress && progress.total > 0 ? Math.round(progress.sent / progress.total * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-lg border-b border-gray-200">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Link to="/" className="p-2 text-gray-600 hover:text-gray-900 rounded-lg hover:bg-gray-100">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="text-xl font-bold text-gray-900">固件升级</h1>
+          </div>
+          {deviceInfo && (
+            <span className="flex items-center text-sm text-gray-600">
+              <Cpu className="w-4 h-4 mr-1" />
+              {deviceInfo.name} · 固件 {deviceInfo.firmwareVersion}
+            </span>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        {!deviceInfo && !updating ? (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center space-y-4">
+            <p className="text-gray-600">请先连接指套设备再进行固件升级。</p>
+            <Link to="/" className="inline-block px-4 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600">
+              返回连接设备
+            </Link>
+          </div>
+        ) : (
+          <>
+            {/* 选择镜像 */}
+            <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+              <div
+                {...getRootProps()}
+                className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+                  isDragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+                } ${updating ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                <input {...getInputProps()} />
+                <Upload className="w-8 h-8 mx-auto text-gray-400 mb-2" />
+                <p className="text-sm text-gray-600">
+                  {isDragActive ? '松开以载入固件' : '拖入固件镜像文件，或点击选择'}
+                </p>
+              </div>
+
+              {isSimulated && (
+                <button
+                  onClick={handleGenerateTestImage}
+                  disabled={updating}
+                  className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                >
+                  <FlaskConical className="w-4 h-4 mr-1" />
+                  生成模拟设备测试固件
+                </button>
+              )}
+
+              {imageError && <p className="text-sm text-red-600">{imageName}: {imageError}</p>}
+
+              {image && (
+                <div className="text-sm text-gray-700 space-y-1">
+                  <div className="font-medium text-gray-900">{imageName}</div>
+                  <div>固件版本: {image.version}（要求设备不低于 {image.minVersion}）</div>
+                  <div>大小: {formatSize(image.payload.length)} · CRC32: {image.crc.toString(16).padStart(8, '0')}</div>
+                  {compatibility && (
+                    <div className={compatibility.compatible ? 'text-green-600' : 'text-red-600'}>
+                      {compatibility.compatible ? '可以升级' : compatibility.reason}
+                    </div>
+                  )}
+                  <label className="flex items-center space-x-2 text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={allowDowngrade}
+                      onChange={(e) => setAllowDowngrade(e.target.checked)}
+                      disabled={updating}
+                    />
+                    <span>允许降级</span>
+                  </label>
+                </div>
+              )}
+            </div>
+
+            {/* 升级进度 */}
+            {image && (
+              <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+                {progress && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className={`font-medium ${
+                        progress.phase === 'failed' ? 'text-red-600' : progress.phase === 'complete' ? 'text-green-600' : 'text-gray-800'
+                      }`}>
+                        {PHASE_LABELS[progress.phase]}
+                      </span>
+                      <span className="text-gray-600">
+                        {formatSize(progress.sent)} / {formatSize(progress.total)} ({percent}%)
+                      </span>
+                    </div>
+                    <div className="w-full h-2 bg-gray-200 rounded">
+                      <div
+                        className={`h-2 rounded transition-all ${progress.phase === 'failed' ? 'bg-red-500' : 'bg-blue-500'}`}
+                        style={{ width: `${percent}%` }}
+                      />
+                    </div>
+                    {progress.message && <p className="text-sm text-gray-600">{progress.message}</p>}
+                  </div>
+                )}
+
+                <div className="flex items-center space-x-3">
+                  {updating ? (
+                    <button
+                      onClick={() => controller.cancelFirmwareUpdate()}
+                      className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200"
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      取消
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleStart}
+                      disabled={!compatibility?.compatible}
+                      className="px-4 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600 disabled:opacity-50"
+                    >
+                      开始升级
+                    </button>
+                  )}
+                  <p className="text-xs text-gray-500">升级期间请让指套保持在通信范围内；断线后会在重连时自动续传。</p>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default FirmwarePage;
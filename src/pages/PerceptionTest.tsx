@@ -0,0 +1,389 @@
+// 感知校准页面 - 用阶梯法测量当前用户的振动察觉阈值和舒适上限，保存到用户档案
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Fingerprint, Play, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { useAppStore, useActiveUserProfile, useUserProfiles } from '../stores/useAppStore';
+import { createHapticController } from '../utils/hapticController';
+import {
+  COMFORT_STAIRCASE,
+  DETECTION_STAIRCASE,
+  Staircase,
+  createPerceptualCalibration
+} from '../utils/perceptualStaircase';
+import type { PerceptualCalibration } from '../types';
+
+type TestPhase = 'idle' | 'detection' | 'comfort' | 'done';
+
+// 强迫选择的两段区间
+type TrialInterval = 1 | 2;
+
+// 每段区间和刺激的时长、区间间隔（毫秒）
+const INTERVAL_DURATION = 600;
+const STIMULUS_DURATION = 400;
+const INTERVAL_GAP = 500;
+
+// 未标定谐振频率时的测试频率（赫兹）
+const DEFAULT_TEST_FREQUENCY = 200;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const formatLevel = (level: number) => `${(level * 100).toFixed(1)}%`;
+
+const PerceptionTestPage: React.FC = () => {
+  const [controller] = useState(() => createHapticController());
+  const [isConnected, setIsConnected] = useState(() => controller.connected);
+  const { config, actions } = useAppStore();
+  const userProfiles = useUserProfiles();
+  const activeUser = useActiveUserProfile();
+  const [newUserName, setNewUserName] = useState('');
+  const [phase, setPhase] = useState<TestPhase>('idle');
+  const [playing, setPlaying] = useState(false);
+  const [activeInterval, setActiveInterval] = useState<TrialInterval | null>(null);
+  const [awaitingResponse, setAwaitingResponse] = useState(false);
+  const [result, setResult] = useState<PerceptualCalibration | null>(null);
+  const [, setTrialCount] = useState(0);
+  const detection = useRef(new Staircase(DETECTION_STAIRCASE));
+  const comfort = useRef(new Staircase(COMFORT_STAIRCASE));
+  const stimulusInterval = useRef<TrialInterval>(1);
+  const leaving = useRef(false);
+
+  // 测试频率：优先使用设备校准的谐振频率
+  const [minFrequency, maxFrequency] = config.haptic.vibrationRange;
+  const testFrequency = Math.max(
+    minFrequency,
+    Math.min(maxFrequency, controller.getCalibration()?.resonanceFrequency ?? DEFAULT_TEST_FREQUENCY)
+  );
+
+  // 跟踪设备连接状态
+  useEffect(() => {
+    const handleConnected = () => setIsConnected(true);
+    const handleDisconnected = () => setIsConnected(false);
+
+    controller.addEventListener('connected', handleConnected);
+    controller.addEventListener('reconnected', handleConnected);
+    controller.addEventListener('reconnecting', handleDisconnected);
+    controller.addEventListener('disconnected', handleDisconnected);
+    return () => {
+      controller.removeEventListener('connected', handleConnected);
+      controller.removeEventListener('reconnected', handleConnected);
+      controller.removeEventListener('reconnecting', handleDisconnected);
+      controller.removeEventListener('disconnected', handleDisconnected);
+    };
+  }, [controller]);
+
+  // 离开页面时不再播放剩余区间
+  useEffect(() => {
+    leaving.current = false;
+    return () => {
+      leaving.current = true;
+    };
+  }, []);
+
+  // 切换用户时放弃进行中的测试
+  useEffect(() => {
+    setPhase('idle');
+    setResult(null);
+    setAwaitingResponse(false);
+  }, [activeUser?.id]);
+
+  const playStimulus = (level: number) => controller.sendRawVibration({
+    intensity: level,
+    frequency: testFrequency,
+    pattern: 'medium',
+    duration: STIMULUS_DURATION
+  });
+
+  const handleCreateUser = () => {
+    const name = newUserName.trim();
+    if (!name) return;
+    const id = `user-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    actions.saveUserProfile({ id, name, perception: null, createdAt: Date.now() });
+    actions.setActiveUser(id);
+    setNewUserName('');
+  };
+
+  const handleStart = () => {
+    detection.current = new Staircase(DETECTION_STAIRCASE);
+    setResult(null);
+    setAwaitingResponse(false);
+    setPhase('detection');
+  };
+
+  // 察觉阈值试次：刺激随机出现在两段区间之一
+  const handlePlayDetectionTrial = async () => {
+    stimulusInterval.current = Math.random() < 0.5 ? 1 : 2;
+    setPlaying(true);
+    for (const interval of [1, 2] as TrialInterval[]) {
+      if (leaving.current) return;
+      setActiveInterval(interval);
+      if (interval === stimulusInterval.current) {
+        playStimulus(detection.current.level);
+      }
+      await sleep(INTERVAL_DURATION);
+      setActiveInterval(null);
+      if (interval === 1) {
+        await sleep(INTERVAL_GAP);
+      }
+    }
+    setPlaying(false);
+    setAwaitingResponse(true);
+  };
+
+  const handleDetectionResponse = (interval: TrialInterval) => {
+    detection.current.respond(interval === stimulusInterval.current);
+    setAwaitingResponse(false);
+    setTrialCount(count => count + 1);
+    if (detection.current.finished) {
+      // 舒适上限从高于察觉阈值处开始，减少远低于上限的试次
+      const threshold = detection.current.getEstimate() ?? detection.current.level;
+      comfort.current = new Staircase({
+        ...COMFORT_STAIRCASE,
+        startLevel: Math.min(1, Math.max(COMFORT_STAIRCASE.startLevel, threshold * 2))
+      });
+      setPhase('comfort');
+    }
+  };
+
+  const handlePlayComfortTrial = async () => {
+    setPlaying(true);
+    playStimulus(comfort.current.level);
+    await sleep(STIMULUS_DURATION);
+    setPlaying(false);
+    setAwaitingResponse(true);
+  };
+
+  const handleComfortResponse = (tooStrong: boolean) => {
+    comfort.current.respond(tooStrong);
+    setAwaitingResponse(false);
+    setTrialCount(count => count + 1);
+    if (comfort.current.finished) {
+      const threshold = detection.current.getEstimate() ?? detection.current.level;
+      const maximum = comfort.current.getEstimate() ?? comfort.current.level;
+      setResult(createPerceptualCalibration(threshold, maximum, testFrequency));
+      setPhase('done');
+    }
+  };
+
+  const handleSave = () => {
+    if (!activeUser || !result) return;
+    actions.saveUserProfile({ ...activeUser, perception: result });
+  };
+
+  const staircase = phase === 'comfort' ? comfort.current : detection.current;
+  const staircaseOptions = phase === 'comfort' ? COMFORT_STAIRCASE : DETECTION_STAIRCASE;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-lg border-b border-gray-200">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Link to="/" className="p-2 text-gray-600 hover:text-gray-900 rounded-lg hover:bg-gray-100">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="text-xl font-bold text-gray-900">感知校准</h1>
+          </div>
+          <span className="text-sm text-gray-600">测试频率 {testFrequency} Hz</span>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        {/* 用户档案 */}
+        <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+          <h2 className="text-sm font-semibold text-gray-900">用户</h2>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={activeUser?.id ?? ''}
+              onChange={(e) => actions.setActiveUser(e.target.value || null)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">未选择用户（不做强度映射）</option>
+              {Object.values(userProfiles).map(user => (
+                <option key={user.id} value={user.id}>{user.name}</option>
+              ))}
+            </select>
+            {activeUser && (
+              <button
+                onClick={() => actions.removeUserProfile(activeUser.id)}
+                className="flex items-center px-3 py-2 text-red-600 text-sm rounded-lg hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                删除用户
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <input
+              value={newUserName}
+              onChange={(e) => setNewUserName(e.target.value)}
+              placeholder="新用户名称"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              onClick={handleCreateUser}
+              disabled={!newUserName.trim()}
+              className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              新建用户
+            </button>
+          </div>
+          {activeUser && (
+            <p className="text-sm text-gray-600">
+              {activeUser.perception
+                ? `察觉阈值 ${formatLevel(activeUser.perception.detectionThreshold)} · 舒适上限 ${formatLevel(activeUser.perception.comfortableMax)}（${activeUser.perception.frequency} Hz，${new Date(activeUser.perception.measuredAt).toLocaleDateString()}）`
+                : '尚未测试，振动强度不做映射。'}
+            </p>
+          )}
+        </div>
+
+        {/* 阶梯法测试 */}
+        {!activeUser ? (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center text-gray-600">请先选择或新建用户。</div>
+        ) : !isConnected ? (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center space-y-4">
+            <p className="text-gray-600">请先连接指套设备再进行感知校准。</p>
+            <Link to="/" className="inline-block px-4 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600">
+              返回连接设备
+            </Link>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+            {phase === 'idle' && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  测试分两步：先在两段区间中选出有振动的一段以测量察觉阈值，再判断振动是否过强以测量舒适上限。强度会根据回答自动调整，共需约 5 分钟。
+                </p>
+                <button
+                  onClick={handleStart}
+                  className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600"
+                >
+                  <Fingerprint className="w-4 h-4 mr-1" />
+                  开始测试
+                </button>
+              </div>
+            )}
+
+            {(phase === 'detection' || phase === 'comfort') && (
+              <div className="space-y-4">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-gray-900">
+                    {phase === 'detection' ? '第一步：察觉阈值' : '第二步：舒适上限'}
+                  </span>
+                  <span className="text-gray-500">
+                    试次 {staircase.getTrials().length} · 反转 {staircase.reversals}/{staircaseOptions.maxReversals}
+                  </span>
+                </div>
+
+                {phase === 'detection' ? (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      {([1, 2] as TrialInterval[]).map(interval => (
+                        <div
+                          key={interval}
+                          className={`h-16 rounded-lg flex items-center justify-center text-sm font-medium transition-colors ${
+                            activeInterval === interval ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-500'
+                          }`}
+                        >
+                          第 {interval} 段
+                        </div>
+                      ))}
+                    </div>
+                    {awaitingResponse ? (
+                      <div className="flex items-center space-x-3">
+                        <span className="text-sm text-gray-700">哪一段有振动？</span>
+                        {([1, 2] as TrialInterval[]).map(interval => (
+                          <button
+                            key={interval}
+                            onClick={() => handleDetectionResponse(interval)}
+                            className="px-4 py-2 bg-gray-100 text-gray-800 text-sm rounded-lg hover:bg-gray-200"
+                          >
+                            第 {interval} 段
+                          </button>
+                        ))}
+                      </div>
+                    ) : (
+                      <button
+                        onClick={handlePlayDetectionTrial}
+                        disabled={playing}
+                        className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600 disabled:opacity-50"
+                      >
+                        <Play className="w-4 h-4 mr-1" />
+                        播放
+                      </button>
+                    )}
+                    <p className="text-xs text-gray-500">感觉不到时也请凭直觉选择一段。</p>
+                  </>
+                ) : (
+                  <>
+                    {awaitingResponse ? (
+                      <div className="flex items-center space-x-3">
+                        <span className="text-sm text-gray-700">这个强度是否过强？</span>
+                        <button
+                          onClick={() => handleComfortResponse(false)}
+                          className="px-4 py-2 bg-green-100 text-green-800 text-sm rounded-lg hover:bg-green-200"
+                        >
+                          可以接受
+                        </button>
+                        <button
+                          onClick={() => handleComfortResponse(true)}
+                          className="px-4 py-2 bg-red-100 text-red-800 text-sm rounded-lg hover:bg-red-200"
+                        >
+                          太强
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={handlePlayComfortTrial}
+                        disabled={playing}
+                        className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600 disabled:opacity-50"
+                      >
+                        <Play className="w-4 h-4 mr-1" />
+                        播放
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
+            {phase === 'done' && result && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4 text-center">
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <div className="text-2xl font-bold text-gray-900">{formatLevel(result.detectionThreshold)}</div>
+                    <div className="text-xs text-gray-500">察觉阈值</div>
+                  </div>
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <div className="text-2xl font-bold text-gray-900">{formatLevel(result.comfortableMax)}</div>
+                    <div className="text-xs text-gray-500">舒适上限</div>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  保存后，非零的效果强度先乘以交互设置中的触觉强度，再线性映射到察觉阈值和舒适上限之间。
+                </p>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={handleSave}
+                    className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600"
+                  >
+                    <Save className="w-4 h-4 mr-1" />
+                    保存到 {activeUser.name}
+                  </button>
+                  <button
+                    onClick={handleStart}
+                    className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    重新测试
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default PerceptionTestPage;
@@ -0,0 +1,564 @@
+// 触觉配置编辑器 - 编辑振动和温度参数，预览波形并在设备上试播，保存后可指派给材质
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Copy, Download, Play, Plus, Save, Trash2, Upload } from 'lucide-react';
+import {
+  useAppStore,
+  useHapticProfiles,
+  useMaterialLibrary,
+  useMaterialProfileAssignments,
+  useVirtual3DObjects
+} from '../stores/useAppStore';
+import { createHapticController, HapticProfiles } from '../utils/hapticController';
+import {
+  BUILT_IN_PROFILES,
+  cloneHapticProfile,
+  createProfileId,
+  findHapticProfile,
+  getAllHapticProfiles,
+  getDefaultProfileId,
+  normalizeHapticProfile,
+  renderProfilePreview
+} from '../utils/hapticProfileLibrary';
+import type { ProfilePreviewPoint } from '../utils/hapticProfileLibrary';
+import { createHapticLibraryFile, MAX_REPORTED_ISSUES, parseHapticLibrary } from '../utils/hapticLibraryFile';
+import { NEUTRAL_TEMPERATURE } from '../utils/hapticEnvelope';
+import type { ADSREnvelope, HapticProfile, MaterialProperties, TemperatureConfig, VibrationConfig } from '../types';
+
+const PATTERN_LABELS: Record<Exclude<VibrationConfig['pattern'], 'custom'>, string> = {
+  sharp: '尖锐',
+  soft: '柔和',
+  medium: '中等',
+  pulse: '脉冲'
+};
+
+// 新建配置和重新启用时的默认参数
+const DEFAULT_VIBRATION: VibrationConfig = { intensity: 0.6, frequency: 150, pattern: 'medium', duration: 200 };
+const DEFAULT_TEMPERATURE: TemperatureConfig = { target: 30, rampTime: 300, holdTime: 500 };
+const DEFAULT_ADSR: ADSREnvelope = { type: 'adsr', attack: 20, decay: 50, sustain: 0.7, release: 80 };
+
+// 预览图尺寸（SVG坐标）
+const PREVIEW_WIDTH = 600;
+const VIBRATION_HEIGHT = 140;
+const TEMPERATURE_HEIGHT = 80;
+
+// 正在编辑的配置（id为null表示尚未保存的新配置）
+interface ProfileDraft {
+  id: string | null;
+  name: string;
+  builtIn: boolean;
+  profile: HapticProfile;
+}
+
+const toPath = (points: ProfilePreviewPoint[], duration: number, height: number, min: number, max: number) =>
+  points.map((point, index) => {
+    const x = point.time / duration * PREVIEW_WIDTH;
+    const y = height - (point.value - min) / (max - min || 1) * height;
+    return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+
+// 滑块输入
+const SliderField: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, unit = '', onChange }) => (
+  <label className="block text-sm">
+    <div className="flex justify-between text-gray-700">
+      <span>{label}</span>
+      <span className="text-gray-500">{value}{unit}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full"
+    />
+  </label>
+);
+
+const ProfileEditorPage: React.FC = () => {
+  const [controller] = useState(() => createHapticController());
+  const [isConnected, setIsConnected] = useState(() => controller.connected);
+  const { config, actions } = useAppStore();
+  const savedProfiles = useHapticProfiles();
+  const assignments = useMaterialProfileAssignments();
+  const virtual3DObjects = useVirtual3DObjects();
+  const materialLibrary = useMaterialLibrary();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ProfileDraft>(() => ({
+    id: BUILT_IN_PROFILES[0].id,
+    name: BUILT_IN_PROFILES[0].name,
+    builtIn: true,
+    profile: cloneHapticProfile(BUILT_IN_PROFILES[0].profile)
+  }));
+  const [dirty, setDirty] = useState(false);
+
+  const { vibrationRange, minTemperature, maxTemperature } = config.haptic;
+  const profiles = getAllHapticProfiles(savedProfiles);
+  const preview = useMemo(() => renderProfilePreview(draft.profile), [draft.profile]);
+
+  // 场景中出现过的材质类型，以及内置配置对应的材质
+  const materialTypes = useMemo(() => {
+    const types = new Set(virtual3DObjects.map(obj => obj.material.type));
+    Object.keys(HapticProfiles).forEach(type => types.add(type));
+    Object.keys(assignments).forEach(type => types.add(type));
+    Object.keys(materialLibrary).forEach(type => types.add(type));
+    return Array.from(types).sort();
+  }, [virtual3DObjects, assignments, materialLibrary]);
+
+  // 跟踪设备连接状态
+  useEffect(() => {
+    const handleConnected = () => setIsConnected(true);
+    const handleDisconnected = () => setIsConnected(false);
+
+    controller.addEventListener('connected', handleConnected);
+    controller.addEventListener('reconnected', handleConnected);
+    controller.addEventListener('reconnecting', handleDisconnected);
+    controller.addEventListener('disconnected', handleDisconnected);
+    return () => {
+      controller.removeEventListener('connected', handleConnected);
+      controller.removeEventListener('reconnected', handleConnected);
+      controller.removeEventListener('reconnecting', handleDisconnected);
+      controller.removeEventListener('disconnected', handleDisconnected);
+    };
+  }, [controller]);
+
+  const selectProfile = (id: string) => {
+    const profile = findHapticProfile(id, savedProfiles);
+    if (!profile) return;
+    setDraft({ id: profile.id, name: profile.name, builtIn: !!profile.builtIn, profile: cloneHapticProfile(profile.profile) });
+    setDirty(false);
+  };
+
+  const updateProfile = (update: Partial<HapticProfile>) => {
+    setDraft(prev => ({ ...prev, profile: { ...prev.profile, ...update } }));
+    setDirty(true);
+  };
+
+  const updateVibration = (update: Partial<VibrationConfig>) => {
+    if (!draft.profile.vibration) return;
+    updateProfile({ vibration: { ...draft.profile.vibration, ...update } });
+  };
+
+  const updateTemperature = (update: Partial<TemperatureConfig>) => {
+    if (!draft.profile.temperature) return;
+    updateProfile({ temperature: { ...draft.profile.temperature, ...update } });
+  };
+
+  const updateADSR = (update: Partial<ADSREnvelope>) => {
+    const envelope = draft.profile.vibration?.envelope;
+    if (envelope?.type !== 'adsr') return;
+    updateVibration({ envelope: { ...envelope, ...update } });
+  };
+
+  const handleNew = () => {
+    setDraft({
+      id: null,
+      name: '新配置',
+      builtIn: false,
+      profile: normalizeHapticProfile({ vibration: { ...DEFAULT_VIBRATION }, duration: 0, intensity: 0 })
+    });
+    setDirty(true);
+  };
+
+  const handleDuplicate = () => {
+    setDraft(prev => ({ id: null, name: `${prev.name} 副本`, builtIn: false, profile: cloneHapticProfile(prev.profile) }));
+    setDirty(true);
+  };
+
+  // 内置配置只读，保存时另存为新配置
+  const handleSave = () => {
+    const id = draft.id && !draft.builtIn ? draft.id : createProfileId();
+    const name = draft.name.trim() || '未命名配置';
+    actions.saveHapticProfile({ id, name, profile: normalizeHapticProfile(draft.profile), updatedAt: Date.now() });
+    setDraft(prev => ({ ...prev, id, name, builtIn: false }));
+    setDirty(false);
+  };
+
+  const handleDelete = () => {
+    if (!draft.id || draft.builtIn) return;
+    actions.removeHapticProfile(draft.id);
+    selectProfile(BUILT_IN_PROFILES[0].id);
+  };
+
+  // 导出自定义配置文件和材质参数（材质库优先，其余取场景中该类型的第一个物体）
+  const handleExport = () => {
+    const materials: Record<string, MaterialProperties> = { ...materialLibrary };
+    virtual3DObjects.forEach(obj => {
+      if (!materials[obj.material.type]) {
+        materials[obj.material.type] = obj.material;
+      }
+    });
+    const library = createHapticLibraryFile('触觉配置库', Object.values(savedProfiles), Object.values(materials));
+    const blob = new Blob([JSON.stringify(library, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `haptic-library-${library.exportedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const { library, errors } = parseHapticLibrary(await file.text(), config.haptic);
+    if (!library) {
+      setImportErrors(errors);
+      setImportMessage(null);
+      return;
+    }
+    actions.importHapticLibrary(library);
+    setImportErrors([]);
+    setImportMessage(`已导入“${library.name}”：${library.profiles.length} 个配置文件，${library.materials.length} 种材质`);
+  };
+
+  const handlePlay = () => {
+    controller.sendHapticFeedback(normalizeHapticProfile(draft.profile));
+  };
+
+  const vibration = draft.profile.vibration;
+  const temperature = draft.profile.temperature;
+  const adsr = vibration?.envelope?.type === 'adsr' ? vibration.envelope : null;
+  const temperatureMin = Math.min(minTemperature, NEUTRAL_TEMPERATURE);
+  const temperatureMax = Math.max(maxTemperature, NEUTRAL_TEMPERATURE);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-lg border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Link to="/" className="p-2 text-gray-600 hover:text-gray-900 rounded-lg hover:bg-gray-100">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="text-xl font-bold text-gray-900">触觉配置</h1>
+          </div>
+          <span className={`text-sm ${isConnected ? 'text-green-600' : 'text-gray-500'}`}>
+            {isConnected ? '设备已连接' : '设备未连接'}
+          </span>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-8 grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* 配置列表 */}
+        <aside className="bg-white rounded-lg shadow-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-gray-900">配置文件</h2>
+            <button
+              onClick={handleNew}
+              className="flex items-center px-2 py-1 text-xs text-blue-600 rounded hover:bg-blue-50"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              新建
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {profiles.map(profile => (
+              <li key={profile.id}>
+                <button
+                  onClick={() => selectProfile(profile.id)}
+                  className={`w-full text-left px-3 py-2 text-sm rounded-lg ${
+                    draft.id === profile.id ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {profile.name}
+                  {profile.builtIn && <span className="ml-2 text-xs text-gray-400">内置</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </aside>
+
+        <div className="lg:col-span-3 space-y-6">
+          {/* 参数编辑 */}
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                value={draft.name}
+                onChange={(e) => {
+                  setDraft(prev => ({ ...prev, name: e.target.value }));
+                  setDirty(true);
+                }}
+                className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <button
+                onClick={handleSave}
+                disabled={!dirty}
+                className="flex items-center px-3 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600 disabled:opacity-50"
+              >
+                <Save className="w-4 h-4 mr-1" />
+                {draft.builtIn ? '另存为' : '保存'}
+              </button>
+              <button
+                onClick={handleDuplicate}
+                className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200"
+              >
+                <Copy className="w-4 h-4 mr-1" />
+                复制
+              </button>
+              {draft.id && !draft.builtIn && (
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center px-3 py-2 text-red-600 text-sm rounded-lg hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  删除
+                </button>
+              )}
+            </div>
+            {draft.builtIn && <p className="text-xs text-gray-500">内置配置为只读，修改后会另存为新配置。</p>}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {/* 振动 */}
+              <section className="space-y-3">
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={!!vibration}
+                    onChange={(e) => updateProfile({ vibration: e.target.checked ? { ...DEFAULT_VIBRATION } : undefined })}
+                  />
+                  <span>振动</span>
+                </label>
+                {vibration && (
+                  <>
+                    <SliderField
+                      label="强度"
+                      value={vibration.intensity}
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      onChange={(intensity) => updateVibration({ intensity })}
+                    />
+                    <SliderField
+                      label="频率"
+                      value={vibration.frequency}
+                      min={vibrationRange[0]}
+                      max={vibrationRange[1]}
+                      step={5}
+                      unit=" Hz"
+                      onChange={(frequency) => updateVibration({ frequency })}
+                    />
+                    <SliderField
+                      label="时长"
+                      value={vibration.duration}
+                      min={20}
+                      max={2000}
+                      step={10}
+                      unit=" ms"
+                      onChange={(duration) => updateVibration({ duration })}
+                    />
+                    <label className="block text-sm text-gray-700">
+                      模式
+                      <select
+                        value={vibration.pattern}
+                        onChange={(e) => updateVibration({ pattern: e.target.value as VibrationConfig['pattern'] })}
+                        className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg"
+                      >
+                        {Object.entries(PATTERN_LABELS).map(([pattern, label]) => (
+                          <option key={pattern} value={pattern}>{label}</option>
+                        ))}
+                        {vibration.pattern === 'custom' && <option value="custom">自定义波形</option>}
+                      </select>
+                    </label>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={!!adsr}
+                        disabled={vibration.envelope?.type === 'keyframes'}
+                        onChange={(e) => updateVibration({ envelope: e.target.checked ? { ...DEFAULT_ADSR } : undefined })}
+                      />
+                      <span>ADSR包络</span>
+                    </label>
+                    {adsr && (
+                      <div className="grid grid-cols-2 gap-3 pl-6">
+                        <SliderField label="起音" value={adsr.attack} min={0} max={500} step={5} unit=" ms" onChange={(attack) => updateADSR({ attack })} />
+                        <SliderField label="衰减" value={adsr.decay} min={0} max={500} step={5} unit=" ms" onChange={(decay) => updateADSR({ decay })} />
+                        <SliderField label="保持电平" value={adsr.sustain} min={0} max={1} step={0.05} onChange={(sustain) => updateADSR({ sustain })} />
+                        <SliderField label="释音" value={adsr.release} min={0} max={500} step={5} unit=" ms" onChange={(release) => updateADSR({ release })} />
+                      </div>
+                    )}
+                  </>
+                )}
+              </section>
+
+              {/* 温度 */}
+              <section className="space-y-3">
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={!!temperature}
+                    onChange={(e) => updateProfile({ temperature: e.target.checked ? { ...DEFAULT_TEMPERATURE } : undefined })}
+                  />
+                  <span>温度</span>
+                </label>
+                {temperature && (
+                  <>
+                    <SliderField
+                      label="目标温度"
+                      value={temperature.target}
+                      min={minTemperature}
+                      max={maxTemperature}
+                      step={0.5}
+                      unit=" °C"
+                      onChange={(target) => updateTemperature({ target })}
+                    />
+                    <SliderField
+                      label="升降温时间"
+                      value={temperature.rampTime}
+                      min={0}
+                      max={3000}
+                      step={50}
+                      unit=" ms"
+                      onChange={(rampTime) => updateTemperature({ rampTime })}
+                    />
+                    <SliderField
+                      label="保持时间"
+                      value={temperature.holdTime}
+                      min={0}
+                      max={5000}
+                      step={50}
+                      unit=" ms"
+                      onChange={(holdTime) => updateTemperature({ holdTime })}
+                    />
+                  </>
+                )}
+              </section>
+            </div>
+          </div>
+
+          {/* 预览 */}
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-gray-900">预览（{Math.round(preview.duration)} ms）</h2>
+              <button
+                onClick={handlePlay}
+                disabled={!isConnected || (!vibration && !temperature)}
+                className="flex items-center px-3 py-2 bg-green-500 text-white text-sm font-medium rounded-lg hover:bg-green-600 disabled:opacity-50"
+              >
+                <Play className="w-4 h-4 mr-1" />
+                在设备上播放
+              </button>
+            </div>
+            {vibration && (
+              <svg viewBox={`0 0 ${PREVIEW_WIDTH} ${VIBRATION_HEIGHT}`} className="w-full bg-gray-50 rounded">
+                <line x1={0} y1={VIBRATION_HEIGHT / 2} x2={PREVIEW_WIDTH} y2={VIBRATION_HEIGHT / 2} stroke="#e5e7eb" />
+                <path d={toPath(preview.vibration, preview.duration, VIBRATION_HEIGHT, -1, 1)} fill="none" stroke="#3b82f6" strokeWidth={1} />
+                <path d={toPath(preview.envelope, preview.duration, VIBRATION_HEIGHT, -1, 1)} fill="none" stroke="#f59e0b" strokeWidth={1.5} />
+              </svg>
+            )}
+            {temperature && (
+              <svg viewBox={`0 0 ${PREVIEW_WIDTH} ${TEMPERATURE_HEIGHT}`} className="w-full bg-gray-50 rounded">
+                <path
+                  d={toPath(preview.temperature, preview.duration, TEMPERATURE_HEIGHT, temperatureMin, temperatureMax)}
+                  fill="none"
+                  stroke={temperature.target >= NEUTRAL_TEMPERATURE ? '#ef4444' : '#06b6d4'}
+                  strokeWidth={1.5}
+                />
+              </svg>
+            )}
+            {!isConnected && <p className="text-xs text-gray-500">连接指套设备后可试播当前配置。</p>}
+          </div>
+
+          {/* 材质指派 */}
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-3">
+            <h2 className="text-sm font-semibold text-gray-900">材质指派</h2>
+            <p className="text-xs text-gray-500">指派后该材质的所有物体使用所选配置，包括之后新增的物体。</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {materialTypes.map(type => (
+                <label key={type} className="flex items-center justify-between text-sm text-gray-700">
+                  <span>{type}</span>
+                  <select
+                    value={assignments[type] ?? ''}
+                    onChange={(e) => actions.assignHapticProfile(type, e.target.value || null)}
+                    className="ml-3 px-2 py-1 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">{getDefaultProfileId(type) ? '默认' : '不指派'}</option>
+                    {profiles.map(profile => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* 配置库导入导出 */}
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-gray-900">配置库</h2>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200"
+                >
+                  <Upload className="w-4 h-4 mr-1" />
+                  导入
+                </button>
+                <button
+                  onClick={handleExport}
+                  className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  导出
+                </button>
+                <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              导出自定义配置文件和各材质参数，供其他实验室导入。导入时按当前设备的振动频率范围（{vibrationRange[0]}-{vibrationRange[1]} Hz）和温度上下限（{minTemperature}-{maxTemperature} °C）检查。
+            </p>
+            {importMessage && <p className="text-sm text-green-600">{importMessage}</p>}
+            {importErrors.length > 0 && (
+              <div className="text-sm text-red-600 space-y-1">
+                <p className="font-medium">导入失败，文件中有 {importErrors.length} 处错误：</p>
+                <ul className="list-disc pl-5 text-xs space-y-0.5">
+                  {importErrors.slice(0, MAX_REPORTED_ISSUES).map(error => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+                {importErrors.length > MAX_REPORTED_ISSUES && (
+                  <p className="text-xs">另有 {importErrors.length - MAX_REPORTED_ISSUES} 处错误未列出</p>
+                )}
+              </div>
+            )}
+            {Object.keys(materialLibrary).length > 0 && (
+              <div className="space-y-1">
+                <h3 className="text-xs font-medium text-gray-700">已导入的材质</h3>
+                {Object.values(materialLibrary).map(material => (
+                  <div key={material.type} className="flex items-center justify-between text-sm text-gray-700">
+                    <span>
+                      {material.type}
+                      <span className="ml-2 text-xs text-gray-400">
+                        硬度 {material.hardness} · 粗糙度 {material.roughness} · {material.temperature} °C
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => actions.removeLibraryMaterial(material.type)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ProfileEditorPage;
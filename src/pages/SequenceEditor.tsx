@@ -0,0 +1,540 @@
+// 效果序列编辑器 - 在时间轴上编排振动、温度、停顿和重复，试播并指派给材质
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowLeft, ArrowUp, Copy, Pause, Play, Plus, Save, Square, Trash2 } from 'lucide-react';
+import {
+  useAppStore,
+  useHapticProfiles,
+  useHapticSequences,
+  useMaterialSequenceAssignments,
+  useVirtual3DObjects
+} from '../stores/useAppStore';
+import { createHapticController, HapticProfiles } from '../utils/hapticController';
+import { getAllHapticProfiles, findHapticProfile } from '../utils/hapticProfileLibrary';
+import {
+  BUILT_IN_SEQUENCES,
+  MAX_REPEAT_COUNT,
+  cloneHapticSequence,
+  compileHapticSequence,
+  createHapticSequencer,
+  createSequenceId,
+  getAllHapticSequences,
+  findHapticSequence,
+  getProfileSegments
+} from '../utils/hapticSequencer';
+import type { CompiledSequence, SequencePlayback } from '../utils/hapticSequencer';
+import { NEUTRAL_TEMPERATURE } from '../utils/hapticEnvelope';
+import type { HapticSequence, HapticSequenceStep, VibrationConfig } from '../types';
+
+const PATTERN_LABELS: Record<Exclude<VibrationConfig['pattern'], 'custom'>, string> = {
+  sharp: '尖锐',
+  soft: '柔和',
+  medium: '中等',
+  pulse: '脉冲'
+};
+
+// 新增片段的默认参数
+const NEW_STEPS: Record<HapticSequenceStep['type'], () => HapticSequenceStep> = {
+  vibration: () => ({ type: 'vibration', vibration: { intensity: 0.8, frequency: 200, pattern: 'sharp', duration: 80 } }),
+  temperature: () => ({ type: 'temperature', temperature: { target: 32, rampTime: 400, holdTime: 800 } }),
+  pause: () => ({ type: 'pause', duration: 100 }),
+  repeat: () => ({ type: 'repeat', count: 2, steps: [] })
+};
+
+const STEP_LABELS: Record<HapticSequenceStep['type'], string> = {
+  vibration: '振动',
+  temperature: '温度',
+  pause: '停顿',
+  repeat: '重复'
+};
+
+// 播放进度的刷新间隔（毫秒）
+const PROGRESS_INTERVAL = 50;
+
+// 数值输入
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step = 1, unit, onChange }) => (
+  <label className="flex items-center space-x-1 text-xs text-gray-600">
+    <span>{label}</span>
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => {
+        const next = Number(e.target.value);
+        if (Number.isFinite(next)) {
+          onChange(Math.max(min, Math.min(max, next)));
+        }
+      }}
+      className="w-20 px-1 py-0.5 border border-gray-300 rounded"
+    />
+    {unit && <span>{unit}</span>}
+  </label>
+);
+
+// 片段列表编辑器（重复片段内嵌套同一编辑器）
+const StepListEditor: React.FC<{
+  steps: HapticSequenceStep[];
+  vibrationRange: [number, number];
+  temperatureRange: [number, number];
+  onChange: (steps: HapticSequenceStep[]) => void;
+}> = ({ steps, vibrationRange, temperatureRange, onChange }) => {
+  const updateStep = (index: number, step: HapticSequenceStep) => {
+    onChange(steps.map((current, i) => (i === index ? step : current)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {steps.map((step, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-2 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-gray-800">{index + 1}. {STEP_LABELS[step.type]}</span>
+            <div className="flex items-center space-x-1">
+              <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                <ArrowUp className="w-3 h-3" />
+              </button>
+              <button onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                <ArrowDown className="w-3 h-3" />
+              </button>
+              <button onClick={() => onChange(steps.filter((_, i) => i !== index))} className="p-1 text-gray-400 hover:text-red-600">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+
+          {step.type === 'vibration' && (
+            <div className="flex flex-wrap gap-3">
+              <NumberField label="强度" value={step.vibration.intensity} min={0} max={1} step={0.05}
+                onChange={(intensity) => updateStep(index, { ...step, vibration: { ...step.vibration, intensity } })} />
+              <NumberField label="频率" value={step.vibration.frequency} min={vibrationRange[0]} max={vibrationRange[1]} step={5} unit="Hz"
+                onChange={(frequency) => updateStep(index, { ...step, vibration: { ...step.vibration, frequency } })} />
+              <NumberField label="时长" value={step.vibration.duration} min={10} max={5000} step={10} unit="ms"
+                onChange={(duration) => updateStep(index, { ...step, vibration: { ...step.vibration, duration } })} />
+              <select
+                value={step.vibration.pattern}
+                onChange={(e) => updateStep(index, { ...step, vibration: { ...step.vibration, pattern: e.target.value as VibrationConfig['pattern'] } })}
+                className="text-xs px-1 py-0.5 border border-gray-300 rounded"
+              >
+                {Object.entries(PATTERN_LABELS).map(([pattern, label]) => (
+                  <option key={pattern} value={pattern}>{label}</option>
+                ))}
+                {step.vibration.pattern === 'custom' && <option value="custom">自定义波形</option>}
+              </select>
+              <label className="flex items-center space-x-1 text-xs text-gray-600">
+                <input type="checkbox" checked={!!step.overlap} onChange={(e) => updateStep(index, { ...step, overlap: e.target.checked })} />
+                <span>与下一片段同时开始</span>
+              </label>
+            </div>
+          )}
+
+          {step.type === 'temperature' && (
+            <div className="flex flex-wrap gap-3">
+              <NumberField label="目标" value={step.temperature.target} min={temperatureRange[0]} max={temperatureRange[1]} step={0.5} unit="°C"
+                onChange={(target) => updateStep(index, { ...step, temperature: { ...step.temperature, target } })} />
+              <NumberField label="升降温" value={step.temperature.rampTime} min={0} max={5000} step={50} unit="ms"
+                onChange={(rampTime) => updateStep(index, { ...step, temperature: { ...step.temperature, rampTime } })} />
+              <NumberField label="保持" value={step.temperature.holdTime} min={0} max={10000} step={50} unit="ms"
+                onChange={(holdTime) => updateStep(index, { ...step, temperature: { ...step.temperature, holdTime } })} />
+              <label className="flex items-center space-x-1 text-xs text-gray-600">
+                <input type="checkbox" checked={!!step.overlap} onChange={(e) => updateStep(index, { ...step, overlap: e.target.checked })} />
+                <span>与下一片段同时开始</span>
+              </label>
+            </div>
+          )}
+
+          {step.type === 'pause' && (
+            <NumberField label="时长" value={step.duration} min={0} max={10000} step={10} unit="ms"
+              onChange={(duration) => updateStep(index, { ...step, duration })} />
+          )}
+
+          {step.type === 'repeat' && (
+            <div className="space-y-2">
+              <NumberField label="次数" value={step.count} min={1} max={MAX_REPEAT_COUNT}
+                onChange={(count) => updateStep(index, { ...step, count })} />
+              <div className="pl-3 border-l-2 border-purple-200">
+                <StepListEditor
+                  steps={step.steps}
+                  vibrationRange={vibrationRange}
+                  temperatureRange={temperatureRange}
+                  onChange={(nested) => updateStep(index, { ...step, steps: nested })}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(NEW_STEPS) as Array<HapticSequenceStep['type']>).map(type => (
+          <button
+            key={type}
+            onClick={() => onChange([...steps, NEW_STEPS[type]()])}
+            className="flex items-center px-2 py-1 text-xs text-gray-600 bg-gray-100 rounded hover:bg-gray-200"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            {STEP_LABELS[type]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// 时间轴预览：振动和温度各占一行，竖线为播放位置
+const TimelinePreview: React.FC<{ compiled: CompiledSequence; playhead: number | null }> = ({ compiled, playhead }) => {
+  const { events, duration } = compiled;
+  const scale = duration > 0 ? 100 / duration : 0;
+  return (
+    <div className="relative h-16 bg-gray-50 rounded">
+      {events.map((event, index) => {
+        const warm = event.type === 'temperature' && event.config.target >= NEUTRAL_TEMPERATURE;
+        const color = event.type === 'vibration'
+          ? 'bg-blue-400'
+          : warm ? 'bg-red-300' : 'bg-cyan-300';
+        return (
+          <div
+            key={index}
+            className={`absolute h-6 rounded-sm ${color}`}
+            style={{
+              left: `${event.at * scale}%`,
+              width: `${Math.max(0.5, (event.end - event.at) * scale)}%`,
+              top: event.type === 'vibration' ? '0.375rem' : '2.25rem',
+              opacity: event.type === 'vibration' ? 0.4 + event.config.intensity * 0.6 : 0.8
+            }}
+          />
+        );
+      })}
+      {playhead !== null && (
+        <div className="absolute top-0 bottom-0 w-0.5 bg-gray-800" style={{ left: `${playhead * scale}%` }} />
+      )}
+    </div>
+  );
+};
+
+const SequenceEditorPage: React.FC = () => {
+  const [controller] = useState(() => createHapticController());
+  const [sequencer] = useState(() => createHapticSequencer());
+  const [isConnected, setIsConnected] = useState(() => controller.connected);
+  const [playbacks, setPlaybacks] = useState<SequencePlayback[]>(() => sequencer.getPlaybacks());
+  const { config, actions } = useAppStore();
+  const savedSequences = useHapticSequences();
+  const savedProfiles = useHapticProfiles();
+  const assignments = useMaterialSequenceAssignments();
+  const virtual3DObjects = useVirtual3DObjects();
+  const [draft, setDraft] = useState<HapticSequence>(() => cloneHapticSequence(BUILT_IN_SEQUENCES[0]));
+  const [dirty, setDirty] = useState(false);
+  const [profileToAdd, setProfileToAdd] = useState('');
+
+  const { vibrationRange, minTemperature, maxTemperature } = config.haptic;
+  const sequences = getAllHapticSequences(savedSequences);
+  const compiled = useMemo(() => {
+    try {
+      return compileHapticSequence(draft);
+    } catch {
+      return null;
+    }
+  }, [draft]);
+  const playback = playbacks.find(item => item.sequenceId === draft.id && item.trigger === 'manual') || null;
+
+  // 场景中出现过的材质类型，以及内置配置对应的材质
+  const materialTypes = useMemo(() => {
+    const types = new Set(virtual3DObjects.map(obj => obj.material.type));
+    Object.keys(HapticProfiles).forEach(type => types.add(type));
+    Object.keys(assignments).forEach(type => types.add(type));
+    return Array.from(types).sort();
+  }, [virtual3DObjects, assignments]);
+
+  // 跟踪设备连接状态
+  useEffect(() => {
+    const handleConnected = () => setIsConnected(true);
+    const handleDisconnected = () => setIsConnected(false);
+
+    controller.addEventListener('connected', handleConnected);
+    controller.addEventListener('reconnected', handleConnected);
+    controller.addEventListener('reconnecting', handleDisconnected);
+    controller.addEventListener('disconnected', handleDisconnected);
+    return () => {
+      controller.removeEventListener('connected', handleConnected);
+      controller.removeEventListener('reconnected', handleConnected);
+      controller.removeEventListener('reconnecting', handleDisconnected);
+      controller.removeEventListener('disconnected', handleDisconnected);
+    };
+  }, [controller]);
+
+  // 跟踪播放状态，播放中定时刷新进度
+  useEffect(() => {
+    const refresh = () => setPlaybacks(sequencer.getPlaybacks());
+    sequencer.addEventListener('playback', refresh);
+    const timer = setInterval(refresh, PROGRESS_INTERVAL);
+    return () => {
+      sequencer.removeEventListener('playback', refresh);
+      clearInterval(timer);
+    };
+  }, [sequencer]);
+
+  const selectSequence = (id: string) => {
+    const sequence = findHapticSequence(id, savedSequences);
+    if (!sequence) return;
+    setDraft(cloneHapticSequence(sequence));
+    setDirty(false);
+  };
+
+  const updateDraft = (update: Partial<HapticSequence>) => {
+    setDraft(prev => ({ ...prev, ...update }));
+    setDirty(true);
+  };
+
+  const handleNew = () => {
+    setDraft({ id: createSequenceId(), name: '新序列', steps: [], updatedAt: Date.now() });
+    setDirty(true);
+  };
+
+  const handleDuplicate = () => {
+    setDraft(prev => ({ ...cloneHapticSequence(prev), id: createSequenceId(), name: `${prev.name} 副本`, builtIn: undefined }));
+    setDirty(true);
+  };
+
+  // 内置序列只读，保存时另存为新序列
+  const handleSave = () => {
+    const id = draft.builtIn ? createSequenceId() : draft.id;
+    const sequence: HapticSequence = {
+      ...draft,
+      id,
+      name: draft.name.trim() || '未命名序列',
+      builtIn: undefined,
+      updatedAt: Date.now()
+    };
+    actions.saveHapticSequence(sequence);
+    setDraft(sequence);
+    setDirty(false);
+  };
+
+  const handleDelete = () => {
+    if (draft.builtIn || !savedSequences[draft.id]) return;
+    actions.removeHapticSequence(draft.id);
+    selectSequence(BUILT_IN_SEQUENCES[0].id);
+  };
+
+  const handleAddProfile = () => {
+    const profile = findHapticProfile(profileToAdd, savedProfiles);
+    if (!profile) return;
+    updateDraft({ steps: [...draft.steps, ...getProfileSegments(profile.profile)] });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-lg border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Link to="/" className="p-2 text-gray-600 hover:text-gray-900 rounded-lg hover:bg-gray-100">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="text-xl font-bold text-gray-900">效果序列</h1>
+          </div>
+          <span className={`text-sm ${isConnected ? 'text-green-600' : 'text-gray-500'}`}>
+            {isConnected ? '设备已连接' : '设备未连接'}
+          </span>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-8 grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* 序列列表 */}
+        <aside className="bg-white rounded-lg shadow-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-gray-900">序列</h2>
+            <button
+              onClick={handleNew}
+              className="flex items-center px-2 py-1 text-xs text-blue-600 rounded hover:bg-blue-50"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              新建
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {sequences.map(sequence => (
+              <li key={sequence.id}>
+                <button
+                  onClick={() => selectSequence(sequence.id)}
+                  className={`w-full text-left px-3 py-2 text-sm rounded-lg ${
+                    draft.id === sequence.id ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {sequence.name}
+                  {sequence.builtIn && <span className="ml-2 text-xs text-gray-400">内置</span>}
+                  {sequence.loop && <span className="ml-2 text-xs text-purple-500">循环</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </aside>
+
+        <div className="lg:col-span-3 space-y-6">
+          {/* 时间轴和播放控制 */}
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-gray-900">
+                时间轴{compiled ? `（${Math.round(compiled.duration)} ms${draft.loop ? '，循环' : ''}）` : ''}
+              </h2>
+              <div className="flex items-center space-x-2">
+                {playback?.state === 'playing' ? (
+                  <button
+                    onClick={() => sequencer.pause(playback.id)}
+                    className="flex items-center px-3 py-2 bg-yellow-500 text-white text-sm font-medium rounded-lg hover:bg-yellow-600"
+                  >
+                    <Pause className="w-4 h-4 mr-1" />
+                    暂停
+                  </button>
+                ) : playback?.state === 'paused' ? (
+                  <button
+                    onClick={() => sequencer.resume(playback.id)}
+                    className="flex items-center px-3 py-2 bg-green-500 text-white text-sm font-medium rounded-lg hover:bg-green-600"
+                  >
+                    <Play className="w-4 h-4 mr-1" />
+                    继续
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => sequencer.play(draft, controller)}
+                    disabled={!isConnected || !compiled || compiled.events.length === 0}
+                    className="flex items-center px-3 py-2 bg-green-500 text-white text-sm font-medium rounded-lg hover:bg-green-600 disabled:opacity-50"
+                  >
+                    <Play className="w-4 h-4 mr-1" />
+                    在设备上播放
+                  </button>
+                )}
+                <button
+                  onClick={() => sequencer.cancel()}
+                  disabled={playbacks.length === 0}
+                  className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                >
+                  <Square className="w-4 h-4 mr-1" />
+                  全部停止
+                </button>
+              </div>
+            </div>
+            {compiled ? (
+              <TimelinePreview compiled={compiled} playhead={playback ? playback.elapsed : null} />
+            ) : (
+              <p className="text-sm text-red-600">序列展开后指令过多，请减少重复次数。</p>
+            )}
+            {playbacks.filter(item => item.trigger === 'collision').map(item => (
+              <p key={item.id} className="text-xs text-gray-500">
+                触碰触发：{item.sequenceName} {Math.round(item.elapsed)} / {Math.round(item.duration)} ms
+              </p>
+            ))}
+            {!isConnected && <p className="text-xs text-gray-500">连接指套设备后可试播当前序列。</p>}
+          </div>
+
+          {/* 片段编辑 */}
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <label className="flex items-center space-x-1 text-sm text-gray-700">
+                <input type="checkbox" checked={!!draft.loop} onChange={(e) => updateDraft({ loop: e.target.checked })} />
+                <span>循环播放</span>
+              </label>
+              <button
+                onClick={handleSave}
+                disabled={!dirty}
+                className="flex items-center px-3 py-2 bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-600 disabled:opacity-50"
+              >
+                <Save className="w-4 h-4 mr-1" />
+                {draft.builtIn ? '另存为' : '保存'}
+              </button>
+              <button
+                onClick={handleDuplicate}
+                className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200"
+              >
+                <Copy className="w-4 h-4 mr-1" />
+                复制
+              </button>
+              {!draft.builtIn && savedSequences[draft.id] && (
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center px-3 py-2 text-red-600 text-sm rounded-lg hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  删除
+                </button>
+              )}
+            </div>
+            {draft.builtIn && <p className="text-xs text-gray-500">内置序列为只读，修改后会另存为新序列。</p>}
+
+            <StepListEditor
+              steps={draft.steps}
+              vibrationRange={vibrationRange}
+              temperatureRange={[minTemperature, maxTemperature]}
+              onChange={(steps) => updateDraft({ steps })}
+            />
+
+            <div className="flex items-center space-x-2 text-sm">
+              <select
+                value={profileToAdd}
+                onChange={(e) => setProfileToAdd(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-lg"
+              >
+                <option value="">选择触觉配置…</option>
+                {getAllHapticProfiles(savedProfiles).map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddProfile}
+                disabled={!profileToAdd}
+                className="px-3 py-1 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+              >
+                添加为片段
+              </button>
+            </div>
+          </div>
+
+          {/* 材质指派 */}
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-3">
+            <h2 className="text-sm font-semibold text-gray-900">材质指派</h2>
+            <p className="text-xs text-gray-500">指派后触碰该材质的物体时播放所选序列，代替材质的触觉配置。</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {materialTypes.map(type => (
+                <label key={type} className="flex items-center justify-between text-sm text-gray-700">
+                  <span>{type}</span>
+                  <select
+                    value={assignments[type] ?? ''}
+                    onChange={(e) => actions.assignHapticSequence(type, e.target.value || null)}
+                    className="ml-3 px-2 py-1 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">使用触觉配置</option>
+                    {sequences.map(sequence => (
+                      <option key={sequence.id} value={sequence.id}>{sequence.name}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SequenceEditorPage;
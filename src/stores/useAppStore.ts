@@ -14,8 +14,18 @@ import type {
   PerformanceMetrics,
   ARSession,
   AppError,
-  Point3D
+  Point3D,
+  SensorStreams,
+  DeviceCalibration,
+  SavedHapticProfile,
+  MaterialProperties,
+  HapticSequence,
+  UserProfile,
+  Quaternion
 } from '../types';
+import { applyProfileAssignment, normalizeHapticProfile, resolveMaterial, restoreDefaultProfile } from '../utils/hapticProfileLibrary';
+import type { HapticLibraryFile } from '../utils/hapticLibraryFile';
+import { DEFAULT_ASSET_BASE_URL } from '../utils/assetPaths';
 
 interface AppState {
   // 系统状态
@@ -23,6 +33,18 @@ interface AppState {
   
   // 设备状态
   device: FingerDevice | null;
+  fingerDevices: Record<string, FingerDevice>; // 多指套设备，键为"手-手指"
+  
+  // 手套传感器数据流
+  sensorStreams: SensorStreams;
+  fingerOrientation: Quaternion | null; // 惯性传感器融合的指尖姿态（场景坐标系）
+  
+  // 设备校准，键为设备ID
+  deviceCalibrations: Record<string, DeviceCalibration>;
+  
+  // 用户档案（键为ID）和当前用户，用户的感知校准决定振动强度映射
+  userProfiles: Record<string, UserProfile>;
+  activeUserId: string | null;
   
   // 检测结果
   detections: DetectionResult[];
@@ -31,6 +53,17 @@ interface AppState {
   // 3D物体
   virtual3DObjects: Virtual3DObject[];
   
+  // 触觉配置文件库（自定义配置，键为ID）和材质类型到配置文件ID的指派
+  hapticProfiles: Record<string, SavedHapticProfile>;
+  materialProfileAssignments: Record<string, string>;
+  
+  // 从配置库文件导入的材质参数，键为材质类型
+  materialLibrary: Record<string, MaterialProperties>;
+  
+  // 自定义效果序列（键为ID）和材质类型到序列ID的指派
+  hapticSequences: Record<string, HapticSequence>;
+  materialSequenceAssignments: Record<string, string>;
+  
   // 碰撞事件
   collisions: CollisionEvent[];
   
@@ -60,6 +93,18 @@ interface AppState {
     connectDevice: (deviceId: string) => Promise<boolean>;
     disconnectDevice: () => void;
     updateDeviceStatus: (status: Partial<FingerDevice>) => void;
+    setFingerDevice: (slotKey: string, device: FingerDevice) => void;
+    removeFingerDevice: (slotKey: string) => void;
+    appendSensorSamples: (samples: Partial<SensorStreams>) => void;
+    clearSensorStreams: () => void;
+    setFingerOrientation: (orientation: Quaternion | null) => void;
+    setDeviceCalibration: (calibration: DeviceCalibration) => void;
+    removeDeviceCalibration: (deviceId: string) => void;
+    
+    // 用户档案
+    saveUserProfile: (profile: UserProfile) => void;
+    removeUserProfile: (userId: string) => void;
+    setActiveUser: (userId: string | null) => void;
     
     // 检测结果更新
     updateDetections: (detections: DetectionResult[]) => void;
@@ -70,6 +115,18 @@ interface AppState {
     removeVirtual3DObject: (objectId: string) => void;
     updateVirtual3DObject: (objectId: string, updates: Partial<Virtual3DObject>) => void;
     
+    // 触觉配置文件库
+    saveHapticProfile: (profile: SavedHapticProfile) => void;
+    removeHapticProfile: (profileId: string) => void;
+    assignHapticProfile: (materialType: string, profileId: string | null) => void;
+    importHapticLibrary: (library: HapticLibraryFile) => void;
+    removeLibraryMaterial: (materialType: string) => void;
+    
+    // 效果序列
+    saveHapticSequence: (sequence: HapticSequence) => void;
+    removeHapticSequence: (sequenceId: string) => void;
+    assignHapticSequence: (materialType: string, sequenceId: string | null) => void;
+    
     // 碰撞事件
     addCollisionEvent: (collision: CollisionEvent) => void;
     clearCollisions: () => void;
@@ -99,6 +156,9 @@ interface AppState {
   };
 }
 
+// 传感器数据流保留的采样数
+const SENSOR_HISTORY_LENGTH = 200;
+
 // 默认配置
 const defaultConfig: AppConfig = {
   yolo: {
@@ -113,7 +173,15 @@ const defaultConfig: AppConfig = {
     maxTemperature: 45,
     minTemperature: 15,
     vibrationRange: [50, 300],
-    responseDelay: 20
+    responseDelay: 20,
+    transport: 'bluetooth',
+    bridgeUrl: '',
+    serialBaudRate: 115200,
+    thermalLimitMode: 'clamp',
+    thermalDoseWindow: 60000,
+    maxHeatDose: 300,
+    maxColdDose: 300,
+    thermalCooldown: 10000
   },
   ar: {
     planeDetection: true,
@@ -126,6 +194,13 @@ const defaultConfig: AppConfig = {
     language: 'zh',
     showDebugInfo: false,
     showPerformanceMetrics: true
+  },
+  audio: {
+    volume: 0.5,
+    outputDeviceId: ''
+  },
+  assets: {
+    baseUrl: DEFAULT_ASSET_BASE_URL
   }
 };
 
@@ -140,6 +215,10 @@ const defaultSystemState: SystemState = {
     frameRate: 0,
     detectionLatency: 0,
     hapticLatency: 0,
+    hapticJitter: 0,
+    hapticPacketLoss: 0,
+    hapticLatencyHistogram: [],
+    hapticQueueDepth: 0,
     cpuUsage: 0,
     memoryUsage: 0,
     batteryLevel: 100,
@@ -185,9 +264,20 @@ export const useAppStore = create<AppState>()(devtools(
         // 初始状态
         system: defaultSystemState,
         device: null,
+        fingerDevices: {},
+        sensorStreams: { pressure: [], flex: [] },
+        fingerOrientation: null,
+        deviceCalibrations: {},
         detections: [],
         handLandmarks: null,
         virtual3DObjects: [],
+        hapticProfiles: {},
+        materialProfileAssignments: {},
+        materialLibrary: {},
+        hapticSequences: {},
+        materialSequenceAssignments: {},
+        userProfiles: {},
+        activeUserId: null,
         collisions: [],
         touchStats: defaultTouchStats,
         interactionMode: defaultInteractionMode,
@@ -241,6 +331,7 @@ export const useAppStore = create<AppState>()(devtools(
                 id: deviceId,
                 name: 'FingerSuit Pro',
                 connected: true,
+                connectionState: 'connected',
                 batteryLevel: 85,
                 firmwareVersion: '2.1.0',
                 capabilities: {
@@ -280,6 +371,74 @@ export const useAppStore = create<AppState>()(devtools(
               device: state.device ? { ...state.device, ...status } : null
             }));
           },
+
+          setFingerDevice: (slotKey, device) => {
+            set((state) => ({
+              fingerDevices: { ...state.fingerDevices, [slotKey]: { ...device } }
+            }));
+          },
+
+          removeFingerDevice: (slotKey) => {
+            set((state) => {
+              const fingerDevices = { ...state.fingerDevices };
+              delete fingerDevices[slotKey];
+              return { fingerDevices };
+            });
+          },
+
+          appendSensorSamples: (samples) => {
+            set((state) => ({
+              sensorStreams: {
+                // 保持最近的传感器采样用于绘图
+                pressure: [...state.sensorStreams.pressure, ...(samples.pressure || [])].slice(-SENSOR_HISTORY_LENGTH),
+                flex: [...state.sensorStreams.flex, ...(samples.flex || [])].slice(-SENSOR_HISTORY_LENGTH)
+              }
+            }));
+          },
+
+          clearSensorStreams: () => {
+            set({ sensorStreams: { pressure: [], flex: [] } });
+          },
+
+          setFingerOrientation: (orientation) => {
+            set({ fingerOrientation: orientation });
+          },
+
+          setDeviceCalibration: (calibration) => {
+            set((state) => ({
+              deviceCalibrations: { ...state.deviceCalibrations, [calibration.deviceId]: calibration }
+            }));
+          },
+
+          removeDeviceCalibration: (deviceId) => {
+            set((state) => {
+              const deviceCalibrations = { ...state.deviceCalibrations };
+              delete deviceCalibrations[deviceId];
+              return { deviceCalibrations };
+            });
+          },
+          
+          // 用户档案
+          saveUserProfile: (profile) => {
+            set((state) => ({
+              userProfiles: { ...state.userProfiles, [profile.id]: profile }
+            }));
+          },
+          
+          removeUserProfile: (userId) => {
+            set((state) => {
+              const userProfiles = { ...state.userProfiles };
+              delete userProfiles[userId];
+              return {
+                userProfiles,
+                activeUserId: state.activeUserId === userId ? null : state.activeUserId
+              };
+            });
+          },
+          
+          setActiveUser: (userId) => {
+            set({ activeUserId: userId });
+          },
           
           // 检测结果更新
           updateDetections: (detections) => {
@@ -292,9 +451,21 @@ export const useAppStore = create<AppState>()(devtools(
           
           // 3D物体管理
           addVirtual3DObject: (object) => {
-            set((state) => ({
-              virtual3DObjects: [...state.virtual3DObjects, object]
-            }));
+            set((state) => {
+              const material = resolveMaterial(
+                object.material,
+                state.materialLibrary,
+                state.materialProfileAssignments,
+                state.hapticProfiles
+              );
+              const sequenceId = state.materialSequenceAssignments[material.type];
+              return {
+                virtual3DObjects: [...state.virtual3DObjects, {
+                  ...object,
+                  material: sequenceId ? { ...material, sequenceId } : material
+                }]
+              };
+            });
           },
           
           removeVirtual3DObject: (objectId) => {
@@ -311,6 +482,160 @@ export const useAppStore = create<AppState>()(devtools(
             }));
           },
           
+          // 触觉配置文件库
+          saveHapticProfile: (profile) => {
+            set((state) => {
+              const hapticProfiles = { ...state.hapticProfiles, [profile.id]: profile };
+              // 已指派该配置文件的物体立即使用新参数
+              return {
+                hapticProfiles,
+                virtual3DObjects: state.virtual3DObjects.map(obj =>
+                  obj.material.profileId === profile.id
+                    ? { ...obj, material: applyProfileAssignment(obj.material, state.materialProfileAssignments, hapticProfiles) }
+                    : obj
+                )
+              };
+            });
+          },
+          
+          removeHapticProfile: (profileId) => {
+            set((state) => {
+              const hapticProfiles = { ...state.hapticProfiles };
+              delete hapticProfiles[profileId];
+              const materialProfileAssignments = Object.fromEntries(
+                Object.entries(state.materialProfileAssignments).filter(([, id]) => id !== profileId)
+              );
+              // 物体保留删除前的参数，只解除与配置文件的关联
+              return {
+                hapticProfiles,
+                materialProfileAssignments,
+                virtual3DObjects: state.virtual3DObjects.map(obj =>
+                  obj.material.profileId === profileId
+                    ? { ...obj, material: { ...obj.material, profileId: undefined } }
+                    : obj
+                )
+              };
+            });
+          },
+          
+          assignHapticProfile: (materialType, profileId) => {
+            set((state) => {
+              const materialProfileAssignments = { ...state.materialProfileAssignments };
+              if (profileId) {
+                materialProfileAssignments[materialType] = profileId;
+              } else {
+                delete materialProfileAssignments[materialType];
+              }
+              return {
+                materialProfileAssignments,
+                virtual3DObjects: state.virtual3DObjects.map(obj =>
+                  obj.material.type === materialType
+                    ? {
+                      ...obj,
+                      material: profileId
+                        ? applyProfileAssignment(obj.material, materialProfileAssignments, state.hapticProfiles)
+                        : restoreDefaultProfile(obj.material)
+                    }
+                    : obj
+                )
+              };
+            });
+          },
+          
+          // 导入配置库：同ID的配置文件和同类型的材质以文件中的为准
+          importHapticLibrary: (library) => {
+            set((state) => {
+              const updatedAt = Date.now();
+              const hapticProfiles = { ...state.hapticProfiles };
+              library.profiles.forEach(({ id, name, profile }) => {
+                hapticProfiles[id] = { id, name, profile: normalizeHapticProfile(profile), updatedAt };
+              });
+              const materialLibrary = { ...state.materialLibrary };
+              library.materials.forEach(material => {
+                materialLibrary[material.type] = material;
+              });
+              const importedTypes = new Set(library.materials.map(material => material.type));
+              const importedProfileIds = new Set(library.profiles.map(profile => profile.id));
+              return {
+                hapticProfiles,
+                materialLibrary,
+                virtual3DObjects: state.virtual3DObjects.map(obj => {
+                  if (importedTypes.has(obj.material.type)) {
+                    return {
+                      ...obj,
+                      material: {
+                        ...resolveMaterial(obj.material, materialLibrary, state.materialProfileAssignments, hapticProfiles),
+                        sequenceId: obj.material.sequenceId
+                      }
+                    };
+                  }
+                  if (obj.material.profileId && importedProfileIds.has(obj.material.profileId)) {
+                    return {
+                      ...obj,
+                      material: applyProfileAssignment(obj.material, state.materialProfileAssignments, hapticProfiles)
+                    };
+                  }
+                  return obj;
+                })
+              };
+            });
+          },
+          
+          // 物体保留当前材质参数，之后新增的物体恢复使用默认参数
+          removeLibraryMaterial: (materialType) => {
+            set((state) => {
+              const materialLibrary = { ...state.materialLibrary };
+              delete materialLibrary[materialType];
+              return { materialLibrary };
+            });
+          },
+          
+          // 效果序列
+          saveHapticSequence: (sequence) => {
+            set((state) => ({
+              hapticSequences: { ...state.hapticSequences, [sequence.id]: sequence }
+            }));
+          },
+          
+          removeHapticSequence: (sequenceId) => {
+            set((state) => {
+              const hapticSequences = { ...state.hapticSequences };
+              delete hapticSequences[sequenceId];
+              const materialSequenceAssignments = Object.fromEntries(
+                Object.entries(state.materialSequenceAssignments).filter(([, id]) => id !== sequenceId)
+              );
+              // 引用该序列的物体恢复使用触觉配置
+              return {
+                hapticSequences,
+                materialSequenceAssignments,
+                virtual3DObjects: state.virtual3DObjects.map(obj =>
+                  obj.material.sequenceId === sequenceId
+                    ? { ...obj, material: { ...obj.material, sequenceId: undefined } }
+                    : obj
+                )
+              };
+            });
+          },
+          
+          assignHapticSequence: (materialType, sequenceId) => {
+            set((state) => {
+              const materialSequenceAssignments = { ...state.materialSequenceAssignments };
+              if (sequenceId) {
+                materialSequenceAssignments[materialType] = sequenceId;
+              } else {
+                delete materialSequenceAssignments[materialType];
+              }
+              return {
+                materialSequenceAssignments,
+                virtual3DObjects: state.virtual3DObjects.map(obj =>
+                  obj.material.type === materialType
+                    ? { ...obj, material: { ...obj.material, sequenceId: sequenceId || undefined } }
+                    : obj
+                )
+              };
+            });
+          },
+          
           // 碰撞事件
           addCollisionEvent: (collision) => {
             set((state) => ({
@@ -435,7 +760,15 @@ export const useAppStore = create<AppState>()(devtools(
         name: 'finger-haptic-app-store',
         partialize: (state) => ({
           config: state.config,
-          interactionMode: state.interactionMode
+          interactionMode: state.interactionMode,
+          deviceCalibrations: state.deviceCalibrations,
+          userProfiles: state.userProfiles,
+          activeUserId: state.activeUserId,
+          hapticProfiles: state.hapticProfiles,
+          materialProfileAssignments: state.materialProfileAssignments,
+          materialLibrary: state.materialLibrary,
+          hapticSequences: state.hapticSequences,
+          materialSequenceAssignments: state.materialSequenceAssignments
         })
       }
     ),
@@ -446,10 +779,24 @@ export const useAppStore = create<AppState>()(devtools(
 
 // 便捷的hooks
 export const useSystem = () => useAppStore((state) => state.system);
+export const usePerformanceMetrics = () => useAppStore((state) => state.system.performanceMetrics);
 export const useDevice = () => useAppStore((state) => state.device);
+export const useFingerDevices = () => useAppStore((state) => state.fingerDevices);
+export const useSensorStreams = () => useAppStore((state) => state.sensorStreams);
+export const useFingerOrientation = () => useAppStore((state) => state.fingerOrientation);
+export const useDeviceCalibrations = () => useAppStore((state) => state.deviceCalibrations);
+export const useUserProfiles = () => useAppStore((state) => state.userProfiles);
+export const useActiveUserProfile = () => useAppStore((state) =>
+  state.activeUserId ? state.userProfiles[state.activeUserId] || null : null
+);
 export const useDetections = () => useAppStore((state) => state.detections);
 export const useHandLandmarks = () => useAppStore((state) => state.handLandmarks);
 export const useVirtual3DObjects = () => useAppStore((state) => state.virtual3DObjects);
+export const useHapticProfiles = () => useAppStore((state) => state.hapticProfiles);
+export const useMaterialProfileAssignments = () => useAppStore((state) => state.materialProfileAssignments);
+export const useMaterialLibrary = () => useAppStore((state) => state.materialLibrary);
+export const useHapticSequences = () => useAppStore((state) => state.hapticSequences);
+export const useMaterialSequenceAssignments = () => useAppStore((state) => state.materialSequenceAssignments);
 export const useCollisions = () => useAppStore((state) => state.collisions);
 export const useTouchStats = () => useAppStore((state) => state.touchStats);
 export const useInteractionMode = () => useAppStore((state) => state.interactionMode);
@@ -47,16 +47,33 @@ export interface FingerDevice {
   id: string;
   name: string;
   connected: boolean;
+  connectionState: DeviceConnectionState;
+  reconnectAttempt?: number; // 正在进行的重连次数
+  assignment?: FingerAssignment; // 多指套时佩戴的手指
   batteryLevel: number;
   firmwareVersion: string;
   capabilities: DeviceCapabilities;
 }
 
+export type DeviceConnectionState = 'connected' | 'reconnecting' | 'disconnected';
+
+// 手指与左右手
+export type FingerId = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+export type Hand = 'left' | 'right';
+
+export interface FingerAssignment {
+  hand: Hand;
+  finger: FingerId;
+}
+
 export interface DeviceCapabilities {
   vibration: boolean;
   temperature: boolean;
   pressure: boolean;
   flex: boolean;
+  waveform?: boolean; // 支持上传自定义波形
+  imu?: boolean; // 指尖惯性测量单元
+  dfu?: boolean; // 支持无线固件升级
 }
 
 // 触觉反馈配置
@@ -67,17 +84,97 @@ export interface HapticProfile {
   intensity: number;
 }
 
+// 配置文件库中的触觉配置
+export interface SavedHapticProfile {
+  id: string;
+  name: string;
+  profile: HapticProfile;
+  builtIn?: boolean; // 内置配置文件只读，修改后另存为副本
+  updatedAt: number;
+}
+
 export interface VibrationConfig {
   intensity: number; // 0-1
   frequency: number; // Hz
-  pattern: 'sharp' | 'soft' | 'medium' | 'pulse';
+  pattern: 'sharp' | 'soft' | 'medium' | 'pulse' | 'custom';
   duration: number; // ms
+  waveformId?: number; // pattern为custom时播放的已上传波形句柄
+  envelope?: HapticEnvelope; // 强度包络，按duration展开
+}
+
+// 自定义波形（按固定采样率采样的幅度/频率包络）
+export interface WaveformSample {
+  amplitude: number; // 0-1
+  frequency: number; // Hz
+}
+
+export interface CustomWaveform {
+  sampleRate: number; // 每秒采样点数
+  samples: WaveformSample[];
 }
 
 export interface TemperatureConfig {
   target: number; // 摄氏度
   rampTime: number; // ms
   holdTime: number; // ms
+  envelope?: HapticEnvelope; // 温度包络（0为中性温度，1为target），按rampTime + holdTime展开
+}
+
+// 触觉包络：取值0-1，时间单位ms
+export interface ADSREnvelope {
+  type: 'adsr';
+  attack: number;
+  decay: number;
+  sustain: number; // 保持电平 0-1
+  release: number;
+}
+
+export interface EnvelopeKeyframe {
+  time: number; // ms
+  value: number; // 0-1
+}
+
+export interface KeyframeEnvelope {
+  type: 'keyframes';
+  keyframes: EnvelopeKeyframe[];
+}
+
+export type HapticEnvelope = ADSREnvelope | KeyframeEnvelope;
+
+// 效果序列片段：振动和温度片段默认播放完再开始下一片段，overlap为true时与下一片段同时开始
+export interface VibrationSegment {
+  type: 'vibration';
+  vibration: VibrationConfig;
+  overlap?: boolean;
+}
+
+export interface TemperatureSegment {
+  type: 'temperature';
+  temperature: TemperatureConfig; // 片段时长为rampTime + holdTime
+  overlap?: boolean;
+}
+
+export interface PauseSegment {
+  type: 'pause';
+  duration: number; // ms
+}
+
+export interface RepeatSegment {
+  type: 'repeat';
+  count: number;
+  steps: HapticSequenceStep[];
+}
+
+export type HapticSequenceStep = VibrationSegment | TemperatureSegment | PauseSegment | RepeatSegment;
+
+// 效果序列（时间轴上依次播放的多段振动、温度和停顿）
+export interface HapticSequence {
+  id: string;
+  name: string;
+  steps: HapticSequenceStep[];
+  loop?: boolean; // 循环播放直到取消
+  builtIn?: boolean; // 内置序列只读，修改后另存为副本
+  updatedAt: number;
 }
 
 // 3D物体定义
@@ -100,6 +197,8 @@ export interface MaterialProperties {
   temperature: number; // 摄氏度
   elasticity: number; // 0-1
   hapticProfile: HapticProfile;
+  profileId?: string; // 从配置文件库指派时的配置文件ID
+  sequenceId?: string; // 设置后触碰时播放该效果序列而不是hapticProfile
 }
 
 // 触碰统计数据
@@ -128,13 +227,19 @@ export interface CollisionEvent {
   objectName: string;
   position?: Point3D;
   contactPoint?: Point3D;
-  force?: number;
+  force?: number; // 接触力（牛），指套有压力传感器时为实测值
   material: MaterialProperties;
   timestamp: number;
   type: 'enter' | 'stay' | 'exit' | 'touch_start' | 'touch_end';
   duration?: number;
+  finger?: FingerId; // 发生接触的手指，未指定时路由到默认手指
+  hand?: Hand;
+  contactSide?: ContactSide; // 指尖姿态可用时判断的接触面
 }
 
+// 指尖接触面：指腹或指甲
+export type ContactSide = 'pad' | 'nail';
+
 export interface CollisionState {
   startTime: number;
   lastUpdate: number;
@@ -167,9 +272,9 @@ export interface CameraFrame {
 }
 
 export interface IMUData {
-  acceleration: Point3D;
-  gyroscope: Point3D;
-  magnetometer: Point3D;
+  acceleration: Point3D; // 单位g
+  gyroscope: Point3D; // 单位弧度/秒
+  magnetometer: Point3D; // 单位微特斯拉，全为0表示没有磁力计
   timestamp: number;
 }
 
@@ -178,6 +283,44 @@ export interface FlexSensorData {
   timestamp: number;
 }
 
+export interface PressureSensorData {
+  taxels: number[]; // 指尖各测点压力（牛）
+  total: number; // 合力（牛）
+  timestamp: number;
+}
+
+// 设备校准结果，按设备ID保存，重连时自动下发
+export interface DeviceCalibration {
+  deviceId: string;
+  pressureOffsets: number[]; // 各测点零点（牛）
+  flexOffsets: number[]; // 各关节零点（度）
+  resonanceFrequency: number | null; // 振动执行器谐振频率（赫兹），未标定为null
+  temperatureOffset: number; // 环境温度减去传感器读数（摄氏度）
+  calibratedAt: number;
+}
+
+// 用户感知校准：阶梯法测得的振动强度（设备原始强度0-1）
+export interface PerceptualCalibration {
+  detectionThreshold: number; // 刚好能感觉到的强度
+  comfortableMax: number; // 不觉得过强的最大强度
+  frequency: number; // 测试频率（赫兹）
+  measuredAt: number;
+}
+
+// 用户档案
+export interface UserProfile {
+  id: string;
+  name: string;
+  perception: PerceptualCalibration | null; // 未测试为null，强度不做映射
+  createdAt: number;
+}
+
+// 手套传感器的近期数据流
+export interface SensorStreams {
+  pressure: PressureSensorData[];
+  flex: FlexSensorData[];
+}
+
 // 系统状态
 export interface SystemState {
   initialized: boolean;
@@ -191,11 +334,15 @@ export interface SystemState {
 export interface PerformanceMetrics {
   frameRate: number;
   detectionLatency: number;
-  hapticLatency: number;
+  hapticLatency: number; // 延迟探测的平均往返时间（毫秒）
+  hapticJitter: number; // 往返时间抖动（毫秒）
+  hapticPacketLoss: number; // 延迟探测丢失率 0-1
+  hapticLatencyHistogram: number[]; // 往返时间直方图，区间见LATENCY_HISTOGRAM_BOUNDS
+  hapticQueueDepth: number; // 触觉指令排队数
   cpuUsage: number;
   memoryUsage: number;
   batteryLevel: number;
-  connectionQuality: 'excellent' | 'good' | 'fair' | 'poor';
+  connectionQuality: 'excellent' | 'good' | 'fair' | 'poor'; // 由往返时间、抖动和丢包率判定
 }
 
 // 用户交互
@@ -219,14 +366,33 @@ export interface AppConfig {
   haptic: HapticConfig;
   ar: ARConfig;
   ui: UIConfig;
+  audio: AudioConfig;
+  assets: AssetConfig;
 }
 
+// YOLO模型输出格式：yolo11为无目标置信度的[1, 4+类别数, 锚点数]，yolov5为带目标置信度的[1, 锚点数, 5+类别数]，end2end为模型内已做NMS的[1, 最大检测数, 6]
+export type YOLOOutputFormat = 'yolo11' | 'yolov5' | 'end2end';
+
 export interface YOLOConfig {
   modelUrl: string;
   confidenceThreshold: number;
   nmsThreshold: number;
   targetClasses: string[];
   inputSize: number;
+  outputFormat?: YOLOOutputFormat; // 未指定时按输出张量形状自动识别
+  labelsUrl?: string; // 类别标签文件（JSON或每行一个类别的文本），优先于模型内的元数据
+}
+
+// YOLO模型任务类型（Ultralytics导出元数据中的task）
+export type YOLOTask = 'detect' | 'segment' | 'pose' | 'classify' | 'obb';
+
+// 加载后的模型信息：类别名称和输入尺寸来自标签文件或ONNX元数据，都没有时使用COCO类别和配置的输入尺寸
+export interface YOLOModelInfo {
+  classNames: string[];
+  inputSize: number;
+  task: YOLOTask;
+  source: 'labels' | 'metadata' | 'default';
+  missingTargetClasses: string[]; // 配置的目标类别中模型没有的类别
 }
 
 export interface HapticConfig {
@@ -235,8 +401,21 @@ export interface HapticConfig {
   minTemperature: number;
   vibrationRange: [number, number];
   responseDelay: number;
+  transport: TransportKind;
+  bridgeUrl: string; // WebSocket桥接地址，留空时使用当前站点的 /haptic-bridge
+  serialBaudRate: number;
+  thermalLimitMode: ThermalLimitMode; // 温度目标超出上下限时钳位还是拒绝
+  thermalDoseWindow: number; // 温度剂量统计窗口（毫秒）
+  maxHeatDose: number; // 窗口内热暴露剂量上限（°C·s）
+  maxColdDose: number; // 窗口内冷暴露剂量上限（°C·s）
+  thermalCooldown: number; // 剂量超限后强制冷却时长（毫秒）
 }
 
+export type ThermalLimitMode = 'clamp' | 'reject';
+
+// 设备传输方式
+export type TransportKind = 'bluetooth' | 'websocket' | 'serial';
+
 export interface ARConfig {
   planeDetection: boolean;
   lightEstimation: boolean;
@@ -244,6 +423,17 @@ export interface ARConfig {
   maxPlanes: number;
 }
 
+// 无指套时的音频替代反馈
+export interface AudioConfig {
+  volume: number; // 0-1
+  outputDeviceId: string; // 音频输出设备ID，留空使用系统默认输出
+}
+
+// 第三方运行时资源（ONNX Runtime WASM、MediaPipe模型）的位置
+export interface AssetConfig {
+  baseUrl: string; // 以/结尾，默认为随应用构建的 /vendor/
+}
+
 export interface UIConfig {
   theme: 'light' | 'dark' | 'auto';
   language: 'zh' | 'en';
@@ -253,7 +443,7 @@ export interface UIConfig {
 
 // 工具类型
 export type Matrix4 = number[]; // 4x4矩阵
-export type Quaternion = [number, number, number, number];
+export type Quaternion = [number, number, number, number]; // [x, y, z, w]
 export type EventCallback<T = any> = (data: T) => void;
 export type AsyncEventCallback<T = any> = (data: T) => Promise<void>;
 
@@ -269,6 +459,10 @@ export type ErrorType =
   | 'DEVICE_CONNECTION_FAILED'
   | 'CAMERA_ACCESS_DENIED'
   | 'MODEL_LOAD_FAILED'
+  | 'MODEL_CLASSES_MISMATCH'
   | 'AR_NOT_SUPPORTED'
   | 'BLUETOOTH_NOT_AVAILABLE'
-  | 'PERFORMANCE_DEGRADED';
\ No newline at end of file
+  | 'PERFORMANCE_DEGRADED'
+  | 'THERMAL_LIMIT_EXCEEDED'
+  | 'THERMAL_DOSE_EXCEEDED'
+  | 'THERMAL_COOLDOWN_ACTIVE';
\ No newline at end of file
@@ -0,0 +1,19 @@
+// 第三方运行时资源路径 - 默认使用随应用构建的 /vendor/ 目录，可通过配置或 VITE_ASSET_BASE_URL 指向内网镜像
+import type { AssetConfig } from '../types';
+
+export const DEFAULT_ASSET_BASE_URL: string = import.meta.env.VITE_ASSET_BASE_URL || '/vendor/';
+
+// 保证以/结尾，便于直接拼接文件名
+const withTrailingSlash = (url: string): string => (url.endsWith('/') ? url : `${url}/`);
+
+// 读取资源配置（旧版本保存的配置可能缺少资源字段）
+export const getAssetBaseUrl = (config?: Partial<AssetConfig>): string =>
+  withTrailingSlash(config?.baseUrl?.trim() || DEFAULT_ASSET_BASE_URL);
+
+// ONNX Runtime WASM文件目录（对应 ort.env.wasm.wasmPaths）
+export const getOnnxRuntimeWasmPath = (baseUrl: string): string =>
+  `${withTrailingSlash(baseUrl)}onnxruntime-web/`;
+
+// MediaPipe Hands文件地址（对应 Hands 的 locateFile）
+export const getMediaPipeHandsFile = (baseUrl: string, file: string): string =>
+  `${withTrailingSlash(baseUrl)}mediapipe/hands/${file}`;
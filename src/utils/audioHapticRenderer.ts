@@ -0,0 +1,295 @@
+// 音频触觉渲染 - 无指套时把完整的触觉配置转换为声音，所有反馈共用一个音频上下文
+import type { AudioConfig, HapticProfile, TemperatureConfig, VibrationConfig } from '../types';
+import { getEnvelopeKeyframes, NEUTRAL_TEMPERATURE } from './hapticEnvelope';
+import { PULSE_PERIOD } from './hapticProfileLibrary';
+
+// 振动频率（50-300Hz）在笔记本扬声器上几乎听不到，升高一个八度播放
+const AUDIO_PITCH_MULTIPLIER = 2;
+
+// 强度为1时单个声部的增益，留出余量避免多个反馈叠加时削波
+const VOICE_GAIN = 0.5;
+
+// 指令安排到音频时间轴上的提前量（秒）
+const SCHEDULE_AHEAD = 0.01;
+
+// 温度提示的最长时长（毫秒），长时间保持温度时只提示开头
+const MAX_TEMPERATURE_CUE = 600;
+
+// 噪声缓冲时长（秒），温度提示循环播放
+const NOISE_BUFFER_DURATION = 1;
+
+export const DEFAULT_AUDIO_CONFIG: AudioConfig = {
+  volume: 0.5,
+  outputDeviceId: ''
+};
+
+// 各振动模式的音色：波形和起音、释音时间（秒）
+const PATTERN_TIMBRE: Record<VibrationConfig['pattern'], { type: OscillatorType; attack: number; release: number }> = {
+  sharp: { type: 'square', attack: 0.002, release: 0.03 },
+  medium: { type: 'triangle', attack: 0.01, release: 0.05 },
+  soft: { type: 'sine', attack: 0.04, release: 0.08 },
+  pulse: { type: 'triangle', attack: 0.002, release: 0.01 },
+  custom: { type: 'triangle', attack: 0.01, release: 0.05 }
+};
+
+// 浏览器可能尚未提供类型定义的音频输出选择接口
+type SinkAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+// 温度决定音色明暗：越热低通截止频率越低（声音发闷），越冷越高（声音清亮）
+const getTemperatureCutoff = (temperature?: TemperatureConfig): number => {
+  if (!temperature) {
+    return 4000;
+  }
+  const cutoff = 4000 * Math.pow(2, -(temperature.target - NEUTRAL_TEMPERATURE) / 5);
+  return Math.max(600, Math.min(10000, cutoff));
+};
+
+// 列出可用的音频输出设备（未授权媒体权限时名称可能为空）
+export const listAudioOutputs = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audiooutput');
+};
+
+// 浏览器是否支持把音频上下文路由到指定输出设备
+export const supportsAudioOutputSelection = (): boolean => {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+};
+
+// 由应用配置生成音频设置（旧版本保存的配置可能缺少音频字段）
+export const getAudioConfig = (config?: Partial<AudioConfig>): AudioConfig => ({
+  volume: config?.volume ?? DEFAULT_AUDIO_CONFIG.volume,
+  outputDeviceId: config?.outputDeviceId ?? DEFAULT_AUDIO_CONFIG.outputDeviceId
+});
+
+// 音频触觉渲染器类
+export class AudioHapticRenderer {
+  private context: SinkAudioContext | null = null;
+  private masterGain: GainNode | null = null;
+  private noiseBuffer: AudioBuffer | null = null;
+  private voices: Set<AudioScheduledSourceNode> = new Set();
+  private enabled = false;
+  private settings: AudioConfig = { ...DEFAULT_AUDIO_CONFIG };
+
+  // 是否播放音频反馈（对应交互设置中的audioFeedback）
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.stop();
+    }
+  }
+
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // 更新音量和输出设备，返回输出设备是否切换成功
+  async configure(settings: Partial<AudioConfig>): Promise<boolean> {
+    const outputChanged = settings.outputDeviceId !== undefined && settings.outputDeviceId !== this.settings.outputDeviceId;
+    this.settings = { ...this.settings, ...settings };
+    if (this.context && this.masterGain) {
+      this.masterGain.gain.setValueAtTime(this.settings.volume, this.context.currentTime);
+    }
+    if (outputChanged && this.context) {
+      return this.applyOutputDevice(this.context);
+    }
+    return true;
+  }
+
+  // 播放触觉配置对应的声音，未启用或浏览器不支持音频时返回false
+  render(profile: HapticProfile): boolean {
+    if (!this.enabled || (!profile.vibration && !profile.temperature)) {
+      return false;
+    }
+    const context = this.ensureContext();
+    if (!context || !this.masterGain) {
+      return false;
+    }
+    // 浏览器在用户交互前会挂起音频上下文
+    if (context.state === 'suspended') {
+      context.resume().catch(error => console.warn('恢复音频上下文失败:', error));
+    }
+
+    const startTime = context.currentTime + SCHEDULE_AHEAD;
+    const timbre = context.createBiquadFilter();
+    timbre.type = 'lowpass';
+    timbre.frequency.value = getTemperatureCutoff(profile.temperature);
+    timbre.connect(this.masterGain);
+
+    if (profile.vibration) {
+      this.scheduleVibration(context, profile.vibration, timbre, startTime);
+    }
+    if (profile.temperature) {
+      this.scheduleTemperatureCue(context, profile.temperature, timbre, startTime);
+    }
+    return true;
+  }
+
+  // 立即停止所有正在播放的声音
+  stop() {
+    this.voices.forEach(voice => {
+      try {
+        voice.stop();
+      } catch {
+        // 尚未开始或已经结束的声部
+      }
+    });
+    this.voices.clear();
+  }
+
+  // 关闭音频上下文
+  dispose() {
+    this.stop();
+    this.context?.close();
+    this.context = null;
+    this.masterGain = null;
+    this.noiseBuffer = null;
+  }
+
+  // 振动：按模式选择波形，音量跟随强度和包络，脉冲模式按通断周期门控
+  private scheduleVibration(context: AudioContext, vibration: VibrationConfig, output: AudioNode, startTime: number) {
+    const duration = Math.max(0.01, vibration.duration / 1000);
+    const level = Math.max(0, Math.min(1, vibration.intensity)) * VOICE_GAIN;
+    const timbre = PATTERN_TIMBRE[vibration.pattern] || PATTERN_TIMBRE.medium;
+
+    const oscillator = context.createOscillator();
+    oscillator.type = timbre.type;
+    oscillator.frequency.value = vibration.frequency * AUDIO_PITCH_MULTIPLIER;
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0, startTime);
+    if (vibration.envelope) {
+      getEnvelopeKeyframes(vibration.envelope, vibration.duration).forEach(keyframe => {
+        envelope.gain.linearRampToValueAtTime(keyframe.value * level, startTime + keyframe.time / 1000);
+      });
+    } else {
+      const attack = Math.min(timbre.attack, duration / 2);
+      const release = Math.min(timbre.release, duration - attack);
+      envelope.gain.linearRampToValueAtTime(level, startTime + attack);
+      envelope.gain.setValueAtTime(level, startTime + duration - release);
+    }
+    envelope.gain.linearRampToValueAtTime(0, startTime + duration);
+
+    let last: AudioNode = envelope;
+    oscillator.connect(envelope);
+    if (vibration.pattern === 'pulse') {
+      const gate = context.createGain();
+      const halfPeriod = PULSE_PERIOD / 2000;
+      for (let time = 0, on = true; time < duration; time += halfPeriod, on = !on) {
+        gate.gain.setValueAtTime(on ? 1 : 0, startTime + time);
+      }
+      envelope.connect(gate);
+      last = gate;
+    }
+    last.connect(output);
+
+    this.startVoice(oscillator, startTime, startTime + duration);
+  }
+
+  // 温度：一段滤波噪声，热为低沉的噪声，冷为明亮的嘶声，响度随升降温幅度增大
+  private scheduleTemperatureCue(context: AudioContext, temperature: TemperatureConfig, output: AudioNode, startTime: number) {
+    const delta = temperature.target - NEUTRAL_TEMPERATURE;
+    if (Math.abs(delta) < 0.5) {
+      return;
+    }
+    const totalTime = temperature.rampTime + temperature.holdTime;
+    const duration = Math.max(0.05, Math.min(MAX_TEMPERATURE_CUE, totalTime) / 1000);
+    const rampEnd = Math.min(duration, Math.max(0.01, temperature.rampTime / 1000));
+    const level = Math.min(1, Math.abs(delta) / 20) * VOICE_GAIN * 0.6;
+
+    const noise = context.createBufferSource();
+    noise.buffer = this.getNoiseBuffer(context);
+    noise.loop = true;
+
+    const band = context.createBiquadFilter();
+    band.type = 'bandpass';
+    band.frequency.value = delta > 0 ? 300 : 4000;
+    band.Q.value = 1.5;
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0, startTime);
+    envelope.gain.linearRampToValueAtTime(level, startTime + rampEnd);
+    envelope.gain.linearRampToValueAtTime(0, startTime + duration);
+
+    noise.connect(band);
+    band.connect(envelope);
+    envelope.connect(output);
+
+    this.startVoice(noise, startTime, startTime + duration);
+  }
+
+  private startVoice(source: AudioScheduledSourceNode, startTime: number, stopTime: number) {
+    this.voices.add(source);
+    source.onended = () => {
+      this.voices.delete(source);
+      source.disconnect();
+    };
+    source.start(startTime);
+    source.stop(stopTime);
+  }
+
+  // 延迟创建音频上下文，之后所有反馈共用
+  private ensureContext(): SinkAudioContext | null {
+    if (this.context) {
+      return this.context;
+    }
+    const AudioContextClass = window.AudioContext
+      || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) {
+      console.warn('浏览器不支持Web Audio，无法播放音频反馈');
+      return null;
+    }
+
+    const context: SinkAudioContext = new AudioContextClass();
+    this.masterGain = context.createGain();
+    this.masterGain.gain.value = this.settings.volume;
+    this.masterGain.connect(context.destination);
+    this.context = context;
+    if (this.settings.outputDeviceId) {
+      this.applyOutputDevice(context);
+    }
+    return context;
+  }
+
+  private async applyOutputDevice(context: SinkAudioContext): Promise<boolean> {
+    if (!context.setSinkId) {
+      console.warn('浏览器不支持选择音频输出设备，使用系统默认输出');
+      return false;
+    }
+    try {
+      await context.setSinkId(this.settings.outputDeviceId);
+      return true;
+    } catch (error) {
+      console.warn('切换音频输出设备失败:', error);
+      return false;
+    }
+  }
+
+  private getNoiseBuffer(context: AudioContext): AudioBuffer {
+    if (!this.noiseBuffer) {
+      const length = Math.floor(context.sampleRate * NOISE_BUFFER_DURATION);
+      this.noiseBuffer = context.createBuffer(1, length, context.sampleRate);
+      const data = this.noiseBuffer.getChannelData(0);
+      for (let i = 0; i < length; i++) {
+        data[i] = Math.random() * 2 - 1;
+      }
+    }
+    return this.noiseBuffer;
+  }
+}
+
+// 创建全局音频渲染器实例
+let globalAudioRenderer: AudioHapticRenderer | null = null;
+
+export const createAudioHapticRenderer = (): AudioHapticRenderer => {
+  if (!globalAudioRenderer) {
+    globalAudioRenderer = new AudioHapticRenderer();
+  }
+  return globalAudioRenderer;
+};
+
+export const getAudioHapticRenderer = (): AudioHapticRenderer | null => {
+  return globalAudioRenderer;
+};
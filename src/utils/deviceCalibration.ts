@@ -0,0 +1,76 @@
+// 设备校准 - 传感器零点、谐振扫频和温度偏移的计算
+import type { DeviceCalibration, FlexSensorData, PressureSensorData } from '../types';
+
+// 扫频默认步长（赫兹）和每个频点的播放时长（毫秒）
+export const DEFAULT_SWEEP_STEP = 25;
+export const SWEEP_TONE_DURATION = 400;
+
+// 温度传感器偏移超过该值（摄氏度）视为传感器异常
+export const MAX_TEMPERATURE_OFFSET = 3;
+
+// 传感器零点
+export interface SensorBaseline {
+  pressureOffsets: number[];
+  flexOffsets: number[];
+}
+
+// 生成扫频频点，包含上下限
+export const getFrequencySweep = (range: [number, number], step: number = DEFAULT_SWEEP_STEP): number[] => {
+  const [min, max] = range[0] <= range[1] ? range : [range[1], range[0]];
+  const frequencies: number[] = [];
+  for (let frequency = min; frequency < max; frequency += Math.max(1, step)) {
+    frequencies.push(Math.round(frequency));
+  }
+  frequencies.push(Math.round(max));
+  return frequencies;
+};
+
+// 逐通道求平均（各样本通道数不一致时按最长的计算，缺失视为0）
+const averageChannels = (samples: number[][]): number[] => {
+  const channelCount = Math.max(0, ...samples.map(values => values.length));
+  return Array.from({ length: channelCount }, (_, channel) =>
+    samples.reduce((sum, values) => sum + (values[channel] ?? 0), 0) / samples.length
+  );
+};
+
+// 由静息状态下采集的原始数据计算零点
+export const computeSensorBaseline = (
+  pressure: PressureSensorData[],
+  flex: FlexSensorData[]
+): SensorBaseline => ({
+  pressureOffsets: pressure.length > 0 ? averageChannels(pressure.map(sample => sample.taxels)) : [],
+  flexOffsets: flex.length > 0 ? averageChannels(flex.map(sample => sample.joints)) : []
+});
+
+// 扣除压力零点，结果不小于0
+export const applyPressureCalibration = (
+  data: PressureSensorData,
+  calibration: DeviceCalibration | null
+): PressureSensorData => {
+  if (!calibration || calibration.pressureOffsets.length === 0) {
+    return data;
+  }
+  const taxels = data.taxels.map((value, index) => Math.max(0, value - (calibration.pressureOffsets[index] ?? 0)));
+  return { ...data, taxels, total: taxels.reduce((sum, value) => sum + value, 0) };
+};
+
+// 扣除弯曲零点
+export const applyFlexCalibration = (
+  data: FlexSensorData,
+  calibration: DeviceCalibration | null
+): FlexSensorData => {
+  if (!calibration || calibration.flexOffsets.length === 0) {
+    return data;
+  }
+  return { ...data, joints: data.joints.map((angle, index) => angle - (calibration.flexOffsets[index] ?? 0)) };
+};
+
+// 创建空白校准（不改变任何读数）
+export const createEmptyCalibration = (deviceId: string): DeviceCalibration => ({
+  deviceId,
+  pressureOffsets: [],
+  flexOffsets: [],
+  resonanceFrequency: null,
+  temperatureOffset: 0,
+  calibratedAt: Date.now()
+});
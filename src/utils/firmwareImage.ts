@@ -0,0 +1,122 @@
+// 固件镜像 - 镜像文件格式解析、版本比较和兼容性检查
+import type { FingerDevice } from '../types';
+import { crc32 } from './hapticProtocol';
+
+// 镜像文件头: ['FSFW', 版本(3), 保留, 最低可升级版本(3), 保留, 固件大小(4), CRC32(4)]，其后为固件
+const IMAGE_MAGIC = 'FSFW';
+export const FIRMWARE_HEADER_SIZE = 20;
+
+// 单个镜像的最大大小（字节）
+export const MAX_FIRMWARE_SIZE = 1024 * 1024;
+
+export interface FirmwareImage {
+  version: string; // 镜像中的固件版本
+  minVersion: string; // 设备当前版本不低于此版本才能升级
+  payload: Uint8Array;
+  crc: number; // 固件的CRC32
+}
+
+// 兼容性检查结果
+export interface FirmwareCompatibility {
+  compatible: boolean;
+  reason?: string;
+}
+
+const readVersion = (view: DataView, offset: number): string =>
+  `${view.getUint8(offset)}.${view.getUint8(offset + 1)}.${view.getUint8(offset + 2)}`;
+
+const writeVersion = (view: DataView, offset: number, version: string) => {
+  const [major = 0, minor = 0, patch = 0] = version.split('.').map(Number);
+  view.setUint8(offset, major);
+  view.setUint8(offset + 1, minor);
+  view.setUint8(offset + 2, patch);
+};
+
+// 比较版本号，a较新时返回正数
+export const compareVersions = (a: string, b: string): number => {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+};
+
+// 解析镜像文件，格式错误或CRC不符时抛出错误
+export const parseFirmwareImage = (buffer: ArrayBuffer): FirmwareImage => {
+  if (buffer.byteLength < FIRMWARE_HEADER_SIZE) {
+    throw new Error('固件文件过小');
+  }
+
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, IMAGE_MAGIC.length));
+  if (magic !== IMAGE_MAGIC) {
+    throw new Error('不是指套固件文件');
+  }
+
+  const size = view.getUint32(12, true);
+  if (size === 0 || size > MAX_FIRMWARE_SIZE) {
+    throw new Error(`固件大小无效: ${size}`);
+  }
+  if (buffer.byteLength !== FIRMWARE_HEADER_SIZE + size) {
+    throw new Error('固件文件长度与文件头不符');
+  }
+
+  const payload = new Uint8Array(buffer.slice(FIRMWARE_HEADER_SIZE));
+  const crc = view.getUint32(16, true);
+  if (crc32(payload) !== crc) {
+    throw new Error('固件文件已损坏（CRC校验失败）');
+  }
+
+  return {
+    version: readVersion(view, 4),
+    minVersion: readVersion(view, 8),
+    payload,
+    crc
+  };
+};
+
+// 生成镜像文件（用于模拟设备测试和固件打包）
+export const encodeFirmwareImage = (version: string, minVersion: string, payload: Uint8Array): ArrayBuffer => {
+  const buffer = new ArrayBuffer(FIRMWARE_HEADER_SIZE + payload.length);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < IMAGE_MAGIC.length; i++) {
+    view.setUint8(i, IMAGE_MAGIC.charCodeAt(i));
+  }
+  writeVersion(view, 4, version);
+  writeVersion(view, 8, minVersion);
+  view.setUint32(12, payload.length, true);
+  view.setUint32(16, crc32(payload), true);
+  new Uint8Array(buffer, FIRMWARE_HEADER_SIZE).set(payload);
+
+  return buffer;
+};
+
+// 检查镜像能否写入设备（默认不允许降级和重复写入同一版本）
+export const checkFirmwareCompatibility = (
+  image: FirmwareImage,
+  device: FingerDevice,
+  allowDowngrade = false
+): FirmwareCompatibility => {
+  if (!device.capabilities.dfu) {
+    return { compatible: false, reason: '设备不支持无线固件升级' };
+  }
+  if (compareVersions(device.firmwareVersion, image.minVersion) < 0) {
+    return {
+      compatible: false,
+      reason: `设备固件 ${device.firmwareVersion} 低于镜像要求的最低版本 ${image.minVersion}，请先升级到中间版本`
+    };
+  }
+  const order = compareVersions(image.version, device.firmwareVersion);
+  if (order === 0) {
+    return { compatible: false, reason: `设备已是 ${image.version} 版本` };
+  }
+  if (order < 0 && !allowDowngrade) {
+    return { compatible: false, reason: `镜像版本 ${image.version} 低于设备当前版本 ${device.firmwareVersion}` };
+  }
+  return { compatible: true };
+};
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { HapticController } from './hapticController';
+import { SimulatedFingerSuit } from './simulatedFingerSuit';
+import type { WaveformSample } from '../types';
+
+describe('HapticController与模拟设备', () => {
+  let controller: HapticController;
+  let suit: SimulatedFingerSuit;
+
+  const connect = async () => {
+    suit = new SimulatedFingerSuit({ batteryDrainInterval: 0, sensorInterval: 0 });
+    controller = new HapticController();
+    expect(await controller.connect({ kind: 'bluetooth', device: suit.device })).toBe(true);
+  };
+
+  afterEach(async () => {
+    await controller?.disconnect();
+  });
+
+  it('长时间波形上传之后其他通道的效果不被判为过期', async () => {
+    await connect();
+    const vibration = { intensity: 0.6, frequency: 180, duration: 100, pattern: 'medium' as const };
+    expect(await controller.sendRawVibration(vibration)).toBe(true);
+
+    // 20字节MTU下每包只能放几个采样点，800个采样点约需200个数据包，振动通道上次的序号落入过期半窗口
+    const samples: WaveformSample[] = Array.from({ length: 800 }, (_, index) => ({
+      amplitude: (index % 10) / 10,
+      frequency: 200
+    }));
+    const handle = await controller.uploadWaveform({ sampleRate: 1000, samples });
+    expect(handle).not.toBeNull();
+    expect(controller.getCommandStats().sent).toBeGreaterThan(128);
+
+    const rejectedBefore = suit.getState().rejectedPackets;
+    expect(await controller.sendRawVibration({ ...vibration, intensity: 0.4 })).toBe(true);
+    expect(suit.getState().rejectedPackets).toBe(rejectedBefore);
+    expect(suit.getState().vibration?.intensity).toBeCloseTo(0.4);
+  });
+});
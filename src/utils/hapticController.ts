@@ -1,90 +1,189 @@
 // 触觉反馈控制器
 import type {
+  CollisionEvent,
+  ContactSide,
   FingerDevice,
   HapticProfile,
   VibrationConfig,
   TemperatureConfig,
-  DeviceCapabilities
+  DeviceCapabilities,
+  CustomWaveform,
+  PressureSensorData,
+  FlexSensorData,
+  DeviceCalibration,
+  PerceptualCalibration,
+  Quaternion
 } from '../types';
+import {
+  AckResult,
+  CalibrationStep,
+  DfuState,
+  PROTOCOL_VERSION_LEGACY,
+  PROTOCOL_VERSION_FRAMED,
+  FRAME_HEADER_SIZE,
+  MAX_WAVEFORM_SAMPLES,
+  encodeVibration,
+  encodeTemperature,
+  encodeStopAll,
+  encodeCalibrate,
+  encodePing,
+  encodeFrame,
+  encodeWaveformBegin,
+  encodeWaveformData,
+  encodeWaveformPlay,
+  encodeDfuBegin,
+  encodeDfuData,
+  encodeDfuVerify,
+  encodeDfuReboot,
+  getWaveformChunkCapacity,
+  getDfuChunkCapacity,
+  parseAck,
+  parsePong,
+  parseStatusData,
+  parsePressureData,
+  parseFlexData,
+  parseIMUData,
+  parseTemperatureReading,
+  parseDfuStatus
+} from './hapticProtocol';
+import type { CommandAck, DfuStatus } from './hapticProtocol';
+import { createTransport } from './hapticTransport';
+import type { HapticChannel, HapticTransport, TransportOptions } from './hapticTransport';
+import { HapticScheduler, CommandPriority, DEFAULT_EFFECT_DEADLINE } from './hapticScheduler';
+import type { SchedulerStats } from './hapticScheduler';
+import { renderVibrationEnvelope, renderTemperatureEnvelope, NEUTRAL_TEMPERATURE } from './hapticEnvelope';
+import { ThermalSafetyGovernor } from './thermalSafetyGovernor';
+import { MadgwickFilter, toSceneOrientation } from './sensorFusion';
+import type { ThermalDose, ThermalSafetyLimits } from './thermalSafetyGovernor';
+import { applyFlexCalibration, applyPressureCalibration, computeSensorBaseline } from './deviceCalibration';
+import type { SensorBaseline } from './deviceCalibration';
+import { LinkQualityMonitor } from './linkQualityMonitor';
+import type { LinkQualityStats } from './linkQualityMonitor';
+import { checkFirmwareCompatibility } from './firmwareImage';
+import type { FirmwareImage } from './firmwareImage';
+import { mapPerceivedIntensity } from './perceptualStaircase';
 
-// 蓝牙类型声明
-declare global {
-  interface Navigator {
-    bluetooth?: {
-      requestDevice(options: any): Promise<BluetoothDevice>;
-    };
-  }
-  
-  interface BluetoothDevice {
-    id: string;
-    name?: string;
-    gatt?: BluetoothRemoteGATTServer;
-    addEventListener(type: string, listener: EventListener): void;
-    removeEventListener(type: string, listener: EventListener): void;
-  }
-  
-  interface BluetoothRemoteGATTServer {
-    device: BluetoothDevice;
-    connected: boolean;
-    connect(): Promise<BluetoothRemoteGATTServer>;
-    disconnect(): void;
-    getPrimaryService(service: string): Promise<BluetoothRemoteGATTService>;
-  }
-  
-  interface BluetoothRemoteGATTService {
-    device: BluetoothDevice;
-    uuid: string;
-    getCharacteristic(characteristic: string): Promise<BluetoothRemoteGATTCharacteristic>;
-  }
-  
-  interface BluetoothRemoteGATTCharacteristic {
-    service: BluetoothRemoteGATTService;
-    uuid: string;
-    value?: DataView;
-    writeValue(value: ArrayBuffer): Promise<void>;
-    readValue(): Promise<DataView>;
-    startNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
-    stopNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
-    addEventListener(type: string, listener: EventListener): void;
-    removeEventListener(type: string, listener: EventListener): void;
-  }
+// 等待应答的超时时间（毫秒）和最大重试次数
+const ACK_TIMEOUT = 250;
+const MAX_RETRIES = 3;
+
+// 自动重连的初始退避时间、最大退避时间（毫秒）和最大尝试次数
+const RECONNECT_BASE_DELAY = 500;
+const RECONNECT_MAX_DELAY = 8000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+// 剂量超限后回到中性温度的升温时间（毫秒）
+const COOLDOWN_RAMP_TIME = 500;
+
+// 压力数据超过该时间（毫秒）未更新视为不可用
+const PRESSURE_MAX_AGE = 200;
+
+// 延迟探测间隔（毫秒）
+const PING_INTERVAL = 1000;
+
+// 固件升级中等待设备重连（断线续传或重启后）的最长时间（毫秒），覆盖全部重连退避
+const DFU_RECONNECT_TIMEOUT = 30000;
+
+// 固件数据包在连接正常时连续未送达的最大次数
+const MAX_DFU_CHUNK_FAILURES = 3;
+
+// 采集传感器零点的默认时长（毫秒）
+const BASELINE_CAPTURE_TIME = 2000;
+
+// 等待应答的指令
+interface PendingCommand {
+  sequence: number;
+  channel: HapticChannel;
+  frame: ArrayBuffer;
+  attempts: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  resolve: (delivered: boolean) => void;
+}
+
+// 正在保持的温度效果
+interface ActiveTemperature {
+  config: TemperatureConfig;
+  startedAt: number;
+}
+
+// 包络展开后按时间播放的通道
+type TimelineChannel = 'vibration' | 'temperature';
+
+// 固件升级进度
+export type FirmwareUpdatePhase = 'preparing' | 'transferring' | 'verifying' | 'rebooting' | 'complete' | 'failed';
+
+export interface FirmwareUpdateProgress {
+  phase: FirmwareUpdatePhase;
+  sent: number; // 设备已确认的字节数
+  total: number;
+  message?: string;
 }
 
-// 蓝牙服务和特征UUID
-const HAPTIC_SERVICE_UUID = '12345678-1234-1234-1234-123456789abc';
-const VIBRATION_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789abd';
-const TEMPERATURE_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789abe';
-const BATTERY_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789abf';
-const STATUS_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789ac0';
-
-// 指令类型
-enum CommandType {
-  VIBRATION = 0x01,
-  TEMPERATURE = 0x02,
-  STOP_ALL = 0x03,
-  GET_STATUS = 0x04,
-  CALIBRATE = 0x05
+// 指令收发统计
+export interface CommandStats {
+  sent: number;
+  acknowledged: number;
+  retried: number;
+  rejected: number;
+  timedOut: number;
 }
 
 // 触觉反馈控制器类
 export class HapticController {
-  private device: BluetoothDevice | null = null;
-  private server: BluetoothRemoteGATTServer | null = null;
-  private service: BluetoothRemoteGATTService | null = null;
-  private characteristics: Map<string, BluetoothRemoteGATTCharacteristic> = new Map();
+  private transport: HapticTransport | null = null;
   private isConnected = false;
   private deviceInfo: FingerDevice | null = null;
+  private protocolVersion = PROTOCOL_VERSION_LEGACY;
+  private sequence = 0;
+  private pendingCommands: Map<number, PendingCommand> = new Map();
+  private commandStats: CommandStats = { sent: 0, acknowledged: 0, retried: 0, rejected: 0, timedOut: 0 };
+  private activeTemperature: ActiveTemperature | null = null;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private manualDisconnect = false;
+  private waveforms: Map<number, CustomWaveform> = new Map(); // 已上传到设备的波形
+  private nextWaveformHandle = 1;
+  private timelineTimers: Map<TimelineChannel, ReturnType<typeof setTimeout>[]> = new Map();
+  private thermalGovernor = new ThermalSafetyGovernor();
+  private thermalTimer: ReturnType<typeof setTimeout> | null = null;
+  private latestPressure: PressureSensorData | null = null;
+  private orientationFilter = new MadgwickFilter();
+  private orientation: Quaternion | null = null; // 场景坐标系下的指尖姿态
+  private calibrations: Record<string, DeviceCalibration> = {}; // 按设备ID保存的校准
+  private activeCalibration: DeviceCalibration | null = null; // 当前设备生效的校准
+  private baselineSamples: { pressure: PressureSensorData[]; flex: FlexSensorData[] } | null = null;
+  private linkMonitor = new LinkQualityMonitor();
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private pongReceived = false; // 设备是否应答过延迟探测（不支持的固件不统计链路质量）
+  private firmwareUpdate: { cancelled: boolean } | null = null; // 进行中的固件升级
+  private intensityScale = 1; // 交互设置中的触觉强度
+  private perception: PerceptualCalibration | null = null; // 当前用户的感知校准
+  private scheduler = new HapticScheduler((channel, packet, priority) =>
+    priority === CommandPriority.PROBE ? this.sendProbe(channel, packet) : this.sendCommand(channel, packet)
+  );
   private eventListeners: Map<string, Function[]> = new Map();
 
   constructor() {
     this.initializeEventListeners();
+    this.scheduler.onDepthChange(depth => this.emit('queueDepth', depth));
   }
 
   // 初始化事件监听器
   private initializeEventListeners() {
     this.eventListeners.set('connected', []);
     this.eventListeners.set('disconnected', []);
+    this.eventListeners.set('reconnecting', []);
+    this.eventListeners.set('reconnected', []);
     this.eventListeners.set('batteryUpdate', []);
+    this.eventListeners.set('statusUpdate', []);
+    this.eventListeners.set('queueDepth', []);
+    this.eventListeners.set('safetyViolation', []);
+    this.eventListeners.set('pressureData', []);
+    this.eventListeners.set('flexData', []);
+    this.eventListeners.set('imuData', []);
+    this.eventListeners.set('orientation', []);
+    this.eventListeners.set('linkQuality', []);
+    this.eventListeners.set('firmwareProgress', []);
     this.eventListeners.set('error', []);
   }
 
@@ -110,98 +209,98 @@ export class HapticController {
     listeners.forEach(callback => callback(data));
   }
 
-  // 连接设备
-  async connect(deviceName: string = 'FingerSuit'): Promise<boolean> {
-    try {
-      console.log('正在搜索指套设备...');
-      
-      // 检查浏览器是否支持Web Bluetooth
-      if (!navigator.bluetooth) {
-        throw new Error('当前浏览器不支持Web Bluetooth API');
-      }
-
-      // 请求设备
-      this.device = await navigator.bluetooth.requestDevice({
-        filters: [{ name: deviceName }],
-        optionalServices: [HAPTIC_SERVICE_UUID]
-      });
-
-      // 监听设备断开事件
-      this.device.addEventListener('gattserverdisconnected', this.handleDisconnection.bind(this));
+  // 连接设备（默认通过Web Bluetooth，也可指定WebSocket桥接或串口）
+  async connect(options: TransportOptions | string = 'FingerSuit'): Promise<boolean> {
+    const transportOptions: TransportOptions = typeof options === 'string'
+      ? { kind: 'bluetooth', deviceName: options }
+      : options;
 
-      // 连接GATT服务器
-      this.server = await this.device.gatt!.connect();
-      console.log('已连接到GATT服务器');
+    console.log('正在搜索指套设备...', transportOptions.kind);
+    return this.connectWithTransport(createTransport(transportOptions));
+  }
 
-      // 获取触觉反馈服务
-      this.service = await this.server.getPrimaryService(HAPTIC_SERVICE_UUID);
-      console.log('已获取触觉反馈服务');
+  // 通过指定的传输层连接
+  async connectWithTransport(transport: HapticTransport): Promise<boolean> {
+    this.cancelReconnect();
+    this.manualDisconnect = false;
+    this.activeTemperature = null;
+    this.waveforms.clear();
 
-      // 获取所有特征
-      await this.initializeCharacteristics();
+    try {
+      this.transport = transport;
 
-      // 获取设备信息
-      await this.fetchDeviceInfo();
+      // 监听设备断开事件
+      transport.onDisconnect(this.handleDisconnection);
 
-      // 启动电池监控
-      this.startBatteryMonitoring();
+      await this.establishSession();
 
       this.isConnected = true;
       this.emit('connected', this.deviceInfo);
       
       console.log('指套设备连接成功');
+      await this.sendDeviceCalibration();
       return true;
     } catch (error) {
       console.error('设备连接失败:', error);
+      this.transport = null;
       this.emit('error', { type: 'CONNECTION_FAILED', message: error.message });
       return false;
     }
   }
 
-  // 初始化特征
-  private async initializeCharacteristics() {
-    const characteristicUUIDs = [
-      VIBRATION_CHARACTERISTIC_UUID,
-      TEMPERATURE_CHARACTERISTIC_UUID,
-      BATTERY_CHARACTERISTIC_UUID,
-      STATUS_CHARACTERISTIC_UUID
-    ];
+  // 建立连接并初始化会话（首次连接和重连共用）
+  private async establishSession() {
+    // 建立连接并获取所有通道
+    await this.transport!.connect();
 
-    for (const uuid of characteristicUUIDs) {
-      try {
-        const characteristic = await this.service!.getCharacteristic(uuid);
-        this.characteristics.set(uuid, characteristic);
-        console.log(`已获取特征: ${uuid}`);
-      } catch (error) {
-        console.warn(`无法获取特征 ${uuid}:`, error);
-      }
-    }
+    // 获取设备信息
+    await this.fetchDeviceInfo();
+
+    // 传感器零点在主机侧扣除，订阅前先确定
+    this.activeCalibration = this.calibrations[this.deviceInfo!.id] || null;
+
+    // 启动电池监控
+    this.startBatteryMonitoring();
+
+    // 订阅状态通知（指令应答和状态变化）
+    await this.startStatusMonitoring();
+
+    // 订阅手套传感器数据
+    await this.startSensorStreaming();
+
+    // 定期发送延迟探测
+    this.startLinkMonitoring();
   }
 
   // 获取设备信息
   private async fetchDeviceInfo() {
+    const transport = this.transport!;
     try {
-      const statusCharacteristic = this.characteristics.get(STATUS_CHARACTERISTIC_UUID);
-      if (statusCharacteristic) {
-        const statusData = await statusCharacteristic.readValue();
-        const status = this.parseStatusData(statusData);
-        
-        this.deviceInfo = {
-          id: this.device!.id,
-          name: this.device!.name || 'FingerSuit',
-          connected: true,
-          batteryLevel: status.batteryLevel,
-          firmwareVersion: status.firmwareVersion,
-          capabilities: status.capabilities
-        };
+      if (!transport.hasChannel('status')) {
+        throw new Error('状态通道不可用');
       }
+      const statusData = await transport.read('status');
+      const status = parseStatusData(statusData);
+      this.protocolVersion = status.protocolVersion;
+      
+      this.deviceInfo = {
+        id: transport.deviceId,
+        name: transport.deviceName,
+        connected: true,
+        connectionState: 'connected',
+        batteryLevel: status.batteryLevel,
+        firmwareVersion: status.firmwareVersion,
+        capabilities: status.capabilities
+      };
     } catch (error) {
       console.warn('无法获取设备状态:', error);
+      this.protocolVersion = PROTOCOL_VERSION_LEGACY;
       // 使用默认设备信息
       this.deviceInfo = {
-        id: this.device!.id,
-        name: this.device!.name || 'FingerSuit',
+        id: transport.deviceId,
+        name: transport.deviceName,
         connected: true,
+        connectionState: 'connected',
         batteryLevel: 100,
         firmwareVersion: '1.0.0',
         capabilities: {
@@ -214,93 +313,502 @@ export class HapticController {
     }
   }
 
-  // 解析状态数据
-  private parseStatusData(data: DataView) {
-    return {
-      batteryLevel: data.getUint8(0),
-      firmwareVersion: `${data.getUint8(1)}.${data.getUint8(2)}.${data.getUint8(3)}`,
-      capabilities: {
-        vibration: !!(data.getUint8(4) & 0x01),
-        temperature: !!(data.getUint8(4) & 0x02),
-        pressure: !!(data.getUint8(4) & 0x04),
-        flex: !!(data.getUint8(4) & 0x08)
-      }
-    };
-  }
-
   // 启动电池监控
   private startBatteryMonitoring() {
-    const batteryCharacteristic = this.characteristics.get(BATTERY_CHARACTERISTIC_UUID);
-    if (batteryCharacteristic) {
+    const transport = this.transport!;
+    if (transport.hasChannel('battery')) {
       // 启用通知
-      batteryCharacteristic.startNotifications().then(() => {
-        batteryCharacteristic.addEventListener('characteristicvaluechanged', (event: Event) => {
-          const target = (event.target as unknown) as BluetoothRemoteGATTCharacteristic;
-          if (target && target.value) {
-            const batteryLevel = target.value.getUint8(0);
-            
-            if (this.deviceInfo) {
-              this.deviceInfo.batteryLevel = batteryLevel;
-              this.emit('batteryUpdate', batteryLevel);
-            }
-          }
-        });
+      transport.subscribe('battery', (data: DataView) => {
+        const batteryLevel = data.getUint8(0);
+        
+        if (this.deviceInfo) {
+          this.deviceInfo.batteryLevel = batteryLevel;
+          this.emit('batteryUpdate', batteryLevel);
+        }
       }).catch(error => {
         console.warn('无法启用电池通知:', error);
       });
     }
   }
 
+  // 启动状态监控
+  private async startStatusMonitoring() {
+    this.sequence = 0;
+    const transport = this.transport!;
+    if (!transport.hasChannel('status')) {
+      // 没有状态通知就无法应答，退回裸指令协议
+      this.protocolVersion = PROTOCOL_VERSION_LEGACY;
+      return;
+    }
+
+    try {
+      await transport.subscribe('status', this.handleStatusNotification);
+    } catch (error) {
+      console.warn('无法启用状态通知:', error);
+      this.protocolVersion = PROTOCOL_VERSION_LEGACY;
+    }
+  }
+
+  // 订阅设备声明支持的压力、弯曲和惯性传感器
+  private async startSensorStreaming() {
+    const transport = this.transport!;
+    const capabilities = this.deviceInfo?.capabilities;
+    this.latestPressure = null;
+    this.orientation = null;
+    this.orientationFilter.reset();
+
+    if (capabilities?.pressure && transport.hasChannel('pressure')) {
+      try {
+        await transport.subscribe('pressure', this.handlePressureNotification);
+      } catch (error) {
+        console.warn('无法启用压力传感器通知:', error);
+      }
+    }
+
+    if (capabilities?.flex && transport.hasChannel('flex')) {
+      try {
+        await transport.subscribe('flex', this.handleFlexNotification);
+      } catch (error) {
+        console.warn('无法启用弯曲传感器通知:', error);
+      }
+    }
+
+    if (capabilities?.imu && transport.hasChannel('imu')) {
+      try {
+        await transport.subscribe('imu', this.handleIMUNotification);
+      } catch (error) {
+        console.warn('无法启用惯性传感器通知:', error);
+      }
+    }
+  }
+
+  // 处理压力传感器通知
+  private handlePressureNotification = (data: DataView) => {
+    const raw = parsePressureData(data);
+    if (!raw) {
+      console.warn('压力传感器数据格式错误');
+      return;
+    }
+    this.baselineSamples?.pressure.push(raw);
+    const pressure = applyPressureCalibration(raw, this.activeCalibration);
+    this.latestPressure = pressure;
+    this.emit('pressureData', pressure);
+  };
+
+  // 处理弯曲传感器通知
+  private handleFlexNotification = (data: DataView) => {
+    const raw = parseFlexData(data);
+    if (!raw) {
+      console.warn('弯曲传感器数据格式错误');
+      return;
+    }
+    this.baselineSamples?.flex.push(raw);
+    this.emit('flexData', applyFlexCalibration(raw, this.activeCalibration));
+  };
+
+  // 处理惯性传感器通知，融合为指尖姿态
+  private handleIMUNotification = (data: DataView) => {
+    const imu = parseIMUData(data);
+    if (!imu) {
+      console.warn('惯性传感器数据格式错误');
+      return;
+    }
+    this.emit('imuData', imu);
+    this.orientation = toSceneOrientation(this.orientationFilter.update(imu));
+    this.emit('orientation', this.orientation);
+  };
+
+  // 启动延迟探测（每次会话重新统计）
+  private startLinkMonitoring() {
+    this.stopLinkMonitoring();
+    this.linkMonitor.reset();
+    this.pongReceived = false;
+    this.pingTimer = setInterval(() => this.sendPing(), PING_INTERVAL);
+  }
+
+  private stopLinkMonitoring() {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  // 发送延迟探测：以最低优先级排队，链路空闲时才写入，避免与效果和传输指令争用GATT；
+  // 时间戳在写入前才记录，排队时间不计入往返时间
+  private sendPing() {
+    if (!this.isConnected || !this.transport?.hasChannel('vibration')) {
+      return;
+    }
+
+    if (this.linkMonitor.expirePending() > 0) {
+      this.emitLinkQuality();
+    }
+    this.scheduler.enqueue({
+      channel: 'vibration',
+      packet: () => encodePing(this.linkMonitor.recordPing()),
+      priority: CommandPriority.PROBE,
+      deadline: Date.now() + PING_INTERVAL
+    });
+  }
+
+  // 探测指令不加帧、不重发，以测得链路本身的往返时间和丢包
+  private async sendProbe(channel: HapticChannel, packet: ArrayBuffer): Promise<boolean> {
+    if (!this.isConnected || !this.transport) {
+      return false;
+    }
+    try {
+      await this.transport.write(channel, packet);
+      return true;
+    } catch (error) {
+      console.warn('延迟探测发送失败:', error);
+      return false;
+    }
+  }
+
+  private emitLinkQuality() {
+    const stats = this.pongReceived ? this.linkMonitor.getStats() : null;
+    if (stats) {
+      this.emit('linkQuality', stats);
+    }
+  }
+
+  // 处理状态通知
+  private handleStatusNotification = (data: DataView) => {
+    const pong = parsePong(data);
+    if (pong !== null) {
+      if (this.linkMonitor.recordPong(pong) !== null) {
+        this.pongReceived = true;
+        this.emitLinkQuality();
+      }
+      return;
+    }
+
+    const ack = parseAck(data);
+    if (ack) {
+      this.handleAck(ack);
+      return;
+    }
+
+    const status = parseStatusData(data);
+    if (this.deviceInfo) {
+      this.deviceInfo.batteryLevel = status.batteryLevel;
+    }
+    this.emit('statusUpdate', status);
+  };
+
+  // 处理指令应答
+  private handleAck(ack: CommandAck) {
+    const pending = this.pendingCommands.get(ack.sequence);
+    if (!pending) {
+      // 已超时或重复的应答
+      return;
+    }
+
+    switch (ack.result) {
+      case AckResult.OK:
+        this.commandStats.acknowledged++;
+        this.settleCommand(pending, true);
+        break;
+      case AckResult.CHECKSUM_ERROR:
+        // 传输损坏，按超时同样的规则重发
+        this.retryOrFail(pending);
+        break;
+      default:
+        this.commandStats.rejected++;
+        this.settleCommand(pending, false);
+        this.emit('error', {
+          type: 'COMMAND_REJECTED',
+          message: ack.result === AckResult.STALE
+            ? `指令 #${ack.sequence} 已过期，被设备拒绝`
+            : ack.result === AckResult.INVALID_STATE
+              ? `设备当前状态无法执行指令 #${ack.sequence}`
+              : `设备不支持指令 #${ack.sequence}`
+        });
+        break;
+    }
+  }
+
+  // 发送指令：新协议带序号并等待应答，旧协议直接写入
+  private async sendCommand(channel: HapticChannel, packet: ArrayBuffer): Promise<boolean> {
+    if (!this.isConnected || !this.transport) {
+      return false;
+    }
+
+    if (this.protocolVersion < PROTOCOL_VERSION_FRAMED) {
+      await this.transport.write(channel, packet);
+      this.commandStats.sent++;
+      return true;
+    }
+
+    this.sequence = this.sequence % 255 + 1;
+    const sequence = this.sequence;
+
+    return new Promise<boolean>((resolve) => {
+      const pending: PendingCommand = {
+        sequence,
+        channel,
+        frame: encodeFrame(packet, sequence),
+        attempts: 0,
+        timer: null,
+        resolve
+      };
+      this.pendingCommands.set(sequence, pending);
+      this.transmit(pending);
+    });
+  }
+
+  // 发送（或重发）指令帧
+  private transmit(pending: PendingCommand) {
+    pending.attempts++;
+    this.commandStats.sent++;
+    if (pending.attempts > 1) {
+      this.commandStats.retried++;
+    }
+
+    pending.timer = setTimeout(() => this.retryOrFail(pending), ACK_TIMEOUT);
+    this.transport?.write(pending.channel, pending.frame).catch(error => {
+      // 写入失败同样等待超时重发
+      console.warn(`指令 #${pending.sequence} 写入失败:`, error);
+    });
+  }
+
+  // 重发或放弃指令
+  private retryOrFail(pending: PendingCommand) {
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+      pending.timer = null;
+    }
+
+    if (this.isConnected && pending.attempts <= MAX_RETRIES) {
+      this.transmit(pending);
+      return;
+    }
+
+    this.commandStats.timedOut++;
+    this.settleCommand(pending, false);
+    this.emit('error', {
+      type: 'COMMAND_TIMEOUT',
+      message: `指令 #${pending.sequence} 重试 ${pending.attempts} 次后仍未收到设备应答`
+    });
+  }
+
+  // 结束等待中的指令
+  private settleCommand(pending: PendingCommand, delivered: boolean) {
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+    }
+    this.pendingCommands.delete(pending.sequence);
+    pending.resolve(delivered);
+  }
+
   // 断开连接处理
-  private handleDisconnection() {
+  private handleDisconnection = () => {
     console.log('设备已断开连接');
     this.isConnected = false;
-    this.device = null;
-    this.server = null;
-    this.service = null;
-    this.characteristics.clear();
-    
+    this.pendingCommands.forEach(pending => this.settleCommand(pending, false));
+    this.scheduler.clear();
+    this.stopLinkMonitoring();
+    this.cancelTimeline('vibration');
+    this.cancelTimeline('temperature');
+
+    // 非主动断开（如超出通信范围）时自动重连同一设备
+    if (!this.manualDisconnect && this.transport) {
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.finishDisconnection();
+  };
+
+  // 彻底断开，不再重连
+  private finishDisconnection() {
+    this.cancelReconnect();
+    this.cancelThermalTimer();
+    this.transport = null;
+    this.activeTemperature = null;
+    this.latestPressure = null;
+    this.orientation = null;
+    this.activeCalibration = null;
+    this.baselineSamples = null;
+
     if (this.deviceInfo) {
       this.deviceInfo.connected = false;
+      this.deviceInfo.connectionState = 'disconnected';
+      this.deviceInfo.reconnectAttempt = undefined;
     }
-    
+
     this.emit('disconnected');
   }
 
+  // 按指数退避安排下一次重连
+  private scheduleReconnect() {
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      console.warn(`重连 ${MAX_RECONNECT_ATTEMPTS} 次均失败，放弃重连`);
+      this.emit('error', {
+        type: 'RECONNECT_FAILED',
+        message: `设备重连 ${MAX_RECONNECT_ATTEMPTS} 次均失败，请手动重新连接`
+      });
+      this.finishDisconnection();
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempt, RECONNECT_MAX_DELAY);
+    this.reconnectAttempt++;
+
+    if (this.deviceInfo) {
+      this.deviceInfo.connected = false;
+      this.deviceInfo.connectionState = 'reconnecting';
+      this.deviceInfo.reconnectAttempt = this.reconnectAttempt;
+    }
+
+    console.log(`${delay}ms 后进行第 ${this.reconnectAttempt} 次重连`);
+    this.emit('reconnecting', { attempt: this.reconnectAttempt, maxAttempts: MAX_RECONNECT_ATTEMPTS, delay });
+    this.reconnectTimer = setTimeout(() => this.attemptReconnect(), delay);
+  }
+
+  // 尝试重连
+  private async attemptReconnect() {
+    this.reconnectTimer = null;
+    if (!this.transport || this.manualDisconnect) {
+      return;
+    }
+
+    try {
+      await this.establishSession();
+    } catch (error) {
+      console.warn(`第 ${this.reconnectAttempt} 次重连失败:`, error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.isConnected = true;
+    this.reconnectAttempt = 0;
+    console.log('指套设备重连成功');
+    this.emit('reconnected', this.deviceInfo);
+
+    await this.sendDeviceCalibration();
+    await this.restoreTemperatureHold();
+  }
+
+  // 取消等待中的重连
+  private cancelReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+  }
+
+  // 下发当前设备的执行器校准（谐振频率和温度偏移），没有校准时保持设备出厂设置
+  private async sendDeviceCalibration() {
+    const calibration = this.activeCalibration;
+    if (!calibration) {
+      return;
+    }
+
+    const results = await Promise.all([
+      this.hasCapability('vibration')
+        ? this.sendCalibration(CalibrationStep.RESONANCE, calibration.resonanceFrequency ?? 0)
+        : Promise.resolve(true),
+      this.hasCapability('temperature')
+        ? this.sendCalibration(CalibrationStep.TEMPERATURE_OFFSET, calibration.temperatureOffset * 10)
+        : Promise.resolve(true)
+    ]);
+    if (results.every(result => result)) {
+      console.log(`已应用设备 ${calibration.deviceId} 的校准`);
+    } else {
+      console.warn('设备校准未被确认');
+    }
+  }
+
+  // 恢复断线前尚未结束的温度保持
+  private async restoreTemperatureHold() {
+    const active = this.activeTemperature;
+    this.activeTemperature = null;
+    if (!active) {
+      return;
+    }
+
+    const { target, rampTime, holdTime } = active.config;
+    const remainingHold = active.startedAt + rampTime + holdTime - Date.now();
+    if (remainingHold <= 0) {
+      return;
+    }
+
+    // 断线期间执行器已回落，需重新升温后保持剩余时间
+    console.log(`恢复温度保持: ${target}°C，剩余 ${remainingHold}ms`);
+    await this.sendTemperature({ target, rampTime, holdTime: remainingHold });
+  }
+
   // 断开连接
   async disconnect() {
-    if (this.server && this.server.connected) {
-      this.server.disconnect();
+    this.manualDisconnect = true;
+    if (this.transport && this.transport.connected) {
+      await this.transport.disconnect();
+    } else if (this.transport) {
+      // 正在重连时直接放弃
+      this.finishDisconnection();
     }
   }
 
-  // 发送振动反馈
+  // 发送振动反馈（带包络时展开为多条定时指令，返回首条指令是否送达）
   async sendVibration(config: VibrationConfig): Promise<boolean> {
+    this.cancelTimeline('vibration');
+    if (config.envelope) {
+      return this.playTimeline('vibration', renderVibrationEnvelope(config), step => this.dispatchVibration(step));
+    }
+    return this.dispatchVibration(config);
+  }
+
+  // 按原始强度发送振动，不经过用户强度映射（感知阈值测试用）
+  async sendRawVibration(config: VibrationConfig): Promise<boolean> {
+    this.cancelTimeline('vibration');
+    return this.dispatchVibration(config, false);
+  }
+
+  // 设置用户强度映射：效果强度先乘以交互设置的触觉强度，再映射到用户的察觉阈值和舒适上限之间
+  setUserIntensity(scale: number, perception: PerceptualCalibration | null) {
+    this.intensityScale = Math.max(0, Math.min(1, scale));
+    this.perception = perception;
+  }
+
+  // 效果强度对应的设备强度
+  private mapIntensity(intensity: number): number {
+    return mapPerceivedIntensity(intensity * this.intensityScale, this.perception);
+  }
+
+  // 发送单条振动指令
+  private async dispatchVibration(config: VibrationConfig, mapIntensity = true): Promise<boolean> {
     if (!this.isConnected || !this.deviceInfo?.capabilities.vibration) {
       console.warn('设备未连接或不支持振动反馈');
       return false;
     }
 
     try {
-      const characteristic = this.characteristics.get(VIBRATION_CHARACTERISTIC_UUID);
-      if (!characteristic) {
+      if (!this.transport?.hasChannel('vibration')) {
         throw new Error('振动特征不可用');
       }
 
-      // 构建振动指令数据包
-      const command = new ArrayBuffer(8);
-      const view = new DataView(command);
-      
-      view.setUint8(0, CommandType.VIBRATION);
-      view.setUint8(1, Math.floor(config.intensity * 255));
-      view.setUint16(2, config.frequency, true);
-      view.setUint16(4, config.duration, true);
-      view.setUint8(6, this.getPatternCode(config.pattern));
-      view.setUint8(7, this.calculateChecksum(new Uint8Array(command, 0, 7)));
-
-      await characteristic.writeValue(command);
-      console.log('振动指令发送成功');
-      return true;
+      // 构建振动指令数据包（自定义波形改为播放已上传的波形）
+      const intensity = mapIntensity ? this.mapIntensity(config.intensity) : config.intensity;
+      let command: ArrayBuffer;
+      if (config.pattern === 'custom') {
+        if (config.waveformId === undefined || !this.waveforms.has(config.waveformId)) {
+          throw new Error(`自定义波形 #${config.waveformId} 尚未上传`);
+        }
+        command = encodeWaveformPlay(config.waveformId, intensity, 1);
+      } else {
+        command = encodeVibration({ ...config, intensity });
+      }
+
+      const delivered = await this.scheduler.enqueue({
+        channel: 'vibration',
+        packet: command,
+        priority: CommandPriority.EFFECT,
+        deadline: Date.now() + DEFAULT_EFFECT_DEADLINE
+      });
+      console.log(delivered ? '振动指令发送成功' : '振动指令未送达（已被取代、过期或未确认）');
+      return delivered;
     } catch (error) {
       console.error('发送振动指令失败:', error);
       this.emit('error', { type: 'VIBRATION_FAILED', message: error.message });
@@ -308,33 +816,61 @@ export class HapticController {
     }
   }
 
-  // 发送温度反馈
+  // 发送温度反馈（带包络时展开为多条定时指令，返回首条指令是否送达）
   async sendTemperature(config: TemperatureConfig): Promise<boolean> {
+    this.cancelTimeline('temperature');
+    if (config.envelope) {
+      return this.playTimeline('temperature', renderTemperatureEnvelope(config), step => this.dispatchTemperature(step));
+    }
+    return this.dispatchTemperature(config);
+  }
+
+  // 发送单条温度指令
+  private async dispatchTemperature(config: TemperatureConfig): Promise<boolean> {
     if (!this.isConnected || !this.deviceInfo?.capabilities.temperature) {
       console.warn('设备未连接或不支持温度反馈');
       return false;
     }
 
+    // 安全检查：越界目标钳位或拒绝，累计剂量超限时强制冷却
+    const verdict = this.thermalGovernor.evaluate(config);
+    if (verdict.violation) {
+      console.warn('温度安全限制:', verdict.violation.message);
+      this.emit('safetyViolation', verdict.violation);
+    }
+    if (!verdict.allowed) {
+      return false;
+    }
+    if (this.enforceThermalDose()) {
+      return false;
+    }
+    return this.deliverTemperature(verdict.config);
+  }
+
+  // 下发已通过安全检查的温度指令
+  private async deliverTemperature(config: TemperatureConfig): Promise<boolean> {
     try {
-      const characteristic = this.characteristics.get(TEMPERATURE_CHARACTERISTIC_UUID);
-      if (!characteristic) {
+      if (!this.transport?.hasChannel('temperature')) {
         throw new Error('温度特征不可用');
       }
 
       // 构建温度指令数据包
-      const command = new ArrayBuffer(8);
-      const view = new DataView(command);
-      
-      view.setUint8(0, CommandType.TEMPERATURE);
-      view.setInt8(1, config.target); // 温度值（摄氏度）
-      view.setUint16(2, config.rampTime, true);
-      view.setUint16(4, config.holdTime, true);
-      view.setUint8(6, 0); // 保留字节
-      view.setUint8(7, this.calculateChecksum(new Uint8Array(command, 0, 7)));
-
-      await characteristic.writeValue(command);
-      console.log('温度指令发送成功');
-      return true;
+      const command = encodeTemperature(config);
+
+      const delivered = await this.scheduler.enqueue({
+        channel: 'temperature',
+        packet: command,
+        priority: CommandPriority.EFFECT,
+        deadline: Date.now() + DEFAULT_EFFECT_DEADLINE
+      });
+      console.log(delivered ? '温度指令发送成功' : '温度指令未送达（已被取代、过期或未确认）');
+      if (delivered) {
+        // 记录正在保持的温度，断线重连后恢复
+        this.activeTemperature = { config, startedAt: Date.now() };
+        this.thermalGovernor.record(config);
+        this.scheduleThermalCheck();
+      }
+      return delivered;
     } catch (error) {
       console.error('发送温度指令失败:', error);
       this.emit('error', { type: 'TEMPERATURE_FAILED', message: error.message });
@@ -342,40 +878,381 @@ export class HapticController {
     }
   }
 
+  // 检查累计剂量，超限时取消温度包络并强制回到中性温度，返回是否进入冷却
+  private enforceThermalDose(): boolean {
+    const violation = this.thermalGovernor.checkDose();
+    if (!violation) {
+      return false;
+    }
+
+    console.warn('温度安全限制:', violation.message);
+    this.cancelTimeline('temperature');
+    this.cancelThermalTimer();
+    this.activeTemperature = null;
+    this.emit('safetyViolation', violation);
+    // 中性温度在冷却期间始终允许，直接下发
+    this.deliverTemperature({ target: NEUTRAL_TEMPERATURE, rampTime: COOLDOWN_RAMP_TIME, holdTime: 0 });
+    return true;
+  }
+
+  // 在当前温度保持预计达到剂量上限时检查
+  private scheduleThermalCheck() {
+    this.cancelThermalTimer();
+    const delay = this.thermalGovernor.timeUntilDoseLimit();
+    if (!Number.isFinite(delay)) {
+      return;
+    }
+    this.thermalTimer = setTimeout(() => {
+      this.thermalTimer = null;
+      if (!this.enforceThermalDose()) {
+        this.scheduleThermalCheck();
+      }
+    }, Math.ceil(delay) + 1);
+  }
+
+  private cancelThermalTimer() {
+    if (this.thermalTimer) {
+      clearTimeout(this.thermalTimer);
+      this.thermalTimer = null;
+    }
+  }
+
+  // 更新温度安全限制
+  setThermalLimits(limits: Partial<ThermalSafetyLimits>) {
+    this.thermalGovernor.updateLimits(limits);
+    if (this.activeTemperature) {
+      this.scheduleThermalCheck();
+    }
+  }
+
+  // 获取温度安全限制
+  getThermalLimits(): ThermalSafetyLimits {
+    return this.thermalGovernor.getLimits();
+  }
+
+  // 获取滑动窗口内的累计温度剂量
+  getThermalDose(): ThermalDose {
+    return this.thermalGovernor.getDose();
+  }
+
+  // 是否处于强制冷却期
+  isThermalCoolingDown(): boolean {
+    return this.thermalGovernor.isCoolingDown();
+  }
+
+  // 按时间依次发送展开后的指令，新的反馈会取消同通道尚未发出的部分
+  private playTimeline<T>(
+    channel: TimelineChannel,
+    steps: Array<{ at: number; config: T }>,
+    send: (config: T) => Promise<boolean>
+  ): Promise<boolean> {
+    const [first, ...rest] = steps;
+    this.timelineTimers.set(channel, rest.map(step => setTimeout(() => {
+      send(step.config);
+    }, step.at)));
+    return send(first.config);
+  }
+
+  // 取消通道上尚未发出的包络指令
+  private cancelTimeline(channel: TimelineChannel) {
+    this.timelineTimers.get(channel)?.forEach(timer => clearTimeout(timer));
+    this.timelineTimers.delete(channel);
+  }
+
+  // 上传自定义波形，按传输层MTU分包，全部送达后返回可用于播放的句柄
+  async uploadWaveform(waveform: CustomWaveform): Promise<number | null> {
+    if (!this.isConnected || !this.deviceInfo?.capabilities.waveform) {
+      console.warn('设备未连接或不支持自定义波形');
+      return null;
+    }
+
+    try {
+      if (!this.transport?.hasChannel('waveform')) {
+        throw new Error('波形特征不可用');
+      }
+      if (!Number.isInteger(waveform.sampleRate) || waveform.sampleRate < 1 || waveform.sampleRate > 0xFFFF) {
+        throw new Error(`波形采样率无效: ${waveform.sampleRate}`);
+      }
+      if (waveform.samples.length === 0 || waveform.samples.length > MAX_WAVEFORM_SAMPLES) {
+        throw new Error(`波形采样点数无效: ${waveform.samples.length}`);
+      }
+
+      // 新协议的帧头占用部分MTU
+      const headerSize = this.protocolVersion >= PROTOCOL_VERSION_FRAMED ? FRAME_HEADER_SIZE : 0;
+      const capacity = getWaveformChunkCapacity(this.transport.mtu - headerSize);
+      if (capacity < 1) {
+        throw new Error(`传输层MTU过小: ${this.transport.mtu}`);
+      }
+
+      const handle = this.allocateWaveformHandle();
+      const transfers = [this.enqueueTransfer(encodeWaveformBegin(handle, waveform.sampleRate, waveform.samples.length))];
+      for (let offset = 0; offset < waveform.samples.length; offset += capacity) {
+        const chunk = waveform.samples.slice(offset, offset + capacity);
+        transfers.push(this.enqueueTransfer(encodeWaveformData(handle, offset, chunk)));
+      }
+
+      const results = await Promise.all(transfers);
+      if (!results.every(result => result)) {
+        throw new Error(`波形 #${handle} 有 ${results.filter(result => !result).length} 个数据包未送达`);
+      }
+
+      this.waveforms.set(handle, waveform);
+      console.log(`自定义波形上传成功: #${handle}，${waveform.samples.length} 个采样点，${transfers.length} 个数据包`);
+      return handle;
+    } catch (error) {
+      console.error('上传自定义波形失败:', error);
+      this.emit('error', { type: 'WAVEFORM_UPLOAD_FAILED', message: error.message });
+      return null;
+    }
+  }
+
+  // 播放已上传的自定义波形
+  async playWaveform(handle: number, intensity = 1, repeat = 1): Promise<boolean> {
+    if (!this.isConnected || !this.waveforms.has(handle)) {
+      console.warn(`设备未连接或波形 #${handle} 未上传`);
+      return false;
+    }
+
+    // 与振动共用执行器，走振动通道以便相互取代
+    this.cancelTimeline('vibration');
+    return this.scheduler.enqueue({
+      channel: 'vibration',
+      packet: encodeWaveformPlay(handle, this.mapIntensity(intensity), repeat),
+      priority: CommandPriority.EFFECT,
+      deadline: Date.now() + DEFAULT_EFFECT_DEADLINE
+    });
+  }
+
+  // 分配波形句柄（1-255循环，跳过仍在使用的句柄）
+  private allocateWaveformHandle(): number {
+    for (let i = 0; i < 255; i++) {
+      const handle = this.nextWaveformHandle;
+      this.nextWaveformHandle = this.nextWaveformHandle % 255 + 1;
+      if (!this.waveforms.has(handle)) {
+        return handle;
+      }
+    }
+    throw new Error('波形句柄已用尽，请先删除不再使用的波形');
+  }
+
+  // 波形或固件数据入队（按顺序发送，不合并、不过期）
+  private enqueueTransfer(packet: ArrayBuffer, channel: HapticChannel = 'waveform'): Promise<boolean> {
+    return this.scheduler.enqueue({ channel, packet, priority: CommandPriority.TRANSFER });
+  }
+
+  // 无线固件升级：分块传输镜像，断线重连后从设备已接收处续传，校验通过后重启设备并确认新版本
+  async updateFirmware(image: FirmwareImage, allowDowngrade = false): Promise<boolean> {
+    if (this.firmwareUpdate) {
+      console.warn('已有固件升级正在进行');
+      return false;
+    }
+
+    const session = { cancelled: false };
+    this.firmwareUpdate = session;
+    const total = image.payload.length;
+    let sent = 0;
+    let reportedPercent = -1;
+    const report = (phase: FirmwareUpdatePhase, message?: string) => {
+      const progress: FirmwareUpdateProgress = { phase, sent, total, message };
+      this.emit('firmwareProgress', progress);
+    };
+
+    try {
+      if (!this.isConnected || !this.deviceInfo) {
+        throw new Error('设备未连接');
+      }
+      const compatibility = checkFirmwareCompatibility(image, this.deviceInfo, allowDowngrade);
+      if (!compatibility.compatible) {
+        throw new Error(compatibility.reason);
+      }
+      if (this.protocolVersion < PROTOCOL_VERSION_FRAMED) {
+        throw new Error('设备协议版本过旧，无法确认固件数据送达');
+      }
+      if (!this.transport?.hasChannel('dfu')) {
+        throw new Error('固件升级特征不可用');
+      }
+
+      report('preparing');
+      // 升级期间停止触觉效果，链路留给固件数据
+      await this.stopAllFeedback();
+      sent = await this.beginFirmwareTransfer(image);
+
+      let failures = 0;
+      while (sent < total) {
+        if (session.cancelled) {
+          throw new Error('固件升级已取消');
+        }
+
+        if (!this.isConnected) {
+          report('transferring', '连接中断，等待重连后续传');
+          if (!this.transport || !(await this.waitForReconnect(DFU_RECONNECT_TIMEOUT))) {
+            throw new Error('设备重连失败，固件升级中断');
+          }
+          sent = await this.beginFirmwareTransfer(image);
+          continue;
+        }
+
+        const capacity = getDfuChunkCapacity(this.transport!.mtu - FRAME_HEADER_SIZE);
+        if (capacity < 1) {
+          throw new Error(`传输层MTU过小: ${this.transport!.mtu}`);
+        }
+        const chunk = image.payload.subarray(sent, sent + capacity);
+        if (await this.enqueueTransfer(encodeDfuData(sent, chunk), 'dfu')) {
+          sent += chunk.length;
+          failures = 0;
+          // 按百分比节流进度事件
+          const percent = Math.floor(sent / total * 100);
+          if (percent !== reportedPercent) {
+            reportedPercent = percent;
+            report('transferring');
+          }
+        } else if (this.isConnected && ++failures > MAX_DFU_CHUNK_FAILURES) {
+          throw new Error(`偏移 ${sent} 处的固件数据多次未送达`);
+        }
+      }
+
+      report('verifying');
+      if (!(await this.enqueueTransfer(encodeDfuVerify(), 'dfu'))) {
+        throw new Error('设备校验固件失败，请重新升级');
+      }
+
+      report('rebooting');
+      const reconnected = this.waitForReconnect(DFU_RECONNECT_TIMEOUT);
+      if (!(await this.enqueueTransfer(encodeDfuReboot(), 'dfu'))) {
+        throw new Error('设备未确认重启指令');
+      }
+      if (!(await reconnected)) {
+        throw new Error('设备重启后未能重新连接');
+      }
+
+      const version = this.deviceInfo?.firmwareVersion;
+      if (version !== image.version) {
+        throw new Error(`设备重启后固件版本为 ${version}，预期 ${image.version}`);
+      }
+
+      report('complete');
+      console.log(`固件升级完成: ${image.version}`);
+      return true;
+    } catch (error) {
+      console.error('固件升级失败:', error);
+      report('failed', error.message);
+      this.emit('error', { type: 'FIRMWARE_UPDATE_FAILED', message: error.message });
+      return false;
+    } finally {
+      this.firmwareUpdate = null;
+    }
+  }
+
+  // 取消进行中的固件升级（当前数据包送达后停止，设备保留已接收部分以便续传）
+  cancelFirmwareUpdate() {
+    if (this.firmwareUpdate) {
+      this.firmwareUpdate.cancelled = true;
+    }
+  }
+
+  // 是否正在升级固件
+  get updatingFirmware(): boolean {
+    return this.firmwareUpdate !== null;
+  }
+
+  // 开始或续传固件，返回续传起点
+  private async beginFirmwareTransfer(image: FirmwareImage): Promise<number> {
+    const status = await this.readDfuStatus();
+    if (
+      status &&
+      status.state === DfuState.RECEIVING &&
+      status.size === image.payload.length &&
+      status.crc === image.crc &&
+      status.received <= status.size
+    ) {
+      console.log(`从 ${status.received} 字节处续传固件`);
+      return status.received;
+    }
+
+    if (!(await this.enqueueTransfer(encodeDfuBegin(image.payload.length, image.crc, image.version), 'dfu'))) {
+      throw new Error('设备未接受固件升级');
+    }
+    return 0;
+  }
+
+  // 读取设备的固件升级状态
+  private async readDfuStatus(): Promise<DfuStatus | null> {
+    try {
+      return parseDfuStatus(await this.transport!.read('dfu'));
+    } catch (error) {
+      console.warn('读取固件升级状态失败:', error);
+      return null;
+    }
+  }
+
+  // 等待自动重连成功；放弃重连或超时返回false
+  private waitForReconnect(timeout: number): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      const finish = (reconnected: boolean) => {
+        clearTimeout(timer);
+        this.removeEventListener('reconnected', handleReconnected);
+        this.removeEventListener('disconnected', handleDisconnected);
+        resolve(reconnected);
+      };
+      const handleReconnected = () => finish(true);
+      const handleDisconnected = () => finish(false);
+      const timer = setTimeout(() => finish(false), timeout);
+      this.addEventListener('reconnected', handleReconnected);
+      this.addEventListener('disconnected', handleDisconnected);
+    });
+  }
+
+  // 删除本地记录的波形，句柄可被重新分配
+  deleteWaveform(handle: number): boolean {
+    return this.waveforms.delete(handle);
+  }
+
+  // 获取已上传的波形
+  getWaveform(handle: number): CustomWaveform | null {
+    return this.waveforms.get(handle) || null;
+  }
+
   // 发送触觉反馈
   async sendHapticFeedback(profile: HapticProfile): Promise<boolean> {
-    const results: boolean[] = [];
+    const results: Promise<boolean>[] = [];
 
-    // 发送振动反馈
+    // 振动和温度同时入队，由调度器依次发送
     if (profile.vibration) {
-      results.push(await this.sendVibration(profile.vibration));
+      results.push(this.sendVibration(profile.vibration));
     }
 
-    // 发送温度反馈
     if (profile.temperature) {
-      results.push(await this.sendTemperature(profile.temperature));
+      results.push(this.sendTemperature(profile.temperature));
     }
 
-    return results.every(result => result);
+    return (await Promise.all(results)).every(result => result);
   }
 
   // 停止所有反馈
   async stopAllFeedback(): Promise<boolean> {
+    this.cancelTimeline('vibration');
+    this.cancelTimeline('temperature');
     if (!this.isConnected) {
       return false;
     }
 
     try {
-      const vibrationCharacteristic = this.characteristics.get(VIBRATION_CHARACTERISTIC_UUID);
-      if (vibrationCharacteristic) {
-        const command = new ArrayBuffer(2);
-        const view = new DataView(command);
-        view.setUint8(0, CommandType.STOP_ALL);
-        view.setUint8(1, this.calculateChecksum(new Uint8Array(command, 0, 1)));
-        
-        await vibrationCharacteristic.writeValue(command);
+      if (this.transport?.hasChannel('vibration')) {
+        // 停止指令清空排队效果并优先发送
+        const delivered = await this.scheduler.enqueue({
+          channel: 'vibration',
+          packet: encodeStopAll(),
+          priority: CommandPriority.STOP
+        });
+        if (!delivered) {
+          console.warn('停止指令未被设备确认');
+          return false;
+        }
       }
       
+      this.activeTemperature = null;
+      this.thermalGovernor.recordStop();
+      this.cancelThermalTimer();
       console.log('已停止所有触觉反馈');
       return true;
     } catch (error) {
@@ -384,24 +1261,74 @@ export class HapticController {
     }
   }
 
-  // 获取波形模式代码
-  private getPatternCode(pattern: string): number {
-    const patterns: Record<string, number> = {
-      'sharp': 1,
-      'soft': 2,
-      'medium': 3,
-      'pulse': 4
-    };
-    return patterns[pattern] || 1;
+  // 发送校准指令（谐振频率单位赫兹，0表示恢复出厂值；温度偏移单位0.1摄氏度）
+  sendCalibration(step: CalibrationStep, value: number): Promise<boolean> {
+    const channel: HapticChannel = step === CalibrationStep.TEMPERATURE_OFFSET ? 'temperature' : 'vibration';
+    if (!this.transport?.hasChannel(channel)) {
+      return Promise.resolve(false);
+    }
+    // 按顺序发送，不被效果取代或停止指令清除
+    return this.scheduler.enqueue({ channel, packet: encodeCalibrate(step, value), priority: CommandPriority.TRANSFER });
+  }
+
+  // 采集一段时间内未校准的压力和弯曲数据，返回平均值作为零点（采集期间手指应放松悬空）
+  async captureSensorBaseline(duration: number = BASELINE_CAPTURE_TIME): Promise<SensorBaseline> {
+    if (!this.isConnected) {
+      throw new Error('设备未连接');
+    }
+
+    const samples = { pressure: [] as PressureSensorData[], flex: [] as FlexSensorData[] };
+    this.baselineSamples = samples;
+    await new Promise(resolve => setTimeout(resolve, duration));
+    if (this.baselineSamples === samples) {
+      this.baselineSamples = null;
+    }
+    return computeSensorBaseline(samples.pressure, samples.flex);
   }
 
-  // 计算校验和
-  private calculateChecksum(data: Uint8Array): number {
-    let sum = 0;
-    for (let i = 0; i < data.length; i++) {
-      sum += data[i];
+  // 读取温度传感器的原始读数（摄氏度），设备不支持时返回null
+  async readTemperatureSensor(): Promise<number | null> {
+    if (!this.isConnected || !this.hasCapability('temperature') || !this.transport?.hasChannel('temperature')) {
+      return null;
+    }
+    try {
+      return parseTemperatureReading(await this.transport.read('temperature'));
+    } catch (error) {
+      console.warn('读取温度传感器失败:', error);
+      return null;
     }
-    return sum & 0xFF;
+  }
+
+  // 更新各设备的校准；当前设备的校准变化时立即生效
+  setCalibrations(calibrations: Record<string, DeviceCalibration>) {
+    this.calibrations = { ...calibrations };
+    if (!this.isConnected || !this.deviceInfo) {
+      return;
+    }
+
+    const previous = this.activeCalibration;
+    const next = this.calibrations[this.deviceInfo.id] || null;
+    if (previous?.calibratedAt === next?.calibratedAt) {
+      return;
+    }
+
+    this.activeCalibration = next;
+    if (next) {
+      this.sendDeviceCalibration();
+    } else if (previous) {
+      // 校准被删除，恢复设备出厂设置
+      if (this.hasCapability('vibration')) {
+        this.sendCalibration(CalibrationStep.RESONANCE, 0);
+      }
+      if (this.hasCapability('temperature')) {
+        this.sendCalibration(CalibrationStep.TEMPERATURE_OFFSET, 0);
+      }
+    }
+  }
+
+  // 获取当前设备生效的校准
+  getCalibration(): DeviceCalibration | null {
+    return this.activeCalibration;
   }
 
   // 检查连接状态
@@ -414,6 +1341,39 @@ export class HapticController {
     return this.deviceInfo;
   }
 
+  // 获取最新的指尖压力，设备不支持或数据已过期时返回null
+  getLatestPressure(maxAge: number = PRESSURE_MAX_AGE): PressureSensorData | null {
+    if (!this.isConnected || !this.latestPressure || Date.now() - this.latestPressure.timestamp > maxAge) {
+      return null;
+    }
+    return this.latestPressure;
+  }
+
+  // 获取场景坐标系下的指尖姿态，设备没有惯性传感器时返回null
+  getOrientation(): Quaternion | null {
+    return this.isConnected ? this.orientation : null;
+  }
+
+  // 获取链路质量统计，设备未应答过延迟探测时返回null
+  getLinkQuality(): LinkQualityStats | null {
+    return this.pongReceived ? this.linkMonitor.getStats() : null;
+  }
+
+  // 获取指令收发统计
+  getCommandStats(): CommandStats {
+    return { ...this.commandStats };
+  }
+
+  // 获取指令调度统计
+  getSchedulerStats(): SchedulerStats {
+    return this.scheduler.getStats();
+  }
+
+  // 获取当前排队指令数
+  getQueueDepth(): number {
+    return this.scheduler.depth;
+  }
+
   // 检查设备能力
   hasCapability(capability: keyof DeviceCapabilities): boolean {
     return this.deviceInfo?.capabilities[capability] || false;
@@ -442,7 +1402,9 @@ export const HapticProfiles = {
       intensity: 0.9,
       frequency: 200,
       pattern: 'sharp' as const,
-      duration: 100
+      duration: 100,
+      // 硬冲击：瞬间到峰值后迅速衰减
+      envelope: { type: 'adsr' as const, attack: 2, decay: 40, sustain: 0.2, release: 30 }
     },
     temperature: {
       target: 18,
@@ -459,7 +1421,9 @@ export const HapticProfiles = {
       intensity: 0.3,
       frequency: 50,
       pattern: 'soft' as const,
-      duration: 300
+      duration: 300,
+      // 缓慢膨胀后柔和释放
+      envelope: { type: 'adsr' as const, attack: 150, decay: 50, sustain: 0.8, release: 80 }
     },
     temperature: {
       target: 28,
@@ -476,7 +1440,8 @@ export const HapticProfiles = {
       intensity: 0.6,
       frequency: 120,
       pattern: 'medium' as const,
-      duration: 200
+      duration: 200,
+      envelope: { type: 'adsr' as const, attack: 5, decay: 60, sustain: 0.4, release: 60 }
     },
     temperature: {
       target: 22,
@@ -493,14 +1458,65 @@ export const HapticProfiles = {
       intensity: 0.8,
       frequency: 180,
       pattern: 'sharp' as const,
-      duration: 150
+      duration: 150,
+      // 冲击后带余振
+      envelope: { type: 'adsr' as const, attack: 1, decay: 80, sustain: 0.3, release: 50 }
     },
     temperature: {
       target: 15,
       rampTime: 300,
-      holdTime: 400
+      holdTime: 400,
+      // 接触瞬间最冷，随后被手指回暖
+      envelope: { type: 'adsr' as const, attack: 150, decay: 250, sustain: 0.7, release: 150 }
     },
     duration: 550,
     intensity: 0.8
   }
-} as const;
\ No newline at end of file
+} as const;
+
+// 参考接触力（牛），按压力度等于该值时按配置文件原强度播放
+export const REFERENCE_CONTACT_FORCE = 1;
+
+// 按压力度对振动强度的缩放范围
+const MIN_FORCE_SCALE = 0.2;
+const MAX_FORCE_SCALE = 2;
+
+// 按接触力缩放振动强度，按得越重振动越强（温度不随力度变化）
+export const scaleHapticProfileByForce = (profile: HapticProfile, force: number = REFERENCE_CONTACT_FORCE): HapticProfile => {
+  const scale = Math.max(MIN_FORCE_SCALE, Math.min(MAX_FORCE_SCALE, force / REFERENCE_CONTACT_FORCE));
+  if (!profile.vibration || scale === 1) {
+    return profile;
+  }
+  return {
+    ...profile,
+    vibration: { ...profile.vibration, intensity: Math.min(1, profile.vibration.intensity * scale) },
+    intensity: Math.min(1, profile.intensity * scale)
+  };
+};
+
+// 指甲接触时的振动强度比例：执行器贴在指腹，经指甲只能感到减弱的敲击
+const NAIL_CONTACT_INTENSITY_SCALE = 0.4;
+
+// 按接触面调整触觉配置：指甲接触时振动减弱并改为短促敲击，温度无法经指甲感知，不再加热或制冷
+export const adaptHapticProfileToContactSide = (profile: HapticProfile, contactSide?: ContactSide): HapticProfile => {
+  if (contactSide !== 'nail') {
+    return profile;
+  }
+  const vibration = profile.vibration && {
+    ...profile.vibration,
+    intensity: profile.vibration.intensity * NAIL_CONTACT_INTENSITY_SCALE,
+    pattern: profile.vibration.pattern === 'custom' ? 'custom' as const : 'sharp' as const
+  };
+  return {
+    ...profile,
+    vibration,
+    temperature: undefined,
+    intensity: profile.intensity * NAIL_CONTACT_INTENSITY_SCALE
+  };
+};
+
+// 用指套实测的指尖压力作为碰撞事件的接触力，没有压力数据时保留原值
+export const withMeasuredForce = (event: CollisionEvent, controller: HapticController): CollisionEvent => {
+  const pressure = controller.getLatestPressure();
+  return pressure ? { ...event, force: pressure.total } : event;
+};
@@ -0,0 +1,279 @@
+// 多指套设备管理器 - 每根手指一个执行器，按接触手指分发触觉反馈
+import type {
+  AppError,
+  CollisionEvent,
+  DeviceCalibration,
+  EventCallback,
+  FingerAssignment,
+  FingerDevice,
+  FingerId,
+  Hand,
+  PerceptualCalibration
+} from '../types';
+import { HapticController } from './hapticController';
+import type { TransportOptions } from './hapticTransport';
+import type { ThermalSafetyLimits } from './thermalSafetyGovernor';
+
+// 手指与左右手
+export const FINGER_IDS: FingerId[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+export const HANDS: Hand[] = ['left', 'right'];
+
+export const FINGER_NAMES: Record<FingerId, string> = {
+  thumb: '拇指',
+  index: '食指',
+  middle: '中指',
+  ring: '无名指',
+  pinky: '小指'
+};
+
+export const HAND_NAMES: Record<Hand, string> = {
+  left: '左手',
+  right: '右手'
+};
+
+// 碰撞事件未标明手指时默认为右手食指（当前手部追踪只跟踪食指指尖）
+export const DEFAULT_FINGER_ASSIGNMENT: FingerAssignment = { hand: 'right', finger: 'index' };
+
+// 手指槽位键
+export const getFingerSlotKey = (assignment: FingerAssignment): string => {
+  return `${assignment.hand}-${assignment.finger}`;
+};
+
+// 手指的显示名称
+export const getFingerLabel = (assignment: FingerAssignment): string => {
+  return `${HAND_NAMES[assignment.hand]}${FINGER_NAMES[assignment.finger]}`;
+};
+
+// 设备状态变化
+export interface FingerDeviceUpdate {
+  slotKey: string;
+  assignment: FingerAssignment;
+  device: FingerDevice | null; // 为null表示已解除配对
+}
+
+// 已配对的手指槽位
+interface FingerSlot {
+  assignment: FingerAssignment;
+  controller: HapticController;
+  listeners: Array<[string, EventCallback]>;
+}
+
+// 多指套设备管理器类
+export class HapticDeviceManager {
+  private slots: Map<string, FingerSlot> = new Map();
+  private eventListeners: Map<string, EventCallback[]> = new Map();
+  private thermalLimits: Partial<ThermalSafetyLimits> = {};
+  private calibrations: Record<string, DeviceCalibration> = {};
+  private userIntensity: { scale: number; perception: PerceptualCalibration | null } = { scale: 1, perception: null };
+
+  constructor() {
+    this.eventListeners.set('deviceUpdate', []);
+    this.eventListeners.set('safetyViolation', []);
+    this.eventListeners.set('error', []);
+  }
+
+  // 添加事件监听器
+  addEventListener(event: string, callback: EventCallback) {
+    const listeners = this.eventListeners.get(event) || [];
+    listeners.push(callback);
+    this.eventListeners.set(event, listeners);
+  }
+
+  // 移除事件监听器
+  removeEventListener(event: string, callback: EventCallback) {
+    const listeners = this.eventListeners.get(event) || [];
+    const index = listeners.indexOf(callback);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  // 触发事件
+  private emit(event: string, data?: unknown) {
+    const listeners = this.eventListeners.get(event) || [];
+    listeners.forEach(callback => callback(data));
+  }
+
+  // 为指定手指配对一个新设备，已有设备会先解除配对
+  async pairDevice(assignment: FingerAssignment, options: TransportOptions | string): Promise<boolean> {
+    const slotKey = getFingerSlotKey(assignment);
+    if (this.slots.has(slotKey)) {
+      await this.unpairDevice(assignment);
+    }
+
+    const controller = new HapticController();
+    controller.setThermalLimits(this.thermalLimits);
+    controller.setCalibrations(this.calibrations);
+    controller.setUserIntensity(this.userIntensity.scale, this.userIntensity.perception);
+    const slot: FingerSlot = { assignment: { ...assignment }, controller, listeners: [] };
+    this.attachListeners(slot);
+    this.slots.set(slotKey, slot);
+
+    console.log(`正在为${getFingerLabel(assignment)}配对指套...`);
+    const connected = await controller.connect(options);
+    if (!connected) {
+      this.detachListeners(slot);
+      this.slots.delete(slotKey);
+      return false;
+    }
+    return true;
+  }
+
+  // 解除手指上的设备配对
+  async unpairDevice(assignment: FingerAssignment): Promise<void> {
+    const slotKey = getFingerSlotKey(assignment);
+    const slot = this.slots.get(slotKey);
+    if (!slot) {
+      return;
+    }
+
+    this.detachListeners(slot);
+    this.slots.delete(slotKey);
+    await slot.controller.disconnect();
+    this.emit('deviceUpdate', { slotKey, assignment: slot.assignment, device: null });
+  }
+
+  // 把已配对的设备改戴到另一根手指，目标手指上的设备与之交换
+  reassignDevice(from: FingerAssignment, to: FingerAssignment): boolean {
+    const fromKey = getFingerSlotKey(from);
+    const toKey = getFingerSlotKey(to);
+    const slot = this.slots.get(fromKey);
+    if (!slot || fromKey === toKey) {
+      return false;
+    }
+
+    const swapped = this.slots.get(toKey);
+    this.slots.delete(fromKey);
+    this.slots.delete(toKey);
+
+    slot.assignment = { ...to };
+    this.slots.set(toKey, slot);
+    this.emitDeviceUpdate(slot);
+
+    if (swapped) {
+      swapped.assignment = { ...from };
+      this.slots.set(fromKey, swapped);
+      this.emitDeviceUpdate(swapped);
+    } else {
+      this.emit('deviceUpdate', { slotKey: fromKey, assignment: { ...from }, device: null });
+    }
+    return true;
+  }
+
+  // 监听控制器事件并转为按手指的状态更新
+  private attachListeners(slot: FingerSlot) {
+    const handleUpdate = () => this.emitDeviceUpdate(slot);
+    const handleError = (error: { type: string; message: string }) => {
+      this.emit('error', { ...error, message: `${getFingerLabel(slot.assignment)}: ${error.message}` });
+    };
+    const handleSafetyViolation = (violation: AppError) => {
+      this.emit('safetyViolation', {
+        ...violation,
+        message: `${getFingerLabel(slot.assignment)}: ${violation.message}`,
+        context: { ...violation.context, slotKey: getFingerSlotKey(slot.assignment) }
+      });
+    };
+
+    slot.listeners = [
+      ['connected', handleUpdate],
+      ['reconnecting', handleUpdate],
+      ['reconnected', handleUpdate],
+      ['disconnected', handleUpdate],
+      ['batteryUpdate', handleUpdate],
+      ['safetyViolation', handleSafetyViolation],
+      ['error', handleError]
+    ];
+    slot.listeners.forEach(([event, callback]) => slot.controller.addEventListener(event, callback));
+  }
+
+  // 移除控制器事件监听
+  private detachListeners(slot: FingerSlot) {
+    slot.listeners.forEach(([event, callback]) => slot.controller.removeEventListener(event, callback));
+    slot.listeners = [];
+  }
+
+  // 发送手指设备状态
+  private emitDeviceUpdate(slot: FingerSlot) {
+    const deviceInfo = slot.controller.getDeviceInfo();
+    if (!deviceInfo) {
+      return;
+    }
+    this.emit('deviceUpdate', {
+      slotKey: getFingerSlotKey(slot.assignment),
+      assignment: slot.assignment,
+      device: { ...deviceInfo, assignment: { ...slot.assignment } }
+    });
+  }
+
+  // 获取手指上的控制器
+  getController(assignment: FingerAssignment): HapticController | null {
+    return this.slots.get(getFingerSlotKey(assignment))?.controller || null;
+  }
+
+  // 获取碰撞事件对应手指上已连接的控制器
+  getControllerForEvent(event: CollisionEvent): HapticController | null {
+    const controller = this.getController({
+      hand: event.hand || DEFAULT_FINGER_ASSIGNMENT.hand,
+      finger: event.finger || DEFAULT_FINGER_ASSIGNMENT.finger
+    });
+    return controller?.connected ? controller : null;
+  }
+
+  // 更新所有手指（包括之后配对的设备）的温度安全限制
+  setThermalLimits(limits: Partial<ThermalSafetyLimits>) {
+    this.thermalLimits = { ...this.thermalLimits, ...limits };
+    this.slots.forEach(slot => slot.controller.setThermalLimits(this.thermalLimits));
+  }
+
+  // 更新各设备的校准，指套连接或重连时按设备ID自动应用
+  setCalibrations(calibrations: Record<string, DeviceCalibration>) {
+    this.calibrations = calibrations;
+    this.slots.forEach(slot => slot.controller.setCalibrations(calibrations));
+  }
+
+  // 更新所有手指的用户强度映射
+  setUserIntensity(scale: number, perception: PerceptualCalibration | null) {
+    this.userIntensity = { scale, perception };
+    this.slots.forEach(slot => slot.controller.setUserIntensity(scale, perception));
+  }
+
+  // 获取所有已配对手指
+  getAssignments(): FingerAssignment[] {
+    return Array.from(this.slots.values()).map(slot => ({ ...slot.assignment }));
+  }
+
+  // 已配对设备数量
+  get size(): number {
+    return this.slots.size;
+  }
+
+  // 停止所有手指的反馈
+  async stopAllFeedback(): Promise<boolean> {
+    const results = await Promise.all(
+      Array.from(this.slots.values()).map(slot => slot.controller.stopAllFeedback())
+    );
+    return results.every(result => result);
+  }
+
+  // 断开所有设备
+  async disconnectAll(): Promise<void> {
+    const assignments = this.getAssignments();
+    for (const assignment of assignments) {
+      await this.unpairDevice(assignment);
+    }
+  }
+}
+
+// 创建全局设备管理器实例
+let globalDeviceManager: HapticDeviceManager | null = null;
+
+export const createHapticDeviceManager = (): HapticDeviceManager => {
+  if (!globalDeviceManager) {
+    globalDeviceManager = new HapticDeviceManager();
+  }
+  return globalDeviceManager;
+};
+
+export const getHapticDeviceManager = (): HapticDeviceManager | null => {
+  return globalDeviceManager;
+};
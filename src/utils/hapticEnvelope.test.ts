@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MIN_VIBRATION_STEP,
+  NEUTRAL_TEMPERATURE,
+  getEnvelopeKeyframes,
+  getEnvelopeValue,
+  renderTemperatureEnvelope,
+  renderVibrationEnvelope
+} from './hapticEnvelope';
+import type { HapticEnvelope } from '../types';
+
+const ADSR: HapticEnvelope = { type: 'adsr', attack: 100, decay: 100, sustain: 0.5, release: 100 };
+
+describe('包络关键帧', () => {
+  it('ADSR展开为五个关键帧', () => {
+    expect(getEnvelopeKeyframes(ADSR, 1000)).toEqual([
+      { time: 0, value: 0 },
+      { time: 100, value: 1 },
+      { time: 200, value: 0.5 },
+      { time: 900, value: 0.5 },
+      { time: 1000, value: 0 }
+    ]);
+  });
+
+  it('ADSR各阶段超出总时长时按比例压缩', () => {
+    const keyframes = getEnvelopeKeyframes(ADSR, 150);
+    expect(keyframes.map(keyframe => keyframe.time)).toEqual([0, 50, 100, 100, 150]);
+  });
+
+  it('关键帧包络排序、钳位并补齐到播放区间', () => {
+    const envelope: HapticEnvelope = {
+      type: 'keyframes',
+      keyframes: [{ time: 600, value: 2 }, { time: 200, value: 0.4 }]
+    };
+    expect(getEnvelopeKeyframes(envelope, 1000)).toEqual([
+      { time: 0, value: 0.4 },
+      { time: 200, value: 0.4 },
+      { time: 600, value: 1 },
+      { time: 1000, value: 1 }
+    ]);
+  });
+
+  it('关键帧之间线性插值，区间外取端点值', () => {
+    const keyframes = getEnvelopeKeyframes(ADSR, 1000);
+    expect(getEnvelopeValue(keyframes, 50)).toBeCloseTo(0.5);
+    expect(getEnvelopeValue(keyframes, 150)).toBeCloseTo(0.75);
+    expect(getEnvelopeValue(keyframes, -10)).toBe(0);
+    expect(getEnvelopeValue(keyframes, 2000)).toBe(0);
+    expect(getEnvelopeValue([], 10)).toBe(0);
+  });
+});
+
+describe('振动包络展开', () => {
+  const base = { intensity: 0.8, frequency: 200, duration: 1000, pattern: 'medium' as const };
+
+  it('没有包络时原样发送一条指令', () => {
+    expect(renderVibrationEnvelope(base)).toEqual([{ at: 0, config: base }]);
+  });
+
+  it('分段不短于最小时长，首段从0开始', () => {
+    const steps = renderVibrationEnvelope({ ...base, envelope: ADSR });
+    expect(steps[0].at).toBe(0);
+    for (let i = 1; i < steps.length; i++) {
+      expect(steps[i].at - steps[i - 1].at).toBeGreaterThanOrEqual(MIN_VIBRATION_STEP);
+    }
+    steps.forEach(step => {
+      expect(step.config.envelope).toBeUndefined();
+      expect(step.config.intensity).toBeLessThanOrEqual(base.intensity);
+    });
+  });
+
+  it('短于分段时长的瞬态峰值不被平均掉', () => {
+    const envelope: HapticEnvelope = {
+      type: 'keyframes',
+      keyframes: [{ time: 0, value: 0 }, { time: 10, value: 1 }, { time: 15, value: 0 }, { time: 200, value: 0 }]
+    };
+    const steps = renderVibrationEnvelope({ ...base, duration: 200, envelope });
+    expect(steps[0].at).toBe(0);
+    expect(steps[0].config.intensity).toBeCloseTo(base.intensity);
+  });
+
+  it('强度不变的平坦段合并为一条指令', () => {
+    const envelope: HapticEnvelope = { type: 'keyframes', keyframes: [{ time: 0, value: 0.5 }, { time: 1000, value: 0.5 }] };
+    const steps = renderVibrationEnvelope({ ...base, envelope });
+    expect(steps).toEqual([{ at: 0, config: { ...base, intensity: 0.4, duration: 1000 } }]);
+  });
+});
+
+describe('温度包络展开', () => {
+  const base = { target: 35, rampTime: 200, holdTime: 800 };
+
+  it('没有包络时原样发送一条指令', () => {
+    expect(renderTemperatureEnvelope(base)).toEqual([{ at: 0, config: base }]);
+  });
+
+  it('每个关键帧段对应一条指令，平坦段并入保持时间', () => {
+    const steps = renderTemperatureEnvelope({ ...base, envelope: ADSR });
+    expect(steps).toEqual([
+      { at: 0, config: { target: 35, rampTime: 100, holdTime: 0 } },
+      { at: 100, config: { target: 30, rampTime: 100, holdTime: 700 } },
+      { at: 900, config: { target: NEUTRAL_TEMPERATURE, rampTime: 100, holdTime: 0 } }
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+// 触觉包络 - 把ADSR和关键帧包络展开为按时间排列的设备指令
+import type {
+  HapticEnvelope,
+  EnvelopeKeyframe,
+  VibrationConfig,
+  TemperatureConfig
+} from '../types';
+
+// 振动包络的最小分段时长（毫秒），过密的指令会堵塞无线链路
+export const MIN_VIBRATION_STEP = 25;
+
+// 每段振动额外延长的时间（毫秒），避免下一条指令到达前执行器出现空隙
+const VIBRATION_STEP_OVERLAP = 20;
+
+// 温度包络的中性温度（摄氏度），包络值0对应该温度
+export const NEUTRAL_TEMPERATURE = 25;
+
+// 定时指令：at为相对播放开始的时间（毫秒）
+export interface TimedVibration {
+  at: number;
+  config: VibrationConfig;
+}
+
+export interface TimedTemperature {
+  at: number;
+  config: TemperatureConfig;
+}
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+// 把包络转换为按时间排序的关键帧，ADSR各阶段超出总时长时按比例压缩
+export const getEnvelopeKeyframes = (envelope: HapticEnvelope, duration: number): EnvelopeKeyframe[] => {
+  if (envelope.type === 'keyframes') {
+    const keyframes = envelope.keyframes
+      .map(keyframe => ({ time: Math.max(0, Math.min(duration, keyframe.time)), value: clamp01(keyframe.value) }))
+      .sort((a, b) => a.time - b.time);
+    if (keyframes.length === 0) {
+      return [{ time: 0, value: 0 }, { time: duration, value: 0 }];
+    }
+    // 首尾补齐到播放区间
+    if (keyframes[0].time > 0) {
+      keyframes.unshift({ time: 0, value: keyframes[0].value });
+    }
+    if (keyframes[keyframes.length - 1].time < duration) {
+      keyframes.push({ time: duration, value: keyframes[keyframes.length - 1].value });
+    }
+    return keyframes;
+  }
+
+  const sustain = clamp01(envelope.sustain);
+  const phases = Math.max(0, envelope.attack) + Math.max(0, envelope.decay) + Math.max(0, envelope.release);
+  const scale = phases > duration && phases > 0 ? duration / phases : 1;
+  const attack = Math.max(0, envelope.attack) * scale;
+  const decay = Math.max(0, envelope.decay) * scale;
+  const release = Math.max(0, envelope.release) * scale;
+
+  return [
+    { time: 0, value: attack > 0 ? 0 : 1 },
+    { time: attack, value: 1 },
+    { time: attack + decay, value: sustain },
+    { time: duration - release, value: sustain },
+    { time: duration, value: release > 0 ? 0 : sustain }
+  ];
+};
+
+// 在关键帧之间线性插值
+export const getEnvelopeValue = (keyframes: EnvelopeKeyframe[], time: number): number => {
+  if (keyframes.length === 0) return 0;
+  if (time <= keyframes[0].time) return keyframes[0].value;
+
+  for (let i = 1; i < keyframes.length; i++) {
+    const previous = keyframes[i - 1];
+    const next = keyframes[i];
+    if (time <= next.time) {
+      const span = next.time - previous.time;
+      return span > 0 ? previous.value + (next.value - previous.value) * (time - previous.time) / span : next.value;
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+};
+
+// 展开振动包络：按关键帧和最小分段切片，每段取区间内的峰值强度，保证瞬态不被平均掉
+export const renderVibrationEnvelope = (config: VibrationConfig): TimedVibration[] => {
+  const { envelope, ...base } = config;
+  if (!envelope || config.duration <= 0) {
+    return [{ at: 0, config: base }];
+  }
+
+  const keyframes = getEnvelopeKeyframes(envelope, config.duration);
+
+  // 关键帧时间加上长段内的等分点
+  const times = new Set<number>([0, config.duration]);
+  for (let i = 1; i < keyframes.length; i++) {
+    const start = keyframes[i - 1].time;
+    const span = keyframes[i].time - start;
+    const divisions = Math.max(1, Math.round(span / MIN_VIBRATION_STEP));
+    for (let k = 0; k <= divisions; k++) {
+      times.add(start + span * k / divisions);
+    }
+  }
+  const sorted = Array.from(times).sort((a, b) => a - b);
+
+  // 合并过短的分段
+  const boundaries: number[] = [0];
+  for (const time of sorted) {
+    if (time - boundaries[boundaries.length - 1] >= MIN_VIBRATION_STEP) {
+      boundaries.push(time);
+    }
+  }
+  if (boundaries.length < 2) {
+    boundaries.push(config.duration);
+  } else if (boundaries[boundaries.length - 1] < config.duration) {
+    boundaries[boundaries.length - 1] = config.duration;
+  }
+
+  const steps: TimedVibration[] = [];
+  for (let i = 1; i < boundaries.length; i++) {
+    const start = boundaries[i - 1];
+    const end = boundaries[i];
+    const inner = keyframes.filter(keyframe => keyframe.time > start && keyframe.time < end).map(keyframe => keyframe.value);
+    const level = Math.max(getEnvelopeValue(keyframes, start), getEnvelopeValue(keyframes, end), ...inner);
+    const isLast = i === boundaries.length - 1;
+
+    // 与上一段强度相同则延长上一段
+    const previous = steps[steps.length - 1];
+    if (previous && Math.abs(previous.config.intensity - base.intensity * level) < 1 / 255) {
+      previous.config.duration = Math.round(end - previous.at + (isLast ? 0 : VIBRATION_STEP_OVERLAP));
+      continue;
+    }
+
+    steps.push({
+      at: Math.round(start),
+      config: {
+        ...base,
+        intensity: base.intensity * level,
+        duration: Math.round(end - start + (isLast ? 0 : VIBRATION_STEP_OVERLAP))
+      }
+    });
+  }
+
+  // 强度为0的段只需让上一段自然结束
+  return steps.filter((step, index) => index === 0 || step.config.intensity > 0);
+};
+
+// 展开温度包络：执行器自带升温，每个关键帧段对应一条指令，平坦段并入上一条的保持时间
+export const renderTemperatureEnvelope = (
+  config: TemperatureConfig,
+  neutral: number = NEUTRAL_TEMPERATURE
+): TimedTemperature[] => {
+  const { envelope, ...base } = config;
+  const duration = config.rampTime + config.holdTime;
+  if (!envelope || duration <= 0) {
+    return [{ at: 0, config: base }];
+  }
+
+  const keyframes = getEnvelopeKeyframes(envelope, duration);
+  const toTemperature = (value: number) => Math.round(neutral + (config.target - neutral) * value);
+
+  const steps: TimedTemperature[] = [];
+  for (let i = 1; i < keyframes.length; i++) {
+    const start = keyframes[i - 1].time;
+    const span = keyframes[i].time - start;
+    if (span <= 0) continue;
+
+    const target = toTemperature(keyframes[i].value);
+    const previous = steps[steps.length - 1];
+    if (previous && previous.config.target === target) {
+      previous.config.holdTime += Math.round(span);
+      continue;
+    }
+
+    steps.push({
+      at: Math.round(start),
+      config: { target, rampTime: Math.round(span), holdTime: 0 }
+    });
+  }
+
+  return steps.length > 0 ? steps : [{ at: 0, config: base }];
+};
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HAPTIC_LIBRARY_FORMAT,
+  HAPTIC_LIBRARY_VERSION,
+  createHapticLibraryFile,
+  parseHapticLibrary,
+  validateHapticLibrary
+} from './hapticLibraryFile';
+import { BUILT_IN_PROFILES } from './hapticProfileLibrary';
+import type { HapticConfig, HapticProfile, MaterialProperties, SavedHapticProfile } from '../types';
+
+const CONFIG: HapticConfig = {
+  defaultIntensity: 0.7,
+  maxTemperature: 45,
+  minTemperature: 15,
+  vibrationRange: [50, 300],
+  responseDelay: 20,
+  transport: 'bluetooth',
+  bridgeUrl: '',
+  serialBaudRate: 115200,
+  thermalLimitMode: 'clamp',
+  thermalDoseWindow: 60000,
+  maxHeatDose: 300,
+  maxColdDose: 300,
+  thermalCooldown: 10000
+};
+
+const PROFILE: HapticProfile = {
+  vibration: {
+    intensity: 0.6,
+    frequency: 180,
+    duration: 200,
+    pattern: 'soft',
+    envelope: { type: 'adsr', attack: 10, decay: 50, sustain: 0.5, release: 40 }
+  },
+  temperature: { target: 30, rampTime: 300, holdTime: 1000 },
+  intensity: 0.8,
+  duration: 1300
+};
+
+const MATERIAL: MaterialProperties = {
+  type: 'rubber',
+  hardness: 0.3,
+  roughness: 0.6,
+  temperature: 24,
+  elasticity: 0.8,
+  hapticProfile: PROFILE,
+  profileId: 'profile-rubber'
+};
+
+// 生成合法的配置库，可覆盖部分字段
+const library = (overrides: Record<string, unknown> = {}) => ({
+  format: HAPTIC_LIBRARY_FORMAT,
+  version: HAPTIC_LIBRARY_VERSION,
+  name: '实验室配置',
+  exportedAt: '2024-01-01T00:00:00.000Z',
+  profiles: [{ id: 'profile-rubber', name: '橡胶', profile: PROFILE }],
+  materials: [MATERIAL],
+  ...overrides
+});
+
+describe('validateHapticLibrary', () => {
+  it('合法的配置库没有错误', () => {
+    expect(validateHapticLibrary(library(), CONFIG)).toEqual([]);
+  });
+
+  it('不是配置库或版本过新时直接返回', () => {
+    expect(validateHapticLibrary({ format: 'other' }, CONFIG)).toEqual(['不是触觉配置库文件']);
+    expect(validateHapticLibrary(library({ version: 0 }), CONFIG)[0]).toContain('无效的格式版本');
+    expect(validateHapticLibrary(library({ version: HAPTIC_LIBRARY_VERSION + 1 }), CONFIG)[0]).toContain('更新版本');
+  });
+
+  it('按设备频率范围和温度上下限检查取值', () => {
+    const profile = {
+      ...PROFILE,
+      vibration: { ...PROFILE.vibration, frequency: 500 },
+      temperature: { ...PROFILE.temperature, target: 60 }
+    };
+    const errors = validateHapticLibrary(library({ profiles: [{ id: 'profile-hot', name: '过热', profile }], materials: [] }), CONFIG);
+    expect(errors).toEqual([
+      'profiles[0].profile.vibration.frequency: 500 Hz 超出允许范围 50 Hz - 300 Hz',
+      'profiles[0].profile.temperature.target: 60 °C 超出允许范围 15 °C - 45 °C'
+    ]);
+  });
+
+  it('拒绝自定义波形、未知模式和无效包络', () => {
+    const custom = { ...PROFILE, vibration: { ...PROFILE.vibration, pattern: 'custom', waveformHandle: 1 } };
+    const unknown = {
+      ...PROFILE,
+      vibration: { ...PROFILE.vibration, pattern: 'buzz', envelope: { type: 'keyframes', keyframes: [] } }
+    };
+    const errors = validateHapticLibrary(library({
+      profiles: [{ id: 'a', name: 'A', profile: custom }, { id: 'b', name: 'B', profile: unknown }],
+      materials: []
+    }), CONFIG);
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toContain('profiles[0].profile.vibration.pattern: 自定义波形');
+    expect(errors[1]).toContain('未知的振动模式 buzz');
+    expect(errors[2]).toBe('profiles[1].profile.vibration.envelope.keyframes: 应为非空数组');
+  });
+
+  it('拒绝内置ID、重复ID和重复材质', () => {
+    const entry = { id: 'profile-rubber', name: '橡胶', profile: PROFILE };
+    const errors = validateHapticLibrary(library({
+      profiles: [{ ...entry, id: BUILT_IN_PROFILES[0].id }, entry, entry],
+      materials: [MATERIAL, MATERIAL]
+    }), CONFIG);
+    expect(errors).toEqual([
+      `profiles[0].id: ${BUILT_IN_PROFILES[0].id} 是内置配置文件，不能导入覆盖`,
+      'profiles[2].id: 重复的配置文件ID profile-rubber',
+      'materials[1].type: 重复的材质类型 rubber'
+    ]);
+  });
+
+  it('材质引用的配置文件必须在配置库中或为内置配置文件', () => {
+    const materials = [
+      { ...MATERIAL, type: 'a', profileId: 'profile-missing' },
+      { ...MATERIAL, type: 'b', profileId: BUILT_IN_PROFILES[0].id }
+    ];
+    expect(validateHapticLibrary(library({ materials }), CONFIG)).toEqual([
+      'materials[0].profileId: 引用的配置文件 profile-missing 不在该配置库中'
+    ]);
+  });
+});
+
+describe('parseHapticLibrary', () => {
+  it('JSON格式错误时返回错误', () => {
+    const result = parseHapticLibrary('{', CONFIG);
+    expect(result.library).toBeNull();
+    expect(result.errors[0]).toContain('JSON格式错误');
+  });
+
+  it('导出的配置库可以重新导入，内置配置文件和序列引用不导出', () => {
+    const saved: SavedHapticProfile[] = [
+      BUILT_IN_PROFILES[0],
+      { id: 'profile-rubber', name: '橡胶', profile: PROFILE, builtIn: false, updatedAt: 1 }
+    ];
+    const file = createHapticLibraryFile('导出', saved, [{ ...MATERIAL, sequenceId: 'sequence-1' }]);
+    expect(file.profiles.map(profile => profile.id)).toEqual(['profile-rubber']);
+    expect(file.materials[0].sequenceId).toBeUndefined();
+
+    const result = parseHapticLibrary(JSON.stringify(file), CONFIG);
+    expect(result.errors).toEqual([]);
+    expect(result.library?.profiles[0].profile).toEqual(PROFILE);
+  });
+});
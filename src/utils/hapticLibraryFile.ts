@@ -0,0 +1,271 @@
+// 触觉配置库文件 - 带版本号的JSON格式，用于在实验室之间交换配置文件和材质参数
+import type { HapticConfig, HapticProfile, MaterialProperties, SavedHapticProfile } from '../types';
+import { findHapticProfile } from './hapticProfileLibrary';
+import { getThermalLimitsFromConfig } from './thermalSafetyGovernor';
+
+// 文件格式标识和当前版本，格式有不兼容的变化时递增版本
+export const HAPTIC_LIBRARY_FORMAT = 'fingersuit-haptic-library';
+export const HAPTIC_LIBRARY_VERSION = 1;
+
+// 单个振动或温度阶段的最大时长（毫秒）
+const MAX_PHASE_DURATION = 10000;
+
+// 导入时最多列出的错误条数
+export const MAX_REPORTED_ISSUES = 20;
+
+const VIBRATION_PATTERNS = ['sharp', 'soft', 'medium', 'pulse'];
+
+// 配置库文件中的配置文件（不含内置标记）
+export interface HapticLibraryProfile {
+  id: string;
+  name: string;
+  profile: HapticProfile;
+}
+
+// 配置库文件
+export interface HapticLibraryFile {
+  format: typeof HAPTIC_LIBRARY_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string; // ISO 8601
+  profiles: HapticLibraryProfile[];
+  materials: MaterialProperties[];
+}
+
+// 解析结果，errors非空时library为null
+export interface HapticLibraryParseResult {
+  library: HapticLibraryFile | null;
+  errors: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// 检查数值字段是否在范围内
+const checkNumber = (
+  errors: string[],
+  path: string,
+  value: unknown,
+  min: number,
+  max: number,
+  unit = ''
+) => {
+  if (!isFiniteNumber(value)) {
+    errors.push(`${path}: 应为数字`);
+  } else if (value < min || value > max) {
+    errors.push(`${path}: ${value}${unit} 超出允许范围 ${min}${unit} - ${max}${unit}`);
+  }
+};
+
+const checkString = (errors: string[], path: string, value: unknown) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${path}: 应为非空字符串`);
+  }
+};
+
+const validateEnvelope = (errors: string[], path: string, envelope: unknown) => {
+  if (!isRecord(envelope)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  if (envelope.type === 'adsr') {
+    checkNumber(errors, `${path}.attack`, envelope.attack, 0, MAX_PHASE_DURATION, ' ms');
+    checkNumber(errors, `${path}.decay`, envelope.decay, 0, MAX_PHASE_DURATION, ' ms');
+    checkNumber(errors, `${path}.sustain`, envelope.sustain, 0, 1);
+    checkNumber(errors, `${path}.release`, envelope.release, 0, MAX_PHASE_DURATION, ' ms');
+  } else if (envelope.type === 'keyframes') {
+    if (!Array.isArray(envelope.keyframes) || envelope.keyframes.length === 0) {
+      errors.push(`${path}.keyframes: 应为非空数组`);
+      return;
+    }
+    envelope.keyframes.forEach((keyframe: unknown, index: number) => {
+      const keyframePath = `${path}.keyframes[${index}]`;
+      if (!isRecord(keyframe)) {
+        errors.push(`${keyframePath}: 应为对象`);
+        return;
+      }
+      checkNumber(errors, `${keyframePath}.time`, keyframe.time, 0, MAX_PHASE_DURATION, ' ms');
+      checkNumber(errors, `${keyframePath}.value`, keyframe.value, 0, 1);
+    });
+  } else {
+    errors.push(`${path}.type: 未知的包络类型 ${String(envelope.type)}`);
+  }
+};
+
+// 按设备振动频率范围和温度上下限检查触觉配置
+const validateHapticProfile = (errors: string[], path: string, profile: unknown, config: HapticConfig) => {
+  if (!isRecord(profile)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+
+  checkNumber(errors, `${path}.duration`, profile.duration, 0, MAX_PHASE_DURATION * 2, ' ms');
+  checkNumber(errors, `${path}.intensity`, profile.intensity, 0, 1);
+
+  const { vibration, temperature } = profile;
+  if (vibration === undefined && temperature === undefined) {
+    errors.push(`${path}: 至少需要振动或温度其中一项`);
+  }
+
+  if (vibration !== undefined) {
+    const vibrationPath = `${path}.vibration`;
+    if (!isRecord(vibration)) {
+      errors.push(`${vibrationPath}: 应为对象`);
+    } else {
+      const [minFrequency, maxFrequency] = config.vibrationRange;
+      checkNumber(errors, `${vibrationPath}.intensity`, vibration.intensity, 0, 1);
+      checkNumber(errors, `${vibrationPath}.frequency`, vibration.frequency, minFrequency, maxFrequency, ' Hz');
+      checkNumber(errors, `${vibrationPath}.duration`, vibration.duration, 1, MAX_PHASE_DURATION, ' ms');
+      if (vibration.pattern === 'custom') {
+        // 自定义波形句柄只在上传波形的设备上有效
+        errors.push(`${vibrationPath}.pattern: 自定义波形依赖设备上的波形句柄，无法导入`);
+      } else if (!VIBRATION_PATTERNS.includes(vibration.pattern as string)) {
+        errors.push(`${vibrationPath}.pattern: 未知的振动模式 ${String(vibration.pattern)}`);
+      }
+      if (vibration.envelope !== undefined) {
+        validateEnvelope(errors, `${vibrationPath}.envelope`, vibration.envelope);
+      }
+    }
+  }
+
+  if (temperature !== undefined) {
+    const temperaturePath = `${path}.temperature`;
+    if (!isRecord(temperature)) {
+      errors.push(`${temperaturePath}: 应为对象`);
+    } else {
+      const limits = getThermalLimitsFromConfig(config);
+      checkNumber(errors, `${temperaturePath}.target`, temperature.target, limits.minTemperature, limits.maxTemperature, ' °C');
+      checkNumber(errors, `${temperaturePath}.rampTime`, temperature.rampTime, 0, MAX_PHASE_DURATION, ' ms');
+      checkNumber(errors, `${temperaturePath}.holdTime`, temperature.holdTime, 0, MAX_PHASE_DURATION, ' ms');
+      if (temperature.envelope !== undefined) {
+        validateEnvelope(errors, `${temperaturePath}.envelope`, temperature.envelope);
+      }
+    }
+  }
+};
+
+const validateMaterial = (
+  errors: string[],
+  path: string,
+  material: unknown,
+  profileIds: Set<string>,
+  config: HapticConfig
+) => {
+  if (!isRecord(material)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+  const limits = getThermalLimitsFromConfig(config);
+  checkString(errors, `${path}.type`, material.type);
+  checkNumber(errors, `${path}.hardness`, material.hardness, 0, 1);
+  checkNumber(errors, `${path}.roughness`, material.roughness, 0, 1);
+  checkNumber(errors, `${path}.temperature`, material.temperature, limits.minTemperature, limits.maxTemperature, ' °C');
+  checkNumber(errors, `${path}.elasticity`, material.elasticity, 0, 1);
+  validateHapticProfile(errors, `${path}.hapticProfile`, material.hapticProfile, config);
+  if (material.profileId !== undefined) {
+    const profileId = material.profileId as string;
+    if (typeof profileId !== 'string' || (!profileIds.has(profileId) && !findHapticProfile(profileId, {}))) {
+      errors.push(`${path}.profileId: 引用的配置文件 ${String(profileId)} 不在该配置库中`);
+    }
+  }
+};
+
+// 检查配置库文件结构和取值，返回所有错误
+export const validateHapticLibrary = (data: unknown, config: HapticConfig): string[] => {
+  const errors: string[] = [];
+  if (!isRecord(data) || data.format !== HAPTIC_LIBRARY_FORMAT) {
+    return ['不是触觉配置库文件'];
+  }
+  if (!isFiniteNumber(data.version) || !Number.isInteger(data.version) || data.version < 1) {
+    return [`version: 无效的格式版本 ${String(data.version)}`];
+  }
+  if (data.version > HAPTIC_LIBRARY_VERSION) {
+    return [`该文件由更新版本的应用导出（格式版本 ${data.version}），当前仅支持到版本 ${HAPTIC_LIBRARY_VERSION}`];
+  }
+
+  checkString(errors, 'name', data.name);
+  if (!Array.isArray(data.profiles)) {
+    errors.push('profiles: 应为数组');
+  }
+  if (!Array.isArray(data.materials)) {
+    errors.push('materials: 应为数组');
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const profiles = data.profiles as unknown[];
+  const profileIds = new Set<string>();
+  profiles.forEach((entry, index) => {
+    const path = `profiles[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push(`${path}: 应为对象`);
+      return;
+    }
+    checkString(errors, `${path}.id`, entry.id);
+    checkString(errors, `${path}.name`, entry.name);
+    if (typeof entry.id === 'string') {
+      if (findHapticProfile(entry.id, {})) {
+        errors.push(`${path}.id: ${entry.id} 是内置配置文件，不能导入覆盖`);
+      } else if (profileIds.has(entry.id)) {
+        errors.push(`${path}.id: 重复的配置文件ID ${entry.id}`);
+      }
+      profileIds.add(entry.id);
+    }
+    validateHapticProfile(errors, `${path}.profile`, entry.profile, config);
+  });
+
+  const materialTypes = new Set<string>();
+  (data.materials as unknown[]).forEach((material, index) => {
+    const path = `materials[${index}]`;
+    validateMaterial(errors, path, material, profileIds, config);
+    if (isRecord(material) && typeof material.type === 'string') {
+      if (materialTypes.has(material.type)) {
+        errors.push(`${path}.type: 重复的材质类型 ${material.type}`);
+      }
+      materialTypes.add(material.type);
+    }
+  });
+
+  return errors;
+};
+
+// 解析并检查配置库文件内容
+export const parseHapticLibrary = (text: string, config: HapticConfig): HapticLibraryParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { library: null, errors: [`JSON格式错误: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const errors = validateHapticLibrary(data, config);
+  if (errors.length > 0) {
+    return { library: null, errors };
+  }
+  return { library: data as HapticLibraryFile, errors: [] };
+};
+
+// 生成配置库文件（内置配置文件不导出）
+export const createHapticLibraryFile = (
+  name: string,
+  profiles: SavedHapticProfile[],
+  materials: MaterialProperties[]
+): HapticLibraryFile => ({
+  format: HAPTIC_LIBRARY_FORMAT,
+  version: HAPTIC_LIBRARY_VERSION,
+  name,
+  exportedAt: new Date().toISOString(),
+  profiles: profiles
+    .filter(profile => !profile.builtIn)
+    .map(({ id, name: profileName, profile }) => ({ id, name: profileName, profile })),
+  // 效果序列不随配置库导出，去掉序列引用
+  materials: materials.map(material => {
+    const exported = { ...material };
+    delete exported.sequenceId;
+    return exported;
+  })
+});
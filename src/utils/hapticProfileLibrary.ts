@@ -0,0 +1,164 @@
+// 触觉配置文件库 - 内置与自定义配置文件的管理、材质指派和预览曲线
+import type { HapticProfile, MaterialProperties, SavedHapticProfile } from '../types';
+import { HapticProfiles } from './hapticController';
+import { getEnvelopeKeyframes, getEnvelopeValue, NEUTRAL_TEMPERATURE } from './hapticEnvelope';
+
+// 内置配置文件的ID前缀
+const BUILT_IN_PREFIX = 'builtin-';
+
+const BUILT_IN_NAMES: Record<keyof typeof HapticProfiles, string> = {
+  stone: '石头',
+  sponge: '海绵',
+  wood: '木块',
+  metal: '金属'
+};
+
+// 脉冲模式的通断周期（毫秒）
+export const PULSE_PERIOD = 50;
+
+// 深拷贝配置文件（内置配置为只读常量）
+export const cloneHapticProfile = (profile: HapticProfile): HapticProfile => {
+  return JSON.parse(JSON.stringify(profile)) as HapticProfile;
+};
+
+// 内置配置文件（只读，编辑时另存为副本）
+export const BUILT_IN_PROFILES: SavedHapticProfile[] = (Object.keys(HapticProfiles) as Array<keyof typeof HapticProfiles>)
+  .map(key => ({
+    id: `${BUILT_IN_PREFIX}${key}`,
+    name: BUILT_IN_NAMES[key],
+    profile: cloneHapticProfile(HapticProfiles[key]),
+    builtIn: true,
+    updatedAt: 0
+  }));
+
+// 生成自定义配置文件ID
+export const createProfileId = (): string => {
+  return `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// 列出所有配置文件，内置在前
+export const getAllHapticProfiles = (saved: Record<string, SavedHapticProfile>): SavedHapticProfile[] => {
+  return [...BUILT_IN_PROFILES, ...Object.values(saved).sort((a, b) => a.name.localeCompare(b.name))];
+};
+
+// 按ID查找配置文件
+export const findHapticProfile = (
+  id: string,
+  saved: Record<string, SavedHapticProfile>
+): SavedHapticProfile | null => {
+  return saved[id] || BUILT_IN_PROFILES.find(profile => profile.id === id) || null;
+};
+
+// 材质类型的默认配置文件ID（与内置配置同名的材质）
+export const getDefaultProfileId = (materialType: string): string | null => {
+  const id = `${BUILT_IN_PREFIX}${materialType}`;
+  return BUILT_IN_PROFILES.some(profile => profile.id === id) ? id : null;
+};
+
+// 按材质指派更新材质的触觉配置，未指派或配置文件已删除时保持原样
+export const applyProfileAssignment = (
+  material: MaterialProperties,
+  assignments: Record<string, string>,
+  saved: Record<string, SavedHapticProfile>
+): MaterialProperties => {
+  const profileId = assignments[material.type];
+  const profile = profileId ? findHapticProfile(profileId, saved) : null;
+  if (!profile) {
+    return material;
+  }
+  return { ...material, hapticProfile: cloneHapticProfile(profile.profile), profileId: profile.id };
+};
+
+// 新物体的材质：导入的材质库中有同类型材质时使用库中参数，再按指派更新触觉配置
+export const resolveMaterial = (
+  material: MaterialProperties,
+  materialLibrary: Record<string, MaterialProperties>,
+  assignments: Record<string, string>,
+  saved: Record<string, SavedHapticProfile>
+): MaterialProperties => {
+  const libraryMaterial = materialLibrary[material.type];
+  const base = libraryMaterial
+    ? { ...libraryMaterial, hapticProfile: cloneHapticProfile(libraryMaterial.hapticProfile) }
+    : material;
+  return applyProfileAssignment(base, assignments, saved);
+};
+
+// 取消指派：与内置配置同名的材质恢复内置参数，其他材质保留当前参数
+export const restoreDefaultProfile = (material: MaterialProperties): MaterialProperties => {
+  const defaultId = getDefaultProfileId(material.type);
+  const builtIn = defaultId ? BUILT_IN_PROFILES.find(profile => profile.id === defaultId) : null;
+  return {
+    ...material,
+    hapticProfile: builtIn ? cloneHapticProfile(builtIn.profile) : material.hapticProfile,
+    profileId: undefined
+  };
+};
+
+// 根据振动和温度的时长更新总时长和总强度
+export const normalizeHapticProfile = (profile: HapticProfile): HapticProfile => {
+  const vibrationDuration = profile.vibration?.duration ?? 0;
+  const temperatureDuration = profile.temperature ? profile.temperature.rampTime + profile.temperature.holdTime : 0;
+  return {
+    ...profile,
+    duration: Math.max(vibrationDuration, temperatureDuration),
+    intensity: profile.vibration?.intensity ?? profile.intensity
+  };
+};
+
+// 预览曲线上的点，time单位毫秒
+export interface ProfilePreviewPoint {
+  time: number;
+  value: number;
+}
+
+export interface ProfilePreview {
+  duration: number;
+  vibration: ProfilePreviewPoint[]; // 振动波形（-1到1，已乘以强度）
+  envelope: ProfilePreviewPoint[]; // 振动强度包络（0-1）
+  temperature: ProfilePreviewPoint[]; // 接触面温度（摄氏度）
+}
+
+// 生成预览曲线，振动按载波频率采样以显示波形
+export const renderProfilePreview = (profile: HapticProfile, sampleCount = 400): ProfilePreview => {
+  const duration = Math.max(1, normalizeHapticProfile(profile).duration);
+  const step = duration / sampleCount;
+  const vibration: ProfilePreviewPoint[] = [];
+  const envelope: ProfilePreviewPoint[] = [];
+  const temperature: ProfilePreviewPoint[] = [];
+
+  const vib = profile.vibration;
+  const vibrationKeyframes = vib?.envelope ? getEnvelopeKeyframes(vib.envelope, vib.duration) : null;
+  const temp = profile.temperature;
+  const tempDuration = temp ? temp.rampTime + temp.holdTime : 0;
+  const temperatureKeyframes = temp?.envelope ? getEnvelopeKeyframes(temp.envelope, tempDuration) : null;
+
+  for (let i = 0; i <= sampleCount; i++) {
+    const time = i * step;
+
+    if (vib) {
+      let level = 0;
+      if (time <= vib.duration) {
+        level = vibrationKeyframes ? getEnvelopeValue(vibrationKeyframes, time) : 1;
+        if (vib.pattern === 'pulse' && Math.floor(time / (PULSE_PERIOD / 2)) % 2 === 1) {
+          level = 0;
+        }
+      }
+      const amplitude = level * vib.intensity;
+      envelope.push({ time, value: amplitude });
+      vibration.push({ time, value: amplitude * Math.sin(2 * Math.PI * vib.frequency * time / 1000) });
+    }
+
+    if (temp) {
+      let value = NEUTRAL_TEMPERATURE;
+      if (time <= tempDuration) {
+        const level = temperatureKeyframes
+          ? getEnvelopeValue(temperatureKeyframes, time)
+          : temp.rampTime > 0 ? Math.min(1, time / temp.rampTime) : 1;
+        value = NEUTRAL_TEMPERATURE + (temp.target - NEUTRAL_TEMPERATURE) * level;
+      }
+      temperature.push({ time, value });
+    }
+  }
+
+  return { duration, vibration, envelope, temperature };
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AckResult,
+  CommandType,
+  PROTOCOL_VERSION_FRAMED,
+  PROTOCOL_VERSION_LEGACY,
+  calculateChecksum,
+  crc32,
+  decodeCommand,
+  decodeFrame,
+  encodeAck,
+  encodeDfuBegin,
+  encodeDfuData,
+  encodeFrame,
+  encodeIMUData,
+  encodePing,
+  encodePong,
+  encodePressureData,
+  encodeStatus,
+  encodeStopAll,
+  encodeTemperature,
+  encodeVibration,
+  encodeWaveformData,
+  getWaveformChunkCapacity,
+  isFramed,
+  isStaleSequence,
+  parseAck,
+  parseIMUData,
+  parsePong,
+  parsePressureData,
+  parseStatusData,
+  verifyChecksum
+} from './hapticProtocol';
+
+const bytes = (buffer: ArrayBuffer) => new Uint8Array(buffer);
+
+describe('校验和', () => {
+  it('按字节求和取低8位', () => {
+    expect(calculateChecksum(new Uint8Array([0x01, 0x02, 0x03]))).toBe(6);
+    expect(calculateChecksum(new Uint8Array([0xFF, 0x02]))).toBe(1);
+  });
+
+  it('最后一个字节不符时校验失败', () => {
+    const packet = bytes(encodeVibration({ intensity: 0.5, frequency: 200, duration: 100, pattern: 'soft' }));
+    expect(verifyChecksum(packet)).toBe(true);
+    packet[3] ^= 0x01;
+    expect(verifyChecksum(packet)).toBe(false);
+    expect(() => decodeCommand(packet)).toThrow('校验和');
+  });
+
+  it('CRC32与IEEE参考值一致', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926);
+  });
+});
+
+describe('指令编解码', () => {
+  it('振动指令为8字节并可还原', () => {
+    const packet = bytes(encodeVibration({ intensity: 1, frequency: 250, duration: 300, pattern: 'pulse' }));
+    expect(packet).toHaveLength(8);
+    expect(packet[0]).toBe(CommandType.VIBRATION);
+    expect(decodeCommand(packet)).toEqual({
+      type: CommandType.VIBRATION,
+      config: { intensity: 1, frequency: 250, duration: 300, pattern: 'pulse' }
+    });
+  });
+
+  it('温度指令支持负的目标温度', () => {
+    const command = decodeCommand(bytes(encodeTemperature({ target: -5, rampTime: 500, holdTime: 2000 })));
+    expect(command).toEqual({ type: CommandType.TEMPERATURE, config: { target: -5, rampTime: 500, holdTime: 2000 } });
+  });
+
+  it('停止指令只有2字节', () => {
+    const packet = bytes(encodeStopAll());
+    expect(packet).toHaveLength(2);
+    expect(decodeCommand(packet)).toEqual({ type: CommandType.STOP_ALL });
+  });
+
+  it('延迟探测携带时间戳的低32位', () => {
+    const timestamp = 0x1_2345_6789;
+    expect(decodeCommand(bytes(encodePing(timestamp)))).toEqual({ type: CommandType.GET_STATUS, timestamp: timestamp >>> 0 });
+    expect(parsePong(new DataView(encodePong(timestamp)))).toBe(timestamp >>> 0);
+  });
+
+  it('波形数据包按MTU分包并可还原采样点', () => {
+    expect(getWaveformChunkCapacity(20)).toBe(5);
+    const samples = [{ amplitude: 1, frequency: 180 }, { amplitude: 0, frequency: 60 }];
+    const command = decodeCommand(bytes(encodeWaveformData(3, 10, samples)));
+    expect(command).toEqual({ type: CommandType.WAVEFORM_DATA, handle: 3, offset: 10, samples });
+  });
+
+  it('固件升级指令携带大小、CRC和版本', () => {
+    expect(decodeCommand(bytes(encodeDfuBegin(4096, 0xDEADBEEF, '2.1.3')))).toEqual({
+      type: CommandType.DFU_BEGIN,
+      size: 4096,
+      crc: 0xDEADBEEF,
+      version: '2.1.3'
+    });
+    const data = new Uint8Array([1, 2, 3, 4]);
+    expect(decodeCommand(bytes(encodeDfuData(512, data)))).toEqual({ type: CommandType.DFU_DATA, offset: 512, data });
+  });
+
+  it('长度不符或未知类型时抛出异常', () => {
+    const truncated = bytes(encodeVibration({ intensity: 0.5, frequency: 200, duration: 100, pattern: 'soft' })).slice(0, 6);
+    truncated[5] = calculateChecksum(truncated.subarray(0, 5));
+    expect(() => decodeCommand(truncated)).toThrow('振动指令长度错误');
+
+    const unknown = new Uint8Array([0x7E, 0x7E]);
+    expect(() => decodeCommand(unknown)).toThrow('未知指令类型');
+  });
+});
+
+describe('帧头与序号', () => {
+  it('帧头带版本和序号，裸指令包不被识别为帧', () => {
+    const packet = encodeStopAll();
+    const frame = bytes(encodeFrame(packet, 300));
+    expect(isFramed(frame)).toBe(true);
+    expect(isFramed(bytes(packet))).toBe(false);
+
+    const { version, sequence, packet: inner } = decodeFrame(frame);
+    expect(version).toBe(PROTOCOL_VERSION_FRAMED);
+    expect(sequence).toBe(300 & 0xFF);
+    expect(inner).toEqual(bytes(packet));
+  });
+
+  it('序号按256回绕，半窗口内较早的序号为过期', () => {
+    expect(isStaleSequence(10, 10)).toBe(false);
+    expect(isStaleSequence(9, 10)).toBe(true);
+    expect(isStaleSequence(11, 10)).toBe(false);
+    expect(isStaleSequence(250, 5)).toBe(true);
+    expect(isStaleSequence(5, 250)).toBe(false);
+    expect(isStaleSequence(10 + 128, 10)).toBe(false);
+  });
+
+  it('应答以标记字节开头，其他状态数据不被识别为应答', () => {
+    expect(parseAck(new DataView(encodeAck({ sequence: 42, result: AckResult.STALE })))).toEqual({
+      sequence: 42,
+      result: AckResult.STALE
+    });
+    expect(parseAck(new DataView(new Uint8Array([80, 1, 0]).buffer))).toBeNull();
+  });
+});
+
+describe('状态与传感器数据', () => {
+  const capabilities = { vibration: true, temperature: false, pressure: true, flex: false, waveform: true, imu: false, dfu: true };
+
+  it('状态数据可还原，旧固件的5字节状态视为裸指令协议', () => {
+    const status = { batteryLevel: 87, firmwareVersion: '1.4.2', capabilities, protocolVersion: PROTOCOL_VERSION_FRAMED };
+    const encoded = encodeStatus(status);
+    expect(parseStatusData(new DataView(encoded))).toEqual(status);
+    expect(parseStatusData(new DataView(encoded, 0, 5)).protocolVersion).toBe(PROTOCOL_VERSION_LEGACY);
+  });
+
+  it('压力数据以毫牛编码并求和', () => {
+    const data = parsePressureData(new DataView(encodePressureData([0.25, 0.5, 1.125])), 0);
+    expect(data?.taxels).toEqual([0.25, 0.5, 1.125]);
+    expect(data?.total).toBeCloseTo(1.875);
+    expect(parsePressureData(new DataView(new Uint8Array([3, 0]).buffer))).toBeNull();
+  });
+
+  it('IMU数据按各轴量程缩放', () => {
+    const imu = {
+      acceleration: { x: 0, y: -1, z: 0.5 },
+      gyroscope: { x: 0.1, y: 0, z: -0.2 },
+      magnetometer: { x: 25, y: 0, z: -40 }
+    };
+    expect(parseIMUData(new DataView(encodeIMUData(imu)), 7)).toEqual({ ...imu, timestamp: 7 });
+  });
+});
@@ -0,0 +1,702 @@
+// 指套触感通信协议 - 控制器与设备（含模拟设备）共用的编解码
+import type {
+  VibrationConfig,
+  TemperatureConfig,
+  DeviceCapabilities,
+  WaveformSample,
+  PressureSensorData,
+  FlexSensorData,
+  IMUData,
+  Point3D
+} from '../types';
+
+// 蓝牙服务和特征UUID
+export const HAPTIC_SERVICE_UUID = '12345678-1234-1234-1234-123456789abc';
+export const VIBRATION_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789abd';
+export const TEMPERATURE_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789abe';
+export const BATTERY_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789abf';
+export const STATUS_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789ac0';
+export const WAVEFORM_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789ac1';
+export const PRESSURE_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789ac2';
+export const FLEX_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789ac3';
+export const IMU_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789ac4';
+export const DFU_CHARACTERISTIC_UUID = '12345678-1234-1234-1234-123456789ac5';
+
+// 指令类型
+export enum CommandType {
+  VIBRATION = 0x01,
+  TEMPERATURE = 0x02,
+  STOP_ALL = 0x03,
+  GET_STATUS = 0x04,
+  CALIBRATE = 0x05,
+  WAVEFORM_BEGIN = 0x06,
+  WAVEFORM_DATA = 0x07,
+  WAVEFORM_PLAY = 0x08,
+  DFU_BEGIN = 0x09,
+  DFU_DATA = 0x0A,
+  DFU_VERIFY = 0x0B,
+  DFU_REBOOT = 0x0C
+}
+
+// 固件升级状态（读取DFU特征: [状态, 已接收字节数(4), 镜像大小(4), CRC32(4)]）
+export enum DfuState {
+  IDLE = 0x00,
+  RECEIVING = 0x01,
+  VERIFIED = 0x02 // 校验通过，等待重启
+}
+
+export interface DfuStatus {
+  state: DfuState;
+  received: number; // 从0开始连续收到的字节数，断线重连后从这里续传
+  size: number;
+  crc: number;
+}
+
+// 校准项（校准指令: [指令, 校准项, 数值(2字节有符号), 保留(3), 校验和]）
+export enum CalibrationStep {
+  RESONANCE = 0x01, // 振动执行器谐振频率（赫兹）
+  TEMPERATURE_OFFSET = 0x02 // 温度传感器偏移（0.1摄氏度）
+}
+
+// 指令数据包长度
+export const COMMAND_PACKET_SIZE = 8;
+export const STOP_PACKET_SIZE = 2;
+
+// 延迟探测指令长度（GET_STATUS + 4字节主机时间戳 + 校验和）
+export const PING_PACKET_SIZE = 6;
+
+// 固件升级开始: [指令, 镜像大小(4), CRC32(4), 主版本, 次版本, 修订号, 校验和]
+export const DFU_BEGIN_PACKET_SIZE = 13;
+
+// 固件数据包: [指令, 起始偏移(4), ...数据, 校验和]
+const DFU_DATA_HEADER_SIZE = 5;
+const DFU_STATUS_SIZE = 13;
+
+// 波形数据包: [指令, 句柄, 起始采样点(2), ...采样点, 校验和]，每个采样点3字节（幅度1 + 频率2）
+const WAVEFORM_DATA_HEADER_SIZE = 4;
+export const WAVEFORM_SAMPLE_SIZE = 3;
+export const MAX_WAVEFORM_SAMPLES = 0xFFFF;
+
+// 传感器通知: [测点数, ...每个测点2字节]，压力单位为毫牛（无符号），弯曲角度单位为0.1度（有符号）
+const SENSOR_VALUE_SIZE = 2;
+export const MAX_SENSOR_VALUES = 0xFF;
+
+// IMU通知: 加速度、角速度、磁场各3轴，每轴2字节有符号数，缩放后分别为毫g、毫弧度/秒和0.1微特斯拉
+export const IMU_PACKET_SIZE = 18;
+const ACCEL_SCALE = 1000;
+const GYRO_SCALE = 1000;
+const MAG_SCALE = 10;
+
+// 协议版本：1为裸指令包，2起指令包外加带序号的帧头，设备通过状态通知应答
+export const PROTOCOL_VERSION_LEGACY = 1;
+export const PROTOCOL_VERSION_FRAMED = 2;
+
+// 帧头字节: 高4位固定为0xF，低4位为协议版本（指令类型均小于0xF0，可据此区分）
+const FRAME_HEADER_MASK = 0xF0;
+export const FRAME_HEADER_SIZE = 2;
+
+// 应答标记（状态通知首字节为电量0-100，应答以0xAC开头以示区分）
+export const ACK_MARKER = 0xAC;
+
+// 探测应答标记（设备原样回传延迟探测指令中的时间戳）
+export const PONG_MARKER = 0xB0;
+
+// 应答结果
+export enum AckResult {
+  OK = 0x00,
+  CHECKSUM_ERROR = 0x01,
+  STALE = 0x02,
+  UNSUPPORTED = 0x03,
+  INVALID_STATE = 0x04 // 指令合法但设备当前状态无法执行（如播放未上传完的波形）
+}
+
+// 指令应答
+export interface CommandAck {
+  sequence: number;
+  result: AckResult;
+}
+
+// 波形模式代码
+const PATTERN_CODES: Record<VibrationConfig['pattern'], number> = {
+  sharp: 1,
+  soft: 2,
+  medium: 3,
+  pulse: 4,
+  custom: 5
+};
+
+// 设备状态
+export interface DeviceStatus {
+  batteryLevel: number;
+  firmwareVersion: string;
+  capabilities: DeviceCapabilities;
+  protocolVersion: number;
+}
+
+// 解码后的指令
+export type HapticCommand =
+  | { type: CommandType.VIBRATION; config: VibrationConfig }
+  | { type: CommandType.TEMPERATURE; config: TemperatureConfig }
+  | { type: CommandType.STOP_ALL }
+  | { type: CommandType.GET_STATUS; timestamp?: number }
+  | { type: CommandType.CALIBRATE; step: CalibrationStep; value: number }
+  | { type: CommandType.WAVEFORM_BEGIN; handle: number; sampleRate: number; sampleCount: number }
+  | { type: CommandType.WAVEFORM_DATA; handle: number; offset: number; samples: WaveformSample[] }
+  | { type: CommandType.WAVEFORM_PLAY; handle: number; intensity: number; repeat: number }
+  | { type: CommandType.DFU_BEGIN; size: number; crc: number; version: string }
+  | { type: CommandType.DFU_DATA; offset: number; data: Uint8Array }
+  | { type: CommandType.DFU_VERIFY }
+  | { type: CommandType.DFU_REBOOT };
+
+// 计算校验和
+export const calculateChecksum = (data: Uint8Array): number => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i];
+  }
+  return sum & 0xFF;
+};
+
+// 获取波形模式代码
+export const getPatternCode = (pattern: string): number => {
+  return PATTERN_CODES[pattern as VibrationConfig['pattern']] || 1;
+};
+
+// 由代码还原波形模式
+export const getPatternName = (code: number): VibrationConfig['pattern'] => {
+  const entry = Object.entries(PATTERN_CODES).find(([, value]) => value === code);
+  return (entry?.[0] as VibrationConfig['pattern']) || 'sharp';
+};
+
+// 构建振动指令数据包
+export const encodeVibration = (config: VibrationConfig): ArrayBuffer => {
+  const command = new ArrayBuffer(COMMAND_PACKET_SIZE);
+  const view = new DataView(command);
+
+  view.setUint8(0, CommandType.VIBRATION);
+  view.setUint8(1, Math.floor(config.intensity * 255));
+  view.setUint16(2, config.frequency, true);
+  view.setUint16(4, config.duration, true);
+  view.setUint8(6, getPatternCode(config.pattern));
+  view.setUint8(7, calculateChecksum(new Uint8Array(command, 0, 7)));
+
+  return command;
+};
+
+// 构建温度指令数据包
+export const encodeTemperature = (config: TemperatureConfig): ArrayBuffer => {
+  const command = new ArrayBuffer(COMMAND_PACKET_SIZE);
+  const view = new DataView(command);
+
+  view.setUint8(0, CommandType.TEMPERATURE);
+  view.setInt8(1, config.target); // 温度值（摄氏度）
+  view.setUint16(2, config.rampTime, true);
+  view.setUint16(4, config.holdTime, true);
+  view.setUint8(6, 0); // 保留字节
+  view.setUint8(7, calculateChecksum(new Uint8Array(command, 0, 7)));
+
+  return command;
+};
+
+// 构建校准指令数据包
+export const encodeCalibrate = (step: CalibrationStep, value: number): ArrayBuffer => {
+  const command = new ArrayBuffer(COMMAND_PACKET_SIZE);
+  const view = new DataView(command);
+
+  view.setUint8(0, CommandType.CALIBRATE);
+  view.setUint8(1, step);
+  view.setInt16(2, Math.round(Math.max(-32768, Math.min(32767, value))), true);
+  view.setUint8(7, calculateChecksum(new Uint8Array(command, 0, 7)));
+
+  return command;
+};
+
+// 编码温度传感器读数（2字节有符号，单位0.1摄氏度，为未扣除校准偏移的原始值）
+export const encodeTemperatureReading = (temperature: number): ArrayBuffer => {
+  const data = new ArrayBuffer(2);
+  new DataView(data).setInt16(0, Math.round(temperature * 10), true);
+  return data;
+};
+
+// 解析温度传感器读数，长度不符时返回null
+export const parseTemperatureReading = (data: DataView): number | null => {
+  return data.byteLength >= 2 ? data.getInt16(0, true) / 10 : null;
+};
+
+// 构建停止指令数据包
+export const encodeStopAll = (): ArrayBuffer => {
+  const command = new ArrayBuffer(STOP_PACKET_SIZE);
+  const view = new DataView(command);
+  view.setUint8(0, CommandType.STOP_ALL);
+  view.setUint8(1, calculateChecksum(new Uint8Array(command, 0, 1)));
+  return command;
+};
+
+// 构建延迟探测指令（时间戳取毫秒数的低32位）
+export const encodePing = (timestamp: number): ArrayBuffer => {
+  const command = new ArrayBuffer(PING_PACKET_SIZE);
+  const view = new DataView(command);
+  view.setUint8(0, CommandType.GET_STATUS);
+  view.setUint32(1, timestamp >>> 0, true);
+  view.setUint8(5, calculateChecksum(new Uint8Array(command, 0, 5)));
+  return command;
+};
+
+// 构建波形上传开始指令（声明句柄、采样率和采样点总数）
+export const encodeWaveformBegin = (handle: number, sampleRate: number, sampleCount: number): ArrayBuffer => {
+  const command = new ArrayBuffer(COMMAND_PACKET_SIZE);
+  const view = new DataView(command);
+
+  view.setUint8(0, CommandType.WAVEFORM_BEGIN);
+  view.setUint8(1, handle);
+  view.setUint16(2, sampleRate, true);
+  view.setUint16(4, sampleCount, true);
+  view.setUint8(6, 0); // 保留字节
+  view.setUint8(7, calculateChecksum(new Uint8Array(command, 0, 7)));
+
+  return command;
+};
+
+// 单个波形数据包最多能容纳的采样点数
+export const getWaveformChunkCapacity = (maxPacketSize: number): number => {
+  return Math.max(0, Math.floor((maxPacketSize - WAVEFORM_DATA_HEADER_SIZE - 1) / WAVEFORM_SAMPLE_SIZE));
+};
+
+// 构建波形数据包
+export const encodeWaveformData = (handle: number, offset: number, samples: WaveformSample[]): ArrayBuffer => {
+  const size = WAVEFORM_DATA_HEADER_SIZE + samples.length * WAVEFORM_SAMPLE_SIZE + 1;
+  const command = new ArrayBuffer(size);
+  const view = new DataView(command);
+
+  view.setUint8(0, CommandType.WAVEFORM_DATA);
+  view.setUint8(1, handle);
+  view.setUint16(2, offset, true);
+  samples.forEach((sample, index) => {
+    const position = WAVEFORM_DATA_HEADER_SIZE + index * WAVEFORM_SAMPLE_SIZE;
+    view.setUint8(position, Math.round(Math.max(0, Math.min(1, sample.amplitude)) * 255));
+    view.setUint16(position + 1, Math.round(Math.max(0, Math.min(0xFFFF, sample.frequency))), true);
+  });
+  view.setUint8(size - 1, calculateChecksum(new Uint8Array(command, 0, size - 1)));
+
+  return command;
+};
+
+// 构建波形播放指令
+export const encodeWaveformPlay = (handle: number, intensity: number, repeat: number): ArrayBuffer => {
+  const command = new ArrayBuffer(COMMAND_PACKET_SIZE);
+  const view = new DataView(command);
+
+  view.setUint8(0, CommandType.WAVEFORM_PLAY);
+  view.setUint8(1, handle);
+  view.setUint8(2, Math.floor(Math.max(0, Math.min(1, intensity)) * 255));
+  view.setUint8(3, Math.max(1, Math.min(255, repeat)));
+  view.setUint8(7, calculateChecksum(new Uint8Array(command, 0, 7)));
+
+  return command;
+};
+
+// 计算固件镜像的CRC32（IEEE 802.3多项式）
+let crcTable: Uint32Array | null = null;
+export const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// 构建固件升级开始指令
+export const encodeDfuBegin = (size: number, crc: number, version: string): ArrayBuffer => {
+  const command = new ArrayBuffer(DFU_BEGIN_PACKET_SIZE);
+  const view = new DataView(command);
+  const [major = 0, minor = 0, patch = 0] = version.split('.').map(Number);
+
+  view.setUint8(0, CommandType.DFU_BEGIN);
+  view.setUint32(1, size, true);
+  view.setUint32(5, crc >>> 0, true);
+  view.setUint8(9, major);
+  view.setUint8(10, minor);
+  view.setUint8(11, patch);
+  view.setUint8(12, calculateChecksum(new Uint8Array(command, 0, 12)));
+
+  return command;
+};
+
+// 计算单个固件数据包可容纳的字节数
+export const getDfuChunkCapacity = (maxPacketSize: number): number => {
+  return Math.max(0, maxPacketSize - DFU_DATA_HEADER_SIZE - 1);
+};
+
+// 构建固件数据包
+export const encodeDfuData = (offset: number, data: Uint8Array): ArrayBuffer => {
+  const size = DFU_DATA_HEADER_SIZE + data.length + 1;
+  const command = new ArrayBuffer(size);
+  const view = new DataView(command);
+
+  view.setUint8(0, CommandType.DFU_DATA);
+  view.setUint32(1, offset, true);
+  new Uint8Array(command, DFU_DATA_HEADER_SIZE, data.length).set(data);
+  view.setUint8(size - 1, calculateChecksum(new Uint8Array(command, 0, size - 1)));
+
+  return command;
+};
+
+// 构建固件校验指令（设备计算已接收镜像的CRC32并与开始指令中的比较）
+export const encodeDfuVerify = (): ArrayBuffer => {
+  const command = new ArrayBuffer(STOP_PACKET_SIZE);
+  const view = new DataView(command);
+  view.setUint8(0, CommandType.DFU_VERIFY);
+  view.setUint8(1, calculateChecksum(new Uint8Array(command, 0, 1)));
+  return command;
+};
+
+// 构建重启指令（设备写入已校验的镜像后重启）
+export const encodeDfuReboot = (): ArrayBuffer => {
+  const command = new ArrayBuffer(STOP_PACKET_SIZE);
+  const view = new DataView(command);
+  view.setUint8(0, CommandType.DFU_REBOOT);
+  view.setUint8(1, calculateChecksum(new Uint8Array(command, 0, 1)));
+  return command;
+};
+
+// 编码固件升级状态
+export const encodeDfuStatus = (status: DfuStatus): ArrayBuffer => {
+  const data = new ArrayBuffer(DFU_STATUS_SIZE);
+  const view = new DataView(data);
+  view.setUint8(0, status.state);
+  view.setUint32(1, status.received, true);
+  view.setUint32(5, status.size, true);
+  view.setUint32(9, status.crc >>> 0, true);
+  return data;
+};
+
+// 解析固件升级状态，长度不符时返回null
+export const parseDfuStatus = (data: DataView): DfuStatus | null => {
+  if (data.byteLength < DFU_STATUS_SIZE) {
+    return null;
+  }
+  return {
+    state: data.getUint8(0) as DfuState,
+    received: data.getUint32(1, true),
+    size: data.getUint32(5, true),
+    crc: data.getUint32(9, true)
+  };
+};
+
+// 校验数据包（最后一个字节为前面所有字节的校验和）
+export const verifyChecksum = (packet: Uint8Array): boolean => {
+  if (packet.length < 2) {
+    return false;
+  }
+  return calculateChecksum(packet.subarray(0, packet.length - 1)) === packet[packet.length - 1];
+};
+
+// 解码指令数据包，校验失败或格式不符时抛出异常
+export const decodeCommand = (packet: Uint8Array): HapticCommand => {
+  if (!verifyChecksum(packet)) {
+    throw new Error('数据包校验和错误');
+  }
+
+  const view = new DataView(packet.buffer, packet.byteOffset, packet.byteLength);
+  const type = packet[0];
+
+  switch (type) {
+    case CommandType.VIBRATION:
+      if (packet.length !== COMMAND_PACKET_SIZE) {
+        throw new Error('振动指令长度错误');
+      }
+      return {
+        type,
+        config: {
+          intensity: view.getUint8(1) / 255,
+          frequency: view.getUint16(2, true),
+          duration: view.getUint16(4, true),
+          pattern: getPatternName(view.getUint8(6))
+        }
+      };
+    case CommandType.TEMPERATURE:
+      if (packet.length !== COMMAND_PACKET_SIZE) {
+        throw new Error('温度指令长度错误');
+      }
+      return {
+        type,
+        config: {
+          target: view.getInt8(1),
+          rampTime: view.getUint16(2, true),
+          holdTime: view.getUint16(4, true)
+        }
+      };
+    case CommandType.STOP_ALL:
+      return { type };
+    case CommandType.GET_STATUS:
+      // 带时间戳的为延迟探测
+      return packet.length >= PING_PACKET_SIZE ? { type, timestamp: view.getUint32(1, true) } : { type };
+    case CommandType.CALIBRATE:
+      if (packet.length !== COMMAND_PACKET_SIZE) {
+        throw new Error('校准指令长度错误');
+      }
+      return { type, step: view.getUint8(1) as CalibrationStep, value: view.getInt16(2, true) };
+    case CommandType.WAVEFORM_BEGIN:
+      if (packet.length !== COMMAND_PACKET_SIZE) {
+        throw new Error('波形开始指令长度错误');
+      }
+      return {
+        type,
+        handle: view.getUint8(1),
+        sampleRate: view.getUint16(2, true),
+        sampleCount: view.getUint16(4, true)
+      };
+    case CommandType.WAVEFORM_DATA: {
+      const dataLength = packet.length - WAVEFORM_DATA_HEADER_SIZE - 1;
+      if (dataLength < 0 || dataLength % WAVEFORM_SAMPLE_SIZE !== 0) {
+        throw new Error('波形数据包长度错误');
+      }
+      const samples: WaveformSample[] = [];
+      for (let position = WAVEFORM_DATA_HEADER_SIZE; position < packet.length - 1; position += WAVEFORM_SAMPLE_SIZE) {
+        samples.push({
+          amplitude: view.getUint8(position) / 255,
+          frequency: view.getUint16(position + 1, true)
+        });
+      }
+      return { type, handle: view.getUint8(1), offset: view.getUint16(2, true), samples };
+    }
+    case CommandType.WAVEFORM_PLAY:
+      if (packet.length !== COMMAND_PACKET_SIZE) {
+        throw new Error('波形播放指令长度错误');
+      }
+      return {
+        type,
+        handle: view.getUint8(1),
+        intensity: view.getUint8(2) / 255,
+        repeat: view.getUint8(3)
+      };
+    case CommandType.DFU_BEGIN:
+      if (packet.length !== DFU_BEGIN_PACKET_SIZE) {
+        throw new Error('固件升级开始指令长度错误');
+      }
+      return {
+        type,
+        size: view.getUint32(1, true),
+        crc: view.getUint32(5, true),
+        version: `${view.getUint8(9)}.${view.getUint8(10)}.${view.getUint8(11)}`
+      };
+    case CommandType.DFU_DATA:
+      if (packet.length < DFU_DATA_HEADER_SIZE + 1) {
+        throw new Error('固件数据包长度错误');
+      }
+      return {
+        type,
+        offset: view.getUint32(1, true),
+        data: packet.slice(DFU_DATA_HEADER_SIZE, packet.length - 1)
+      };
+    case CommandType.DFU_VERIFY:
+    case CommandType.DFU_REBOOT:
+      return { type };
+    default:
+      throw new Error(`未知指令类型: 0x${type.toString(16)}`);
+  }
+};
+
+// 为指令包加上版本和序号帧头
+export const encodeFrame = (packet: ArrayBuffer, sequence: number): ArrayBuffer => {
+  const frame = new Uint8Array(packet.byteLength + FRAME_HEADER_SIZE);
+  frame[0] = FRAME_HEADER_MASK | PROTOCOL_VERSION_FRAMED;
+  frame[1] = sequence & 0xFF;
+  frame.set(new Uint8Array(packet), FRAME_HEADER_SIZE);
+  return frame.buffer;
+};
+
+// 判断数据是否带帧头
+export const isFramed = (data: Uint8Array): boolean => {
+  return data.length > FRAME_HEADER_SIZE && (data[0] & FRAME_HEADER_MASK) === FRAME_HEADER_MASK;
+};
+
+// 拆分帧头，返回协议版本、序号和内部指令包
+export const decodeFrame = (data: Uint8Array): { version: number; sequence: number; packet: Uint8Array } => {
+  if (!isFramed(data)) {
+    throw new Error('数据帧头无效');
+  }
+  return {
+    version: data[0] & 0x0F,
+    sequence: data[1],
+    packet: data.subarray(FRAME_HEADER_SIZE)
+  };
+};
+
+// 序号是否早于最近接受的序号（按256回绕，半窗口内视为过期）；所有通道共用一个序号空间，设备按连接而非按特征记录
+export const isStaleSequence = (sequence: number, lastSequence: number): boolean => {
+  const distance = (lastSequence - sequence + 256) & 0xFF;
+  return distance > 0 && distance < 128;
+};
+
+// 编码应答
+export const encodeAck = (ack: CommandAck): ArrayBuffer => {
+  return new Uint8Array([ACK_MARKER, ack.sequence & 0xFF, ack.result]).buffer;
+};
+
+// 解析状态通知中的应答，非应答数据返回null
+export const parseAck = (data: DataView): CommandAck | null => {
+  if (data.byteLength < 3 || data.getUint8(0) !== ACK_MARKER) {
+    return null;
+  }
+  return {
+    sequence: data.getUint8(1),
+    result: data.getUint8(2) as AckResult
+  };
+};
+
+// 编码探测应答
+export const encodePong = (timestamp: number): ArrayBuffer => {
+  const data = new ArrayBuffer(5);
+  const view = new DataView(data);
+  view.setUint8(0, PONG_MARKER);
+  view.setUint32(1, timestamp >>> 0, true);
+  return data;
+};
+
+// 解析状态通知中的探测应答，返回回传的时间戳，非探测应答返回null
+export const parsePong = (data: DataView): number | null => {
+  if (data.byteLength < 5 || data.getUint8(0) !== PONG_MARKER) {
+    return null;
+  }
+  return data.getUint32(1, true);
+};
+
+// 编码状态数据
+export const encodeStatus = (status: DeviceStatus): ArrayBuffer => {
+  const data = new ArrayBuffer(6);
+  const view = new DataView(data);
+  const [major = 0, minor = 0, patch = 0] = status.firmwareVersion.split('.').map(Number);
+
+  view.setUint8(0, status.batteryLevel);
+  view.setUint8(1, major);
+  view.setUint8(2, minor);
+  view.setUint8(3, patch);
+  view.setUint8(4,
+    (status.capabilities.vibration ? 0x01 : 0) |
+    (status.capabilities.temperature ? 0x02 : 0) |
+    (status.capabilities.pressure ? 0x04 : 0) |
+    (status.capabilities.flex ? 0x08 : 0) |
+    (status.capabilities.waveform ? 0x10 : 0) |
+    (status.capabilities.imu ? 0x20 : 0) |
+    (status.capabilities.dfu ? 0x40 : 0)
+  );
+  view.setUint8(5, status.protocolVersion);
+
+  return data;
+};
+
+// 解析状态数据
+export const parseStatusData = (data: DataView): DeviceStatus => {
+  return {
+    batteryLevel: data.getUint8(0),
+    firmwareVersion: `${data.getUint8(1)}.${data.getUint8(2)}.${data.getUint8(3)}`,
+    capabilities: {
+      vibration: !!(data.getUint8(4) & 0x01),
+      temperature: !!(data.getUint8(4) & 0x02),
+      pressure: !!(data.getUint8(4) & 0x04),
+      flex: !!(data.getUint8(4) & 0x08),
+      waveform: !!(data.getUint8(4) & 0x10),
+      imu: !!(data.getUint8(4) & 0x20),
+      dfu: !!(data.getUint8(4) & 0x40)
+    },
+    // 旧固件只返回5个字节，视为裸指令协议
+    protocolVersion: data.byteLength > 5 ? data.getUint8(5) : PROTOCOL_VERSION_LEGACY
+  };
+};
+
+// 编码压力传感器通知（压力单位为牛）
+export const encodePressureData = (taxels: number[]): ArrayBuffer => {
+  const count = Math.min(taxels.length, MAX_SENSOR_VALUES);
+  const data = new ArrayBuffer(1 + count * SENSOR_VALUE_SIZE);
+  const view = new DataView(data);
+  view.setUint8(0, count);
+  for (let i = 0; i < count; i++) {
+    view.setUint16(1 + i * SENSOR_VALUE_SIZE, Math.round(Math.max(0, Math.min(65.535, taxels[i])) * 1000), true);
+  }
+  return data;
+};
+
+// 解析压力传感器通知，长度不符时返回null
+export const parsePressureData = (data: DataView, timestamp: number = Date.now()): PressureSensorData | null => {
+  if (data.byteLength < 1) return null;
+  const count = data.getUint8(0);
+  if (data.byteLength < 1 + count * SENSOR_VALUE_SIZE) return null;
+
+  const taxels: number[] = [];
+  for (let i = 0; i < count; i++) {
+    taxels.push(data.getUint16(1 + i * SENSOR_VALUE_SIZE, true) / 1000);
+  }
+  return { taxels, total: taxels.reduce((sum, value) => sum + value, 0), timestamp };
+};
+
+// 编码弯曲传感器通知（角度单位为度）
+export const encodeFlexData = (joints: number[]): ArrayBuffer => {
+  const count = Math.min(joints.length, MAX_SENSOR_VALUES);
+  const data = new ArrayBuffer(1 + count * SENSOR_VALUE_SIZE);
+  const view = new DataView(data);
+  view.setUint8(0, count);
+  for (let i = 0; i < count; i++) {
+    view.setInt16(1 + i * SENSOR_VALUE_SIZE, Math.round(Math.max(-3276.8, Math.min(3276.7, joints[i])) * 10), true);
+  }
+  return data;
+};
+
+// 解析弯曲传感器通知，长度不符时返回null
+export const parseFlexData = (data: DataView, timestamp: number = Date.now()): FlexSensorData | null => {
+  if (data.byteLength < 1) return null;
+  const count = data.getUint8(0);
+  if (data.byteLength < 1 + count * SENSOR_VALUE_SIZE) return null;
+
+  const joints: number[] = [];
+  for (let i = 0; i < count; i++) {
+    joints.push(data.getInt16(1 + i * SENSOR_VALUE_SIZE, true) / 10);
+  }
+  return { joints, timestamp };
+};
+
+const toInt16 = (value: number): number => Math.round(Math.max(-32768, Math.min(32767, value)));
+
+// 编码IMU通知
+export const encodeIMUData = (data: Omit<IMUData, 'timestamp'>): ArrayBuffer => {
+  const buffer = new ArrayBuffer(IMU_PACKET_SIZE);
+  const view = new DataView(buffer);
+  const axes: Array<[Point3D, number]> = [
+    [data.acceleration, ACCEL_SCALE],
+    [data.gyroscope, GYRO_SCALE],
+    [data.magnetometer, MAG_SCALE]
+  ];
+  axes.forEach(([vector, scale], index) => {
+    view.setInt16(index * 6, toInt16(vector.x * scale), true);
+    view.setInt16(index * 6 + 2, toInt16(vector.y * scale), true);
+    view.setInt16(index * 6 + 4, toInt16(vector.z * scale), true);
+  });
+  return buffer;
+};
+
+// 解析IMU通知，长度不符时返回null
+export const parseIMUData = (data: DataView, timestamp: number = Date.now()): IMUData | null => {
+  if (data.byteLength < IMU_PACKET_SIZE) return null;
+  const readVector = (offset: number, scale: number): Point3D => ({
+    x: data.getInt16(offset, true) / scale,
+    y: data.getInt16(offset + 2, true) / scale,
+    z: data.getInt16(offset + 4, true) / scale
+  });
+  return {
+    acceleration: readVector(0, ACCEL_SCALE),
+    gyroscope: readVector(6, GYRO_SCALE),
+    magnetometer: readVector(12, MAG_SCALE),
+    timestamp
+  };
+};
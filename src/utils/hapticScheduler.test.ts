@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CommandPriority, HapticScheduler } from './hapticScheduler';
+import type { HapticChannel } from './hapticTransport';
+
+// 可手动确认的发送回调：记录发出的指令，由测试决定何时送达
+const createSender = () => {
+  const sent: { channel: HapticChannel; packet: ArrayBuffer; priority: CommandPriority }[] = [];
+  const pending: ((delivered: boolean) => void)[] = [];
+  const sender = (channel: HapticChannel, packet: ArrayBuffer, priority: CommandPriority) => {
+    sent.push({ channel, packet, priority });
+    return new Promise<boolean>(resolve => pending.push(resolve));
+  };
+  // 确认在途指令，并等待调度器发出下一条
+  const ack = async (delivered = true) => {
+    pending.shift()?.(delivered);
+    await Promise.resolve();
+    await Promise.resolve();
+  };
+  return { sender, sent, ack };
+};
+
+// 用首字节区分数据包
+const packet = (tag: number) => new Uint8Array([tag]).buffer;
+const tags = (sent: { packet: ArrayBuffer }[]) => sent.map(item => new Uint8Array(item.packet)[0]);
+
+describe('HapticScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('同一时刻只有一条指令在途，其余按优先级发送', async () => {
+    const { sender, sent, ack } = createSender();
+    const scheduler = new HapticScheduler(sender);
+
+    scheduler.enqueue({ channel: 'vibration', packet: packet(1), priority: CommandPriority.EFFECT });
+    scheduler.enqueue({ channel: 'vibration', packet: packet(2), priority: CommandPriority.TRANSFER });
+    scheduler.enqueue({ channel: 'temperature', packet: packet(3), priority: CommandPriority.EFFECT });
+    expect(tags(sent)).toEqual([1]);
+    expect(scheduler.depth).toBe(2);
+
+    await ack();
+    await ack();
+    await ack();
+    expect(tags(sent)).toEqual([1, 3, 2]);
+    expect(scheduler.getStats().delivered).toBe(3);
+  });
+
+  it('同一通道未发出的效果被新效果取代', async () => {
+    const { sender, sent, ack } = createSender();
+    const scheduler = new HapticScheduler(sender);
+
+    scheduler.enqueue({ channel: 'temperature', packet: packet(1), priority: CommandPriority.EFFECT });
+    const superseded = scheduler.enqueue({ channel: 'vibration', packet: packet(2), priority: CommandPriority.EFFECT });
+    scheduler.enqueue({ channel: 'vibration', packet: packet(3), priority: CommandPriority.EFFECT });
+
+    await expect(superseded).resolves.toBe(false);
+    await ack();
+    await ack();
+    expect(tags(sent)).toEqual([1, 3]);
+    expect(scheduler.getStats().coalesced).toBe(1);
+  });
+
+  it('停止指令插队并清除排队效果，保留波形上传和探测', async () => {
+    const { sender, sent, ack } = createSender();
+    const scheduler = new HapticScheduler(sender);
+
+    scheduler.enqueue({ channel: 'vibration', packet: packet(1), priority: CommandPriority.EFFECT });
+    const effect = scheduler.enqueue({ channel: 'temperature', packet: packet(2), priority: CommandPriority.EFFECT });
+    const transfer = scheduler.enqueue({ channel: 'vibration', packet: packet(3), priority: CommandPriority.TRANSFER });
+    scheduler.enqueue({ channel: 'vibration', packet: packet(4), priority: CommandPriority.PROBE });
+    scheduler.enqueue({ channel: 'vibration', packet: packet(5), priority: CommandPriority.STOP });
+
+    await expect(effect).resolves.toBe(false);
+    await ack();
+    await ack();
+    await ack();
+    await ack();
+    await expect(transfer).resolves.toBe(true);
+    expect(tags(sent)).toEqual([1, 5, 3, 4]);
+    expect(scheduler.getStats().preempted).toBe(1);
+  });
+
+  it('超过期限的效果不再发送', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const { sender, sent, ack } = createSender();
+    const scheduler = new HapticScheduler(sender);
+
+    scheduler.enqueue({ channel: 'vibration', packet: packet(1), priority: CommandPriority.EFFECT });
+    const expired = scheduler.enqueue({ channel: 'temperature', packet: packet(2), priority: CommandPriority.EFFECT, deadline: 100 });
+
+    vi.setSystemTime(200);
+    await ack();
+    await expect(expired).resolves.toBe(false);
+    expect(tags(sent)).toEqual([1]);
+    expect(scheduler.getStats().expired).toBe(1);
+  });
+
+  it('延迟探测的数据包在发送时才生成', async () => {
+    const { sender, sent, ack } = createSender();
+    const scheduler = new HapticScheduler(sender);
+    let generation = 0;
+
+    scheduler.enqueue({ channel: 'vibration', packet: packet(1), priority: CommandPriority.EFFECT });
+    scheduler.enqueue({ channel: 'vibration', packet: () => packet(10 + ++generation), priority: CommandPriority.PROBE });
+    expect(generation).toBe(0);
+
+    await ack();
+    expect(tags(sent)).toEqual([1, 11]);
+  });
+
+  it('清空队列时排队指令视为未送达', async () => {
+    const { sender } = createSender();
+    const scheduler = new HapticScheduler(sender);
+    const depths: number[] = [];
+    scheduler.onDepthChange(depth => depths.push(depth));
+
+    scheduler.enqueue({ channel: 'vibration', packet: packet(1), priority: CommandPriority.EFFECT });
+    const queued = scheduler.enqueue({ channel: 'temperature', packet: packet(2), priority: CommandPriority.EFFECT });
+    scheduler.clear();
+
+    await expect(queued).resolves.toBe(false);
+    expect(scheduler.depth).toBe(0);
+    expect(depths[depths.length - 1]).toBe(0);
+    expect(scheduler.getStats().maxDepth).toBe(1);
+  });
+});
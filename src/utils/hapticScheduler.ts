@@ -0,0 +1,160 @@
+// 触觉指令调度器 - 合并被取代的指令、停止指令插队、丢弃过期效果
+import type { HapticChannel } from './hapticTransport';
+
+// 指令优先级（数值越小越先发送）
+export enum CommandPriority {
+  STOP = 0,
+  EFFECT = 1,
+  TRANSFER = 2, // 波形上传等批量数据，不合并、不过期，也不被停止指令清除
+  PROBE = 3 // 延迟探测，只在链路空闲时发送，新探测取代未发出的旧探测
+}
+
+// 效果指令的默认有效期（毫秒），排队超过该时间的效果已失去意义
+export const DEFAULT_EFFECT_DEADLINE = 150;
+
+// 入队的指令，packet为函数时在发送前才生成（如带发送时间戳的延迟探测）
+export interface ScheduledCommand {
+  channel: HapticChannel;
+  packet: ArrayBuffer | (() => ArrayBuffer);
+  priority: CommandPriority;
+  deadline?: number; // 绝对时间戳，超过后不再发送
+}
+
+// 排队中的指令
+interface QueuedCommand extends ScheduledCommand {
+  enqueuedAt: number;
+  resolve: (delivered: boolean) => void;
+}
+
+// 调度统计
+export interface SchedulerStats {
+  enqueued: number;
+  delivered: number;
+  coalesced: number; // 被同通道新指令取代
+  preempted: number; // 被停止指令清除
+  expired: number; // 超过期限被丢弃
+  maxDepth: number;
+  lastLatency: number; // 最近一条指令从入队到送达的耗时
+}
+
+// 实际发送指令的回调，返回设备是否确认收到
+export type CommandSender = (channel: HapticChannel, packet: ArrayBuffer, priority: CommandPriority) => Promise<boolean>;
+
+// 指令调度器：同一时刻只有一条指令在途，其余按优先级排队
+export class HapticScheduler {
+  private queue: QueuedCommand[] = [];
+  private inFlight = false;
+  private stats: SchedulerStats = this.createStats();
+  private depthListener: ((depth: number) => void) | null = null;
+
+  constructor(private sender: CommandSender) {}
+
+  private createStats(): SchedulerStats {
+    return { enqueued: 0, delivered: 0, coalesced: 0, preempted: 0, expired: 0, maxDepth: 0, lastLatency: 0 };
+  }
+
+  // 监听队列深度变化
+  onDepthChange(listener: ((depth: number) => void) | null) {
+    this.depthListener = listener;
+  }
+
+  // 指令入队，返回设备是否确认执行（被合并、清除或过期时为false）
+  enqueue(command: ScheduledCommand): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      const queued: QueuedCommand = { ...command, enqueuedAt: Date.now(), resolve };
+      this.stats.enqueued++;
+
+      if (command.priority === CommandPriority.STOP) {
+        // 停止指令使所有排队效果失效，并排在最前
+        const effects = this.queue.filter(item => item.priority === CommandPriority.EFFECT || item.priority === CommandPriority.STOP);
+        this.stats.preempted += effects.length;
+        effects.forEach(item => item.resolve(false));
+        this.queue = [queued, ...this.queue.filter(item => !effects.includes(item))];
+      } else if (command.priority === CommandPriority.TRANSFER) {
+        this.insertByPriority(queued);
+      } else {
+        // 同一通道尚未发出的效果（或探测）被新指令取代
+        const index = this.queue.findIndex(item =>
+          item.priority === command.priority && item.channel === command.channel
+        );
+        if (index > -1) {
+          this.stats.coalesced++;
+          this.queue[index].resolve(false);
+          this.queue.splice(index, 1);
+        }
+        this.insertByPriority(queued);
+      }
+
+      this.notifyDepth();
+      this.drain();
+    });
+  }
+
+  // 按优先级插入，同优先级保持先后顺序
+  private insertByPriority(queued: QueuedCommand) {
+    const index = this.queue.findIndex(item => item.priority > queued.priority);
+    if (index === -1) {
+      this.queue.push(queued);
+    } else {
+      this.queue.splice(index, 0, queued);
+    }
+  }
+
+  // 依次发送排队指令
+  private async drain() {
+    if (this.inFlight) {
+      return;
+    }
+    this.inFlight = true;
+
+    while (this.queue.length > 0) {
+      const next = this.queue.shift()!;
+      this.notifyDepth();
+
+      if (next.deadline !== undefined && Date.now() > next.deadline) {
+        this.stats.expired++;
+        next.resolve(false);
+        continue;
+      }
+
+      let delivered = false;
+      try {
+        const packet = typeof next.packet === 'function' ? next.packet() : next.packet;
+        delivered = await this.sender(next.channel, packet, next.priority);
+      } catch (error) {
+        console.error('调度指令发送失败:', error);
+      }
+
+      if (delivered) {
+        this.stats.delivered++;
+        this.stats.lastLatency = Date.now() - next.enqueuedAt;
+      }
+      next.resolve(delivered);
+    }
+
+    this.inFlight = false;
+  }
+
+  // 通知队列深度
+  private notifyDepth() {
+    this.stats.maxDepth = Math.max(this.stats.maxDepth, this.queue.length);
+    this.depthListener?.(this.queue.length);
+  }
+
+  // 清空队列（断开连接时），排队指令全部视为未送达
+  clear() {
+    this.queue.forEach(item => item.resolve(false));
+    this.queue = [];
+    this.notifyDepth();
+  }
+
+  // 当前排队深度（不含在途指令）
+  get depth(): number {
+    return this.queue.length;
+  }
+
+  // 获取调度统计
+  getStats(): SchedulerStats {
+    return { ...this.stats };
+  }
+}
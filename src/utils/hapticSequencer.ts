@@ -0,0 +1,413 @@
+// 触觉效果序列 - 把多段振动、温度、停顿和循环编排到时间轴上，支持暂停、继续和取消
+import type {
+  EventCallback,
+  HapticSequence,
+  HapticProfile,
+  HapticSequenceStep,
+  TemperatureConfig,
+  VibrationConfig
+} from '../types';
+import type { HapticController } from './hapticController';
+
+// 重复片段的最大次数
+export const MAX_REPEAT_COUNT = 20;
+
+// 展开后的最大指令数，防止嵌套重复生成过长的时间轴
+export const MAX_SEQUENCE_EVENTS = 500;
+
+// 内置序列的ID前缀
+const BUILT_IN_PREFIX = 'builtin-seq-';
+
+// 时间轴上的定时指令，at和end为相对序列开始的时间（毫秒）
+export type SequenceEvent =
+  | { type: 'vibration'; at: number; end: number; config: VibrationConfig }
+  | { type: 'temperature'; at: number; end: number; config: TemperatureConfig };
+
+// 展开后的序列
+export interface CompiledSequence {
+  events: SequenceEvent[];
+  duration: number; // 一遍的总时长（毫秒）
+}
+
+export type SequencePlaybackState = 'playing' | 'paused' | 'finished' | 'cancelled';
+
+// 触发来源
+export type SequenceTrigger = 'manual' | 'collision';
+
+// 播放状态快照
+export interface SequencePlayback {
+  id: string;
+  sequenceId: string;
+  sequenceName: string;
+  trigger: SequenceTrigger;
+  state: SequencePlaybackState;
+  elapsed: number; // 当前一遍已播放的时间（毫秒）
+  duration: number;
+  iteration: number; // 循环播放时的遍数，从0开始
+}
+
+// 进行中的播放
+interface ActivePlayback {
+  id: string;
+  sequence: HapticSequence;
+  compiled: CompiledSequence;
+  controller: HapticController;
+  trigger: SequenceTrigger;
+  state: SequencePlaybackState;
+  startedAt: number; // 当前一遍的起始时间（暂停后继续时向后平移）
+  pausedElapsed: number;
+  iteration: number;
+  timers: ReturnType<typeof setTimeout>[];
+}
+
+// 片段时长（overlap片段不占用时间轴）
+const getSegmentLength = (step: HapticSequenceStep): number => {
+  switch (step.type) {
+    case 'vibration':
+      return step.vibration.duration;
+    case 'temperature':
+      return step.temperature.rampTime + step.temperature.holdTime;
+    case 'pause':
+      return step.duration;
+    default:
+      return 0;
+  }
+};
+
+// 把片段列表展开为定时指令，返回片段列表的结束时间
+const compileSteps = (steps: HapticSequenceStep[], start: number, events: SequenceEvent[]): number => {
+  let cursor = start;
+  for (const step of steps) {
+    if (events.length > MAX_SEQUENCE_EVENTS) {
+      throw new Error(`效果序列展开后超过 ${MAX_SEQUENCE_EVENTS} 条指令`);
+    }
+    if (step.type === 'repeat') {
+      const count = Math.max(0, Math.min(MAX_REPEAT_COUNT, Math.floor(step.count)));
+      for (let i = 0; i < count; i++) {
+        cursor = compileSteps(step.steps, cursor, events);
+      }
+      continue;
+    }
+
+    const length = Math.max(0, getSegmentLength(step));
+    if (step.type === 'vibration') {
+      events.push({ type: 'vibration', at: cursor, end: cursor + length, config: step.vibration });
+    } else if (step.type === 'temperature') {
+      events.push({ type: 'temperature', at: cursor, end: cursor + length, config: step.temperature });
+    }
+    if (step.type === 'pause' || !step.overlap) {
+      cursor += length;
+    }
+  }
+  return cursor;
+};
+
+// 展开效果序列，总时长取最后一个片段的结束时间（包括overlap片段）
+export const compileHapticSequence = (sequence: HapticSequence): CompiledSequence => {
+  const events: SequenceEvent[] = [];
+  const cursor = compileSteps(sequence.steps, 0, events);
+  const duration = events.reduce((end, event) => Math.max(end, event.end), cursor);
+  return { events, duration };
+};
+
+// 从时间轴中间开始时截去已播放的部分
+const trimEvent = (event: SequenceEvent, elapsed: number): SequenceEvent => {
+  const played = elapsed - event.at;
+  if (played <= 0) {
+    return event;
+  }
+  if (event.type === 'vibration') {
+    return { ...event, at: elapsed, config: { ...event.config, duration: event.end - elapsed } };
+  }
+  const { rampTime, holdTime } = event.config;
+  return {
+    ...event,
+    at: elapsed,
+    config: {
+      ...event.config,
+      rampTime: Math.max(0, rampTime - played),
+      holdTime: Math.min(holdTime, event.end - elapsed)
+    }
+  };
+};
+
+const tap = (intensity: number): HapticSequenceStep => ({
+  type: 'vibration',
+  vibration: { intensity, frequency: 220, pattern: 'sharp', duration: 60 }
+});
+
+// 内置序列（只读，编辑时另存为副本）
+export const BUILT_IN_SEQUENCES: HapticSequence[] = [
+  {
+    id: `${BUILT_IN_PREFIX}tap-tap-warm`,
+    name: 'tap-tap-warm',
+    steps: [
+      tap(0.9),
+      { type: 'pause', duration: 80 },
+      tap(0.9),
+      { type: 'pause', duration: 150 },
+      { type: 'temperature', temperature: { target: 33, rampTime: 400, holdTime: 1200 } }
+    ],
+    builtIn: true,
+    updatedAt: 0
+  },
+  {
+    id: `${BUILT_IN_PREFIX}triple-tap`,
+    name: '三连击',
+    steps: [
+      { type: 'repeat', count: 3, steps: [tap(0.8), { type: 'pause', duration: 90 }] }
+    ],
+    builtIn: true,
+    updatedAt: 0
+  },
+  {
+    id: `${BUILT_IN_PREFIX}heartbeat`,
+    name: '心跳',
+    steps: [
+      { type: 'vibration', vibration: { intensity: 0.8, frequency: 80, pattern: 'soft', duration: 100 } },
+      { type: 'pause', duration: 120 },
+      { type: 'vibration', vibration: { intensity: 0.5, frequency: 80, pattern: 'soft', duration: 80 } },
+      { type: 'pause', duration: 700 }
+    ],
+    loop: true,
+    builtIn: true,
+    updatedAt: 0
+  },
+  {
+    id: `${BUILT_IN_PREFIX}cool-alert`,
+    name: '冷感提醒',
+    steps: [
+      { type: 'temperature', temperature: { target: 20, rampTime: 300, holdTime: 900 }, overlap: true },
+      { type: 'repeat', count: 2, steps: [{ type: 'vibration', vibration: { intensity: 0.7, frequency: 150, pattern: 'pulse', duration: 300 } }, { type: 'pause', duration: 200 }] }
+    ],
+    builtIn: true,
+    updatedAt: 0
+  }
+];
+
+// 生成自定义序列ID
+export const createSequenceId = (): string => {
+  return `sequence-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// 深拷贝序列（内置序列为只读常量）
+export const cloneHapticSequence = (sequence: HapticSequence): HapticSequence => {
+  return JSON.parse(JSON.stringify(sequence)) as HapticSequence;
+};
+
+// 列出所有序列，内置在前
+export const getAllHapticSequences = (saved: Record<string, HapticSequence>): HapticSequence[] => {
+  return [...BUILT_IN_SEQUENCES, ...Object.values(saved).sort((a, b) => a.name.localeCompare(b.name))];
+};
+
+// 按ID查找序列
+export const findHapticSequence = (id: string, saved: Record<string, HapticSequence>): HapticSequence | null => {
+  return saved[id] || BUILT_IN_SEQUENCES.find(sequence => sequence.id === id) || null;
+};
+
+// 把配置文件转换为序列片段（振动和温度同时开始）
+export const getProfileSegments = (profile: HapticProfile): HapticSequenceStep[] => {
+  const steps: HapticSequenceStep[] = [];
+  if (profile.temperature) {
+    steps.push({ type: 'temperature', temperature: { ...profile.temperature }, overlap: !!profile.vibration });
+  }
+  if (profile.vibration) {
+    steps.push({ type: 'vibration', vibration: { ...profile.vibration } });
+  }
+  return steps;
+};
+
+// 效果序列播放器：每个控制器同时只播放一个序列，新序列会取消正在播放的序列
+export class HapticSequencer {
+  private playbacks: Map<string, ActivePlayback> = new Map();
+  private nextPlaybackId = 1;
+  private eventListeners: Map<string, EventCallback[]> = new Map();
+
+  constructor() {
+    this.eventListeners.set('playback', []);
+    this.eventListeners.set('error', []);
+  }
+
+  // 添加事件监听器
+  addEventListener(event: string, callback: EventCallback) {
+    const listeners = this.eventListeners.get(event) || [];
+    listeners.push(callback);
+    this.eventListeners.set(event, listeners);
+  }
+
+  // 移除事件监听器
+  removeEventListener(event: string, callback: EventCallback) {
+    const listeners = this.eventListeners.get(event) || [];
+    const index = listeners.indexOf(callback);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  // 触发事件
+  private emit(event: string, data?: unknown) {
+    const listeners = this.eventListeners.get(event) || [];
+    listeners.forEach(callback => callback(data));
+  }
+
+  // 开始播放，返回播放ID；序列无法展开时返回null
+  play(sequence: HapticSequence, controller: HapticController, trigger: SequenceTrigger = 'manual'): string | null {
+    let compiled: CompiledSequence;
+    try {
+      compiled = compileHapticSequence(sequence);
+    } catch (error) {
+      this.emit('error', { type: 'SEQUENCE_INVALID', message: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+
+    this.playbacks.forEach(playback => {
+      if (playback.controller === controller) {
+        this.endPlayback(playback, 'cancelled');
+      }
+    });
+
+    const playback: ActivePlayback = {
+      id: `playback-${this.nextPlaybackId++}`,
+      sequence,
+      compiled,
+      controller,
+      trigger,
+      state: 'playing',
+      startedAt: Date.now(),
+      pausedElapsed: 0,
+      iteration: 0,
+      timers: []
+    };
+    this.playbacks.set(playback.id, playback);
+    this.schedule(playback, 0);
+    this.emitPlayback(playback);
+    return playback.id;
+  }
+
+  // 暂停播放并停止设备输出；不指定ID时暂停全部
+  pause(playbackId?: string) {
+    this.select(playbackId).forEach(playback => {
+      if (playback.state !== 'playing') return;
+      this.clearTimers(playback);
+      playback.pausedElapsed = Math.min(playback.compiled.duration, Date.now() - playback.startedAt);
+      playback.state = 'paused';
+      playback.controller.stopAllFeedback();
+      this.emitPlayback(playback);
+    });
+  }
+
+  // 从暂停处继续，正在播放的片段截去已播放部分后重新发送
+  resume(playbackId?: string) {
+    this.select(playbackId).forEach(playback => {
+      if (playback.state !== 'paused') return;
+      playback.state = 'playing';
+      playback.startedAt = Date.now() - playback.pausedElapsed;
+      this.schedule(playback, playback.pausedElapsed);
+      this.emitPlayback(playback);
+    });
+  }
+
+  // 取消播放并停止设备输出；不指定ID时取消全部
+  cancel(playbackId?: string) {
+    this.select(playbackId).forEach(playback => {
+      this.endPlayback(playback, 'cancelled');
+      playback.controller.stopAllFeedback();
+    });
+  }
+
+  // 当前所有播放的状态
+  getPlaybacks(): SequencePlayback[] {
+    return Array.from(this.playbacks.values()).map(playback => this.snapshot(playback));
+  }
+
+  private select(playbackId?: string): ActivePlayback[] {
+    if (playbackId === undefined) {
+      return Array.from(this.playbacks.values());
+    }
+    const playback = this.playbacks.get(playbackId);
+    return playback ? [playback] : [];
+  }
+
+  // 从elapsed处开始安排本遍剩余的指令和结束回调
+  private schedule(playback: ActivePlayback, elapsed: number) {
+    const { events, duration } = playback.compiled;
+    events
+      .filter(event => event.end > elapsed || event.at >= elapsed)
+      .map(event => trimEvent(event, elapsed))
+      .forEach(event => {
+        playback.timers.push(setTimeout(() => this.dispatch(playback, event), event.at - elapsed));
+      });
+    playback.timers.push(setTimeout(() => this.finishIteration(playback), duration - elapsed));
+  }
+
+  private dispatch(playback: ActivePlayback, event: SequenceEvent) {
+    if (event.type === 'vibration') {
+      playback.controller.sendVibration(event.config);
+    } else {
+      playback.controller.sendTemperature(event.config);
+    }
+  }
+
+  // 一遍播放结束：循环序列从头开始（时长为0的序列不循环），否则结束
+  private finishIteration(playback: ActivePlayback) {
+    playback.timers = [];
+    if (playback.sequence.loop && playback.compiled.duration > 0) {
+      playback.iteration++;
+      playback.startedAt = Date.now();
+      this.schedule(playback, 0);
+      this.emitPlayback(playback);
+      return;
+    }
+    this.endPlayback(playback, 'finished');
+  }
+
+  private endPlayback(playback: ActivePlayback, state: 'finished' | 'cancelled') {
+    this.clearTimers(playback);
+    playback.state = state;
+    this.playbacks.delete(playback.id);
+    this.emitPlayback(playback);
+  }
+
+  private clearTimers(playback: ActivePlayback) {
+    playback.timers.forEach(timer => clearTimeout(timer));
+    playback.timers = [];
+  }
+
+  private snapshot(playback: ActivePlayback): SequencePlayback {
+    const { duration } = playback.compiled;
+    let elapsed = duration;
+    if (playback.state === 'playing') {
+      elapsed = Math.min(duration, Date.now() - playback.startedAt);
+    } else if (playback.state === 'paused') {
+      elapsed = playback.pausedElapsed;
+    }
+    return {
+      id: playback.id,
+      sequenceId: playback.sequence.id,
+      sequenceName: playback.sequence.name,
+      trigger: playback.trigger,
+      state: playback.state,
+      elapsed,
+      duration,
+      iteration: playback.iteration
+    };
+  }
+
+  private emitPlayback(playback: ActivePlayback) {
+    this.emit('playback', this.snapshot(playback));
+  }
+}
+
+// 创建全局序列播放器实例
+let globalSequencer: HapticSequencer | null = null;
+
+export const createHapticSequencer = (): HapticSequencer => {
+  if (!globalSequencer) {
+    globalSequencer = new HapticSequencer();
+  }
+  return globalSequencer;
+};
+
+export const getHapticSequencer = (): HapticSequencer | null => {
+  return globalSequencer;
+};
@@ -0,0 +1,555 @@
+// 触觉设备传输层 - 支持Web Bluetooth、WebSocket桥接和WebSerial
+import type { TransportKind } from '../types';
+import {
+  HAPTIC_SERVICE_UUID,
+  VIBRATION_CHARACTERISTIC_UUID,
+  TEMPERATURE_CHARACTERISTIC_UUID,
+  BATTERY_CHARACTERISTIC_UUID,
+  STATUS_CHARACTERISTIC_UUID,
+  WAVEFORM_CHARACTERISTIC_UUID,
+  PRESSURE_CHARACTERISTIC_UUID,
+  FLEX_CHARACTERISTIC_UUID,
+  IMU_CHARACTERISTIC_UUID,
+  DFU_CHARACTERISTIC_UUID
+} from './hapticProtocol';
+
+// 蓝牙与串口类型声明
+declare global {
+  interface Navigator {
+    bluetooth?: {
+      requestDevice(options: BluetoothRequestDeviceOptions): Promise<BluetoothDevice>;
+    };
+    serial?: {
+      requestPort(options?: { filters?: Array<{ usbVendorId?: number; usbProductId?: number }> }): Promise<SerialPort>;
+    };
+  }
+
+  interface BluetoothRequestDeviceOptions {
+    filters?: Array<{ name?: string; namePrefix?: string; services?: string[] }>;
+    optionalServices?: string[];
+    acceptAllDevices?: boolean;
+  }
+
+  interface BluetoothDevice {
+    id: string;
+    name?: string;
+    gatt?: BluetoothRemoteGATTServer;
+    addEventListener(type: string, listener: EventListener): void;
+    removeEventListener(type: string, listener: EventListener): void;
+  }
+
+  interface BluetoothRemoteGATTServer {
+    device: BluetoothDevice;
+    connected: boolean;
+    connect(): Promise<BluetoothRemoteGATTServer>;
+    disconnect(): void;
+    getPrimaryService(service: string): Promise<BluetoothRemoteGATTService>;
+  }
+
+  interface BluetoothRemoteGATTService {
+    device: BluetoothDevice;
+    uuid: string;
+    getCharacteristic(characteristic: string): Promise<BluetoothRemoteGATTCharacteristic>;
+  }
+
+  interface BluetoothRemoteGATTCharacteristic {
+    service: BluetoothRemoteGATTService;
+    uuid: string;
+    value?: DataView;
+    writeValue(value: ArrayBuffer): Promise<void>;
+    readValue(): Promise<DataView>;
+    startNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
+    stopNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
+    addEventListener(type: string, listener: EventListener): void;
+    removeEventListener(type: string, listener: EventListener): void;
+  }
+
+  interface SerialPort {
+    readable: ReadableStream<Uint8Array> | null;
+    writable: WritableStream<Uint8Array> | null;
+    open(options: { baudRate: number }): Promise<void>;
+    close(): Promise<void>;
+    getInfo(): { usbVendorId?: number; usbProductId?: number };
+  }
+}
+
+// 逻辑通道（与GATT特征一一对应）
+export type HapticChannel = 'vibration' | 'temperature' | 'battery' | 'status' | 'waveform' | 'pressure' | 'flex' | 'imu' | 'dfu';
+
+// 单次写入的最大字节数：BLE默认ATT MTU为23字节，扣除3字节包头后可用20字节
+export const DEFAULT_BLE_MTU = 20;
+const WEBSOCKET_MTU = 512;
+const SERIAL_MTU = 240; // 串口帧长度字段只有1字节
+
+// 传输层接口
+export interface HapticTransport {
+  readonly kind: TransportKind;
+  readonly connected: boolean;
+  readonly deviceId: string;
+  readonly deviceName: string;
+  readonly mtu: number; // 单次写入的最大字节数
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  hasChannel(channel: HapticChannel): boolean;
+  write(channel: HapticChannel, data: ArrayBuffer): Promise<void>;
+  read(channel: HapticChannel): Promise<DataView>;
+  subscribe(channel: HapticChannel, listener: (data: DataView) => void): Promise<void>;
+  onDisconnect(listener: () => void): void;
+}
+
+// 传输层配置
+export type TransportOptions =
+  | { kind: 'bluetooth'; deviceName?: string; device?: BluetoothDevice }
+  | { kind: 'websocket'; url: string; deviceName?: string }
+  | { kind: 'serial'; baudRate?: number; deviceName?: string; port?: SerialPort };
+
+// 通道对应的GATT特征UUID
+const CHANNEL_UUIDS: Record<HapticChannel, string> = {
+  vibration: VIBRATION_CHARACTERISTIC_UUID,
+  temperature: TEMPERATURE_CHARACTERISTIC_UUID,
+  battery: BATTERY_CHARACTERISTIC_UUID,
+  status: STATUS_CHARACTERISTIC_UUID,
+  waveform: WAVEFORM_CHARACTERISTIC_UUID,
+  pressure: PRESSURE_CHARACTERISTIC_UUID,
+  flex: FLEX_CHARACTERISTIC_UUID,
+  imu: IMU_CHARACTERISTIC_UUID,
+  dfu: DFU_CHARACTERISTIC_UUID
+};
+
+// 桥接帧中的通道编号
+const CHANNEL_IDS: Record<HapticChannel, number> = {
+  vibration: 0x01,
+  temperature: 0x02,
+  battery: 0x03,
+  status: 0x04,
+  waveform: 0x05,
+  pressure: 0x06,
+  flex: 0x07,
+  imu: 0x08,
+  dfu: 0x09
+};
+
+// 桥接帧操作码：设备主动通知用DATA，读取应答用READ_RESPONSE，两者分开以免通知被当作读取结果
+enum FrameOp {
+  WRITE = 0x01,
+  READ = 0x02,
+  DATA = 0x03,
+  READ_RESPONSE = 0x04
+}
+
+// 串口帧起始字节
+const SERIAL_START_BYTE = 0xA5;
+
+// 读取响应超时（毫秒）
+const READ_TIMEOUT = 2000;
+
+const getChannelById = (id: number): HapticChannel | undefined => {
+  return (Object.keys(CHANNEL_IDS) as HapticChannel[]).find(channel => CHANNEL_IDS[channel] === id);
+};
+
+// Web Bluetooth传输
+export class BluetoothTransport implements HapticTransport {
+  readonly kind = 'bluetooth' as const;
+  // Web Bluetooth无法查询协商后的MTU，按默认值分包
+  readonly mtu = DEFAULT_BLE_MTU;
+  private device: BluetoothDevice | null;
+  private server: BluetoothRemoteGATTServer | null = null;
+  private characteristics: Map<HapticChannel, BluetoothRemoteGATTCharacteristic> = new Map();
+  private notificationHandlers: Array<{ characteristic: BluetoothRemoteGATTCharacteristic; handler: EventListener }> = [];
+  private disconnectListeners: Array<() => void> = [];
+
+  constructor(private readonly options: { deviceName?: string; device?: BluetoothDevice } = {}) {
+    this.device = options.device || null;
+  }
+
+  get connected(): boolean {
+    return !!this.server?.connected;
+  }
+
+  get deviceId(): string {
+    return this.device?.id || '';
+  }
+
+  get deviceName(): string {
+    return this.device?.name || this.options.deviceName || 'FingerSuit';
+  }
+
+  async connect(): Promise<void> {
+    if (!this.device) {
+      // 检查浏览器是否支持Web Bluetooth
+      if (!navigator.bluetooth) {
+        throw new Error('当前浏览器不支持Web Bluetooth API');
+      }
+
+      // 请求设备
+      this.device = await navigator.bluetooth.requestDevice({
+        filters: [{ name: this.options.deviceName || 'FingerSuit' }],
+        optionalServices: [HAPTIC_SERVICE_UUID]
+      });
+    }
+
+    // 监听设备断开事件
+    this.device.removeEventListener('gattserverdisconnected', this.handleDisconnection);
+    this.device.addEventListener('gattserverdisconnected', this.handleDisconnection);
+
+    // 连接GATT服务器
+    this.server = await this.device.gatt!.connect();
+    console.log('已连接到GATT服务器');
+
+    // 获取触觉反馈服务
+    const service = await this.server.getPrimaryService(HAPTIC_SERVICE_UUID);
+    console.log('已获取触觉反馈服务');
+
+    // 获取所有特征
+    this.characteristics.clear();
+    for (const channel of Object.keys(CHANNEL_UUIDS) as HapticChannel[]) {
+      const uuid = CHANNEL_UUIDS[channel];
+      try {
+        const characteristic = await service.getCharacteristic(uuid);
+        this.characteristics.set(channel, characteristic);
+        console.log(`已获取特征: ${uuid}`);
+      } catch (error) {
+        console.warn(`无法获取特征 ${uuid}:`, error);
+      }
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.server && this.server.connected) {
+      this.server.disconnect();
+    }
+  }
+
+  hasChannel(channel: HapticChannel): boolean {
+    return this.characteristics.has(channel);
+  }
+
+  async write(channel: HapticChannel, data: ArrayBuffer): Promise<void> {
+    await this.getCharacteristic(channel).writeValue(data);
+  }
+
+  async read(channel: HapticChannel): Promise<DataView> {
+    return this.getCharacteristic(channel).readValue();
+  }
+
+  async subscribe(channel: HapticChannel, listener: (data: DataView) => void): Promise<void> {
+    const characteristic = this.getCharacteristic(channel);
+    await characteristic.startNotifications();
+    const handler = (event: Event) => {
+      const target = (event.target as unknown) as BluetoothRemoteGATTCharacteristic;
+      if (target && target.value) {
+        listener(target.value);
+      }
+    };
+    characteristic.addEventListener('characteristicvaluechanged', handler);
+    this.notificationHandlers.push({ characteristic, handler });
+  }
+
+  onDisconnect(listener: () => void) {
+    this.disconnectListeners.push(listener);
+  }
+
+  private getCharacteristic(channel: HapticChannel): BluetoothRemoteGATTCharacteristic {
+    const characteristic = this.characteristics.get(channel);
+    if (!characteristic) {
+      throw new Error(`特征不可用: ${channel}`);
+    }
+    return characteristic;
+  }
+
+  private handleDisconnection = () => {
+    this.server = null;
+    this.characteristics.clear();
+    this.notificationHandlers.forEach(({ characteristic, handler }) => {
+      characteristic.removeEventListener('characteristicvaluechanged', handler);
+    });
+    this.notificationHandlers = [];
+    this.disconnectListeners.forEach(listener => listener());
+  };
+}
+
+// 基于字节帧的传输（WebSocket桥接和串口共用）
+abstract class FramedTransport implements HapticTransport {
+  abstract readonly kind: TransportKind;
+  abstract readonly connected: boolean;
+  abstract readonly deviceId: string;
+  abstract readonly deviceName: string;
+  abstract readonly mtu: number;
+  abstract connect(): Promise<void>;
+  abstract disconnect(): Promise<void>;
+  protected abstract sendFrame(frame: Uint8Array): Promise<void>;
+
+  private subscribers: Map<HapticChannel, Array<(data: DataView) => void>> = new Map();
+  private pendingReads: Map<HapticChannel, Array<(data: DataView) => void>> = new Map();
+  private disconnectListeners: Array<() => void> = [];
+
+  hasChannel(): boolean {
+    // 桥接设备暴露全部通道，具体能力由状态数据决定
+    return true;
+  }
+
+  async write(channel: HapticChannel, data: ArrayBuffer): Promise<void> {
+    await this.sendFrame(this.buildFrame(FrameOp.WRITE, channel, new Uint8Array(data)));
+  }
+
+  read(channel: HapticChannel): Promise<DataView> {
+    return new Promise<DataView>((resolve, reject) => {
+      const waiting = this.pendingReads.get(channel) || [];
+      const timer = setTimeout(() => {
+        const index = waiting.indexOf(handleData);
+        if (index > -1) waiting.splice(index, 1);
+        reject(new Error(`读取超时: ${channel}`));
+      }, READ_TIMEOUT);
+      const handleData = (data: DataView) => {
+        clearTimeout(timer);
+        resolve(data);
+      };
+
+      waiting.push(handleData);
+      this.pendingReads.set(channel, waiting);
+      this.sendFrame(this.buildFrame(FrameOp.READ, channel, new Uint8Array(0))).catch(error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  async subscribe(channel: HapticChannel, listener: (data: DataView) => void): Promise<void> {
+    const listeners = this.subscribers.get(channel) || [];
+    listeners.push(listener);
+    this.subscribers.set(channel, listeners);
+  }
+
+  onDisconnect(listener: () => void) {
+    this.disconnectListeners.push(listener);
+  }
+
+  // 帧格式: [操作码, 通道编号, ...数据]
+  protected buildFrame(op: FrameOp, channel: HapticChannel, payload: Uint8Array): Uint8Array {
+    const frame = new Uint8Array(payload.length + 2);
+    frame[0] = op;
+    frame[1] = CHANNEL_IDS[channel];
+    frame.set(payload, 2);
+    return frame;
+  }
+
+  // 处理设备发来的帧
+  protected handleFrame(frame: Uint8Array) {
+    if (frame.length < 2) return;
+
+    const channel = getChannelById(frame[1]);
+    if (!channel) return;
+
+    const data = new DataView(frame.slice(2).buffer);
+    if (frame[0] === FrameOp.READ_RESPONSE) {
+      // 同一通道的读取按发出顺序应答
+      this.pendingReads.get(channel)?.shift()?.(data);
+    } else if (frame[0] === FrameOp.DATA) {
+      (this.subscribers.get(channel) || []).forEach(listener => listener(data));
+    }
+  }
+
+  protected notifyDisconnected() {
+    this.subscribers.clear();
+    this.pendingReads.clear();
+    this.disconnectListeners.forEach(listener => listener());
+  }
+}
+
+// WebSocket桥接传输（例如serve.cjs中的本地中继）
+export class WebSocketTransport extends FramedTransport {
+  readonly kind = 'websocket' as const;
+  readonly mtu = WEBSOCKET_MTU;
+  private socket: WebSocket | null = null;
+
+  constructor(private readonly options: { url: string; deviceName?: string }) {
+    super();
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  get deviceId(): string {
+    return `ws:${this.options.url}`;
+  }
+
+  get deviceName(): string {
+    return this.options.deviceName || 'FingerSuit';
+  }
+
+  connect(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(this.options.url);
+      socket.binaryType = 'arraybuffer';
+
+      socket.onopen = () => {
+        this.socket = socket;
+        console.log('已连接到WebSocket桥接:', this.options.url);
+        resolve();
+      };
+      socket.onerror = () => {
+        if (this.socket !== socket) {
+          reject(new Error(`无法连接到WebSocket桥接: ${this.options.url}`));
+        }
+      };
+      socket.onclose = () => {
+        if (this.socket === socket) {
+          this.socket = null;
+          this.notifyDisconnected();
+        }
+      };
+      socket.onmessage = (event: MessageEvent) => {
+        if (event.data instanceof ArrayBuffer) {
+          this.handleFrame(new Uint8Array(event.data));
+        }
+      };
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    this.socket?.close();
+  }
+
+  protected async sendFrame(frame: Uint8Array): Promise<void> {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('WebSocket桥接未连接');
+    }
+    this.socket.send(frame);
+  }
+}
+
+// WebSerial串口传输
+export class SerialTransport extends FramedTransport {
+  readonly kind = 'serial' as const;
+  readonly mtu = SERIAL_MTU;
+  private port: SerialPort | null;
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  private buffer: number[] = [];
+  private isOpen = false;
+
+  constructor(private readonly options: { baudRate?: number; deviceName?: string; port?: SerialPort } = {}) {
+    super();
+    this.port = options.port || null;
+  }
+
+  get connected(): boolean {
+    return this.isOpen;
+  }
+
+  get deviceId(): string {
+    const info = this.port?.getInfo();
+    return info ? `serial:${info.usbVendorId ?? 0}:${info.usbProductId ?? 0}` : 'serial';
+  }
+
+  get deviceName(): string {
+    return this.options.deviceName || 'FingerSuit';
+  }
+
+  async connect(): Promise<void> {
+    if (!this.port) {
+      // 检查浏览器是否支持WebSerial
+      if (!navigator.serial) {
+        throw new Error('当前浏览器不支持Web Serial API');
+      }
+      this.port = await navigator.serial.requestPort();
+    }
+
+    await this.port.open({ baudRate: this.options.baudRate || 115200 });
+    this.writer = this.port.writable!.getWriter();
+    this.reader = this.port.readable!.getReader();
+    this.buffer = [];
+    this.isOpen = true;
+    console.log('已打开串口连接');
+
+    this.readLoop();
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.isOpen) return;
+    this.isOpen = false;
+
+    try {
+      await this.reader?.cancel();
+      this.reader?.releaseLock();
+      this.writer?.releaseLock();
+      await this.port?.close();
+    } catch (error) {
+      console.warn('关闭串口失败:', error);
+    }
+
+    this.reader = null;
+    this.writer = null;
+    this.notifyDisconnected();
+  }
+
+  // 串口帧格式: [起始字节, 长度, ...桥接帧]
+  protected async sendFrame(frame: Uint8Array): Promise<void> {
+    if (!this.writer) {
+      throw new Error('串口未连接');
+    }
+    const packet = new Uint8Array(frame.length + 2);
+    packet[0] = SERIAL_START_BYTE;
+    packet[1] = frame.length;
+    packet.set(frame, 2);
+    await this.writer.write(packet);
+  }
+
+  // 持续读取串口数据并拆帧
+  private async readLoop() {
+    try {
+      while (this.isOpen && this.reader) {
+        const { value, done } = await this.reader.read();
+        if (done) break;
+        if (value) {
+          this.buffer.push(...value);
+          this.extractFrames();
+        }
+      }
+    } catch (error) {
+      console.warn('串口读取失败:', error);
+    }
+
+    if (this.isOpen) {
+      await this.disconnect();
+    }
+  }
+
+  private extractFrames() {
+    while (this.buffer.length >= 2) {
+      const start = this.buffer.indexOf(SERIAL_START_BYTE);
+      if (start < 0) {
+        this.buffer = [];
+        return;
+      }
+      if (start > 0) {
+        this.buffer.splice(0, start);
+      }
+      const length = this.buffer[1];
+      if (this.buffer.length < length + 2) return;
+
+      const frame = this.buffer.splice(0, length + 2).slice(2);
+      this.handleFrame(new Uint8Array(frame));
+    }
+  }
+}
+
+// 默认WebSocket桥接地址（serve.cjs中的本地中继）
+export const getDefaultBridgeUrl = (): string => {
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.host}/haptic-bridge`;
+};
+
+// 根据配置创建传输层
+export const createTransport = (options: TransportOptions): HapticTransport => {
+  switch (options.kind) {
+    case 'websocket':
+      return new WebSocketTransport(options);
+    case 'serial':
+      return new SerialTransport(options);
+    case 'bluetooth':
+    default:
+      return new BluetoothTransport(options);
+  }
+};
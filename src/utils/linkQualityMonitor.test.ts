@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LATENCY_HISTOGRAM_BOUNDS,
+  LINK_QUALITY_WINDOW,
+  LinkQualityMonitor,
+  PING_TIMEOUT,
+  classifyConnectionQuality
+} from './linkQualityMonitor';
+
+// 依次发出探测并按给定往返时间应答，null表示丢失
+const probe = (monitor: LinkQualityMonitor, rtts: Array<number | null>, start = 0) => {
+  rtts.forEach((rtt, index) => {
+    const sentAt = start + index * 100;
+    const timestamp = monitor.recordPing(sentAt);
+    if (rtt !== null) {
+      monitor.recordPong(timestamp, sentAt + rtt);
+    }
+  });
+  monitor.expirePending(start + rtts.length * 100 + PING_TIMEOUT);
+};
+
+describe('classifyConnectionQuality', () => {
+  it('按往返时间、抖动和丢包率逐级判定', () => {
+    expect(classifyConnectionQuality(30, 5, 0)).toBe('excellent');
+    expect(classifyConnectionQuality(30, 15, 0)).toBe('good');
+    expect(classifyConnectionQuality(100, 10, 0.05)).toBe('fair');
+    expect(classifyConnectionQuality(30, 5, 0.2)).toBe('poor');
+  });
+});
+
+describe('LinkQualityMonitor', () => {
+  it('尚无结果时没有统计', () => {
+    const monitor = new LinkQualityMonitor();
+    monitor.recordPing(0);
+    expect(monitor.getStats()).toBeNull();
+  });
+
+  it('统计平均往返时间、抖动和直方图', () => {
+    const monitor = new LinkQualityMonitor();
+    probe(monitor, [20, 30, 20, 30]);
+    const stats = monitor.getStats()!;
+    expect(stats.latency).toBe(25);
+    expect(stats.minLatency).toBe(20);
+    expect(stats.maxLatency).toBe(30);
+    expect(stats.jitter).toBe(10);
+    expect(stats.packetLoss).toBe(0);
+    expect(stats.quality).toBe('excellent');
+    expect(stats.histogram[LATENCY_HISTOGRAM_BOUNDS.indexOf(20)]).toBe(2);
+    expect(stats.histogram[LATENCY_HISTOGRAM_BOUNDS.indexOf(30)]).toBe(2);
+  });
+
+  it('超时未应答的探测计为丢失，之后到达的应答被忽略', () => {
+    const monitor = new LinkQualityMonitor();
+    const timestamp = monitor.recordPing(0);
+    expect(monitor.expirePending(PING_TIMEOUT - 1)).toBe(0);
+    expect(monitor.expirePending(PING_TIMEOUT)).toBe(1);
+    expect(monitor.recordPong(timestamp, PING_TIMEOUT + 10)).toBeNull();
+
+    const stats = monitor.getStats()!;
+    expect(stats.packetLoss).toBe(1);
+    expect(stats.quality).toBe('poor');
+    expect(stats.samples).toBe(1);
+  });
+
+  it('抖动按发出顺序计算，不受应答到达顺序影响', () => {
+    const monitor = new LinkQualityMonitor();
+    const first = monitor.recordPing(0);
+    const second = monitor.recordPing(100);
+    monitor.recordPong(second, 120);
+    monitor.recordPong(first, 150);
+    expect(monitor.getStats()!.jitter).toBe(130);
+  });
+
+  it('只保留窗口内的最近探测', () => {
+    const monitor = new LinkQualityMonitor();
+    probe(monitor, Array.from({ length: LINK_QUALITY_WINDOW }, () => null));
+    probe(monitor, Array.from({ length: LINK_QUALITY_WINDOW }, () => 10), 100000);
+    const stats = monitor.getStats()!;
+    expect(stats.samples).toBe(LINK_QUALITY_WINDOW);
+    expect(stats.packetLoss).toBe(0);
+  });
+
+  it('重置后清空所有记录', () => {
+    const monitor = new LinkQualityMonitor();
+    probe(monitor, [10]);
+    const pending = monitor.recordPing(1000);
+    monitor.reset();
+    expect(monitor.getStats()).toBeNull();
+    expect(monitor.recordPong(pending, 1010)).toBeNull();
+  });
+});
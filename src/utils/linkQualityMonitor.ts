@@ -0,0 +1,141 @@
+// 链路质量监测 - 由延迟探测的往返时间统计延迟、丢包率和抖动
+import type { PerformanceMetrics } from '../types';
+
+export type ConnectionQuality = PerformanceMetrics['connectionQuality'];
+
+// 统计窗口内保留的最近探测数
+export const LINK_QUALITY_WINDOW = 50;
+
+// 超过该时间（毫秒）未收到应答的探测计为丢失
+export const PING_TIMEOUT = 2000;
+
+// 延迟直方图各区间的上限（毫秒），最后一个区间收纳更大的值
+export const LATENCY_HISTOGRAM_BOUNDS = [10, 20, 30, 50, 75, 100, 150, 200, 300, Infinity];
+
+// 各连接质量等级的门限（往返时间和抖动单位毫秒，丢包率0-1），依次检查，均不满足为poor
+const QUALITY_THRESHOLDS: Array<{ quality: ConnectionQuality; rtt: number; jitter: number; loss: number }> = [
+  { quality: 'excellent', rtt: 40, jitter: 10, loss: 0.01 },
+  { quality: 'good', rtt: 80, jitter: 20, loss: 0.03 },
+  { quality: 'fair', rtt: 150, jitter: 40, loss: 0.1 }
+];
+
+// 链路质量统计
+export interface LinkQualityStats {
+  latency: number; // 平均往返时间（毫秒）
+  minLatency: number;
+  maxLatency: number;
+  jitter: number; // 相邻往返时间之差的平均值（毫秒）
+  packetLoss: number; // 0-1
+  quality: ConnectionQuality;
+  histogram: number[]; // 按LATENCY_HISTOGRAM_BOUNDS划分的样本数
+  samples: number; // 窗口内已有结果的探测数
+}
+
+// 单次探测结果，rtt为null表示丢失
+interface PingResult {
+  timestamp: number;
+  rtt: number | null;
+}
+
+// 由往返时间、抖动和丢包率判定连接质量
+export const classifyConnectionQuality = (latency: number, jitter: number, packetLoss: number): ConnectionQuality => {
+  const level = QUALITY_THRESHOLDS.find(threshold =>
+    latency <= threshold.rtt && jitter <= threshold.jitter && packetLoss <= threshold.loss
+  );
+  return level ? level.quality : 'poor';
+};
+
+// 链路质量监测类：记录发出的探测和收到的应答，按滑动窗口计算统计
+export class LinkQualityMonitor {
+  private pending: Map<number, number> = new Map(); // 探测时间戳（低32位） -> 发出时间
+  private results: PingResult[] = [];
+
+  // 记录发出的探测，返回写入探测指令的时间戳
+  recordPing(now: number = Date.now()): number {
+    const timestamp = now >>> 0;
+    this.pending.set(timestamp, now);
+    return timestamp;
+  }
+
+  // 记录探测应答，返回往返时间；未知或已超时的应答返回null
+  recordPong(timestamp: number, now: number = Date.now()): number | null {
+    const sentAt = this.pending.get(timestamp);
+    if (sentAt === undefined) {
+      return null;
+    }
+    this.pending.delete(timestamp);
+    const rtt = now - sentAt;
+    this.pushResult({ timestamp: sentAt, rtt });
+    return rtt;
+  }
+
+  // 把超时未应答的探测计为丢失，返回新增的丢失数
+  expirePending(now: number = Date.now(), timeout: number = PING_TIMEOUT): number {
+    let expired = 0;
+    this.pending.forEach((sentAt, timestamp) => {
+      if (now - sentAt >= timeout) {
+        this.pending.delete(timestamp);
+        this.pushResult({ timestamp: sentAt, rtt: null });
+        expired++;
+      }
+    });
+    return expired;
+  }
+
+  private pushResult(result: PingResult) {
+    this.results.push(result);
+    this.results.sort((a, b) => a.timestamp - b.timestamp);
+    if (this.results.length > LINK_QUALITY_WINDOW) {
+      this.results.splice(0, this.results.length - LINK_QUALITY_WINDOW);
+    }
+  }
+
+  // 计算窗口内的统计，尚无结果时返回null
+  getStats(): LinkQualityStats | null {
+    if (this.results.length === 0) {
+      return null;
+    }
+
+    const rtts = this.results.filter(result => result.rtt !== null).map(result => result.rtt as number);
+    const packetLoss = (this.results.length - rtts.length) / this.results.length;
+    const histogram = LATENCY_HISTOGRAM_BOUNDS.map(() => 0);
+    rtts.forEach(rtt => {
+      histogram[LATENCY_HISTOGRAM_BOUNDS.findIndex(bound => rtt <= bound)]++;
+    });
+
+    if (rtts.length === 0) {
+      return {
+        latency: 0,
+        minLatency: 0,
+        maxLatency: 0,
+        jitter: 0,
+        packetLoss,
+        quality: 'poor',
+        histogram,
+        samples: this.results.length
+      };
+    }
+
+    const latency = rtts.reduce((sum, rtt) => sum + rtt, 0) / rtts.length;
+    const jitter = rtts.length > 1
+      ? rtts.slice(1).reduce((sum, rtt, index) => sum + Math.abs(rtt - rtts[index]), 0) / (rtts.length - 1)
+      : 0;
+
+    return {
+      latency,
+      minLatency: Math.min(...rtts),
+      maxLatency: Math.max(...rtts),
+      jitter,
+      packetLoss,
+      quality: classifyConnectionQuality(latency, jitter, packetLoss),
+      histogram,
+      samples: this.results.length
+    };
+  }
+
+  // 清空所有探测记录
+  reset() {
+    this.pending.clear();
+    this.results = [];
+  }
+}
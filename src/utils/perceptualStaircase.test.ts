@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  COMFORT_STAIRCASE,
+  DETECTION_STAIRCASE,
+  MIN_DYNAMIC_RANGE,
+  Staircase,
+  createPerceptualCalibration,
+  mapPerceivedIntensity
+} from './perceptualStaircase';
+
+const dbToRatio = (db: number) => Math.pow(10, db / 20);
+
+describe('Staircase', () => {
+  it('1下1上阶梯在反转后换用较小步长', () => {
+    const staircase = new Staircase(COMFORT_STAIRCASE);
+    staircase.respond(true);
+    const lowered = 0.3 * dbToRatio(-4);
+    expect(staircase.level).toBeCloseTo(lowered);
+
+    staircase.respond(false);
+    expect(staircase.reversals).toBe(1);
+    expect(staircase.level).toBeCloseTo(lowered * dbToRatio(2));
+    expect(staircase.getEstimate()).toBeCloseTo(lowered);
+  });
+
+  it('2下1上阶梯连续两次阳性才降低强度', () => {
+    const staircase = new Staircase(DETECTION_STAIRCASE);
+    staircase.respond(true);
+    expect(staircase.level).toBe(DETECTION_STAIRCASE.startLevel);
+    staircase.respond(true);
+    expect(staircase.level).toBeCloseTo(DETECTION_STAIRCASE.startLevel * dbToRatio(-6));
+  });
+
+  it('确定性观察者的估计值收敛到其阈值附近', () => {
+    const threshold = 0.08;
+    const staircase = new Staircase(DETECTION_STAIRCASE);
+    while (!staircase.finished) {
+      staircase.respond(staircase.level >= threshold);
+    }
+    expect(staircase.reversals).toBe(DETECTION_STAIRCASE.maxReversals);
+    const estimate = staircase.getEstimate()!;
+    expect(estimate).toBeGreaterThan(threshold * dbToRatio(-3));
+    expect(estimate).toBeLessThan(threshold * dbToRatio(3));
+  });
+
+  it('强度钳位在范围内，反应一直不变时按试次上限结束', () => {
+    const staircase = new Staircase(COMFORT_STAIRCASE);
+    while (!staircase.finished) {
+      staircase.respond(false);
+    }
+    expect(staircase.level).toBe(COMFORT_STAIRCASE.maxLevel);
+    expect(staircase.getTrials()).toHaveLength(COMFORT_STAIRCASE.maxTrials);
+    expect(staircase.getEstimate()).toBeNull();
+
+    staircase.respond(true);
+    expect(staircase.getTrials()).toHaveLength(COMFORT_STAIRCASE.maxTrials);
+  });
+});
+
+describe('感知校准', () => {
+  it('舒适上限不低于察觉阈值加最小跨度', () => {
+    const calibration = createPerceptualCalibration(0.4, 0.42, 200);
+    expect(calibration.detectionThreshold).toBe(0.4);
+    expect(calibration.comfortableMax).toBeCloseTo(0.4 + MIN_DYNAMIC_RANGE);
+    expect(calibration.frequency).toBe(200);
+  });
+
+  it('察觉阈值过高时留出最小跨度', () => {
+    const calibration = createPerceptualCalibration(1, 1, 200);
+    expect(calibration.detectionThreshold).toBeCloseTo(1 - MIN_DYNAMIC_RANGE);
+    expect(calibration.comfortableMax).toBe(1);
+  });
+
+  it('效果强度线性映射到察觉阈值和舒适上限之间，0保持关闭', () => {
+    const calibration = createPerceptualCalibration(0.2, 0.6, 200);
+    expect(mapPerceivedIntensity(0, calibration)).toBe(0);
+    expect(mapPerceivedIntensity(0.01, calibration)).toBeCloseTo(0.204);
+    expect(mapPerceivedIntensity(0.5, calibration)).toBeCloseTo(0.4);
+    expect(mapPerceivedIntensity(2, calibration)).toBeCloseTo(0.6);
+    expect(mapPerceivedIntensity(0.5, null)).toBe(0.5);
+  });
+});
@@ -0,0 +1,159 @@
+// 感知阈值测试 - 自适应阶梯法测量用户的振动察觉阈值和舒适上限，并生成强度映射
+import type { PerceptualCalibration } from '../types';
+
+// 阶梯法参数，步长单位为分贝（强度按比例升降）
+export interface StaircaseOptions {
+  startLevel: number;
+  minLevel: number;
+  maxLevel: number;
+  stepSizes: number[]; // 第n次反转后使用stepSizes[n]，超出时使用最后一个
+  downAfter: number; // 连续多少次阳性反应后降低强度
+  upAfter: number; // 连续多少次阴性反应后提高强度
+  maxReversals: number; // 达到该反转次数后结束
+  averageReversals: number; // 估计值取最后几次反转强度的几何平均
+  maxTrials: number; // 试次上限，防止反应不稳定时测试无法结束
+}
+
+// 单次试次记录
+export interface StaircaseTrial {
+  level: number;
+  positive: boolean;
+}
+
+// 察觉阈值：两段强迫选择，答对为阳性，2下1上收敛到70.7%正确率
+export const DETECTION_STAIRCASE: StaircaseOptions = {
+  startLevel: 0.3,
+  minLevel: 0.005,
+  maxLevel: 1,
+  stepSizes: [6, 3, 1.5],
+  downAfter: 2,
+  upAfter: 1,
+  maxReversals: 8,
+  averageReversals: 6,
+  maxTrials: 60
+};
+
+// 舒适上限：回答“太强”为阳性，1下1上收敛到50%认为过强的强度
+export const COMFORT_STAIRCASE: StaircaseOptions = {
+  startLevel: 0.3,
+  minLevel: 0.05,
+  maxLevel: 1,
+  stepSizes: [4, 2, 1],
+  downAfter: 1,
+  upAfter: 1,
+  maxReversals: 6,
+  averageReversals: 4,
+  maxTrials: 40
+};
+
+// 察觉阈值到舒适上限的最小跨度，保证映射后仍有可分辨的强度层次
+export const MIN_DYNAMIC_RANGE = 0.05;
+
+const dbToRatio = (db: number): number => Math.pow(10, db / 20);
+
+// 自适应阶梯法
+export class Staircase {
+  private options: StaircaseOptions;
+  private currentLevel: number;
+  private trials: StaircaseTrial[] = [];
+  private reversalLevels: number[] = [];
+  private positiveRun = 0;
+  private negativeRun = 0;
+  private lastDirection: -1 | 0 | 1 = 0;
+
+  constructor(options: StaircaseOptions) {
+    this.options = options;
+    this.currentLevel = options.startLevel;
+  }
+
+  // 下一试次的强度
+  get level(): number {
+    return this.currentLevel;
+  }
+
+  get finished(): boolean {
+    return this.reversalLevels.length >= this.options.maxReversals || this.trials.length >= this.options.maxTrials;
+  }
+
+  get reversals(): number {
+    return this.reversalLevels.length;
+  }
+
+  getTrials(): StaircaseTrial[] {
+    return [...this.trials];
+  }
+
+  // 记录当前强度下的反应并调整下一试次的强度
+  respond(positive: boolean) {
+    if (this.finished) {
+      return;
+    }
+    this.trials.push({ level: this.currentLevel, positive });
+
+    if (positive) {
+      this.positiveRun++;
+      this.negativeRun = 0;
+      if (this.positiveRun >= this.options.downAfter) {
+        this.positiveRun = 0;
+        this.move(-1);
+      }
+    } else {
+      this.negativeRun++;
+      this.positiveRun = 0;
+      if (this.negativeRun >= this.options.upAfter) {
+        this.negativeRun = 0;
+        this.move(1);
+      }
+    }
+  }
+
+  private move(direction: -1 | 1) {
+    if (this.lastDirection !== 0 && direction !== this.lastDirection) {
+      this.reversalLevels.push(this.currentLevel);
+    }
+    this.lastDirection = direction;
+
+    const { stepSizes, minLevel, maxLevel } = this.options;
+    const step = stepSizes[Math.min(this.reversalLevels.length, stepSizes.length - 1)];
+    const next = this.currentLevel * dbToRatio(direction * step);
+    this.currentLevel = Math.max(minLevel, Math.min(maxLevel, next));
+  }
+
+  // 阈值估计：最后几次反转强度的几何平均，尚无反转时返回null
+  getEstimate(): number | null {
+    if (this.reversalLevels.length === 0) {
+      return null;
+    }
+    const levels = this.reversalLevels.slice(-this.options.averageReversals);
+    const logMean = levels.reduce((sum, level) => sum + Math.log(level), 0) / levels.length;
+    return Math.exp(logMean);
+  }
+}
+
+// 由测得的察觉阈值和舒适上限生成感知校准（舒适上限不低于阈值加最小跨度）
+export const createPerceptualCalibration = (
+  detectionThreshold: number,
+  comfortableMax: number,
+  frequency: number
+): PerceptualCalibration => {
+  const threshold = Math.max(0, Math.min(1 - MIN_DYNAMIC_RANGE, detectionThreshold));
+  return {
+    detectionThreshold: threshold,
+    comfortableMax: Math.min(1, Math.max(threshold + MIN_DYNAMIC_RANGE, comfortableMax)),
+    frequency,
+    measuredAt: Date.now()
+  };
+};
+
+// 把效果强度（0-1）映射到设备强度：0保持关闭，其余线性映射到[察觉阈值, 舒适上限]
+export const mapPerceivedIntensity = (intensity: number, perception: PerceptualCalibration | null): number => {
+  if (intensity <= 0) {
+    return 0;
+  }
+  const clamped = Math.min(1, intensity);
+  if (!perception) {
+    return clamped;
+  }
+  const { detectionThreshold, comfortableMax } = perception;
+  return detectionThreshold + (comfortableMax - detectionThreshold) * clamped;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  IDENTITY_QUATERNION,
+  MadgwickFilter,
+  classifyContactSide,
+  conjugateQuaternion,
+  multiplyQuaternions,
+  quaternionFromAxisAngle,
+  rotateVector,
+  toSceneOrientation
+} from './sensorFusion';
+import type { IMUData, Point3D } from '../types';
+
+const ZERO: Point3D = { x: 0, y: 0, z: 0 };
+const UP: Point3D = { x: 0, y: 0, z: 1 };
+
+// 生成一帧IMU数据，默认静止水平放置且没有磁力计
+const sample = (timestamp: number, data: Partial<Omit<IMUData, 'timestamp'>> = {}): IMUData => ({
+  acceleration: UP,
+  gyroscope: ZERO,
+  magnetometer: ZERO,
+  timestamp,
+  ...data
+});
+
+const expectVectorClose = (actual: Point3D, expected: Point3D, digits = 3) => {
+  expect(actual.x).toBeCloseTo(expected.x, digits);
+  expect(actual.y).toBeCloseTo(expected.y, digits);
+  expect(actual.z).toBeCloseTo(expected.z, digits);
+};
+
+describe('四元数运算', () => {
+  it('绕z轴旋转90°把x轴转到y轴', () => {
+    const q = quaternionFromAxisAngle(UP, Math.PI / 2);
+    expectVectorClose(rotateVector(q, { x: 1, y: 0, z: 0 }), { x: 0, y: 1, z: 0 });
+  });
+
+  it('与共轭相乘得到单位四元数', () => {
+    const q = quaternionFromAxisAngle({ x: 1, y: 2, z: 3 }, 0.7);
+    const product = multiplyQuaternions(q, conjugateQuaternion(q));
+    product.forEach((value, index) => expect(value).toBeCloseTo(IDENTITY_QUATERNION[index]));
+  });
+});
+
+describe('MadgwickFilter', () => {
+  it('首帧由重力方向直接对齐姿态', () => {
+    const filter = new MadgwickFilter();
+    // 传感器y轴朝上
+    const q = filter.update(sample(0, { acceleration: { x: 0, y: 9.8, z: 0 } }));
+    expectVectorClose(rotateVector(q, { x: 0, y: 1, z: 0 }), UP);
+  });
+
+  it('有磁力计时首帧航向对准磁北', () => {
+    const filter = new MadgwickFilter();
+    const q = filter.update(sample(0, { magnetometer: { x: 0, y: 20, z: -40 } }));
+    expectVectorClose(rotateVector(q, { x: 0, y: 1, z: 0 }), { x: 1, y: 0, z: 0 });
+    expectVectorClose(rotateVector(q, UP), UP);
+  });
+
+  it('陀螺仪积分跟踪旋转', () => {
+    const filter = new MadgwickFilter(0);
+    filter.update(sample(0));
+    let q = IDENTITY_QUATERNION;
+    for (let i = 1; i <= 50; i++) {
+      q = filter.update(sample(i * 20, { gyroscope: { x: 0, y: 0, z: Math.PI / 2 } }));
+    }
+    expectVectorClose(rotateVector(q, { x: 1, y: 0, z: 0 }), { x: 0, y: 1, z: 0 }, 2);
+  });
+
+  it('加速度计修正使姿态收敛到重力方向', () => {
+    const filter = new MadgwickFilter();
+    filter.update(sample(0));
+
+    // 传感器倾斜30°后静止，重力在传感器坐标系中的方向随之改变
+    const tilt = quaternionFromAxisAngle({ x: 1, y: 0, z: 0 }, Math.PI / 6);
+    const gravity = rotateVector(conjugateQuaternion(tilt), UP);
+    let q = IDENTITY_QUATERNION;
+    for (let i = 1; i <= 500; i++) {
+      q = filter.update(sample(i * 20, { acceleration: gravity }));
+    }
+    expectVectorClose(rotateVector(q, gravity), UP, 2);
+  });
+
+  it('采样间隔异常时按默认间隔积分', () => {
+    const filter = new MadgwickFilter(0);
+    filter.update(sample(0));
+    const q = filter.update(sample(60000, { gyroscope: { x: 0, y: 0, z: 1 } }));
+    // 默认间隔20毫秒，只转过0.02弧度
+    expect(2 * Math.asin(q[2])).toBeCloseTo(0.02, 4);
+  });
+
+  it('重置后回到初始姿态', () => {
+    const filter = new MadgwickFilter();
+    filter.update(sample(0, { acceleration: { x: 1, y: 0, z: 0 } }));
+    filter.reset();
+    expect(filter.getQuaternion()).toEqual(IDENTITY_QUATERNION);
+  });
+});
+
+describe('classifyContactSide', () => {
+  it('手掌朝下时从上方接近为指甲接触，从下方接近为指腹接触', () => {
+    const level = toSceneOrientation(IDENTITY_QUATERNION);
+    expect(classifyContactSide(level, { x: 0, y: -1, z: 0 })).toBe('pad');
+    expect(classifyContactSide(level, { x: 0, y: 1, z: 0 })).toBe('nail');
+  });
+
+  it('手指翻转后接触面随之翻转', () => {
+    const flipped = toSceneOrientation(quaternionFromAxisAngle({ x: 1, y: 0, z: 0 }, Math.PI));
+    expect(classifyContactSide(flipped, { x: 0, y: -1, z: 0 })).toBe('nail');
+  });
+});
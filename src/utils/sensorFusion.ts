@@ -0,0 +1,312 @@
+// 传感器融合 - 用Madgwick滤波把指尖IMU数据融合为姿态四元数
+import type { IMUData, Point3D, Quaternion, ContactSide } from '../types';
+
+// 四元数分量顺序为 [x, y, z, w]，与Three.js的Quaternion.fromArray一致
+export const IDENTITY_QUATERNION: Quaternion = [0, 0, 0, 1];
+
+// 滤波增益：越大越信任加速度计/磁力计，收敛快但抖动大
+const DEFAULT_BETA = 0.1;
+
+// 两次采样间隔超出该范围（秒）时按默认间隔计算，避免断线重连后一次积分过大
+const MAX_SAMPLE_INTERVAL = 0.1;
+const DEFAULT_SAMPLE_INTERVAL = 0.02;
+
+// IMU贴在指甲上，z轴垂直指甲向外，指腹朝向传感器坐标系的 -z
+export const PAD_NORMAL: Point3D = { x: 0, y: 0, z: -1 };
+
+// 地球坐标系（z轴向上）到场景坐标系（y轴向上）的旋转：绕x轴-90°
+const EARTH_TO_SCENE: Quaternion = [-Math.SQRT1_2, 0, 0, Math.SQRT1_2];
+
+// 四元数乘法 a ⊗ b
+export const multiplyQuaternions = (a: Quaternion, b: Quaternion): Quaternion => {
+  const [ax, ay, az, aw] = a;
+  const [bx, by, bz, bw] = b;
+  return [
+    aw * bx + ax * bw + ay * bz - az * by,
+    aw * by - ax * bz + ay * bw + az * bx,
+    aw * bz + ax * by - ay * bx + az * bw,
+    aw * bw - ax * bx - ay * by - az * bz
+  ];
+};
+
+// 共轭（单位四元数的逆旋转）
+export const conjugateQuaternion = (q: Quaternion): Quaternion => [-q[0], -q[1], -q[2], q[3]];
+
+// 归一化四元数
+export const normalizeQuaternion = (q: Quaternion): Quaternion => {
+  const norm = Math.hypot(q[0], q[1], q[2], q[3]);
+  return norm > 0 ? [q[0] / norm, q[1] / norm, q[2] / norm, q[3] / norm] : [...IDENTITY_QUATERNION];
+};
+
+// 由旋转轴和角度（弧度）构建四元数
+export const quaternionFromAxisAngle = (axis: Point3D, angle: number): Quaternion => {
+  const length = Math.hypot(axis.x, axis.y, axis.z) || 1;
+  const s = Math.sin(angle / 2) / length;
+  return [axis.x * s, axis.y * s, axis.z * s, Math.cos(angle / 2)];
+};
+
+// 用四元数旋转向量
+export const rotateVector = (q: Quaternion, v: Point3D): Point3D => {
+  const [x, y, z, w] = q;
+  // t = 2 * (q.xyz × v)
+  const tx = 2 * (y * v.z - z * v.y);
+  const ty = 2 * (z * v.x - x * v.z);
+  const tz = 2 * (x * v.y - y * v.x);
+  return {
+    x: v.x + w * tx + (y * tz - z * ty),
+    y: v.y + w * ty + (z * tx - x * tz),
+    z: v.z + w * tz + (x * ty - y * tx)
+  };
+};
+
+const normalizeVector = (v: Point3D): Point3D | null => {
+  const length = Math.hypot(v.x, v.y, v.z);
+  return length > 0 ? { x: v.x / length, y: v.y / length, z: v.z / length } : null;
+};
+
+const cross = (a: Point3D, b: Point3D): Point3D => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x
+});
+
+// 由旋转矩阵的三行构建四元数
+const quaternionFromRows = (r0: Point3D, r1: Point3D, r2: Point3D): Quaternion => {
+  const trace = r0.x + r1.y + r2.z;
+  if (trace > 0) {
+    const s = Math.sqrt(trace + 1) * 2;
+    return normalizeQuaternion([(r2.y - r1.z) / s, (r0.z - r2.x) / s, (r1.x - r0.y) / s, s / 4]);
+  }
+  if (r0.x > r1.y && r0.x > r2.z) {
+    const s = Math.sqrt(1 + r0.x - r1.y - r2.z) * 2;
+    return normalizeQuaternion([s / 4, (r0.y + r1.x) / s, (r0.z + r2.x) / s, (r2.y - r1.z) / s]);
+  }
+  if (r1.y > r2.z) {
+    const s = Math.sqrt(1 + r1.y - r0.x - r2.z) * 2;
+    return normalizeQuaternion([(r0.y + r1.x) / s, s / 4, (r1.z + r2.y) / s, (r0.z - r2.x) / s]);
+  }
+  const s = Math.sqrt(1 + r2.z - r0.x - r1.y) * 2;
+  return normalizeQuaternion([(r0.z + r2.x) / s, (r1.z + r2.y) / s, s / 4, (r1.x - r0.y) / s]);
+};
+
+// 把滤波器输出（传感器→地球坐标系）转换为场景坐标系下的姿态
+export const toSceneOrientation = (q: Quaternion): Quaternion => {
+  return multiplyQuaternions(EARTH_TO_SCENE, q);
+};
+
+// 根据场景姿态和指尖接近物体表面的方向判断是指腹还是指甲接触
+export const classifyContactSide = (sceneOrientation: Quaternion, approach: Point3D): ContactSide => {
+  const pad = rotateVector(sceneOrientation, PAD_NORMAL);
+  return pad.x * approach.x + pad.y * approach.y + pad.z * approach.z >= 0 ? 'pad' : 'nail';
+};
+
+// Madgwick姿态滤波器（有磁力计数据时使用MARG版本，否则只融合加速度计和陀螺仪）
+export class MadgwickFilter {
+  // 内部按 w, x, y, z 存储，与原论文的推导一致
+  private q0 = 1;
+  private q1 = 0;
+  private q2 = 0;
+  private q3 = 0;
+  private lastTimestamp: number | null = null;
+
+  constructor(private beta: number = DEFAULT_BETA) {}
+
+  // 重置为初始姿态
+  reset() {
+    this.q0 = 1;
+    this.q1 = 0;
+    this.q2 = 0;
+    this.q3 = 0;
+    this.lastTimestamp = null;
+  }
+
+  setBeta(beta: number) {
+    this.beta = Math.max(0, beta);
+  }
+
+  // 融合一帧IMU数据，返回传感器相对地球坐标系的姿态
+  update(data: IMUData): Quaternion {
+    // 首帧直接由重力和地磁方向确定姿态，否则梯度下降要十几秒才能收敛
+    if (this.lastTimestamp === null && this.alignToReference(data)) {
+      this.lastTimestamp = data.timestamp;
+      return this.getQuaternion();
+    }
+
+    let dt = this.lastTimestamp === null ? DEFAULT_SAMPLE_INTERVAL : (data.timestamp - this.lastTimestamp) / 1000;
+    if (dt <= 0 || dt > MAX_SAMPLE_INTERVAL) {
+      dt = DEFAULT_SAMPLE_INTERVAL;
+    }
+    this.lastTimestamp = data.timestamp;
+
+    const { x: gx, y: gy, z: gz } = data.gyroscope;
+    const { x: ax, y: ay, z: az } = data.acceleration;
+    const { x: mx, y: my, z: mz } = data.magnetometer;
+
+    if (mx === 0 && my === 0 && mz === 0) {
+      this.updateIMU(gx, gy, gz, ax, ay, az, dt);
+    } else {
+      this.updateMARG(gx, gy, gz, ax, ay, az, mx, my, mz, dt);
+    }
+    return this.getQuaternion();
+  }
+
+  // 当前姿态 [x, y, z, w]
+  getQuaternion(): Quaternion {
+    return [this.q1, this.q2, this.q3, this.q0];
+  }
+
+  // 用加速度（向上）和磁场（向北）在传感器坐标系中的方向构建姿态，没有磁力计时航向取传感器x轴
+  private alignToReference(data: IMUData): boolean {
+    const up = normalizeVector(data.acceleration);
+    if (!up) {
+      return false;
+    }
+
+    const hasMagnetometer = data.magnetometer.x !== 0 || data.magnetometer.y !== 0 || data.magnetometer.z !== 0;
+    const reference = hasMagnetometer ? data.magnetometer : { x: 1, y: 0, z: 0 };
+    const along = reference.x * up.x + reference.y * up.y + reference.z * up.z;
+    const north = normalizeVector({
+      x: reference.x - along * up.x,
+      y: reference.y - along * up.y,
+      z: reference.z - along * up.z
+    });
+    if (!north) {
+      return false;
+    }
+    const west = cross(up, north);
+
+    // 旋转矩阵各行为地球坐标轴在传感器坐标系中的方向
+    const [x, y, z, w] = quaternionFromRows(north, west, up);
+    this.q0 = w;
+    this.q1 = x;
+    this.q2 = y;
+    this.q3 = z;
+    return true;
+  }
+
+  // 陀螺仪积分加梯度下降修正
+  private integrate(gx: number, gy: number, gz: number, s0: number, s1: number, s2: number, s3: number, dt: number) {
+    const { q0, q1, q2, q3 } = this;
+    let qDot1 = 0.5 * (-q1 * gx - q2 * gy - q3 * gz);
+    let qDot2 = 0.5 * (q0 * gx + q2 * gz - q3 * gy);
+    let qDot3 = 0.5 * (q0 * gy - q1 * gz + q3 * gx);
+    let qDot4 = 0.5 * (q0 * gz + q1 * gy - q2 * gx);
+
+    const norm = Math.hypot(s0, s1, s2, s3);
+    if (norm > 0) {
+      qDot1 -= this.beta * s0 / norm;
+      qDot2 -= this.beta * s1 / norm;
+      qDot3 -= this.beta * s2 / norm;
+      qDot4 -= this.beta * s3 / norm;
+    }
+
+    const next = normalizeQuaternion([q1 + qDot2 * dt, q2 + qDot3 * dt, q3 + qDot4 * dt, q0 + qDot1 * dt]);
+    [this.q1, this.q2, this.q3, this.q0] = next;
+  }
+
+  // 只用加速度计修正俯仰和横滚
+  private updateIMU(gx: number, gy: number, gz: number, ax: number, ay: number, az: number, dt: number) {
+    const accelNorm = Math.hypot(ax, ay, az);
+    if (accelNorm === 0) {
+      this.integrate(gx, gy, gz, 0, 0, 0, 0, dt);
+      return;
+    }
+    ax /= accelNorm;
+    ay /= accelNorm;
+    az /= accelNorm;
+
+    const { q0, q1, q2, q3 } = this;
+    const _2q0 = 2 * q0;
+    const _2q1 = 2 * q1;
+    const _2q2 = 2 * q2;
+    const _2q3 = 2 * q3;
+    const _4q0 = 4 * q0;
+    const _4q1 = 4 * q1;
+    const _4q2 = 4 * q2;
+    const _8q1 = 8 * q1;
+    const _8q2 = 8 * q2;
+    const q0q0 = q0 * q0;
+    const q1q1 = q1 * q1;
+    const q2q2 = q2 * q2;
+    const q3q3 = q3 * q3;
+
+    const s0 = _4q0 * q2q2 + _2q2 * ax + _4q0 * q1q1 - _2q1 * ay;
+    const s1 = _4q1 * q3q3 - _2q3 * ax + 4 * q0q0 * q1 - _2q0 * ay - _4q1 + _8q1 * q1q1 + _8q1 * q2q2 + _4q1 * az;
+    const s2 = 4 * q0q0 * q2 + _2q0 * ax + _4q2 * q3q3 - _2q3 * ay - _4q2 + _8q2 * q1q1 + _8q2 * q2q2 + _4q2 * az;
+    const s3 = 4 * q1q1 * q3 - _2q1 * ax + 4 * q2q2 * q3 - _2q2 * ay;
+
+    this.integrate(gx, gy, gz, s0, s1, s2, s3, dt);
+  }
+
+  // 加速度计修正俯仰和横滚，磁力计修正航向
+  private updateMARG(
+    gx: number, gy: number, gz: number,
+    ax: number, ay: number, az: number,
+    mx: number, my: number, mz: number,
+    dt: number
+  ) {
+    const accelNorm = Math.hypot(ax, ay, az);
+    const magNorm = Math.hypot(mx, my, mz);
+    if (accelNorm === 0 || magNorm === 0) {
+      this.updateIMU(gx, gy, gz, ax, ay, az, dt);
+      return;
+    }
+    ax /= accelNorm;
+    ay /= accelNorm;
+    az /= accelNorm;
+    mx /= magNorm;
+    my /= magNorm;
+    mz /= magNorm;
+
+    const { q0, q1, q2, q3 } = this;
+    const _2q0mx = 2 * q0 * mx;
+    const _2q0my = 2 * q0 * my;
+    const _2q0mz = 2 * q0 * mz;
+    const _2q1mx = 2 * q1 * mx;
+    const _2q0 = 2 * q0;
+    const _2q1 = 2 * q1;
+    const _2q2 = 2 * q2;
+    const _2q3 = 2 * q3;
+    const _2q0q2 = 2 * q0 * q2;
+    const _2q2q3 = 2 * q2 * q3;
+    const q0q0 = q0 * q0;
+    const q0q1 = q0 * q1;
+    const q0q2 = q0 * q2;
+    const q0q3 = q0 * q3;
+    const q1q1 = q1 * q1;
+    const q1q2 = q1 * q2;
+    const q1q3 = q1 * q3;
+    const q2q2 = q2 * q2;
+    const q2q3 = q2 * q3;
+    const q3q3 = q3 * q3;
+
+    // 地磁场在地球坐标系中的参考方向
+    const hx = mx * q0q0 - _2q0my * q3 + _2q0mz * q2 + mx * q1q1 + _2q1 * my * q2 + _2q1 * mz * q3 - mx * q2q2 - mx * q3q3;
+    const hy = _2q0mx * q3 + my * q0q0 - _2q0mz * q1 + _2q1mx * q2 - my * q1q1 + my * q2q2 + _2q2 * mz * q3 - my * q3q3;
+    const _2bx = Math.hypot(hx, hy);
+    const _2bz = -_2q0mx * q2 + _2q0my * q1 + mz * q0q0 + _2q1mx * q3 - mz * q1q1 + _2q2 * my * q3 - mz * q2q2 + mz * q3q3;
+    const _4bx = 2 * _2bx;
+    const _4bz = 2 * _2bz;
+
+    const s0 = -_2q2 * (2 * q1q3 - _2q0q2 - ax) + _2q1 * (2 * q0q1 + _2q2q3 - ay)
+      - _2bz * q2 * (_2bx * (0.5 - q2q2 - q3q3) + _2bz * (q1q3 - q0q2) - mx)
+      + (-_2bx * q3 + _2bz * q1) * (_2bx * (q1q2 - q0q3) + _2bz * (q0q1 + q2q3) - my)
+      + _2bx * q2 * (_2bx * (q0q2 + q1q3) + _2bz * (0.5 - q1q1 - q2q2) - mz);
+    const s1 = _2q3 * (2 * q1q3 - _2q0q2 - ax) + _2q0 * (2 * q0q1 + _2q2q3 - ay)
+      - 4 * q1 * (1 - 2 * q1q1 - 2 * q2q2 - az)
+      + _2bz * q3 * (_2bx * (0.5 - q2q2 - q3q3) + _2bz * (q1q3 - q0q2) - mx)
+      + (_2bx * q2 + _2bz * q0) * (_2bx * (q1q2 - q0q3) + _2bz * (q0q1 + q2q3) - my)
+      + (_2bx * q3 - _4bz * q1) * (_2bx * (q0q2 + q1q3) + _2bz * (0.5 - q1q1 - q2q2) - mz);
+    const s2 = -_2q0 * (2 * q1q3 - _2q0q2 - ax) + _2q3 * (2 * q0q1 + _2q2q3 - ay)
+      - 4 * q2 * (1 - 2 * q1q1 - 2 * q2q2 - az)
+      + (-_4bx * q2 - _2bz * q0) * (_2bx * (0.5 - q2q2 - q3q3) + _2bz * (q1q3 - q0q2) - mx)
+      + (_2bx * q1 + _2bz * q3) * (_2bx * (q1q2 - q0q3) + _2bz * (q0q1 + q2q3) - my)
+      + (_2bx * q0 - _4bz * q2) * (_2bx * (q0q2 + q1q3) + _2bz * (0.5 - q1q1 - q2q2) - mz);
+    const s3 = _2q1 * (2 * q1q3 - _2q0q2 - ax) + _2q2 * (2 * q0q1 + _2q2q3 - ay)
+      + (-_4bx * q3 + _2bz * q1) * (_2bx * (0.5 - q2q2 - q3q3) + _2bz * (q1q3 - q0q2) - mx)
+      + (-_2bx * q0 + _2bz * q2) * (_2bx * (q1q2 - q0q3) + _2bz * (q0q1 + q2q3) - my)
+      + _2bx * q1 * (_2bx * (q0q2 + q1q3) + _2bz * (0.5 - q1q1 - q2q2) - mz);
+
+    this.integrate(gx, gy, gz, s0, s1, s2, s3, dt);
+  }
+}
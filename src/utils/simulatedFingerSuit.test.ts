@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SimulatedFingerSuit } from './simulatedFingerSuit';
+import {
+  AckResult,
+  BATTERY_CHARACTERISTIC_UUID,
+  HAPTIC_SERVICE_UUID,
+  PROTOCOL_VERSION_FRAMED,
+  PROTOCOL_VERSION_LEGACY,
+  STATUS_CHARACTERISTIC_UUID,
+  TEMPERATURE_CHARACTERISTIC_UUID,
+  VIBRATION_CHARACTERISTIC_UUID,
+  encodeFrame,
+  encodeStopAll,
+  encodeVibration,
+  encodeWaveformPlay,
+  parseAck,
+  parseStatusData
+} from './hapticProtocol';
+import type { CommandAck } from './hapticProtocol';
+import type { SimulatedFingerSuitOptions } from './simulatedFingerSuit';
+
+const VIBRATION = { intensity: 0.8, frequency: 200, duration: 1000, pattern: 'sharp' as const };
+
+// 连接模拟设备并订阅状态通知，返回写入函数和收到的应答
+const connectSuit = async (options: SimulatedFingerSuitOptions = {}) => {
+  const suit = new SimulatedFingerSuit({ batteryDrainInterval: 0, sensorInterval: 0, ...options });
+  const server = await suit.device.gatt!.connect();
+  const service = await server.getPrimaryService(HAPTIC_SERVICE_UUID);
+  const status = await service.getCharacteristic(STATUS_CHARACTERISTIC_UUID);
+  const acks: CommandAck[] = [];
+  await status.startNotifications();
+  status.addEventListener('characteristicvaluechanged', () => {
+    const ack = status.value && parseAck(status.value);
+    if (ack) acks.push(ack);
+  });
+
+  const write = async (uuid: string, data: ArrayBuffer) => {
+    const characteristic = await service.getCharacteristic(uuid);
+    await characteristic.writeValue(data);
+  };
+  return { suit, service, write, acks };
+};
+
+describe('SimulatedFingerSuit', () => {
+  let suit: SimulatedFingerSuit | null = null;
+
+  afterEach(() => {
+    suit?.dispose();
+    suit = null;
+    vi.restoreAllMocks();
+  });
+
+  it('读取状态特征返回电量、能力和协议版本', async () => {
+    const connection = await connectSuit({ batteryLevel: 64, firmwareVersion: '2.3.4' });
+    suit = connection.suit;
+    const status = await connection.service.getCharacteristic(STATUS_CHARACTERISTIC_UUID);
+    const parsed = parseStatusData(await status.readValue());
+    expect(parsed.batteryLevel).toBe(64);
+    expect(parsed.firmwareVersion).toBe('2.3.4');
+    expect(parsed.capabilities.vibration).toBe(true);
+    expect(parsed.protocolVersion).toBe(PROTOCOL_VERSION_FRAMED);
+  });
+
+  it('执行带序号的指令并应答OK', async () => {
+    const connection = await connectSuit();
+    suit = connection.suit;
+    await connection.write(VIBRATION_CHARACTERISTIC_UUID, encodeFrame(encodeVibration(VIBRATION), 1));
+    expect(connection.acks).toEqual([{ sequence: 1, result: AckResult.OK }]);
+    expect(suit.getState().vibration).toMatchObject({ pattern: 'sharp', frequency: 200 });
+  });
+
+  it('校验和错误的数据包被拒绝并应答CHECKSUM_ERROR', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const connection = await connectSuit();
+    suit = connection.suit;
+    const packet = new Uint8Array(encodeVibration(VIBRATION));
+    packet[7] ^= 0xFF;
+    await connection.write(VIBRATION_CHARACTERISTIC_UUID, encodeFrame(packet.buffer, 1));
+    expect(connection.acks).toEqual([{ sequence: 1, result: AckResult.CHECKSUM_ERROR }]);
+    expect(suit.getState().rejectedPackets).toBe(1);
+    expect(suit.getState().vibration).toBeNull();
+  });
+
+  it('重发的指令只应答不重复执行，较早的序号应答STALE', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const connection = await connectSuit();
+    suit = connection.suit;
+    const commands: unknown[] = [];
+    suit.addEventListener('command', command => commands.push(command));
+
+    await connection.write(VIBRATION_CHARACTERISTIC_UUID, encodeFrame(encodeVibration(VIBRATION), 5));
+    await connection.write(VIBRATION_CHARACTERISTIC_UUID, encodeFrame(encodeVibration(VIBRATION), 5));
+    await connection.write(TEMPERATURE_CHARACTERISTIC_UUID, encodeFrame(encodeStopAll(), 4));
+
+    expect(commands).toHaveLength(1);
+    expect(connection.acks).toEqual([
+      { sequence: 5, result: AckResult.OK },
+      { sequence: 5, result: AckResult.OK },
+      { sequence: 4, result: AckResult.STALE }
+    ]);
+    expect(suit.getState().rejectedPackets).toBe(1);
+  });
+
+  it('高于设备版本的帧应答UNSUPPORTED', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const connection = await connectSuit();
+    suit = connection.suit;
+    const frame = new Uint8Array(encodeFrame(encodeStopAll(), 1));
+    frame[0] = 0xF0 | (PROTOCOL_VERSION_FRAMED + 1);
+    await connection.write(VIBRATION_CHARACTERISTIC_UUID, frame.buffer);
+    expect(connection.acks).toEqual([{ sequence: 1, result: AckResult.UNSUPPORTED }]);
+  });
+
+  it('播放未上传的波形应答INVALID_STATE', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const connection = await connectSuit();
+    suit = connection.suit;
+    await connection.write(VIBRATION_CHARACTERISTIC_UUID, encodeFrame(encodeWaveformPlay(9, 1, 1), 1));
+    expect(connection.acks).toEqual([{ sequence: 1, result: AckResult.INVALID_STATE }]);
+  });
+
+  it('旧协议设备直接执行裸指令包，不发应答', async () => {
+    const connection = await connectSuit({ protocolVersion: PROTOCOL_VERSION_LEGACY });
+    suit = connection.suit;
+    await connection.write(VIBRATION_CHARACTERISTIC_UUID, encodeVibration(VIBRATION));
+    expect(suit.getState().vibration).not.toBeNull();
+    await connection.write(VIBRATION_CHARACTERISTIC_UUID, encodeStopAll());
+    expect(suit.getState().vibration).toBeNull();
+    expect(connection.acks).toEqual([]);
+  });
+
+  it('电量变化时推送电量通知', async () => {
+    const connection = await connectSuit({ batteryLevel: 50 });
+    suit = connection.suit;
+    const battery = await connection.service.getCharacteristic(BATTERY_CHARACTERISTIC_UUID);
+    const levels: number[] = [];
+    await battery.startNotifications();
+    battery.addEventListener('characteristicvaluechanged', () => levels.push(battery.value!.getUint8(0)));
+
+    suit.setBatteryLevel(42);
+    expect(levels).toEqual([42]);
+  });
+
+  it('断开连接后写入失败', async () => {
+    const connection = await connectSuit();
+    suit = connection.suit;
+    suit.device.gatt!.disconnect();
+    await expect(connection.write(VIBRATION_CHARACTERISTIC_UUID, encodeStopAll())).rejects.toThrow('未连接');
+  });
+});
@@ -0,0 +1,902 @@
+// 模拟指套设备 - 在没有硬件时提供与真实设备相同的GATT服务和特征
+import type {
+  VibrationConfig,
+  TemperatureConfig,
+  DeviceCapabilities,
+  EventCallback,
+  WaveformSample,
+  Point3D,
+  Quaternion
+} from '../types';
+import {
+  HAPTIC_SERVICE_UUID,
+  VIBRATION_CHARACTERISTIC_UUID,
+  TEMPERATURE_CHARACTERISTIC_UUID,
+  BATTERY_CHARACTERISTIC_UUID,
+  STATUS_CHARACTERISTIC_UUID,
+  WAVEFORM_CHARACTERISTIC_UUID,
+  PRESSURE_CHARACTERISTIC_UUID,
+  FLEX_CHARACTERISTIC_UUID,
+  IMU_CHARACTERISTIC_UUID,
+  DFU_CHARACTERISTIC_UUID,
+  CommandType,
+  CalibrationStep,
+  DfuState,
+  AckResult,
+  PROTOCOL_VERSION_FRAMED,
+  decodeCommand,
+  decodeFrame,
+  crc32,
+  encodeAck,
+  encodeDfuStatus,
+  encodeFlexData,
+  encodeIMUData,
+  encodePressureData,
+  encodePong,
+  encodeStatus,
+  encodeTemperatureReading,
+  isFramed,
+  isStaleSequence
+} from './hapticProtocol';
+import type { HapticCommand } from './hapticProtocol';
+import {
+  conjugateQuaternion,
+  multiplyQuaternions,
+  normalizeQuaternion,
+  quaternionFromAxisAngle,
+  rotateVector
+} from './sensorFusion';
+
+// 模拟设备配置
+export interface SimulatedFingerSuitOptions {
+  id?: string;
+  name?: string;
+  batteryLevel?: number;
+  firmwareVersion?: string;
+  capabilities?: DeviceCapabilities;
+  batteryDrainInterval?: number; // 每下降1%电量的间隔（毫秒），0表示不耗电
+  protocolVersion?: number;
+  packetLossRate?: number; // 0-1，模拟无线丢包
+  linkLatency?: number; // 延迟探测应答的平均往返延迟（毫秒）
+  linkJitter?: number; // 往返延迟的随机波动幅度（毫秒）
+  rebootTime?: number; // 固件升级后重启所需时间（毫秒），期间无法连接
+  sensorInterval?: number; // 压力和弯曲传感器的通知间隔（毫秒），0表示不推送
+}
+
+// 虚拟执行器当前播放的内容
+export interface VirtualActuatorState {
+  vibration: (VibrationConfig & { startedAt: number }) | null;
+  temperature: (TemperatureConfig & { startedAt: number; current: number }) | null;
+  batteryLevel: number;
+  connected: boolean;
+  receivedPackets: number;
+  rejectedPackets: number;
+  lastCommand: HapticCommand | null;
+}
+
+// 设备内存中的波形
+interface StoredWaveform {
+  sampleRate: number;
+  samples: Array<WaveformSample | undefined>;
+  received: number;
+}
+
+// 环境温度（摄氏度）
+const AMBIENT_TEMPERATURE = 25;
+
+// 指尖各压力测点分担的比例（压力集中在指腹中央）和放松时各关节角度（掌指、近端指间、远端指间）
+const PRESSURE_TAXEL_WEIGHTS = [0.15, 0.35, 0.35, 0.15];
+const RELAXED_JOINT_ANGLES = [10, 15, 5];
+// 按压1牛时各关节额外弯曲的角度
+const JOINT_CURL_PER_NEWTON = [8, 12, 6];
+
+// 未校准传感器的固有偏差：各压力测点的零点漂移（牛）和温度传感器读数偏高量（摄氏度）
+const PRESSURE_TAXEL_BIAS = [0.02, 0.04, 0.03, 0.05];
+const TEMPERATURE_SENSOR_BIAS = 1.5;
+
+// 地球坐标系（z轴向上）中的重力方向和地磁场（微特斯拉，北向分量加垂直向下分量）
+const GRAVITY_UP: Point3D = { x: 0, y: 0, z: 1 };
+const EARTH_MAGNETIC_FIELD: Point3D = { x: 25, y: 0, z: -40 };
+
+// 初始姿态：手指水平前伸，指腹朝前（IMU z轴朝后）
+const INITIAL_ORIENTATION = quaternionFromAxisAngle({ x: 1, y: 0, z: 0 }, Math.PI / 2);
+
+// 模拟转动（传感器坐标系下的角速度，弧度/秒）
+interface SimulatedRotation {
+  angularVelocity: Point3D;
+  startsAt: number;
+  endsAt: number;
+}
+
+// 设备闪存中暂存的升级镜像（断线后保留，供续传）
+interface StagedFirmware {
+  size: number;
+  crc: number;
+  version: string;
+  data: Uint8Array;
+  received: number; // 从0开始连续收到的字节数
+  verified: boolean;
+}
+
+// 设备保存的校准参数
+export interface SimulatedCalibration {
+  resonanceFrequency: number | null; // 赫兹
+  temperatureOffset: number; // 摄氏度
+}
+
+// 模拟按压
+interface SimulatedPress {
+  force: number;
+  startedAt: number;
+  duration: number;
+}
+
+// 模拟GATT特征
+class SimulatedCharacteristic extends EventTarget implements BluetoothRemoteGATTCharacteristic {
+  value?: DataView;
+  private notifying = false;
+
+  constructor(
+    readonly service: BluetoothRemoteGATTService,
+    readonly uuid: string,
+    private readonly onWrite: (uuid: string, packet: Uint8Array) => void,
+    private readonly onRead: (uuid: string) => ArrayBuffer
+  ) {
+    super();
+  }
+
+  async writeValue(value: ArrayBuffer): Promise<void> {
+    const suit = this.service.device.gatt;
+    if (!suit?.connected) {
+      throw new Error('GATT服务器未连接');
+    }
+    this.onWrite(this.uuid, new Uint8Array(value.slice(0)));
+  }
+
+  async readValue(): Promise<DataView> {
+    this.value = new DataView(this.onRead(this.uuid));
+    return this.value;
+  }
+
+  async startNotifications(): Promise<BluetoothRemoteGATTCharacteristic> {
+    this.notifying = true;
+    return this;
+  }
+
+  async stopNotifications(): Promise<BluetoothRemoteGATTCharacteristic> {
+    this.notifying = false;
+    return this;
+  }
+
+  // 推送通知
+  notify(data: ArrayBuffer) {
+    this.value = new DataView(data);
+    if (this.notifying) {
+      this.dispatchEvent(new Event('characteristicvaluechanged'));
+    }
+  }
+
+  reset() {
+    this.notifying = false;
+  }
+}
+
+// 模拟GATT服务
+class SimulatedService implements BluetoothRemoteGATTService {
+  readonly uuid = HAPTIC_SERVICE_UUID;
+  readonly characteristics = new Map<string, SimulatedCharacteristic>();
+
+  constructor(readonly device: BluetoothDevice) {}
+
+  async getCharacteristic(characteristic: string): Promise<BluetoothRemoteGATTCharacteristic> {
+    const result = this.characteristics.get(characteristic);
+    if (!result) {
+      throw new Error(`特征不存在: ${characteristic}`);
+    }
+    return result;
+  }
+}
+
+// 模拟蓝牙设备
+class SimulatedBluetoothDevice extends EventTarget implements BluetoothDevice {
+  gatt?: BluetoothRemoteGATTServer;
+
+  constructor(readonly id: string, readonly name: string) {
+    super();
+  }
+}
+
+// 模拟GATT服务器
+class SimulatedGATTServer implements BluetoothRemoteGATTServer {
+  connected = false;
+
+  constructor(
+    readonly device: SimulatedBluetoothDevice,
+    private readonly service: SimulatedService,
+    private readonly onConnectionChange: (connected: boolean) => void,
+    private readonly isReachable: () => boolean
+  ) {}
+
+  async connect(): Promise<BluetoothRemoteGATTServer> {
+    if (!this.isReachable()) {
+      throw new Error('设备不在通信范围内');
+    }
+    this.connected = true;
+    this.onConnectionChange(true);
+    return this;
+  }
+
+  disconnect() {
+    if (!this.connected) return;
+    this.connected = false;
+    this.onConnectionChange(false);
+    this.device.dispatchEvent(new Event('gattserverdisconnected'));
+  }
+
+  async getPrimaryService(service: string): Promise<BluetoothRemoteGATTService> {
+    if (!this.connected) {
+      throw new Error('GATT服务器未连接');
+    }
+    if (service !== HAPTIC_SERVICE_UUID) {
+      throw new Error(`服务不存在: ${service}`);
+    }
+    return this.service;
+  }
+}
+
+// 模拟指套设备类
+export class SimulatedFingerSuit {
+  readonly device: BluetoothDevice;
+  private server: SimulatedGATTServer;
+  private service: SimulatedService;
+  private options: Required<SimulatedFingerSuitOptions>;
+  private state: VirtualActuatorState;
+  private eventListeners: Map<string, EventCallback[]> = new Map();
+  private batteryTimer: ReturnType<typeof setInterval> | null = null;
+  private playbackTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private pongTimers: Set<ReturnType<typeof setTimeout>> = new Set();
+  private lastSequence = 0; // 本次连接最近接受的指令序号（所有特征共用一个序号空间）
+  private outOfRangeUntil = 0; // 在此时间之前拒绝连接
+  private waveforms: Map<number, StoredWaveform> = new Map();
+  private sensorTimer: ReturnType<typeof setInterval> | null = null;
+  private press: SimulatedPress | null = null;
+  private orientation: Quaternion = [...INITIAL_ORIENTATION];
+  private rotation: SimulatedRotation | null = null;
+  private lastSensorUpdate = 0;
+  private calibration: SimulatedCalibration = { resonanceFrequency: null, temperatureOffset: 0 };
+  private stagedFirmware: StagedFirmware | null = null;
+
+  constructor(options: SimulatedFingerSuitOptions = {}) {
+    this.options = {
+      id: options.id || `simulated-${Math.random().toString(36).slice(2, 10)}`,
+      name: options.name || 'FingerSuit',
+      batteryLevel: options.batteryLevel ?? 100,
+      firmwareVersion: options.firmwareVersion || '1.0.0',
+      capabilities: options.capabilities || {
+        vibration: true,
+        temperature: true,
+        pressure: true,
+        flex: true,
+        waveform: true,
+        imu: true,
+        dfu: true
+      },
+      batteryDrainInterval: options.batteryDrainInterval ?? 60000,
+      protocolVersion: options.protocolVersion ?? PROTOCOL_VERSION_FRAMED,
+      packetLossRate: options.packetLossRate ?? 0,
+      linkLatency: options.linkLatency ?? 12,
+      linkJitter: options.linkJitter ?? 4,
+      rebootTime: options.rebootTime ?? 1500,
+      sensorInterval: options.sensorInterval ?? 50
+    };
+
+    this.state = {
+      vibration: null,
+      temperature: null,
+      batteryLevel: this.options.batteryLevel,
+      connected: false,
+      receivedPackets: 0,
+      rejectedPackets: 0,
+      lastCommand: null
+    };
+
+    const device = new SimulatedBluetoothDevice(this.options.id, this.options.name);
+    this.device = device;
+    this.service = new SimulatedService(device);
+    this.server = new SimulatedGATTServer(
+      device,
+      this.service,
+      this.handleConnectionChange,
+      () => Date.now() >= this.outOfRangeUntil
+    );
+    device.gatt = this.server;
+
+    this.initializeCharacteristics();
+  }
+
+  // 初始化特征
+  private initializeCharacteristics() {
+    const characteristicUUIDs = [
+      VIBRATION_CHARACTERISTIC_UUID,
+      TEMPERATURE_CHARACTERISTIC_UUID,
+      BATTERY_CHARACTERISTIC_UUID,
+      STATUS_CHARACTERISTIC_UUID,
+      WAVEFORM_CHARACTERISTIC_UUID,
+      PRESSURE_CHARACTERISTIC_UUID,
+      FLEX_CHARACTERISTIC_UUID,
+      IMU_CHARACTERISTIC_UUID,
+      DFU_CHARACTERISTIC_UUID
+    ];
+
+    for (const uuid of characteristicUUIDs) {
+      this.service.characteristics.set(
+        uuid,
+        new SimulatedCharacteristic(this.service, uuid, this.handleWrite, this.handleRead)
+      );
+    }
+  }
+
+  // 添加事件监听器
+  addEventListener(event: string, callback: EventCallback) {
+    const listeners = this.eventListeners.get(event) || [];
+    listeners.push(callback);
+    this.eventListeners.set(event, listeners);
+  }
+
+  // 移除事件监听器
+  removeEventListener(event: string, callback: EventCallback) {
+    const listeners = this.eventListeners.get(event) || [];
+    const index = listeners.indexOf(callback);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  // 触发事件
+  private emit(event: string, data?: unknown) {
+    const listeners = this.eventListeners.get(event) || [];
+    listeners.forEach(callback => callback(data));
+  }
+
+  // 连接状态变化
+  private handleConnectionChange = (connected: boolean) => {
+    this.state = { ...this.state, connected };
+
+    if (connected) {
+      this.lastSequence = 0;
+      this.startBatteryDrain();
+      this.startSensorStream();
+    } else {
+      this.stopBatteryDrain();
+      this.stopSensorStream();
+      this.clearPlayback();
+      this.clearPongs();
+      this.service.characteristics.forEach(characteristic => characteristic.reset());
+    }
+
+    this.emitStateChange();
+  };
+
+  // 处理写入
+  private handleWrite = (uuid: string, data: Uint8Array) => {
+    // 模拟无线丢包
+    if (this.options.packetLossRate > 0 && Math.random() < this.options.packetLossRate) {
+      return;
+    }
+
+    this.state = { ...this.state, receivedPackets: this.state.receivedPackets + 1 };
+
+    if (!isFramed(data)) {
+      this.executePacket(uuid, data);
+      return;
+    }
+
+    const { version, sequence, packet } = decodeFrame(data);
+    if (version > this.options.protocolVersion) {
+      this.rejectPacket(uuid, data, `不支持的协议版本: ${version}`);
+      this.notifyAck(sequence, AckResult.UNSUPPORTED);
+      return;
+    }
+
+    // 重发的指令已执行过，只需再次应答
+    if (sequence === this.lastSequence) {
+      this.notifyAck(sequence, AckResult.OK);
+      return;
+    }
+
+    // 控制器所有通道共用一个序号计数器，按连接而非按特征判断过期，
+    // 否则某一通道的长时间传输之后，其他通道的指令会被误判为过期
+    if (isStaleSequence(sequence, this.lastSequence)) {
+      this.rejectPacket(uuid, data, `过期的指令序号: ${sequence}`);
+      this.notifyAck(sequence, AckResult.STALE);
+      return;
+    }
+
+    const result = this.executePacket(uuid, packet);
+    if (result !== AckResult.OK) {
+      this.notifyAck(sequence, result);
+      return;
+    }
+
+    this.lastSequence = sequence;
+    this.notifyAck(sequence, AckResult.OK);
+  };
+
+  // 解码并执行指令包
+  private executePacket(uuid: string, packet: Uint8Array): AckResult {
+    let command: HapticCommand;
+    try {
+      command = decodeCommand(packet);
+    } catch (error) {
+      this.rejectPacket(uuid, packet, (error as Error).message);
+      return AckResult.CHECKSUM_ERROR;
+    }
+
+    this.emit('command', command);
+    const result = this.applyCommand(command);
+    if (result !== AckResult.OK) {
+      this.rejectPacket(uuid, packet, `无法执行指令: 0x${command.type.toString(16)}`);
+      return result;
+    }
+    this.notifyStatus();
+    return AckResult.OK;
+  }
+
+  // 记录被拒绝的数据包
+  private rejectPacket(uuid: string, packet: Uint8Array, reason: string) {
+    console.warn('模拟设备拒绝数据包:', reason);
+    this.state = { ...this.state, rejectedPackets: this.state.rejectedPackets + 1 };
+    this.emit('packetRejected', { uuid, packet, reason });
+    this.emitStateChange();
+  }
+
+  // 处理读取
+  private handleRead = (uuid: string): ArrayBuffer => {
+    if (uuid === BATTERY_CHARACTERISTIC_UUID) {
+      return new Uint8Array([this.state.batteryLevel]).buffer;
+    }
+    if (uuid === STATUS_CHARACTERISTIC_UUID) {
+      return this.encodeCurrentStatus();
+    }
+    if (uuid === DFU_CHARACTERISTIC_UUID) {
+      const staged = this.stagedFirmware;
+      return encodeDfuStatus(staged
+        ? {
+          state: staged.verified ? DfuState.VERIFIED : DfuState.RECEIVING,
+          received: staged.received,
+          size: staged.size,
+          crc: staged.crc
+        }
+        : { state: DfuState.IDLE, received: 0, size: 0, crc: 0 });
+    }
+    if (uuid === TEMPERATURE_CHARACTERISTIC_UUID && this.options.capabilities.temperature) {
+      return encodeTemperatureReading(this.getCurrentTemperature() + TEMPERATURE_SENSOR_BIAS);
+    }
+    return new ArrayBuffer(0);
+  };
+
+  // 执行指令
+  private applyCommand(command: HapticCommand): AckResult {
+    const now = Date.now();
+
+    switch (command.type) {
+      case CommandType.VIBRATION:
+        if (!this.options.capabilities.vibration) return AckResult.UNSUPPORTED;
+        this.schedulePlaybackEnd('vibration', command.config.duration);
+        this.state = {
+          ...this.state,
+          vibration: { ...command.config, startedAt: now },
+          lastCommand: command
+        };
+        break;
+      case CommandType.TEMPERATURE:
+        if (!this.options.capabilities.temperature) return AckResult.UNSUPPORTED;
+        this.schedulePlaybackEnd('temperature', command.config.rampTime + command.config.holdTime);
+        this.state = {
+          ...this.state,
+          temperature: {
+            ...command.config,
+            startedAt: now,
+            current: this.getCurrentTemperature(now)
+          },
+          lastCommand: command
+        };
+        break;
+      case CommandType.STOP_ALL:
+        this.clearPlayback();
+        this.state = { ...this.state, vibration: null, temperature: null, lastCommand: command };
+        break;
+      case CommandType.WAVEFORM_BEGIN:
+        if (!this.options.capabilities.waveform) return AckResult.UNSUPPORTED;
+        if (command.sampleRate === 0 || command.sampleCount === 0) return AckResult.INVALID_STATE;
+        this.waveforms.set(command.handle, {
+          sampleRate: command.sampleRate,
+          samples: new Array(command.sampleCount),
+          received: 0
+        });
+        this.state = { ...this.state, lastCommand: command };
+        break;
+      case CommandType.WAVEFORM_DATA: {
+        const waveform = this.waveforms.get(command.handle);
+        if (!waveform || command.offset + command.samples.length > waveform.samples.length) {
+          return AckResult.INVALID_STATE;
+        }
+        command.samples.forEach((sample, index) => {
+          if (!waveform.samples[command.offset + index]) {
+            waveform.received++;
+          }
+          waveform.samples[command.offset + index] = sample;
+        });
+        this.state = { ...this.state, lastCommand: command };
+        break;
+      }
+      case CommandType.WAVEFORM_PLAY: {
+        const waveform = this.waveforms.get(command.handle);
+        if (!waveform || waveform.received < waveform.samples.length) {
+          return AckResult.INVALID_STATE;
+        }
+        const samples = waveform.samples as WaveformSample[];
+        const duration = Math.round(samples.length / waveform.sampleRate * 1000) * command.repeat;
+        this.schedulePlaybackEnd('vibration', duration);
+        this.state = {
+          ...this.state,
+          vibration: {
+            intensity: command.intensity * samples.reduce((peak, sample) => Math.max(peak, sample.amplitude), 0),
+            frequency: samples[0].frequency,
+            pattern: 'custom',
+            duration,
+            waveformId: command.handle,
+            startedAt: now
+          },
+          lastCommand: command
+        };
+        break;
+      }
+      case CommandType.GET_STATUS:
+        if (command.timestamp !== undefined) {
+          this.schedulePong(command.timestamp);
+        }
+        this.state = { ...this.state, lastCommand: command };
+        break;
+      case CommandType.CALIBRATE:
+        if (command.step === CalibrationStep.RESONANCE) {
+          if (!this.options.capabilities.vibration) return AckResult.UNSUPPORTED;
+          this.calibration = { ...this.calibration, resonanceFrequency: command.value || null };
+        } else if (command.step === CalibrationStep.TEMPERATURE_OFFSET) {
+          if (!this.options.capabilities.temperature) return AckResult.UNSUPPORTED;
+          this.calibration = { ...this.calibration, temperatureOffset: command.value / 10 };
+        } else {
+          return AckResult.UNSUPPORTED;
+        }
+        this.state = { ...this.state, lastCommand: command };
+        break;
+      case CommandType.DFU_BEGIN: {
+        if (!this.options.capabilities.dfu) return AckResult.UNSUPPORTED;
+        if (command.size === 0) return AckResult.INVALID_STATE;
+        const staged = this.stagedFirmware;
+        // 同一镜像保留已接收部分
+        if (!staged || staged.size !== command.size || staged.crc !== command.crc || staged.verified) {
+          this.stagedFirmware = {
+            size: command.size,
+            crc: command.crc,
+            version: command.version,
+            data: new Uint8Array(command.size),
+            received: 0,
+            verified: false
+          };
+        }
+        this.state = { ...this.state, lastCommand: command };
+        break;
+      }
+      case CommandType.DFU_DATA: {
+        const staged = this.stagedFirmware;
+        const end = command.offset + command.data.length;
+        if (!staged || staged.verified || command.offset > staged.received || end > staged.size) {
+          return AckResult.INVALID_STATE;
+        }
+        staged.data.set(command.data, command.offset);
+        staged.received = Math.max(staged.received, end);
+        this.state = { ...this.state, lastCommand: command };
+        break;
+      }
+      case CommandType.DFU_VERIFY: {
+        const staged = this.stagedFirmware;
+        if (!staged || staged.received < staged.size) return AckResult.INVALID_STATE;
+        if (crc32(staged.data) !== staged.crc) {
+          this.stagedFirmware = null;
+          return AckResult.CHECKSUM_ERROR;
+        }
+        staged.verified = true;
+        this.state = { ...this.state, lastCommand: command };
+        break;
+      }
+      case CommandType.DFU_REBOOT: {
+        const staged = this.stagedFirmware;
+        if (!staged?.verified) return AckResult.INVALID_STATE;
+        this.options.firmwareVersion = staged.version;
+        this.stagedFirmware = null;
+        this.state = { ...this.state, lastCommand: command };
+        // 应答发出后断开，重启期间无法连接
+        setTimeout(() => {
+          if (this.state.connected) {
+            this.simulateDisconnect(this.options.rebootTime);
+          }
+        }, 0);
+        break;
+      }
+      default:
+        this.state = { ...this.state, lastCommand: command };
+        break;
+    }
+
+    this.emitStateChange();
+    return AckResult.OK;
+  }
+
+  // 安排播放结束
+  private schedulePlaybackEnd(channel: 'vibration' | 'temperature', duration: number) {
+    const existing = this.playbackTimers.get(channel);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this.playbackTimers.set(channel, setTimeout(() => {
+      this.playbackTimers.delete(channel);
+      this.state = { ...this.state, [channel]: null };
+      this.notifyStatus();
+      this.emitStateChange();
+    }, duration));
+  }
+
+  // 经过模拟的无线延迟后回传延迟探测的时间戳
+  private schedulePong(timestamp: number) {
+    const { linkLatency, linkJitter } = this.options;
+    const delay = Math.max(0, linkLatency + (Math.random() - 0.5) * 2 * linkJitter);
+    const timer = setTimeout(() => {
+      this.pongTimers.delete(timer);
+      this.service.characteristics.get(STATUS_CHARACTERISTIC_UUID)?.notify(encodePong(timestamp));
+    }, delay);
+    this.pongTimers.add(timer);
+  }
+
+  private clearPongs() {
+    this.pongTimers.forEach(timer => clearTimeout(timer));
+    this.pongTimers.clear();
+  }
+
+  // 清除所有播放
+  private clearPlayback() {
+    this.playbackTimers.forEach(timer => clearTimeout(timer));
+    this.playbackTimers.clear();
+    this.state = { ...this.state, vibration: null, temperature: null };
+  }
+
+  // 编码当前状态
+  private encodeCurrentStatus(): ArrayBuffer {
+    return encodeStatus({
+      batteryLevel: this.state.batteryLevel,
+      firmwareVersion: this.options.firmwareVersion,
+      capabilities: this.options.capabilities,
+      protocolVersion: this.options.protocolVersion
+    });
+  }
+
+  // 推送状态通知
+  private notifyStatus() {
+    this.service.characteristics.get(STATUS_CHARACTERISTIC_UUID)?.notify(this.encodeCurrentStatus());
+  }
+
+  // 推送指令应答
+  private notifyAck(sequence: number, result: AckResult) {
+    if (this.options.protocolVersion < PROTOCOL_VERSION_FRAMED) return;
+    this.service.characteristics.get(STATUS_CHARACTERISTIC_UUID)?.notify(encodeAck({ sequence, result }));
+  }
+
+  // 推送电量通知
+  private notifyBattery() {
+    this.service.characteristics.get(BATTERY_CHARACTERISTIC_UUID)?.notify(
+      new Uint8Array([this.state.batteryLevel]).buffer
+    );
+  }
+
+  // 启动电量消耗
+  private startBatteryDrain() {
+    this.stopBatteryDrain();
+    if (this.options.batteryDrainInterval <= 0) return;
+
+    this.batteryTimer = setInterval(() => {
+      this.setBatteryLevel(this.state.batteryLevel - 1);
+    }, this.options.batteryDrainInterval);
+  }
+
+  // 停止电量消耗
+  private stopBatteryDrain() {
+    if (this.batteryTimer) {
+      clearInterval(this.batteryTimer);
+      this.batteryTimer = null;
+    }
+  }
+
+  // 启动传感器数据推送
+  private startSensorStream() {
+    this.stopSensorStream();
+    if (this.options.sensorInterval <= 0) return;
+
+    this.lastSensorUpdate = Date.now();
+    this.sensorTimer = setInterval(() => this.notifySensors(), this.options.sensorInterval);
+  }
+
+  // 停止传感器数据推送
+  private stopSensorStream() {
+    if (this.sensorTimer) {
+      clearInterval(this.sensorTimer);
+      this.sensorTimer = null;
+    }
+  }
+
+  // 推送压力和弯曲传感器数据
+  private notifySensors() {
+    const force = this.getCurrentPressure();
+    if (this.options.capabilities.pressure) {
+      const taxels = PRESSURE_TAXEL_WEIGHTS.map((weight, index) =>
+        Math.max(0, force * weight + PRESSURE_TAXEL_BIAS[index] + (Math.random() - 0.5) * 0.01)
+      );
+      this.service.characteristics.get(PRESSURE_CHARACTERISTIC_UUID)?.notify(encodePressureData(taxels));
+    }
+    if (this.options.capabilities.flex) {
+      const joints = RELAXED_JOINT_ANGLES.map((angle, index) =>
+        angle + JOINT_CURL_PER_NEWTON[index] * force + (Math.random() - 0.5) * 0.5
+      );
+      this.service.characteristics.get(FLEX_CHARACTERISTIC_UUID)?.notify(encodeFlexData(joints));
+    }
+    if (this.options.capabilities.imu) {
+      this.notifyIMU();
+    }
+  }
+
+  // 推进模拟姿态并推送IMU数据（重力和地磁场换算到传感器坐标系）
+  private notifyIMU() {
+    const now = Date.now();
+    const lastUpdate = this.lastSensorUpdate;
+    this.lastSensorUpdate = now;
+
+    let angularVelocity: Point3D = { x: 0, y: 0, z: 0 };
+    if (this.rotation) {
+      // 只积分本次间隔内处于转动期的部分
+      const activeTime = Math.max(0, Math.min(now, this.rotation.endsAt) - Math.max(lastUpdate, this.rotation.startsAt)) / 1000;
+      const velocity = this.rotation.angularVelocity;
+      const speed = Math.hypot(velocity.x, velocity.y, velocity.z);
+      if (speed > 0 && activeTime > 0) {
+        const step = quaternionFromAxisAngle(velocity, speed * activeTime);
+        this.orientation = normalizeQuaternion(multiplyQuaternions(this.orientation, step));
+        // 陀螺仪读数为本次间隔内的平均角速度
+        const ratio = activeTime / Math.max((now - lastUpdate) / 1000, activeTime);
+        angularVelocity = { x: velocity.x * ratio, y: velocity.y * ratio, z: velocity.z * ratio };
+      }
+      if (now >= this.rotation.endsAt) {
+        this.rotation = null;
+      }
+    }
+
+    const toSensor = conjugateQuaternion(this.orientation);
+    const noise = (scale: number) => (Math.random() - 0.5) * scale;
+    const acceleration = rotateVector(toSensor, GRAVITY_UP);
+    const magnetometer = rotateVector(toSensor, EARTH_MAGNETIC_FIELD);
+    this.service.characteristics.get(IMU_CHARACTERISTIC_UUID)?.notify(encodeIMUData({
+      acceleration: { x: acceleration.x + noise(0.01), y: acceleration.y + noise(0.01), z: acceleration.z + noise(0.01) },
+      gyroscope: { x: angularVelocity.x + noise(0.005), y: angularVelocity.y + noise(0.005), z: angularVelocity.z + noise(0.005) },
+      magnetometer
+    }));
+  }
+
+  // 模拟手指绕传感器x轴（沿手指方向）翻转180°，指腹与指甲朝向互换
+  simulateFlip(duration = 600) {
+    const speed = Math.PI / (Math.max(1, duration) / 1000);
+    const now = Date.now();
+    this.rotation = { angularVelocity: { x: speed, y: 0, z: 0 }, startsAt: now, endsAt: now + duration };
+  }
+
+  // 获取模拟的真实姿态（地球坐标系）
+  getOrientation(): Quaternion {
+    return [...this.orientation];
+  }
+
+  // 当前按压力（牛），按压过程按半个正弦周期先增后减
+  getCurrentPressure(now: number = Date.now()): number {
+    const press = this.press;
+    if (!press) {
+      return 0;
+    }
+    const progress = (now - press.startedAt) / press.duration;
+    if (progress >= 1) {
+      this.press = null;
+      return 0;
+    }
+    return press.force * Math.sin(Math.PI * Math.max(0, progress));
+  }
+
+  // 模拟手指按压（用于测试按压力度缩放）
+  simulatePress(force: number, duration = 1000) {
+    this.press = { force: Math.max(0, force), startedAt: Date.now(), duration: Math.max(1, duration) };
+  }
+
+  // 触发状态变化事件
+  private emitStateChange() {
+    this.emit('stateChange', this.getState());
+  }
+
+  // 设置电量（用于测试低电量场景）
+  setBatteryLevel(level: number) {
+    const batteryLevel = Math.max(0, Math.min(100, Math.round(level)));
+    if (batteryLevel === this.state.batteryLevel) return;
+
+    this.state = { ...this.state, batteryLevel };
+    this.notifyBattery();
+    this.notifyStatus();
+    this.emitStateChange();
+  }
+
+  // 设置丢包率（用于测试重发）
+  setPacketLossRate(rate: number) {
+    this.options.packetLossRate = Math.max(0, Math.min(1, rate));
+  }
+
+  // 模拟设备离开通信范围，outOfRangeMs内无法重新连接
+  simulateDisconnect(outOfRangeMs = 0) {
+    this.outOfRangeUntil = Date.now() + outOfRangeMs;
+    this.server.disconnect();
+  }
+
+  // 获取当前执行器状态
+  getState(): VirtualActuatorState {
+    return { ...this.state };
+  }
+
+  // 获取当前固件版本
+  getFirmwareVersion(): string {
+    return this.options.firmwareVersion;
+  }
+
+  // 获取设备保存的校准参数
+  getCalibration(): SimulatedCalibration {
+    return { ...this.calibration };
+  }
+
+  // 获取虚拟皮肤接触面的当前温度（按升温时间线性插值）
+  getCurrentTemperature(now: number = Date.now()): number {
+    const temperature = this.state.temperature;
+    if (!temperature) {
+      return AMBIENT_TEMPERATURE;
+    }
+    const progress = temperature.rampTime > 0
+      ? Math.min(1, (now - temperature.startedAt) / temperature.rampTime)
+      : 1;
+    return temperature.current + (temperature.target - temperature.current) * progress;
+  }
+
+  // 释放资源
+  dispose() {
+    // 释放后不再接受重连
+    this.outOfRangeUntil = Infinity;
+    this.server.disconnect();
+    this.stopBatteryDrain();
+    this.stopSensorStream();
+    this.clearPlayback();
+    this.clearPongs();
+    this.eventListeners.clear();
+  }
+}
+
+// 创建全局模拟设备实例
+let globalSimulatedSuit: SimulatedFingerSuit | null = null;
+
+export const createSimulatedFingerSuit = (options?: SimulatedFingerSuitOptions): SimulatedFingerSuit => {
+  if (!globalSimulatedSuit) {
+    globalSimulatedSuit = new SimulatedFingerSuit(options);
+  }
+  return globalSimulatedSuit;
+};
+
+export const getSimulatedFingerSuit = (): SimulatedFingerSuit | null => {
+  return globalSimulatedSuit;
+};
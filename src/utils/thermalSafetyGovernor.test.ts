@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { ABSOLUTE_MAX_TEMPERATURE, DEFAULT_THERMAL_LIMITS, ThermalSafetyGovernor } from './thermalSafetyGovernor';
+import { NEUTRAL_TEMPERATURE } from './hapticEnvelope';
+
+// 高出中性温度10°C，默认剂量上限300°C·s在保持30秒时达到
+const WARM = { target: NEUTRAL_TEMPERATURE + 10, rampTime: 0, holdTime: 60000 };
+
+describe('ThermalSafetyGovernor', () => {
+  it('钳位模式把越界目标限制到上限并给出警告', () => {
+    const governor = new ThermalSafetyGovernor();
+    const verdict = governor.evaluate({ target: 50, rampTime: 100, holdTime: 1000 }, 0);
+    expect(verdict.allowed).toBe(true);
+    if (verdict.allowed) {
+      expect(verdict.config.target).toBe(DEFAULT_THERMAL_LIMITS.maxTemperature);
+    }
+    expect(verdict.violation?.code).toBe('THERMAL_LIMIT_EXCEEDED');
+  });
+
+  it('拒绝模式拒绝越界目标', () => {
+    const governor = new ThermalSafetyGovernor({ mode: 'reject' });
+    const verdict = governor.evaluate({ target: 5, rampTime: 100, holdTime: 1000 }, 0);
+    expect(verdict.allowed).toBe(false);
+    expect(verdict.violation?.code).toBe('THERMAL_LIMIT_EXCEEDED');
+  });
+
+  it('配置的上限不能超过绝对上限', () => {
+    const governor = new ThermalSafetyGovernor({ maxTemperature: 60 });
+    expect(governor.getLimits().maxTemperature).toBe(ABSOLUTE_MAX_TEMPERATURE);
+  });
+
+  it('累计滑动窗口内的剂量，升温段按一半时长折算', () => {
+    const governor = new ThermalSafetyGovernor();
+    governor.record({ ...WARM, rampTime: 2000 }, 0);
+    expect(governor.getDose(1000).heat).toBe(0);
+    expect(governor.getDose(11000).heat).toBeCloseTo(100);
+    expect(governor.getDose(11000).cold).toBe(0);
+  });
+
+  it('预计到达剂量上限的剩余时间', () => {
+    const governor = new ThermalSafetyGovernor();
+    governor.record(WARM, 0);
+    expect(governor.timeUntilDoseLimit(10000)).toBeCloseTo(20000);
+  });
+
+  it('新指令或停止中断尚未结束的暴露', () => {
+    const governor = new ThermalSafetyGovernor();
+    governor.record(WARM, 0);
+    governor.recordStop(5000);
+    expect(governor.getDose(20000).heat).toBeCloseTo(50);
+  });
+
+  it('剂量超限后强制冷却，冷却期间只允许中性温度', () => {
+    const governor = new ThermalSafetyGovernor();
+    governor.record(WARM, 0);
+    expect(governor.checkDose(20000)).toBeNull();
+
+    const violation = governor.checkDose(30000);
+    expect(violation?.code).toBe('THERMAL_DOSE_EXCEEDED');
+    expect(governor.isCoolingDown(35000)).toBe(true);
+    expect(governor.evaluate(WARM, 35000).allowed).toBe(false);
+    expect(governor.evaluate({ ...WARM, target: NEUTRAL_TEMPERATURE }, 35000).allowed).toBe(true);
+    expect(governor.isCoolingDown(30000 + DEFAULT_THERMAL_LIMITS.cooldownTime)).toBe(false);
+  });
+
+  it('冷却结束后窗口内的剂量仍然计入，直到移出窗口', () => {
+    const governor = new ThermalSafetyGovernor();
+    governor.record(WARM, 0);
+    governor.checkDose(30000);
+
+    // 冷却结束时窗口内仍有300°C·s，不能再获得完整的新剂量
+    const afterCooldown = 30000 + DEFAULT_THERMAL_LIMITS.cooldownTime;
+    expect(governor.getDose(afterCooldown).heat).toBeCloseTo(300);
+    expect(governor.checkDose(afterCooldown)?.code).toBe('THERMAL_DOSE_EXCEEDED');
+
+    // 暴露移出60秒窗口后恢复
+    const aged = 30000 + DEFAULT_THERMAL_LIMITS.doseWindow;
+    expect(governor.getDose(aged).heat).toBe(0);
+    expect(governor.checkDose(aged)).toBeNull();
+  });
+});
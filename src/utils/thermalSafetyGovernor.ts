@@ -0,0 +1,223 @@
+// 温度安全监管 - 限制温度目标、累计滑动窗口内的热/冷暴露剂量并强制冷却
+import type { AppError, ErrorType, HapticConfig, TemperatureConfig, ThermalLimitMode } from '../types';
+import { NEUTRAL_TEMPERATURE } from './hapticEnvelope';
+
+// 与配置无关的绝对温度上下限（摄氏度），防止配置错误烫伤或冻伤皮肤
+export const ABSOLUTE_MAX_TEMPERATURE = 48;
+export const ABSOLUTE_MIN_TEMPERATURE = 5;
+
+// 安全限制
+export interface ThermalSafetyLimits {
+  maxTemperature: number;
+  minTemperature: number;
+  mode: ThermalLimitMode; // 越界目标的处理方式：钳位或拒绝
+  doseWindow: number; // 剂量统计的滑动窗口（毫秒）
+  maxHeatDose: number; // 窗口内高于中性温度的累计剂量上限（°C·s）
+  maxColdDose: number; // 窗口内低于中性温度的累计剂量上限（°C·s）
+  cooldownTime: number; // 超限后强制冷却的时长（毫秒）
+}
+
+export const DEFAULT_THERMAL_LIMITS: ThermalSafetyLimits = {
+  maxTemperature: 45,
+  minTemperature: 15,
+  mode: 'clamp',
+  doseWindow: 60000,
+  maxHeatDose: 300, // 约等于高出中性温度10°C保持30秒
+  maxColdDose: 300,
+  cooldownTime: 10000
+};
+
+// 由应用配置生成安全限制（旧版本保存的配置可能缺少剂量相关字段）
+export const getThermalLimitsFromConfig = (config: HapticConfig): ThermalSafetyLimits => ({
+  maxTemperature: config.maxTemperature ?? DEFAULT_THERMAL_LIMITS.maxTemperature,
+  minTemperature: config.minTemperature ?? DEFAULT_THERMAL_LIMITS.minTemperature,
+  mode: config.thermalLimitMode || DEFAULT_THERMAL_LIMITS.mode,
+  doseWindow: config.thermalDoseWindow ?? DEFAULT_THERMAL_LIMITS.doseWindow,
+  maxHeatDose: config.maxHeatDose ?? DEFAULT_THERMAL_LIMITS.maxHeatDose,
+  maxColdDose: config.maxColdDose ?? DEFAULT_THERMAL_LIMITS.maxColdDose,
+  cooldownTime: config.thermalCooldown ?? DEFAULT_THERMAL_LIMITS.cooldownTime
+});
+
+// 评估结果
+export type ThermalVerdict =
+  | { allowed: true; config: TemperatureConfig; violation: AppError | null }
+  | { allowed: false; violation: AppError };
+
+// 累计剂量
+export interface ThermalDose {
+  heat: number;
+  cold: number;
+}
+
+// 一段温度暴露：[start, end) 内保持level（相对中性温度的偏差，正为热、负为冷）
+interface Exposure {
+  start: number;
+  end: number;
+  level: number;
+}
+
+// 温度安全监管类
+export class ThermalSafetyGovernor {
+  private limits: ThermalSafetyLimits;
+  private exposures: Exposure[] = [];
+  private cooldownUntil = 0;
+
+  constructor(limits: Partial<ThermalSafetyLimits> = {}) {
+    this.limits = this.normalizeLimits({ ...DEFAULT_THERMAL_LIMITS, ...limits });
+  }
+
+  // 更新安全限制
+  updateLimits(limits: Partial<ThermalSafetyLimits>) {
+    this.limits = this.normalizeLimits({ ...this.limits, ...limits });
+  }
+
+  getLimits(): ThermalSafetyLimits {
+    return { ...this.limits };
+  }
+
+  // 配置上下限不得超出绝对上下限
+  private normalizeLimits(limits: ThermalSafetyLimits): ThermalSafetyLimits {
+    const maxTemperature = Math.min(limits.maxTemperature, ABSOLUTE_MAX_TEMPERATURE);
+    const minTemperature = Math.max(limits.minTemperature, ABSOLUTE_MIN_TEMPERATURE);
+    return {
+      ...limits,
+      maxTemperature: Math.max(maxTemperature, NEUTRAL_TEMPERATURE),
+      minTemperature: Math.min(minTemperature, NEUTRAL_TEMPERATURE)
+    };
+  }
+
+  // 构建安全错误
+  private createViolation(code: ErrorType, message: string, context: Record<string, unknown>): AppError {
+    return { code, message, timestamp: Date.now(), context };
+  }
+
+  // 评估温度指令：冷却期间只允许回到中性温度，越界目标按模式钳位或拒绝
+  evaluate(config: TemperatureConfig, now: number = Date.now()): ThermalVerdict {
+    if (this.isCoolingDown(now) && config.target !== NEUTRAL_TEMPERATURE) {
+      return {
+        allowed: false,
+        violation: this.createViolation('THERMAL_COOLDOWN_ACTIVE', `强制冷却中，${Math.ceil((this.cooldownUntil - now) / 1000)} 秒内拒绝温度指令`, {
+          target: config.target,
+          cooldownUntil: this.cooldownUntil
+        })
+      };
+    }
+
+    const { maxTemperature, minTemperature, mode } = this.limits;
+    if (config.target <= maxTemperature && config.target >= minTemperature) {
+      return { allowed: true, config, violation: null };
+    }
+
+    const limit = config.target > maxTemperature ? maxTemperature : minTemperature;
+    const context = { target: config.target, limit, mode };
+    if (mode === 'reject') {
+      return {
+        allowed: false,
+        violation: this.createViolation('THERMAL_LIMIT_EXCEEDED', `温度目标 ${config.target}°C 超出安全范围 ${minTemperature}~${maxTemperature}°C，已拒绝`, context)
+      };
+    }
+
+    return {
+      allowed: true,
+      config: { ...config, target: limit },
+      violation: this.createViolation('THERMAL_LIMIT_EXCEEDED', `温度目标 ${config.target}°C 超出安全范围，已限制为 ${limit}°C`, context)
+    };
+  }
+
+  // 记录已下发的温度指令，升温段按一半时长折算
+  record(config: TemperatureConfig, now: number = Date.now()) {
+    this.truncate(now);
+    const level = config.target - NEUTRAL_TEMPERATURE;
+    if (level !== 0) {
+      this.exposures.push({
+        start: now + config.rampTime / 2,
+        end: now + config.rampTime + config.holdTime,
+        level
+      });
+    }
+    this.prune(now);
+  }
+
+  // 记录停止（执行器回到中性温度）
+  recordStop(now: number = Date.now()) {
+    this.truncate(now);
+  }
+
+  // 新指令或停止会中断尚未结束的暴露
+  private truncate(now: number) {
+    this.exposures.forEach(exposure => {
+      if (exposure.end > now) {
+        exposure.end = Math.max(exposure.start, now);
+      }
+    });
+  }
+
+  // 清理窗口外的暴露
+  private prune(now: number) {
+    const windowStart = now - this.limits.doseWindow;
+    this.exposures = this.exposures.filter(exposure => exposure.end > windowStart && exposure.end > exposure.start);
+  }
+
+  // 滑动窗口内的累计剂量（°C·s）
+  getDose(now: number = Date.now()): ThermalDose {
+    const windowStart = now - this.limits.doseWindow;
+    const dose: ThermalDose = { heat: 0, cold: 0 };
+
+    this.exposures.forEach(exposure => {
+      const duration = Math.max(0, Math.min(exposure.end, now) - Math.max(exposure.start, windowStart)) / 1000;
+      if (exposure.level > 0) {
+        dose.heat += exposure.level * duration;
+      } else {
+        dose.cold += -exposure.level * duration;
+      }
+    });
+    return dose;
+  }
+
+  // 检查剂量是否超限，超限时进入冷却并返回安全错误
+  checkDose(now: number = Date.now()): AppError | null {
+    const dose = this.getDose(now);
+    const heatExceeded = dose.heat >= this.limits.maxHeatDose;
+    if (!heatExceeded && dose.cold < this.limits.maxColdDose) {
+      return null;
+    }
+
+    // 执行器在冷却期间回到中性温度；已累计的剂量保留到移出滑动窗口为止，冷却结束后不会立即获得完整的新剂量
+    this.truncate(now);
+    this.prune(now);
+    this.cooldownUntil = now + this.limits.cooldownTime;
+    return this.createViolation(
+      'THERMAL_DOSE_EXCEEDED',
+      `${heatExceeded ? '热' : '冷'}暴露剂量超过上限（${Math.round(heatExceeded ? dose.heat : dose.cold)}°C·s），强制冷却 ${Math.round(this.limits.cooldownTime / 1000)} 秒`,
+      { dose, limits: this.limits }
+    );
+  }
+
+  // 按当前暴露估算到达剂量上限的剩余时间（毫秒），不会超限时返回Infinity
+  timeUntilDoseLimit(now: number = Date.now()): number {
+    const active = this.exposures.find(exposure => exposure.end > now);
+    if (!active) {
+      return Infinity;
+    }
+
+    const dose = this.getDose(now);
+    const remaining = active.level > 0
+      ? this.limits.maxHeatDose - dose.heat
+      : this.limits.maxColdDose - dose.cold;
+    // 尚未进入保持段时从保持段开始计算
+    const startsIn = Math.max(0, active.start - now);
+    const crossesIn = startsIn + Math.max(0, remaining) / Math.abs(active.level) * 1000;
+    return now + crossesIn < active.end ? crossesIn : Infinity;
+  }
+
+  // 是否处于强制冷却期
+  isCoolingDown(now: number = Date.now()): boolean {
+    return now < this.cooldownUntil;
+  }
+
+  // 清除剂量记录（例如更换被试）
+  reset() {
+    this.exposures = [];
+    this.cooldownUntil = 0;
+  }
+}
@@ -0,0 +1,150 @@
+// 手机振动渲染 - 没有指套时用浏览器Vibration API近似振动效果
+// 手机马达只能开关，强度通过一个周期内的通电占空比近似
+import type { HapticProfile, VibrationConfig } from '../types';
+import { getEnvelopeKeyframes, getEnvelopeValue } from './hapticEnvelope';
+import { PULSE_PERIOD } from './hapticProfileLibrary';
+
+// 马达能感知到的最短通电时间（毫秒），更短的脉冲会被马达惯性吞掉
+const MIN_PULSE = 10;
+
+// 浏览器接受的振动序列最大长度（Chrome上限为99段）
+const MAX_PATTERN_ENTRIES = 99;
+
+// 柔和模式的淡入淡出时长占总时长的比例
+const SOFT_FADE_RATIO = 0.3;
+
+// 各振动模式的占空比周期（毫秒）和最大占空比：尖锐用短周期保持干脆，柔和用长周期；脉冲模式每个周期只有前半段通电
+const PATTERN_PERIODS: Record<VibrationConfig['pattern'], { period: number; maxDuty: number }> = {
+  sharp: { period: 20, maxDuty: 1 },
+  medium: { period: 40, maxDuty: 1 },
+  soft: { period: 60, maxDuty: 1 },
+  pulse: { period: PULSE_PERIOD, maxDuty: 0.5 },
+  custom: { period: 40, maxDuty: 1 }
+};
+
+// 柔和模式没有包络时的淡入淡出形状
+const getSoftShape = (time: number, duration: number): number => {
+  const fade = duration * SOFT_FADE_RATIO;
+  if (fade <= 0) return 1;
+  return Math.min(1, time / fade, (duration - time) / fade);
+};
+
+const buildPatternWithPeriod = (config: VibrationConfig, intensity: number, period: number, maxDuty: number): number[] => {
+  const keyframes = config.envelope ? getEnvelopeKeyframes(config.envelope, config.duration) : null;
+  const pattern: number[] = [];
+  let pending = 0;
+  // 交替追加通电/断电时长，同类相邻段合并
+  const append = (on: boolean, time: number) => {
+    if (time <= 0) return;
+    const isOnSlot = pattern.length % 2 === 0;
+    if (isOnSlot === on) {
+      pattern.push(time);
+    } else if (pattern.length > 0) {
+      pattern[pattern.length - 1] += time;
+    } else {
+      // 序列必须以通电开始，开头的断电用0毫秒通电占位
+      pattern.push(0, time);
+    }
+  };
+
+  for (let start = 0; start < config.duration; start += period) {
+    const length = Math.min(period, config.duration - start);
+    const middle = start + length / 2;
+    const shape = keyframes
+      ? getEnvelopeValue(keyframes, middle)
+      : config.pattern === 'soft' ? getSoftShape(middle, config.duration) : 1;
+    const duty = Math.max(0, Math.min(1, intensity * shape)) * maxDuty;
+    // 不足最短脉冲的通电时间累积到后续周期，保持平均占空比不变
+    pending += length * duty;
+    const onTime = pending >= MIN_PULSE ? Math.min(length, Math.round(pending)) : 0;
+    pending -= onTime;
+    append(true, onTime);
+    append(false, length - onTime);
+  }
+
+  // 末尾的断电没有意义
+  if (pattern.length % 2 === 0) {
+    pattern.pop();
+  }
+  return pattern;
+};
+
+// 把振动配置转换为navigator.vibrate的通断序列（毫秒），没有需要通电的部分时返回空数组
+export const buildVibrationPattern = (config: VibrationConfig, intensityScale = 1): number[] => {
+  const intensity = Math.max(0, Math.min(1, config.intensity * intensityScale));
+  if (intensity <= 0 || config.duration <= 0) {
+    return [];
+  }
+  const { period, maxDuty } = PATTERN_PERIODS[config.pattern] || PATTERN_PERIODS.medium;
+
+  // 序列过长时加倍周期，牺牲强度层次换取完整时长
+  let pattern = buildPatternWithPeriod(config, intensity, period, maxDuty);
+  for (let scaledPeriod = period * 2; pattern.length > MAX_PATTERN_ENTRIES; scaledPeriod *= 2) {
+    pattern = buildPatternWithPeriod(config, intensity, scaledPeriod, maxDuty);
+  }
+  return pattern.some((time, index) => index % 2 === 0 && time > 0) ? pattern : [];
+};
+
+// 浏览器是否提供Vibration API（桌面浏览器通常有接口但没有马达）
+export const supportsVibrationApi = (): boolean => {
+  return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+};
+
+// 手机振动渲染器类
+export class VibrationApiRenderer {
+  private enabled = supportsVibrationApi();
+  private intensityScale = 1;
+
+  get supported(): boolean {
+    return supportsVibrationApi();
+  }
+
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled && this.supported;
+    if (!this.enabled) {
+      this.stop();
+    }
+  }
+
+  // 用户整体强度（交互设置中的hapticIntensity）
+  setIntensityScale(scale: number) {
+    this.intensityScale = Math.max(0, Math.min(1, scale));
+  }
+
+  // 播放触觉配置中的振动部分（手机无法表现温度），新的振动会取代正在播放的振动
+  render(profile: HapticProfile): boolean {
+    if (!this.enabled || !profile.vibration) {
+      return false;
+    }
+    const pattern = buildVibrationPattern(profile.vibration, this.intensityScale);
+    if (pattern.length === 0) {
+      return false;
+    }
+    // 页面尚未获得用户交互时浏览器会拒绝振动并返回false
+    return navigator.vibrate(pattern);
+  }
+
+  stop() {
+    if (this.supported) {
+      navigator.vibrate(0);
+    }
+  }
+}
+
+// 创建全局手机振动渲染器实例
+let globalVibrationRenderer: VibrationApiRenderer | null = null;
+
+export const createVibrationApiRenderer = (): VibrationApiRenderer => {
+  if (!globalVibrationRenderer) {
+    globalVibrationRenderer = new VibrationApiRenderer();
+  }
+  return globalVibrationRenderer;
+};
+
+export const getVibrationApiRenderer = (): VibrationApiRenderer | null => {
+  return globalVibrationRenderer;
+};
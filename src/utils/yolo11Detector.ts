@@ -1,40 +1,36 @@
 // YOLO11物体检测器
 import * as ort from 'onnxruntime-web';
-import type { DetectionResult, YOLOConfig } from '../types';
+import type { BoundingBox, DetectionResult, YOLOConfig, YOLOModelInfo } from '../types';
+import { getYOLODecoder } from './yoloDecoders';
+import type { YOLODecoder } from './yoloDecoders';
+import { LetterboxPreprocessor, projectBoxFromLetterbox } from './yoloLetterbox';
+import type { Letterbox } from './yoloLetterbox';
+import { DEFAULT_ASSET_BASE_URL, getOnnxRuntimeWasmPath } from './assetPaths';
+import {
+  COCO_CLASS_NAMES,
+  SUPPORTED_YOLO_TASKS,
+  describeFromOnnxMetadata,
+  parseLabelsFile,
+  readOnnxMetadata,
+  resolveYOLOModelInfo
+} from './yoloModelMetadata';
+import type { YOLOModelDescription } from './yoloModelMetadata';
 
 // YOLO11检测器类
 export class YOLO11Detector {
   private session: ort.InferenceSession | null = null;
   private config: YOLOConfig;
   private isInitialized = false;
-  private classNames: string[] = [];
+  private modelInfo: YOLOModelInfo | null = null;
+  private decoder: YOLODecoder | null = null;
+  private preprocessor = new LetterboxPreprocessor();
 
   constructor(config: YOLOConfig) {
     this.config = config;
-    this.initializeClassNames();
   }
 
-  // 初始化类别名称
-  private initializeClassNames() {
-    // COCO数据集的80个类别
-    this.classNames = [
-      'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck',
-      'boat', 'traffic light', 'fire hydrant', 'stop sign', 'parking meter', 'bench',
-      'bird', 'cat', 'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra',
-      'giraffe', 'backpack', 'umbrella', 'handbag', 'tie', 'suitcase', 'frisbee',
-      'skis', 'snowboard', 'sports ball', 'kite', 'baseball bat', 'baseball glove',
-      'skateboard', 'surfboard', 'tennis racket', 'bottle', 'wine glass', 'cup',
-      'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple', 'sandwich', 'orange',
-      'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair', 'couch',
-      'potted plant', 'bed', 'dining table', 'toilet', 'tv', 'laptop', 'mouse',
-      'remote', 'keyboard', 'cell phone', 'microwave', 'oven', 'toaster', 'sink',
-      'refrigerator', 'book', 'clock', 'vase', 'scissors', 'teddy bear', 'hair drier',
-      'toothbrush'
-    ];
-  }
-
-  // 初始化模型
-  async initialize(): Promise<boolean> {
+  // 初始化模型，ONNX Runtime的WASM文件从assetBaseUrl加载
+  async initialize(assetBaseUrl: string = DEFAULT_ASSET_BASE_URL): Promise<boolean> {
     try {
       console.log('🤖 开始初始化YOLO11检测器...');
       console.log('📋 配置参数:', {
@@ -45,31 +41,31 @@ export class YOLO11Detector {
         inputSize: this.config.inputSize
       });
       
-      // 首先检查模型文件是否存在
-      console.log('🔍 检查模型文件是否存在...');
+      // 下载模型文件，元数据和推理会话共用同一份数据
+      let modelData: Uint8Array;
       try {
-        const response = await fetch(this.config.modelUrl, { method: 'HEAD' });
-        console.log('📡 模型文件检查响应:', {
-          status: response.status,
-          statusText: response.statusText,
-          headers: Object.fromEntries(response.headers.entries())
-        });
-        
+        const response = await fetch(this.config.modelUrl);
         if (!response.ok) {
-          throw new Error(`模型文件不存在: ${this.config.modelUrl} (状态: ${response.status})`);
+          throw new Error(`状态: ${response.status}`);
         }
-        console.log('✅ 模型文件存在，继续加载...');
+        modelData = new Uint8Array(await response.arrayBuffer());
       } catch (fetchError) {
-        console.error('❌ 模型文件检查失败:', fetchError);
-        console.log('💡 提示: 请确保YOLO11模型文件存在于 public/models/ 目录下');
-        console.log('💡 或者在配置中使用有效的模型URL');
-        console.log('💡 当前模型路径:', this.config.modelUrl);
+        console.warn('⚠️ 模型文件下载失败，请确认模型存在于 public/models/ 或配置有效的模型URL:', this.config.modelUrl, fetchError);
         return false;
       }
       
+      // 读取类别名称、输入尺寸和任务类型
+      const labels = await this.loadLabels();
+      let metadata: YOLOModelDescription = {};
+      try {
+        metadata = describeFromOnnxMetadata(readOnnxMetadata(modelData));
+      } catch (metadataError) {
+        console.warn('⚠️ 读取ONNX元数据失败:', metadataError);
+      }
+      
       // 配置ONNX Runtime
       console.log('⚙️ 配置ONNX Runtime...');
-      ort.env.wasm.wasmPaths = 'https://cdn.jsdelivr.net/npm/onnxruntime-web@1.23.0/dist/';
+      ort.env.wasm.wasmPaths = getOnnxRuntimeWasmPath(assetBaseUrl);
       ort.env.wasm.numThreads = 1;
       ort.env.logLevel = 'warning'; // 减少日志输出
       console.log('✅ ONNX Runtime配置完成');
@@ -78,7 +74,7 @@ export class YOLO11Detector {
       console.log('📥 开始加载ONNX模型...');
       const startTime = performance.now();
       
-      this.session = await ort.InferenceSession.create(this.config.modelUrl, {
+      this.session = await ort.InferenceSession.create(modelData, {
         executionProviders: ['wasm'],
         graphOptimizationLevel: 'all'
       });
@@ -86,10 +82,22 @@ export class YOLO11Detector {
       const loadTime = performance.now() - startTime;
       console.log('✅ ONNX模型加载成功');
       console.log('⏱️ 模型加载耗时:', `${loadTime.toFixed(2)}ms`);
+      
+      const modelInfo = resolveYOLOModelInfo(this.config, labels, metadata, this.getSessionInputSize());
       console.log('📊 模型信息:', {
         inputNames: this.session.inputNames,
         outputNames: this.session.outputNames
       });
+      if (!SUPPORTED_YOLO_TASKS.includes(modelInfo.task)) {
+        throw new Error(`不支持的模型任务类型: ${modelInfo.task}，仅支持 ${SUPPORTED_YOLO_TASKS.join('/')}`);
+      }
+      if (modelInfo.source === 'default') {
+        console.warn('⚠️ 模型和标签文件都没有提供类别名称，使用COCO类别');
+      }
+      if (modelInfo.missingTargetClasses.length > 0) {
+        console.warn('⚠️ 模型不包含以下目标类别:', modelInfo.missingTargetClasses);
+      }
+      this.modelInfo = modelInfo;
       
       this.isInitialized = true;
       console.log('🎉 YOLO11检测器初始化完成！');
@@ -125,8 +133,39 @@ export class YOLO11Detector {
     }
   }
 
+  // 加载配置的标签文件，未配置或加载失败时返回null
+  private async loadLabels(): Promise<YOLOModelDescription | null> {
+    if (!this.config.labelsUrl) {
+      return null;
+    }
+    try {
+      const response = await fetch(this.config.labelsUrl);
+      if (!response.ok) {
+        throw new Error(`状态: ${response.status}`);
+      }
+      const labels = parseLabelsFile(await response.text());
+      if (!labels.classNames) {
+        throw new Error('文件中没有类别名称');
+      }
+      return labels;
+    } catch (error) {
+      console.warn('⚠️ 标签文件加载失败，改用模型元数据:', this.config.labelsUrl, error);
+      return null;
+    }
+  }
+
+  // 模型输入形状为固定的[1, 3, 尺寸, 尺寸]时返回尺寸
+  private getSessionInputSize(): number | null {
+    const input = this.session?.inputMetadata?.[0];
+    if (!input || !input.isTensor) {
+      return null;
+    }
+    const [, , height, width] = input.shape;
+    return typeof height === 'number' && height > 0 && height === width ? height : null;
+  }
+
   // 检测物体
-  async detect(imageData: ImageData): Promise<DetectionResult[]> {
+  async detect(imageData: ImageData | ImageBitmap): Promise<DetectionResult[]> {
     if (!this.isInitialized || !this.session) {
       throw new Error('YOLO11检测器未初始化');
     }
@@ -135,16 +174,15 @@ export class YOLO11Detector {
       // 预处理图像
       const preprocessed = this.preprocessImage(imageData);
       
-      // 运行推理
+      // 运行推理（输入输出名称因导出工具而异，取模型的第一个输入和输出）
       const results = await this.session.run({
-        images: preprocessed.tensor
+        [this.session.inputNames[0]]: preprocessed.tensor
       });
       
       // 后处理结果
       const detections = this.postprocessResults(
-        results.output0.data as Float32Array,
-        preprocessed.scaleX,
-        preprocessed.scaleY
+        results[this.session.outputNames[0]],
+        preprocessed.letterbox
       );
       
       return detections;
@@ -154,120 +192,67 @@ export class YOLO11Detector {
     }
   }
 
-  // 图像预处理
-  private preprocessImage(imageData: ImageData) {
-    const { width, height, data } = imageData;
-    const inputSize = this.config.inputSize;
-    
-    // 计算缩放比例
-    const scaleX = width / inputSize;
-    const scaleY = height / inputSize;
-    
-    // 创建canvas进行缩放
-    const canvas = document.createElement('canvas');
-    canvas.width = inputSize;
-    canvas.height = inputSize;
-    const ctx = canvas.getContext('2d')!;
-    
-    // 绘制并缩放图像
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = width;
-    tempCanvas.height = height;
-    const tempCtx = tempCanvas.getContext('2d')!;
-    tempCtx.putImageData(imageData, 0, 0);
-    
-    ctx.drawImage(tempCanvas, 0, 0, width, height, 0, 0, inputSize, inputSize);
-    
-    // 获取缩放后的图像数据
-    const scaledImageData = ctx.getImageData(0, 0, inputSize, inputSize);
-    const scaledData = scaledImageData.data;
-    
-    // 转换为模型输入格式 [1, 3, 640, 640]
-    const tensor = new Float32Array(1 * 3 * inputSize * inputSize);
-    
-    for (let i = 0; i < inputSize * inputSize; i++) {
-      const pixelIndex = i * 4;
-      const tensorIndex = i;
-      
-      // 归一化到 [0, 1] 并按 RGB 通道排列
-      tensor[tensorIndex] = scaledData[pixelIndex] / 255.0; // R
-      tensor[tensorIndex + inputSize * inputSize] = scaledData[pixelIndex + 1] / 255.0; // G
-      tensor[tensorIndex + 2 * inputSize * inputSize] = scaledData[pixelIndex + 2] / 255.0; // B
-    }
+  // 图像预处理：保持宽高比缩放并填充到正方形输入
+  private preprocessImage(imageData: ImageData | ImageBitmap) {
+    const inputSize = this.modelInfo?.inputSize ?? this.config.inputSize;
+    const { data, letterbox } = this.preprocessor.process(imageData, inputSize);
     
     return {
-      tensor: new ort.Tensor('float32', tensor, [1, 3, inputSize, inputSize]),
-      scaleX,
-      scaleY
+      tensor: new ort.Tensor('float32', data, [1, 3, inputSize, inputSize]),
+      letterbox
     };
   }
 
-  // 结果后处理
+  // 结果后处理：首次推理时按输出形状选择解码器
   private postprocessResults(
-    output: Float32Array,
-    scaleX: number,
-    scaleY: number
+    output: ort.Tensor,
+    letterbox: Letterbox
   ): DetectionResult[] {
-    const detections: DetectionResult[] = [];
-    const numDetections = output.length / 85; // YOLO11输出格式: [x, y, w, h, conf, ...classes]
-    
-    for (let i = 0; i < numDetections; i++) {
-      const offset = i * 85;
-      
-      // 提取边界框信息
-      const centerX = output[offset] * scaleX;
-      const centerY = output[offset + 1] * scaleY;
-      const width = output[offset + 2] * scaleX;
-      const height = output[offset + 3] * scaleY;
-      const confidence = output[offset + 4];
-      
-      // 过滤低置信度检测
-      if (confidence < this.config.confidenceThreshold) {
-        continue;
+    if (!this.decoder) {
+      this.decoder = getYOLODecoder(output.dims, this.getClassNames().length, this.config.outputFormat);
+      if (!this.decoder) {
+        console.error('❌ 无法识别的YOLO输出形状:', output.dims, '请在配置中指定outputFormat');
+        return [];
       }
-      
-      // 找到最高置信度的类别
-      let maxClassConfidence = 0;
-      let maxClassIndex = 0;
-      
-      for (let j = 0; j < 80; j++) {
-        const classConfidence = output[offset + 5 + j];
-        if (classConfidence > maxClassConfidence) {
-          maxClassConfidence = classConfidence;
-          maxClassIndex = j;
-        }
-      }
-      
-      const finalConfidence = confidence * maxClassConfidence;
-      
-      // 再次过滤
-      if (finalConfidence < this.config.confidenceThreshold) {
-        continue;
-      }
-      
-      const className = this.classNames[maxClassIndex];
+      console.log('🧩 YOLO输出格式:', this.decoder.format, '输出形状:', output.dims);
+    }
+
+    const classNames = this.getClassNames();
+    const candidates = this.decoder.decode(
+      output.data as Float32Array,
+      output.dims,
+      this.config.confidenceThreshold,
+      classNames.length
+    );
+    const timestamp = Date.now();
+    const detections: DetectionResult[] = [];
+
+    candidates.forEach((candidate, i) => {
+      const className = classNames[candidate.classIndex] ?? `class_${candidate.classIndex}`;
       
       // 只检测目标类别
       if (!this.config.targetClasses.includes(className)) {
-        continue;
+        return;
       }
       
-      // 转换为边界框格式
-      const x = centerX - width / 2;
-      const y = centerY - height / 2;
+      // 去掉填充并缩放回原图坐标
+      const bbox = projectBoxFromLetterbox(candidate.bbox, letterbox);
+      if (bbox.width <= 0 || bbox.height <= 0) {
+        return;
+      }
       
       detections.push({
-        id: `${className}_${Date.now()}_${i}`,
+        id: `${className}_${timestamp}_${i}`,
         class: className,
-        confidence: finalConfidence,
-        bbox: { x, y, width, height },
-        center: { x: centerX, y: centerY },
-        timestamp: Date.now()
+        confidence: candidate.confidence,
+        bbox,
+        center: { x: bbox.x + bbox.width / 2, y: bbox.y + bbox.height / 2 },
+        timestamp
       });
-    }
+    });
     
-    // 应用非极大值抑制
-    return this.applyNMS(detections);
+    // 模型未内置NMS时应用非极大值抑制
+    return this.decoder.nmsIncluded ? detections : this.applyNMS(detections);
   }
 
   // 非极大值抑制
@@ -300,7 +285,7 @@ export class YOLO11Detector {
   }
 
   // 计算IoU (Intersection over Union)
-  private calculateIoU(box1: any, box2: any): number {
+  private calculateIoU(box1: BoundingBox, box2: BoundingBox): number {
     const x1 = Math.max(box1.x, box2.x);
     const y1 = Math.max(box1.y, box2.y);
     const x2 = Math.min(box1.x + box1.width, box2.x + box2.width);
@@ -322,17 +307,36 @@ export class YOLO11Detector {
       this.session.release();
       this.session = null;
     }
+    this.decoder = null;
+    this.modelInfo = null;
+    this.preprocessor.dispose();
     this.isInitialized = false;
   }
 
+  private getClassNames(): string[] {
+    return this.modelInfo?.classNames ?? COCO_CLASS_NAMES;
+  }
+
   // 获取支持的类别
   getSupportedClasses(): string[] {
-    return [...this.classNames];
+    return [...this.getClassNames()];
+  }
+
+  // 获取模型信息（类别、输入尺寸、任务类型），初始化前为null
+  getModelInfo(): YOLOModelInfo | null {
+    return this.modelInfo ? { ...this.modelInfo, classNames: [...this.modelInfo.classNames] } : null;
   }
 
   // 更新配置
   updateConfig(config: Partial<YOLOConfig>) {
     this.config = { ...this.config, ...config };
+    // 目标类别变化后重新检查模型是否支持
+    if (this.modelInfo) {
+      const classNames = this.modelInfo.classNames;
+      this.modelInfo.missingTargetClasses = this.config.targetClasses.filter(name => !classNames.includes(name));
+    }
+    // 输出格式可能改变，下次推理时重新选择解码器
+    this.decoder = null;
   }
 
   // 检查是否已初始化
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { YOLO_DECODERS, detectOutputFormat, getYOLODecoder } from './yoloDecoders';
+
+const NUM_CLASSES = 80;
+
+// 按[通道, 锚点]布局写入一个锚点的所有通道
+const writeChannelMajor = (data: Float32Array, anchors: number, anchor: number, values: number[]) => {
+  values.forEach((value, channel) => {
+    data[channel * anchors + anchor] = value;
+  });
+};
+
+// 按[锚点, 通道]布局写入一个锚点的所有通道
+const writeAnchorMajor = (data: Float32Array, channels: number, anchor: number, values: number[]) => {
+  data.set(values, anchor * channels);
+};
+
+// 生成类别分数，只有指定类别有分数
+const classScores = (classIndex: number, score: number): number[] => {
+  const scores = new Array(NUM_CLASSES).fill(0);
+  scores[classIndex] = score;
+  return scores;
+};
+
+describe('detectOutputFormat', () => {
+  it('识别通道在前的YOLO11输出', () => {
+    expect(detectOutputFormat([1, 84, 8400])).toBe('yolo11');
+    expect(detectOutputFormat([1, 84, 8400], NUM_CLASSES)).toBe('yolo11');
+  });
+
+  it('识别带目标置信度的YOLOv5输出', () => {
+    expect(detectOutputFormat([1, 25200, 85])).toBe('yolov5');
+    expect(detectOutputFormat([1, 25200, 85], NUM_CLASSES)).toBe('yolov5');
+  });
+
+  it('识别模型内置NMS的端到端输出', () => {
+    expect(detectOutputFormat([1, 300, 6])).toBe('end2end');
+  });
+
+  it('类别数未知时按锚点数区分锚点在前的YOLO11和YOLOv5', () => {
+    expect(detectOutputFormat([1, 8400, 84])).toBe('yolo11');
+    expect(detectOutputFormat([1, 8400, 85])).toBe('yolo11');
+    expect(detectOutputFormat([1, 2100, 6 + 4])).toBe('yolo11');
+    expect(detectOutputFormat([1, 6300, 85])).toBe('yolov5');
+  });
+
+  it('类别数已知时按每行长度区分锚点在前的格式', () => {
+    expect(detectOutputFormat([1, 8400, 85], 81)).toBe('yolo11');
+    expect(detectOutputFormat([1, 8400, 85], NUM_CLASSES)).toBe('yolov5');
+  });
+
+  it('无法判断的形状返回null', () => {
+    expect(detectOutputFormat([1, 1000, 85])).toBeNull();
+    expect(detectOutputFormat([1, 4, 8400])).toBeNull();
+    expect(detectOutputFormat([2, 84, 8400])).toBeNull();
+  });
+});
+
+describe('YOLO11解码器', () => {
+  it('解码通道在前的输出', () => {
+    const anchors = 8400;
+    const data = new Float32Array(84 * anchors);
+    writeChannelMajor(data, anchors, 1234, [320, 240, 100, 50, ...classScores(41, 0.9)]);
+    writeChannelMajor(data, anchors, 5000, [10, 10, 4, 4, ...classScores(2, 0.2)]);
+
+    const decoder = getYOLODecoder([1, 84, anchors], NUM_CLASSES);
+    expect(decoder?.format).toBe('yolo11');
+    expect(decoder?.nmsIncluded).toBe(false);
+
+    const candidates = decoder!.decode(data, [1, 84, anchors], 0.5, NUM_CLASSES);
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].classIndex).toBe(41);
+    expect(candidates[0].confidence).toBeCloseTo(0.9);
+    expect(candidates[0].bbox).toEqual({ x: 270, y: 215, width: 100, height: 50 });
+  });
+
+  it('解码锚点在前的输出', () => {
+    const anchors = 8400;
+    const data = new Float32Array(anchors * 84);
+    writeAnchorMajor(data, 84, 7, [64, 64, 32, 16, ...classScores(0, 0.75)]);
+
+    const decoder = getYOLODecoder([1, anchors, 84]);
+    expect(decoder?.format).toBe('yolo11');
+
+    const candidates = decoder!.decode(data, [1, anchors, 84], 0.5);
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].classIndex).toBe(0);
+    expect(candidates[0].confidence).toBeCloseTo(0.75);
+    expect(candidates[0].bbox).toEqual({ x: 48, y: 56, width: 32, height: 16 });
+  });
+
+  it('只读取类别数对应的通道', () => {
+    const anchors = 8400;
+    const channels = 4 + NUM_CLASSES + 32; // 分割模型的掩码系数在类别之后
+    const data = new Float32Array(channels * anchors);
+    const maskCoefficients = new Array(32).fill(5);
+    writeChannelMajor(data, anchors, 0, [100, 100, 20, 20, ...classScores(3, 0.6), ...maskCoefficients]);
+
+    const candidates = YOLO_DECODERS.yolo11.decode(data, [1, channels, anchors], 0.5, NUM_CLASSES);
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].classIndex).toBe(3);
+    expect(candidates[0].confidence).toBeCloseTo(0.6);
+  });
+});
+
+describe('YOLOv5解码器', () => {
+  it('最终置信度为目标置信度与类别分数的乘积', () => {
+    const anchors = 25200;
+    const data = new Float32Array(anchors * 85);
+    writeAnchorMajor(data, 85, 20000, [200, 300, 40, 60, 0.8, ...classScores(67, 0.9)]);
+    writeAnchorMajor(data, 85, 100, [50, 50, 10, 10, 0.9, ...classScores(1, 0.3)]);
+    writeAnchorMajor(data, 85, 200, [50, 50, 10, 10, 0.1, ...classScores(1, 1)]);
+
+    const decoder = getYOLODecoder([1, anchors, 85], NUM_CLASSES);
+    expect(decoder?.format).toBe('yolov5');
+    expect(decoder?.nmsIncluded).toBe(false);
+
+    const candidates = decoder!.decode(data, [1, anchors, 85], 0.5, NUM_CLASSES);
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].classIndex).toBe(67);
+    expect(candidates[0].confidence).toBeCloseTo(0.72);
+    expect(candidates[0].bbox).toEqual({ x: 180, y: 270, width: 40, height: 60 });
+  });
+});
+
+describe('端到端解码器', () => {
+  it('解码左上右下坐标并跳过空位', () => {
+    const data = new Float32Array(300 * 6);
+    data.set([100, 120, 180, 220, 0.88, 39], 0);
+    data.set([0, 0, 10, 10, 0.3, 5], 6);
+
+    const decoder = getYOLODecoder([1, 300, 6]);
+    expect(decoder?.format).toBe('end2end');
+    expect(decoder?.nmsIncluded).toBe(true);
+
+    const candidates = decoder!.decode(data, [1, 300, 6], 0.5);
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].classIndex).toBe(39);
+    expect(candidates[0].confidence).toBeCloseTo(0.88);
+    expect(candidates[0].bbox).toEqual({ x: 100, y: 120, width: 80, height: 100 });
+  });
+
+  it('配置指定的格式优先于形状识别', () => {
+    expect(getYOLODecoder([1, 8400, 84], undefined, 'yolov5')?.format).toBe('yolov5');
+  });
+});
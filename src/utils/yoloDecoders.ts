@@ -0,0 +1,215 @@
+// YOLO输出解码 - 按输出张量形状选择解码器，把不同导出格式的模型输出统一为候选框
+import type { BoundingBox, YOLOOutputFormat } from '../types';
+
+// 模型内置NMS时的最大检测数上限，超过时认为是未做NMS的原始锚点输出
+const MAX_END2END_DETECTIONS = 1000;
+
+// 模型内置NMS的每行格式: [x1, y1, x2, y2, score, classId]
+const END2END_ROW_SIZE = 6;
+
+// 解码得到的候选框，坐标为模型输入图像的像素坐标
+export interface YOLOCandidate {
+  classIndex: number;
+  confidence: number;
+  bbox: BoundingBox;
+}
+
+// 输出解码器
+export interface YOLODecoder {
+  format: YOLOOutputFormat;
+  nmsIncluded: boolean; // 模型已做过NMS时不再重复抑制
+  // numClasses已知时只读取对应数量的类别通道，分割、姿态模型之后的掩码系数和关键点被忽略
+  decode(data: Float32Array, dims: readonly number[], confidenceThreshold: number, numClasses?: number): YOLOCandidate[];
+}
+
+// 把[1, a, b]或[a, b]统一为二维
+const getMatrixShape = (dims: readonly number[]): [number, number] | null => {
+  const shape = dims.length === 3 && dims[0] === 1 ? dims.slice(1) : dims;
+  if (shape.length !== 2 || shape.some(size => !Number.isInteger(size) || size <= 0)) {
+    return null;
+  }
+  return [shape[0], shape[1]];
+};
+
+// 按行列读取输出：通道在前（[通道, 锚点]）或锚点在前（[锚点, 通道]）
+const createReader = (data: Float32Array, dims: readonly number[], channelMajor: boolean) => {
+  const [rows, columns] = getMatrixShape(dims)!;
+  const anchors = channelMajor ? columns : rows;
+  const channels = channelMajor ? rows : columns;
+  const read = channelMajor
+    ? (anchor: number, channel: number) => data[channel * anchors + anchor]
+    : (anchor: number, channel: number) => data[anchor * channels + channel];
+  return { anchors, channels, read };
+};
+
+// 类别通道的结束位置（不含）
+const getClassEnd = (channels: number, firstChannel: number, numClasses?: number): number =>
+  numClasses ? Math.min(channels, firstChannel + numClasses) : channels;
+
+// 找到分数最高的类别
+const findBestClass = (
+  read: (anchor: number, channel: number) => number,
+  anchor: number,
+  firstChannel: number,
+  classEnd: number
+): { classIndex: number; score: number } => {
+  let classIndex = 0;
+  let score = -Infinity;
+  for (let channel = firstChannel; channel < classEnd; channel++) {
+    const value = read(anchor, channel);
+    if (value > score) {
+      score = value;
+      classIndex = channel - firstChannel;
+    }
+  }
+  return { classIndex, score };
+};
+
+// 中心点宽高转换为左上角宽高
+const fromCenter = (centerX: number, centerY: number, width: number, height: number): BoundingBox => ({
+  x: centerX - width / 2,
+  y: centerY - height / 2,
+  width,
+  height
+});
+
+// YOLO11（及YOLOv8）无锚框输出: [cx, cy, w, h, 类别分数...]，没有目标置信度，通常为通道在前
+const yolo11Decoder: YOLODecoder = {
+  format: 'yolo11',
+  nmsIncluded: false,
+  decode(data, dims, confidenceThreshold, numClasses) {
+    const [rows, columns] = getMatrixShape(dims)!;
+    const { anchors, channels, read } = createReader(data, dims, rows < columns);
+    const classEnd = getClassEnd(channels, 4, numClasses);
+    const candidates: YOLOCandidate[] = [];
+
+    for (let anchor = 0; anchor < anchors; anchor++) {
+      const { classIndex, score } = findBestClass(read, anchor, 4, classEnd);
+      if (score < confidenceThreshold) {
+        continue;
+      }
+      candidates.push({
+        classIndex,
+        confidence: score,
+        bbox: fromCenter(read(anchor, 0), read(anchor, 1), read(anchor, 2), read(anchor, 3))
+      });
+    }
+    return candidates;
+  }
+};
+
+// YOLOv5风格输出: [cx, cy, w, h, 目标置信度, 类别分数...]，锚点在前，最终置信度为两者乘积
+const yolov5Decoder: YOLODecoder = {
+  format: 'yolov5',
+  nmsIncluded: false,
+  decode(data, dims, confidenceThreshold, numClasses) {
+    const [rows, columns] = getMatrixShape(dims)!;
+    const { anchors, channels, read } = createReader(data, dims, rows < columns);
+    const classEnd = getClassEnd(channels, 5, numClasses);
+    const candidates: YOLOCandidate[] = [];
+
+    for (let anchor = 0; anchor < anchors; anchor++) {
+      const objectness = read(anchor, 4);
+      if (objectness < confidenceThreshold) {
+        continue;
+      }
+      const { classIndex, score } = findBestClass(read, anchor, 5, classEnd);
+      const confidence = objectness * score;
+      if (confidence < confidenceThreshold) {
+        continue;
+      }
+      candidates.push({
+        classIndex,
+        confidence,
+        bbox: fromCenter(read(anchor, 0), read(anchor, 1), read(anchor, 2), read(anchor, 3))
+      });
+    }
+    return candidates;
+  }
+};
+
+// 模型内置NMS的端到端输出: [x1, y1, x2, y2, score, classId]，空位的分数为0
+const end2endDecoder: YOLODecoder = {
+  format: 'end2end',
+  nmsIncluded: true,
+  decode(data, dims, confidenceThreshold) {
+    const [rows, columns] = getMatrixShape(dims)!;
+    const candidates: YOLOCandidate[] = [];
+    if (columns < END2END_ROW_SIZE) {
+      return candidates;
+    }
+
+    for (let row = 0; row < rows; row++) {
+      const offset = row * columns;
+      const confidence = data[offset + 4];
+      if (confidence < confidenceThreshold) {
+        continue;
+      }
+      const x1 = data[offset];
+      const y1 = data[offset + 1];
+      candidates.push({
+        classIndex: Math.round(data[offset + 5]),
+        confidence,
+        bbox: { x: x1, y: y1, width: data[offset + 2] - x1, height: data[offset + 3] - y1 }
+      });
+    }
+    return candidates;
+  }
+};
+
+export const YOLO_DECODERS: Record<YOLOOutputFormat, YOLODecoder> = {
+  yolo11: yolo11Decoder,
+  yolov5: yolov5Decoder,
+  end2end: end2endDecoder
+};
+
+// 锚点数是否为 anchorsPerCell·n²（n为输入边长/32）
+const isSquareGridCount = (anchors: number, anchorsPerCell: number): boolean => {
+  if (anchors % anchorsPerCell !== 0) {
+    return false;
+  }
+  const side = Math.round(Math.sqrt(anchors / anchorsPerCell));
+  return side * side === anchors / anchorsPerCell;
+};
+
+// 由输出张量形状识别输出格式，无法识别时返回null
+// numClasses已知时用每行长度区分锚点在前的yolo11（4+类别数）和yolov5（5+类别数）
+export const detectOutputFormat = (dims: readonly number[], numClasses?: number): YOLOOutputFormat | null => {
+  const shape = getMatrixShape(dims);
+  if (!shape) {
+    return null;
+  }
+  const [rows, columns] = shape;
+
+  if (columns === END2END_ROW_SIZE && rows <= MAX_END2END_DETECTIONS) {
+    return 'end2end';
+  }
+  // 通道数远少于锚点数，通道在前只出现在YOLOv8/YOLO11导出中
+  if (rows < columns) {
+    return rows > 4 ? 'yolo11' : null;
+  }
+  if (numClasses !== undefined) {
+    if (columns === numClasses + 4) return 'yolo11';
+    if (columns === numClasses + 5) return 'yolov5';
+  }
+  // 类别数未知时按锚点数区分：正方形输入下步长8/16/32的网格共21·n²个位置，
+  // 无锚框的yolo11每个位置一个锚点，yolov5每个位置三个锚点（如640输入为8400和25200）
+  if (columns > 5) {
+    if (isSquareGridCount(rows, 21)) return 'yolo11';
+    if (isSquareGridCount(rows, 63)) return 'yolov5';
+  }
+  return null;
+};
+
+// 选择解码器：配置指定的格式优先，否则按形状识别
+export const getYOLODecoder = (
+  dims: readonly number[],
+  numClasses?: number,
+  preferred?: YOLOOutputFormat
+): YOLODecoder | null => {
+  if (!getMatrixShape(dims)) {
+    return null;
+  }
+  const format = preferred || detectOutputFormat(dims, numClasses);
+  return format ? YOLO_DECODERS[format] : null;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { computeLetterbox, projectBoxFromLetterbox } from './yoloLetterbox';
+
+describe('computeLetterbox', () => {
+  it('横向画面按宽度缩放，上下填充', () => {
+    expect(computeLetterbox(1280, 720, 640)).toEqual({
+      scale: 0.5,
+      padX: 0,
+      padY: 140,
+      sourceWidth: 1280,
+      sourceHeight: 720
+    });
+  });
+
+  it('纵向画面按高度缩放，左右填充', () => {
+    const letterbox = computeLetterbox(480, 640, 640);
+    expect(letterbox.scale).toBe(1);
+    expect(letterbox.padX).toBe(80);
+    expect(letterbox.padY).toBe(0);
+  });
+
+  it('奇数像素的填充时顶部少一像素', () => {
+    // 缩放后高479，共161像素填充，顶部80、底部81
+    const letterbox = computeLetterbox(641, 480, 640);
+    expect(Math.round(480 * letterbox.scale)).toBe(479);
+    expect(letterbox.padY).toBe(80);
+  });
+
+  it('小于输入尺寸的画面放大', () => {
+    const letterbox = computeLetterbox(320, 240, 640);
+    expect(letterbox.scale).toBe(2);
+    expect(letterbox.padY).toBe(80);
+  });
+});
+
+describe('projectBoxFromLetterbox', () => {
+  it('去掉填充并按缩放比例映射回原图', () => {
+    const letterbox = computeLetterbox(1280, 720, 640);
+    expect(projectBoxFromLetterbox({ x: 100, y: 180, width: 200, height: 100 }, letterbox)).toEqual({
+      x: 200,
+      y: 80,
+      width: 400,
+      height: 200
+    });
+  });
+
+  it('伸入填充区域的部分裁剪到原图范围内', () => {
+    const letterbox = computeLetterbox(1280, 720, 640);
+    expect(projectBoxFromLetterbox({ x: 600, y: 100, width: 100, height: 100 }, letterbox)).toEqual({
+      x: 1200,
+      y: 0,
+      width: 80,
+      height: 120
+    });
+  });
+});
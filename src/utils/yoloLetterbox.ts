@@ -0,0 +1,143 @@
+// YOLO输入预处理 - 保持宽高比缩放并填充到正方形（letterbox），与Ultralytics参考流程一致
+import type { BoundingBox } from '../types';
+
+// 填充颜色（灰色114，与Ultralytics训练时一致）
+const LETTERBOX_PAD_VALUE = 114;
+
+// 缩放和填充参数，用于把检测框映射回原图
+export interface Letterbox {
+  scale: number; // 原图到模型输入的缩放比例
+  padX: number; // 左侧填充（模型输入像素）
+  padY: number; // 顶部填充（模型输入像素）
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+// 预处理结果：[1, 3, inputSize, inputSize]的RGB张量数据，缓冲区在帧间复用
+export interface PreprocessedFrame {
+  data: Float32Array;
+  letterbox: Letterbox;
+}
+
+// 计算letterbox参数，填充平均分到两侧（奇数像素时右侧和底部多一像素）
+export const computeLetterbox = (sourceWidth: number, sourceHeight: number, inputSize: number): Letterbox => {
+  const scale = Math.min(inputSize / sourceWidth, inputSize / sourceHeight);
+  const resizedWidth = Math.round(sourceWidth * scale);
+  const resizedHeight = Math.round(sourceHeight * scale);
+  return {
+    scale,
+    padX: Math.max(0, Math.round((inputSize - resizedWidth) / 2 - 0.1)),
+    padY: Math.max(0, Math.round((inputSize - resizedHeight) / 2 - 0.1)),
+    sourceWidth,
+    sourceHeight
+  };
+};
+
+// 把模型输入坐标系中的检测框映射回原图，并裁剪到原图范围内
+export const projectBoxFromLetterbox = (bbox: BoundingBox, letterbox: Letterbox): BoundingBox => {
+  const { scale, padX, padY, sourceWidth, sourceHeight } = letterbox;
+  const x1 = Math.max(0, Math.min(sourceWidth, (bbox.x - padX) / scale));
+  const y1 = Math.max(0, Math.min(sourceHeight, (bbox.y - padY) / scale));
+  const x2 = Math.max(0, Math.min(sourceWidth, (bbox.x + bbox.width - padX) / scale));
+  const y2 = Math.max(0, Math.min(sourceHeight, (bbox.y + bbox.height - padY) / scale));
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+};
+
+type Canvas2D = OffscreenCanvas | HTMLCanvasElement;
+type Canvas2DContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+// 优先使用OffscreenCanvas（也可在Worker中使用）
+const createCanvas = (width: number, height: number): Canvas2D => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const getContext = (canvas: Canvas2D): Canvas2DContext => {
+  const context = canvas.getContext('2d', { willReadFrequently: true }) as Canvas2DContext | null;
+  if (!context) {
+    throw new Error('无法创建2D画布上下文');
+  }
+  return context;
+};
+
+// letterbox预处理器，画布和张量缓冲区在帧间复用，只在尺寸变化时重新分配
+export class LetterboxPreprocessor {
+  private sourceCanvas: Canvas2D | null = null;
+  private sourceContext: Canvas2DContext | null = null;
+  private inputCanvas: Canvas2D | null = null;
+  private inputContext: Canvas2DContext | null = null;
+  private tensorData: Float32Array | null = null;
+  private inputSize = 0;
+
+  // 输入可以是ImageData或ImageBitmap（Worker中由主线程转移过来的帧）
+  process(source: ImageData | ImageBitmap, inputSize: number): PreprocessedFrame {
+    const { width, height } = source;
+    this.ensureBuffers(inputSize);
+    const inputContext = this.inputContext!;
+    const data = this.tensorData!;
+
+    const letterbox = computeLetterbox(width, height, inputSize);
+    const resizedWidth = Math.round(width * letterbox.scale);
+    const resizedHeight = Math.round(height * letterbox.scale);
+
+    let image: CanvasImageSource;
+    if (source instanceof ImageData) {
+      this.ensureSourceCanvas(width, height);
+      this.sourceContext!.putImageData(source, 0, 0);
+      image = this.sourceCanvas!;
+    } else {
+      image = source;
+    }
+    inputContext.fillStyle = `rgb(${LETTERBOX_PAD_VALUE}, ${LETTERBOX_PAD_VALUE}, ${LETTERBOX_PAD_VALUE})`;
+    inputContext.fillRect(0, 0, inputSize, inputSize);
+    inputContext.drawImage(
+      image,
+      0, 0, width, height,
+      letterbox.padX, letterbox.padY, resizedWidth, resizedHeight
+    );
+
+    // 转换为模型输入格式 [1, 3, inputSize, inputSize]，归一化到 [0, 1]
+    const pixels = inputContext.getImageData(0, 0, inputSize, inputSize).data;
+    const planeSize = inputSize * inputSize;
+    for (let i = 0; i < planeSize; i++) {
+      const pixelIndex = i * 4;
+      data[i] = pixels[pixelIndex] / 255; // R
+      data[i + planeSize] = pixels[pixelIndex + 1] / 255; // G
+      data[i + 2 * planeSize] = pixels[pixelIndex + 2] / 255; // B
+    }
+
+    return { data, letterbox };
+  }
+
+  private ensureBuffers(inputSize: number) {
+    if (!this.inputCanvas || this.inputSize !== inputSize) {
+      this.inputCanvas = createCanvas(inputSize, inputSize);
+      this.inputContext = getContext(this.inputCanvas);
+      this.tensorData = new Float32Array(3 * inputSize * inputSize);
+      this.inputSize = inputSize;
+    }
+  }
+
+  // 源画布只用于ImageData输入，尺寸变化时重新分配
+  private ensureSourceCanvas(width: number, height: number) {
+    if (!this.sourceCanvas || this.sourceCanvas.width !== width || this.sourceCanvas.height !== height) {
+      this.sourceCanvas = createCanvas(width, height);
+      this.sourceContext = getContext(this.sourceCanvas);
+    }
+  }
+
+  // 释放画布和缓冲区
+  dispose() {
+    this.sourceCanvas = null;
+    this.sourceContext = null;
+    this.inputCanvas = null;
+    this.inputContext = null;
+    this.tensorData = null;
+    this.inputSize = 0;
+  }
+}
@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  COCO_CLASS_NAMES,
+  describeFromOnnxMetadata,
+  parseImageSize,
+  parseLabelsFile,
+  parseUltralyticsNames,
+  readOnnxMetadata,
+  resolveYOLOModelInfo
+} from './yoloModelMetadata';
+import type { YOLOConfig } from '../types';
+
+const encoder = new TextEncoder();
+
+// 编码protobuf长度分隔字段（标签、变长长度、内容）
+const lengthDelimited = (field: number, body: Uint8Array): Uint8Array => {
+  const header = [field * 8 + 2];
+  let length = body.length;
+  while (length >= 128) {
+    header.push((length & 0x7f) | 0x80);
+    length >>= 7;
+  }
+  header.push(length);
+  return new Uint8Array([...header, ...body]);
+};
+
+// metadata_props中的一个键值对（StringStringEntryProto）
+const metadataEntry = (key: string, value: string) =>
+  lengthDelimited(14, new Uint8Array([...lengthDelimited(1, encoder.encode(key)), ...lengthDelimited(2, encoder.encode(value))]));
+
+// 最小的ModelProto：ir_version（变长整数）、超过128字节的计算图和元数据
+const buildModel = (entries: Record<string, string>): ArrayBuffer => {
+  const graph = lengthDelimited(7, new Uint8Array(300).fill(1));
+  const metadata = Object.entries(entries).flatMap(([key, value]) => [...metadataEntry(key, value)]);
+  return new Uint8Array([8, 8, ...graph, ...metadata]).buffer;
+};
+
+const CONFIG: YOLOConfig = {
+  modelUrl: '/models/yolo11n.onnx',
+  confidenceThreshold: 0.5,
+  nmsThreshold: 0.45,
+  targetClasses: ['person', 'foam block'],
+  inputSize: 640
+};
+
+describe('readOnnxMetadata', () => {
+  it('跳过计算图读取metadata_props', () => {
+    const metadata = readOnnxMetadata(buildModel({ names: "{0: 'foam block'}", imgsz: '[320, 320]', task: 'segment' }));
+    expect(metadata).toEqual({ names: "{0: 'foam block'}", imgsz: '[320, 320]', task: 'segment' });
+  });
+
+  it('没有元数据时返回空对象，文件截断时抛出异常', () => {
+    const model = new Uint8Array(buildModel({}));
+    expect(readOnnxMetadata(model)).toEqual({});
+    expect(() => readOnnxMetadata(model.subarray(0, 3))).toThrow('ONNX文件不完整');
+  });
+
+  it('元数据转换为模型描述', () => {
+    const metadata = readOnnxMetadata(buildModel({ names: "{0: 'a', 1: \"b\"}", imgsz: '[416, 416]', task: 'pose' }));
+    expect(describeFromOnnxMetadata(metadata)).toEqual({ classNames: ['a', 'b'], inputSize: 416, task: 'pose' });
+    expect(describeFromOnnxMetadata({ task: 'unknown' })).toEqual({ classNames: undefined, inputSize: undefined, task: undefined });
+  });
+});
+
+describe('parseUltralyticsNames', () => {
+  it('解析Python字典字面量，支持两种引号和转义', () => {
+    expect(parseUltralyticsNames("{0: 'person', 1: \"hair drier\", 2: 'men\\'s shoe'}")).toEqual([
+      'person',
+      'hair drier',
+      "men's shoe"
+    ]);
+  });
+
+  it('索引不连续或为空时返回null', () => {
+    expect(parseUltralyticsNames("{0: 'a', 2: 'c'}")).toBeNull();
+    expect(parseUltralyticsNames('{}')).toBeNull();
+  });
+});
+
+describe('parseImageSize', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('支持字符串、数组和数字', () => {
+    expect(parseImageSize('[640, 640]')).toBe(640);
+    expect(parseImageSize('320')).toBe(320);
+    expect(parseImageSize([416, 416])).toBe(416);
+    expect(parseImageSize(512)).toBe(512);
+  });
+
+  it('非正方形或无效值返回null', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseImageSize('[640, 480]')).toBeNull();
+    expect(parseImageSize('')).toBeNull();
+    expect(parseImageSize(0)).toBeNull();
+    expect(parseImageSize(null)).toBeNull();
+  });
+});
+
+describe('parseLabelsFile', () => {
+  it('JSON数组', () => {
+    expect(parseLabelsFile('["cup", "bottle"]')).toEqual({ classNames: ['cup', 'bottle'] });
+  });
+
+  it('带names、imgsz和task的JSON对象', () => {
+    expect(parseLabelsFile('{"names": {"0": "x", "1": "y"}, "imgsz": [320, 320], "task": "detect"}')).toEqual({
+      classNames: ['x', 'y'],
+      inputSize: 320,
+      task: 'detect'
+    });
+  });
+
+  it('以索引为键的JSON对象', () => {
+    expect(parseLabelsFile('{"1": "q", "0": "p"}')).toEqual({ classNames: ['p', 'q'] });
+  });
+
+  it('每行一个类别的文本，跳过空行和注释', () => {
+    expect(parseLabelsFile('# 自定义类别\nfoam block\n\r\nmetal cylinder\r\n')).toEqual({
+      classNames: ['foam block', 'metal cylinder']
+    });
+    expect(parseLabelsFile('# 只有注释\n')).toEqual({ classNames: undefined });
+  });
+});
+
+describe('resolveYOLOModelInfo', () => {
+  it('标签文件优先于模型元数据', () => {
+    const info = resolveYOLOModelInfo(CONFIG, { classNames: ['foam block'] }, { classNames: ['person'], inputSize: 320 }, 640);
+    expect(info).toEqual({
+      classNames: ['foam block'],
+      inputSize: 320,
+      task: 'detect',
+      source: 'labels',
+      missingTargetClasses: ['person']
+    });
+  });
+
+  it('都没有类别时使用COCO类别，输入尺寸依次取模型输入形状和配置', () => {
+    const fromSession = resolveYOLOModelInfo(CONFIG, null, {}, 416);
+    expect(fromSession.source).toBe('default');
+    expect(fromSession.classNames).toEqual(COCO_CLASS_NAMES);
+    expect(fromSession.inputSize).toBe(416);
+    expect(fromSession.missingTargetClasses).toEqual(['foam block']);
+
+    expect(resolveYOLOModelInfo(CONFIG, null, {}, null).inputSize).toBe(CONFIG.inputSize);
+  });
+});
@@ -0,0 +1,212 @@
+// YOLO模型元数据 - 从ONNX文件的metadata_props或标签文件读取类别名称、输入尺寸和任务类型
+import type { YOLOConfig, YOLOModelInfo, YOLOTask } from '../types';
+
+// COCO数据集的80个类别（模型和标签文件都没有提供类别时使用）
+export const COCO_CLASS_NAMES = [
+  'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck',
+  'boat', 'traffic light', 'fire hydrant', 'stop sign', 'parking meter', 'bench',
+  'bird', 'cat', 'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra',
+  'giraffe', 'backpack', 'umbrella', 'handbag', 'tie', 'suitcase', 'frisbee',
+  'skis', 'snowboard', 'sports ball', 'kite', 'baseball bat', 'baseball glove',
+  'skateboard', 'surfboard', 'tennis racket', 'bottle', 'wine glass', 'cup',
+  'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple', 'sandwich', 'orange',
+  'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair', 'couch',
+  'potted plant', 'bed', 'dining table', 'toilet', 'tv', 'laptop', 'mouse',
+  'remote', 'keyboard', 'cell phone', 'microwave', 'oven', 'toaster', 'sink',
+  'refrigerator', 'book', 'clock', 'vase', 'scissors', 'teddy bear', 'hair drier',
+  'toothbrush'
+];
+
+// 只解码检测框的任务：分割和姿态模型的输出前部与检测模型相同，其后的掩码系数和关键点被忽略
+export const SUPPORTED_YOLO_TASKS: YOLOTask[] = ['detect', 'segment', 'pose'];
+
+const YOLO_TASKS: YOLOTask[] = ['detect', 'segment', 'pose', 'classify', 'obb'];
+
+// ModelProto中metadata_props的字段号（onnx.proto）
+const MODEL_METADATA_FIELD = 14;
+
+// 标签文件或元数据中解析出的模型描述，缺失的字段为undefined
+export interface YOLOModelDescription {
+  classNames?: string[];
+  inputSize?: number;
+  task?: YOLOTask;
+}
+
+// 读取protobuf变长整数，返回值和下一个字节的位置
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  let multiplier = 1;
+  let position = offset;
+  while (position < bytes.length) {
+    const byte = bytes[position++];
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      return [value, position];
+    }
+    multiplier *= 128;
+  }
+  throw new Error('ONNX文件不完整');
+};
+
+// 遍历一层protobuf消息的字段，只对长度分隔字段回调，其余按线型跳过
+const forEachLengthDelimited = (
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  callback: (field: number, valueStart: number, valueEnd: number) => void
+) => {
+  let position = start;
+  while (position < end) {
+    const [tag, afterTag] = readVarint(bytes, position);
+    const field = Math.floor(tag / 8);
+    const wireType = tag % 8;
+    position = afterTag;
+    switch (wireType) {
+      case 0:
+        position = readVarint(bytes, position)[1];
+        break;
+      case 1:
+        position += 8;
+        break;
+      case 2: {
+        const [length, valueStart] = readVarint(bytes, position);
+        position = valueStart + length;
+        callback(field, valueStart, Math.min(position, end));
+        break;
+      }
+      case 5:
+        position += 4;
+        break;
+      default:
+        throw new Error(`不支持的protobuf线型 ${wireType}`);
+    }
+  }
+};
+
+// 读取ONNX模型的metadata_props键值对（计算图按长度整体跳过，不解析）
+export const readOnnxMetadata = (model: ArrayBuffer | Uint8Array): Record<string, string> => {
+  const bytes = model instanceof Uint8Array ? model : new Uint8Array(model);
+  const decoder = new TextDecoder();
+  const metadata: Record<string, string> = {};
+
+  forEachLengthDelimited(bytes, 0, bytes.length, (field, start, end) => {
+    if (field !== MODEL_METADATA_FIELD) {
+      return;
+    }
+    let key = '';
+    let value = '';
+    forEachLengthDelimited(bytes, start, end, (entryField, valueStart, valueEnd) => {
+      const text = decoder.decode(bytes.subarray(valueStart, valueEnd));
+      if (entryField === 1) key = text;
+      if (entryField === 2) value = text;
+    });
+    if (key) {
+      metadata[key] = value;
+    }
+  });
+  return metadata;
+};
+
+// 按索引整理类别名称，索引不连续时返回null
+const namesFromIndexMap = (entries: [number, string][]): string[] | null => {
+  if (entries.length === 0) {
+    return null;
+  }
+  const names: string[] = [];
+  entries.forEach(([index, name]) => {
+    names[index] = name;
+  });
+  return names.length === entries.length && names.every(name => typeof name === 'string') ? names : null;
+};
+
+// 解析Ultralytics导出的names，格式为Python字典字面量，如 {0: 'person', 1: 'bicycle'}
+export const parseUltralyticsNames = (value: string): string[] | null => {
+  const entries: [number, string][] = [];
+  const pattern = /(\d+)\s*:\s*(?:'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    const name = (match[2] ?? match[3]).replace(/\\(.)/g, '$1');
+    entries.push([Number(match[1]), name]);
+  }
+  return namesFromIndexMap(entries);
+};
+
+// 解析输入尺寸，如 "[640, 640]"、"640" 或 [640, 640]；只支持正方形输入
+export const parseImageSize = (value: unknown): number | null => {
+  const sizes = typeof value === 'string'
+    ? (value.match(/\d+/g) || []).map(Number)
+    : Array.isArray(value) ? value.map(Number) : typeof value === 'number' ? [value] : [];
+  if (sizes.length === 0 || sizes.some(size => !Number.isInteger(size) || size <= 0)) {
+    return null;
+  }
+  if (sizes.some(size => size !== sizes[0])) {
+    console.warn('⚠️ 模型输入不是正方形，暂不支持:', value);
+    return null;
+  }
+  return sizes[0];
+};
+
+const parseTask = (value: unknown): YOLOTask | undefined =>
+  YOLO_TASKS.includes(value as YOLOTask) ? value as YOLOTask : undefined;
+
+// 由ONNX元数据（Ultralytics导出时写入names、imgsz、task）生成模型描述
+export const describeFromOnnxMetadata = (metadata: Record<string, string>): YOLOModelDescription => ({
+  classNames: metadata.names ? parseUltralyticsNames(metadata.names) ?? undefined : undefined,
+  inputSize: metadata.imgsz ? parseImageSize(metadata.imgsz) ?? undefined : undefined,
+  task: parseTask(metadata.task)
+});
+
+// 解析标签文件：JSON数组、JSON对象（{names, imgsz, task}或{"0": "名称"}），或每行一个类别的文本（#开头为注释）
+export const parseLabelsFile = (text: string): YOLOModelDescription => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    const classNames = text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line !== '' && !line.startsWith('#'));
+    return { classNames: classNames.length > 0 ? classNames : undefined };
+  }
+
+  const parseNames = (value: unknown): string[] | undefined => {
+    if (Array.isArray(value)) {
+      return value.length > 0 && value.every(name => typeof name === 'string') ? value : undefined;
+    }
+    if (typeof value === 'object' && value !== null) {
+      const entries = Object.entries(value)
+        .filter(([index, name]) => /^\d+$/.test(index) && typeof name === 'string')
+        .map(([index, name]) => [Number(index), name] as [number, string]);
+      return namesFromIndexMap(entries) ?? undefined;
+    }
+    return undefined;
+  };
+
+  if (typeof data === 'object' && data !== null && !Array.isArray(data) && 'names' in data) {
+    const description = data as { names: unknown; imgsz?: unknown; task?: unknown };
+    return {
+      classNames: parseNames(description.names),
+      inputSize: description.imgsz !== undefined ? parseImageSize(description.imgsz) ?? undefined : undefined,
+      task: parseTask(description.task)
+    };
+  }
+  return { classNames: parseNames(data) };
+};
+
+// 合并各来源的模型描述：标签文件优先，其次模型元数据，最后是模型输入形状和配置
+export const resolveYOLOModelInfo = (
+  config: YOLOConfig,
+  labels: YOLOModelDescription | null,
+  metadata: YOLOModelDescription,
+  sessionInputSize: number | null
+): YOLOModelInfo => {
+  const source: YOLOModelInfo['source'] = labels?.classNames ? 'labels' : metadata.classNames ? 'metadata' : 'default';
+  const classNames = labels?.classNames || metadata.classNames || COCO_CLASS_NAMES;
+  return {
+    classNames: [...classNames],
+    inputSize: labels?.inputSize || metadata.inputSize || sessionInputSize || config.inputSize,
+    task: labels?.task || metadata.task || 'detect',
+    source,
+    missingTargetClasses: config.targetClasses.filter(name => !classNames.includes(name))
+  };
+};
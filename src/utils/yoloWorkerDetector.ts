@@ -0,0 +1,199 @@
+// YOLO11 Worker检测器 - 在专用Worker中运行推理，主线程只负责转移视频帧和接收结果
+import type { DetectionResult, EventCallback, YOLOConfig, YOLOModelInfo } from '../types';
+
+// 主线程发往Worker的消息，检测请求带上所属的初始化请求编号，重新初始化后旧模型的结果被丢弃
+export type YOLOWorkerRequest =
+  | { type: 'init'; requestId: number; config: YOLOConfig; assetBaseUrl: string }
+  | { type: 'detect'; requestId: number; frameId: number; frame: ImageBitmap };
+
+// Worker发回主线程的消息
+export type YOLOWorkerResponse =
+  | { type: 'ready'; requestId: number; success: boolean; model: YOLOModelInfo | null }
+  | { type: 'result'; requestId: number; frameId: number; detections: DetectionResult[]; inferenceTime: number }
+  | { type: 'error'; requestId?: number; frameId?: number; message: string };
+
+// 检测结果事件
+export interface WorkerDetectionEvent {
+  frameId: number;
+  detections: DetectionResult[];
+  inferenceTime: number; // Worker内预处理、推理和后处理耗时（毫秒）
+}
+
+// Worker检测器类：同一时间只有一帧在推理，忙碌时直接丢弃新帧，调用方从不等待推理结果
+export class YOLOWorkerDetector {
+  private worker: Worker | null = null;
+  private isInitialized = false;
+  private isBusy = false;
+  private frameId = 0;
+  private initRequestId = 0;
+  private droppedFrames = 0;
+  private modelInfo: YOLOModelInfo | null = null;
+  private pendingInit: ((success: boolean) => void) | null = null;
+  private eventListeners: Map<string, EventCallback[]> = new Map();
+
+  constructor() {
+    this.eventListeners.set('detections', []);
+    this.eventListeners.set('error', []);
+  }
+
+  // 添加事件监听器
+  addEventListener(event: string, callback: EventCallback) {
+    const listeners = this.eventListeners.get(event) || [];
+    listeners.push(callback);
+    this.eventListeners.set(event, listeners);
+  }
+
+  // 移除事件监听器
+  removeEventListener(event: string, callback: EventCallback) {
+    const listeners = this.eventListeners.get(event) || [];
+    const index = listeners.indexOf(callback);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  // 触发事件
+  private emit(event: string, data?: unknown) {
+    const listeners = this.eventListeners.get(event) || [];
+    listeners.forEach(callback => callback(data));
+  }
+
+  // 启动Worker并加载模型，返回是否成功
+  initialize(config: YOLOConfig, assetBaseUrl: string): Promise<boolean> {
+    if (typeof Worker === 'undefined') {
+      console.warn('浏览器不支持Web Worker，物体检测功能将被禁用');
+      return Promise.resolve(false);
+    }
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/yoloDetector.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<YOLOWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('YOLO Worker错误:', event.message);
+        this.isBusy = false;
+        this.emit('error', { type: 'worker', message: event.message });
+        this.pendingInit?.(false);
+        this.pendingInit = null;
+      };
+    }
+
+    // 重新初始化时取消之前未完成的初始化，在途帧的结果属于旧模型，不再等待
+    this.pendingInit?.(false);
+    this.isInitialized = false;
+    this.isBusy = false;
+    this.modelInfo = null;
+    const requestId = ++this.initRequestId;
+    return new Promise(resolve => {
+      this.pendingInit = resolve;
+      this.post({ type: 'init', requestId, config, assetBaseUrl });
+    });
+  }
+
+  // 提交一帧进行检测；Worker忙碌或未初始化时丢弃该帧并返回false
+  submit(source: HTMLCanvasElement | HTMLVideoElement | ImageBitmap): boolean {
+    if (!this.worker || !this.isInitialized || this.isBusy) {
+      if (this.isBusy) {
+        this.droppedFrames++;
+      }
+      return false;
+    }
+
+    this.isBusy = true;
+    const frameId = ++this.frameId;
+    const requestId = this.initRequestId;
+    createImageBitmap(source)
+      .then(frame => {
+        // 转换期间Worker已结束或重新初始化时丢弃该帧
+        if (!this.worker || requestId !== this.initRequestId) {
+          frame.close();
+          return;
+        }
+        // 转移位图所有权，避免复制帧数据
+        this.post({ type: 'detect', requestId, frameId, frame }, [frame]);
+      })
+      .catch(error => {
+        if (requestId === this.initRequestId) {
+          this.isBusy = false;
+        }
+        console.warn('视频帧转换失败:', error);
+      });
+    return true;
+  }
+
+  private handleMessage(message: YOLOWorkerResponse) {
+    switch (message.type) {
+      case 'ready':
+        // 忽略已被取代的初始化请求的响应
+        if (message.requestId !== this.initRequestId) {
+          break;
+        }
+        this.isInitialized = message.success;
+        this.modelInfo = message.model;
+        this.pendingInit?.(message.success);
+        this.pendingInit = null;
+        break;
+      case 'result': {
+        // 重新初始化之前提交的帧，结果来自旧模型
+        if (message.requestId !== this.initRequestId) {
+          break;
+        }
+        this.isBusy = false;
+        const result: WorkerDetectionEvent = {
+          frameId: message.frameId,
+          detections: message.detections,
+          inferenceTime: message.inferenceTime
+        };
+        this.emit('detections', result);
+        break;
+      }
+      case 'error':
+        if (message.requestId !== undefined && message.requestId !== this.initRequestId) {
+          break;
+        }
+        if (message.frameId !== undefined) {
+          this.isBusy = false;
+        }
+        console.error('YOLO Worker检测失败:', message.message);
+        this.emit('error', { type: 'detection', message: message.message });
+        break;
+    }
+  }
+
+  private post(message: YOLOWorkerRequest, transfer: Transferable[] = []) {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  // 结束Worker，推理会话和在途帧随Worker一起释放
+  dispose() {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.pendingInit?.(false);
+    this.pendingInit = null;
+    this.isInitialized = false;
+    this.isBusy = false;
+  }
+
+  // 获取支持的类别
+  getSupportedClasses(): string[] {
+    return this.modelInfo ? [...this.modelInfo.classNames] : [];
+  }
+
+  // 获取模型信息（类别、输入尺寸、任务类型），初始化成功前为null
+  getModelInfo(): YOLOModelInfo | null {
+    return this.modelInfo;
+  }
+
+  get initialized(): boolean {
+    return this.isInitialized;
+  }
+
+  get busy(): boolean {
+    return this.isBusy;
+  }
+
+  // Worker忙碌时丢弃的帧数
+  get dropped(): number {
+    return this.droppedFrames;
+  }
+}
@@ -1 +1,5 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_ASSET_BASE_URL?: string; // 第三方运行时资源地址，默认为 /vendor/
+}
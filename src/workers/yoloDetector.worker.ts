@@ -0,0 +1,84 @@
+// YOLO11推理Worker - 在主线程之外加载模型和运行检测，每次只处理一帧
+import { YOLO11Detector } from '../utils/yolo11Detector';
+import type { YOLOWorkerRequest, YOLOWorkerResponse } from '../utils/yoloWorkerDetector';
+
+// 工程只引入了DOM类型库，这里只声明用到的Worker全局接口
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<YOLOWorkerRequest>) => void) | null;
+  postMessage(message: YOLOWorkerResponse): void;
+};
+
+let detector: YOLO11Detector | null = null;
+let runningDetection: Promise<void> | null = null; // 正在进行的检测，释放模型前需等待其结束
+
+// 重新初始化时等待在途检测结束后再释放当前模型，避免旧帧的推理运行在已释放的会话上
+const disposeDetector = async () => {
+  const current = detector;
+  detector = null;
+  await runningDetection;
+  current?.dispose();
+};
+
+const handleInit = async (request: Extract<YOLOWorkerRequest, { type: 'init' }>) => {
+  await disposeDetector();
+  const next = new YOLO11Detector(request.config);
+  detector = next;
+  const success = await next.initialize(request.assetBaseUrl);
+  workerScope.postMessage({
+    type: 'ready',
+    requestId: request.requestId,
+    success,
+    model: success ? next.getModelInfo() : null
+  });
+};
+
+const handleDetect = async (request: Extract<YOLOWorkerRequest, { type: 'detect' }>) => {
+  const { requestId, frameId, frame } = request;
+  try {
+    if (!detector || !detector.initialized) {
+      throw new Error('YOLO11检测器未初始化');
+    }
+    const startTime = performance.now();
+    const detections = await detector.detect(frame);
+    workerScope.postMessage({
+      type: 'result',
+      requestId,
+      frameId,
+      detections,
+      inferenceTime: performance.now() - startTime
+    });
+  } catch (error) {
+    workerScope.postMessage({
+      type: 'error',
+      requestId,
+      frameId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  } finally {
+    frame.close();
+  }
+};
+
+workerScope.onmessage = (event) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init':
+      handleInit(request).catch(error => {
+        console.error('YOLO Worker初始化失败:', error);
+        workerScope.postMessage({ type: 'ready', requestId: request.requestId, success: false, model: null });
+      });
+      break;
+    case 'detect': {
+      const detection = handleDetect(request).catch(error => {
+        console.error('YOLO Worker检测失败:', error);
+      });
+      runningDetection = detection;
+      detection.then(() => {
+        if (runningDetection === detection) {
+          runningDetection = null;
+        }
+      });
+      break;
+    }
+  }
+};
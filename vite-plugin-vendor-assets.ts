@@ -0,0 +1,86 @@
+// 本地化第三方运行时资源：把ONNX Runtime的WASM和MediaPipe Hands的模型文件从node_modules
+// 复制到构建产物的 /vendor/ 目录，开发时由Vite直接提供，离线或内网环境无需访问CDN
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+interface VendorAssetSource {
+  target: string; // /vendor/ 下的子目录
+  dir: string; // node_modules 中的源目录
+  include: (file: string) => boolean;
+}
+
+const VENDOR_PREFIX = 'vendor';
+
+const VENDOR_SOURCES: VendorAssetSource[] = [
+  {
+    // onnxruntime-web 默认导出的 ort.bundle.min.mjs 只加载JSEP版本的WASM
+    target: 'onnxruntime-web',
+    dir: 'node_modules/onnxruntime-web/dist',
+    include: (file) => /^ort-wasm-simd-threaded\.jsep\.(wasm|mjs)$/.test(file)
+  },
+  {
+    target: 'mediapipe/hands',
+    dir: 'node_modules/@mediapipe/hands',
+    include: (file) => !/\.(md|json|d\.ts)$/.test(file)
+  }
+];
+
+const MIME_TYPES: Record<string, string> = {
+  '.wasm': 'application/wasm',
+  '.mjs': 'text/javascript',
+  '.js': 'text/javascript',
+  '.data': 'application/octet-stream',
+  '.tflite': 'application/octet-stream',
+  '.binarypb': 'application/octet-stream'
+};
+
+// 列出所有需要复制的文件：发布路径 -> 本地路径
+const collectVendorFiles = (root: string): Map<string, string> => {
+  const files = new Map<string, string>();
+  VENDOR_SOURCES.forEach(source => {
+    const dir = path.resolve(root, source.dir);
+    if (!fs.existsSync(dir)) {
+      console.warn(`[vendor-assets] 未找到 ${source.dir}，跳过`);
+      return;
+    }
+    fs.readdirSync(dir)
+      .filter(file => source.include(file) && fs.statSync(path.join(dir, file)).isFile())
+      .forEach(file => files.set(`${VENDOR_PREFIX}/${source.target}/${file}`, path.join(dir, file)));
+  });
+  return files;
+};
+
+export const vendorAssets = (): Plugin => {
+  let root = process.cwd();
+
+  return {
+    name: 'vendor-assets',
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    // 开发服务器直接从node_modules提供 /vendor/ 下的文件
+    configureServer(server) {
+      const files = collectVendorFiles(root);
+      server.middlewares.use((req, res, next) => {
+        const url = (req.url || '').split('?')[0];
+        const file = files.get(url.replace(/^\//, ''));
+        if (!file) {
+          next();
+          return;
+        }
+        res.setHeader('Content-Type', MIME_TYPES[path.extname(file)] || 'application/octet-stream');
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+
+    // 构建时作为静态资源输出（文件名不加哈希，运行时按固定路径加载）
+    generateBundle() {
+      collectVendorFiles(root).forEach((file, fileName) => {
+        this.emitFile({ type: 'asset', fileName, source: fs.readFileSync(file) });
+      });
+    }
+  };
+};
@@ -1,9 +1,10 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
+import { vendorAssets } from './vite-plugin-vendor-assets';
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), vendorAssets()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),